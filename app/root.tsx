@@ -9,6 +9,9 @@ import {
 
 import type { Route } from "./+types/root";
 import "./app.css";
+import { findCurrentUser } from "~/features/auth/require-user";
+import type { RootLoaderData } from "~/features/auth/hooks/use-can";
+import { permissionsOf } from "@domain/logic/permission-checker";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -23,6 +26,16 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+/**
+ * ログイン中のユーザーの権限（useCan で画面の表示を切り替える）
+ */
+export async function loader({
+  request,
+}: Route.LoaderArgs): Promise<RootLoaderData> {
+  const user = await findCurrentUser(request);
+  return { permissions: user ? permissionsOf(user) : [] };
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="ja">
@@ -55,7 +68,9 @@ export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
     details =
       error.status === 404
         ? "The requested page could not be found."
-        : error.statusText || details;
+        : error.status === 403
+          ? "この操作を行う権限がありません"
+          : error.statusText || details;
   } else if (import.meta.env.DEV && error && error instanceof Error) {
     details = error.message;
     stack = error.stack;
@@ -9,4 +9,61 @@ import {
 export default [
   index("../presentation/pages/dashboard-page.tsx"),
   route("login", "../presentation/pages/login-page.tsx"),
+  route("auth/callback", "../presentation/pages/auth/callback.ts"),
+  route("logout", "../presentation/pages/auth/logout.ts"),
+  route("scenarios", "../presentation/pages/scenario-list-page.tsx"),
+  route(
+    "scenarios/:scenarioId",
+    "../presentation/pages/scenario-detail-page.tsx",
+  ),
+  route("my-queue", "../presentation/pages/my-queue-page.tsx"),
+  route("test-runs/new", "../presentation/pages/test-run-creation-page.tsx"),
+  route("test-runs/:testRunId", "../presentation/pages/test-run-page.tsx"),
+  route(
+    "api/test-runs/stream",
+    "../presentation/pages/api/test-runs-stream.ts",
+  ),
+  route(
+    "api/test-runs/:testRunId/stream",
+    "../presentation/pages/api/test-run-stream.ts",
+  ),
+  route(
+    "api/test-runs/:testRunId/presence",
+    "../presentation/pages/api/test-run-presence.ts",
+  ),
+  route(
+    "api/projects/:projectId/releases/:releaseId/scope-proposal",
+    "../presentation/pages/api/release-scope-proposal.ts",
+  ),
+  route(
+    "api/projects/:projectId/releases/:releaseId/issues",
+    "../presentation/pages/api/release-issues.ts",
+  ),
+  route("issues/:identifier", "../presentation/pages/issue-page.tsx"),
+  route("projects", "../presentation/pages/project-list-page.tsx"),
+  route(
+    "projects/:projectId/settings",
+    "../presentation/pages/project-settings-page.tsx",
+  ),
+  route("settings/api-tokens", "../presentation/pages/api-token-page.tsx"),
+  ...prefix("api/v1", [
+    route("openapi.json", "../presentation/pages/api/v1/openapi.ts"),
+    route("projects", "../presentation/pages/api/v1/projects.ts"),
+    route("scenarios", "../presentation/pages/api/v1/scenarios.ts"),
+    route("scenarios/:scenarioId", "../presentation/pages/api/v1/scenario.ts"),
+    route("test-runs", "../presentation/pages/api/v1/test-runs.ts"),
+    route("test-runs/:testRunId", "../presentation/pages/api/v1/test-run.ts"),
+    route(
+      "test-runs/:testRunId/items",
+      "../presentation/pages/api/v1/test-run-items.ts",
+    ),
+    route(
+      "test-runs/:testRunId/items/:itemId/results",
+      "../presentation/pages/api/v1/test-run-item-results.ts",
+    ),
+    route(
+      "test-runs/:testRunId/automated-results",
+      "../presentation/pages/api/v1/test-run-automated-results.ts",
+    ),
+  ]),
 ] satisfies RouteConfig;
@@ -0,0 +1,55 @@
+import { Context, Effect } from "effect";
+import type {
+  ApiToken,
+  IssuedApiToken,
+  NewApiToken,
+} from "@domain/models/api-token";
+import type { DatabaseError } from "@shared/errors/database-error";
+import type { ApiTokenNotFoundError } from "@domain/errors/auth-errors";
+
+/**
+ * 個人用の API トークンのリポジトリのポート (インターフェース)
+ */
+export interface ApiTokenRepository {
+  /**
+   * API トークンを作成し、トークンを発行する
+   */
+  readonly create: (
+    apiToken: NewApiToken,
+  ) => Effect.Effect<IssuedApiToken, DatabaseError>;
+
+  /**
+   * トークンの API トークンを取得（見つからない場合は null）
+   */
+  readonly findByToken: (
+    token: string,
+  ) => Effect.Effect<ApiToken | null, DatabaseError>;
+
+  /**
+   * ユーザーの API トークンの一覧（失効したものを含む、新しい順）
+   */
+  readonly listByUser: (
+    userId: string,
+  ) => Effect.Effect<readonly ApiToken[], DatabaseError>;
+
+  /**
+   * ユーザーの API トークンを失効させる
+   */
+  readonly revoke: (
+    tokenId: string,
+    userId: string,
+    revokedAt: Date,
+  ) => Effect.Effect<void, ApiTokenNotFoundError | DatabaseError>;
+
+  /**
+   * API トークンの最終利用日時を記録する
+   */
+  readonly markUsed: (
+    tokenId: string,
+    usedAt: Date,
+  ) => Effect.Effect<void, DatabaseError>;
+}
+
+export const ApiTokenRepository = Context.GenericTag<ApiTokenRepository>(
+  "@repositories/ApiTokenRepository",
+);
@@ -0,0 +1,22 @@
+import { Context, Effect } from "effect";
+import type { AutomatedTestReport } from "@domain/models/automated-test";
+import type { InvalidAutomatedTestReportError } from "@domain/errors/automated-test-errors";
+import type { AutomatedTestReportFormat } from "~/lib/schemas/automated-test";
+
+/**
+ * 自動テストのレポート（JUnit XML・Playwright / Jest の JSON）を読み取るポート (インターフェース)
+ */
+export interface AutomatedTestReportParser {
+  /**
+   * レポートからテストケースの結果を読み取る（format を省略すると内容から判定する）
+   */
+  readonly parse: (
+    content: string,
+    format?: AutomatedTestReportFormat,
+  ) => Effect.Effect<AutomatedTestReport, InvalidAutomatedTestReportError>;
+}
+
+export const AutomatedTestReportParser =
+  Context.GenericTag<AutomatedTestReportParser>(
+    "@services/AutomatedTestReportParser",
+  );
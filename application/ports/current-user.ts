@@ -0,0 +1,7 @@
+import { Context } from "effect";
+import type { User } from "@domain/models/user";
+
+/**
+ * リクエストを実行しているユーザー
+ */
+export const CurrentUser = Context.GenericTag<User>("@services/CurrentUser");
@@ -0,0 +1,67 @@
+import { Context, Effect } from "effect";
+import type { TestRun } from "~/lib/schemas/test-run";
+import type {
+  ExecutionTrend,
+  ProjectStat,
+  RunStatusCounts,
+} from "@domain/models/dashboard";
+import type { DatabaseError } from "@shared/errors/database-error";
+
+/**
+ * ダッシュボード集計用リポジトリのポート (インターフェース)
+ *
+ * 集計はすべてデータベース側（SQL）で行う
+ */
+export interface DashboardRepository {
+  /**
+   * ステータス別のテストラン件数
+   */
+  readonly countRunsByStatus: () => Effect.Effect<
+    RunStatusCounts,
+    DatabaseError
+  >;
+
+  /**
+   * 指定期間内に開始したテストラン件数
+   */
+  readonly countRunsStartedBetween: (
+    from: Date,
+    to: Date,
+  ) => Effect.Effect<number, DatabaseError>;
+
+  /**
+   * 開始済みテストランの平均成功率（%）
+   */
+  readonly averageSuccessRate: () => Effect.Effect<number, DatabaseError>;
+
+  /**
+   * 指定日時以降に完了したテストランの日別件数（実行のない日は含まない）
+   */
+  readonly listDailyExecutions: (
+    since: Date,
+  ) => Effect.Effect<ReadonlyArray<ExecutionTrend>, DatabaseError>;
+
+  /**
+   * プロジェクト × 環境ごとの統計
+   */
+  readonly listProjectStats: () => Effect.Effect<
+    ReadonlyArray<ProjectStat>,
+    DatabaseError
+  >;
+
+  /**
+   * 実行中のテストラン
+   */
+  readonly listActiveRuns: () => Effect.Effect<TestRun[], DatabaseError>;
+
+  /**
+   * 開始日時の新しい順にテストランを取得
+   */
+  readonly listRecentRuns: (
+    limit: number,
+  ) => Effect.Effect<TestRun[], DatabaseError>;
+}
+
+export const DashboardRepository = Context.GenericTag<DashboardRepository>(
+  "@repositories/DashboardRepository",
+);
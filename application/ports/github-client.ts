@@ -0,0 +1,33 @@
+import { Context, Effect } from "effect";
+import type {
+  ChangedFile,
+  PullRequest,
+} from "@domain/models/release-detection";
+import type { GitHubError } from "@shared/errors/github-error";
+
+/**
+ * GitHub のクライアントのポート (インターフェース)
+ *
+ * repository は owner/name の形式
+ */
+export interface GitHubClient {
+  /**
+   * ラベルの付いたマージ済みの Pull Request（マージの新しい順）
+   */
+  readonly listMergedPullRequests: (
+    repository: string,
+    label: string,
+  ) => Effect.Effect<ReadonlyArray<PullRequest>, GitHubError>;
+
+  /**
+   * Pull Request の変更ファイル
+   */
+  readonly listChangedFiles: (
+    repository: string,
+    pullNumber: number,
+  ) => Effect.Effect<ReadonlyArray<ChangedFile>, GitHubError>;
+}
+
+export const GitHubClient = Context.GenericTag<GitHubClient>(
+  "@services/GitHubClient",
+);
@@ -0,0 +1,19 @@
+import { Context, Effect } from "effect";
+import type { LinearIssue } from "@domain/models/linear-issue";
+import type { LinearError } from "@shared/errors/linear-error";
+
+/**
+ * Linear のクライアントのポート (インターフェース)
+ */
+export interface LinearClient {
+  /**
+   * 識別子（例: MED-200）で Issue を取得（見つからない Issue は含めない）
+   */
+  readonly listIssues: (
+    identifiers: ReadonlyArray<string>,
+  ) => Effect.Effect<ReadonlyArray<LinearIssue>, LinearError>;
+}
+
+export const LinearClient = Context.GenericTag<LinearClient>(
+  "@services/LinearClient",
+);
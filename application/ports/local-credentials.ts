@@ -0,0 +1,24 @@
+import { Context, Effect } from "effect";
+import type { InvalidCredentialsError } from "@domain/errors/auth-errors";
+
+/**
+ * 開発用のローカル認証（ユーザー名とパスワード）のポート (インターフェース)
+ */
+export interface LocalCredentials {
+  /**
+   * ローカル認証が有効か（本番環境では常に無効）
+   */
+  readonly enabled: boolean;
+
+  /**
+   * ユーザー名とパスワードを確認し、ログインするユーザーのメールアドレスを返す
+   */
+  readonly verify: (
+    username: string,
+    password: string,
+  ) => Effect.Effect<string, InvalidCredentialsError>;
+}
+
+export const LocalCredentials = Context.GenericTag<LocalCredentials>(
+  "@services/LocalCredentials",
+);
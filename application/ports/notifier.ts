@@ -0,0 +1,14 @@
+import { Context, Effect } from "effect";
+import type { NotificationEvent } from "@domain/models/notification";
+import type { NotificationError } from "@shared/errors/notification-error";
+
+/**
+ * テストランの通知を送るポート (インターフェース)
+ */
+export interface Notifier {
+  readonly notify: (
+    event: NotificationEvent,
+  ) => Effect.Effect<void, NotificationError>;
+}
+
+export const Notifier = Context.GenericTag<Notifier>("@services/Notifier");
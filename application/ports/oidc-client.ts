@@ -0,0 +1,46 @@
+import { Context, Effect } from "effect";
+import type {
+  OidcCallbackParams,
+  OidcIdentity,
+  PendingOidcLogin,
+} from "@domain/models/auth";
+import type { OidcLoginError } from "@domain/errors/auth-errors";
+
+/**
+ * OIDC の認可サーバー（Authorization Code + PKCE）のポート (インターフェース)
+ */
+export interface OidcClient {
+  /**
+   * 認可サーバーが設定されているか（未設定の場合はログイン画面に表示しない）
+   */
+  readonly configured: boolean;
+
+  /**
+   * 認可リクエストを作る（pending はコールバックまでブラウザに保存してもらう）
+   */
+  readonly beginLogin: (
+    returnTo: string,
+  ) => Effect.Effect<
+    { authorizationUrl: string; pending: PendingOidcLogin },
+    OidcLoginError
+  >;
+
+  /**
+   * コールバックの state を照合し、認可コードをトークンに交換して ID トークンを検証する
+   */
+  readonly completeLogin: (
+    pending: PendingOidcLogin,
+    params: OidcCallbackParams,
+  ) => Effect.Effect<OidcIdentity, OidcLoginError>;
+
+  /**
+   * IdP からもログアウトする URL（IdP が対応していない場合は null）
+   */
+  readonly endSessionUrl: (
+    idToken: string | null,
+  ) => Effect.Effect<string | null>;
+}
+
+export const OidcClient = Context.GenericTag<OidcClient>(
+  "@services/OidcClient",
+);
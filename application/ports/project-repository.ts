@@ -0,0 +1,66 @@
+import { Context, Effect } from "effect";
+import type { CompletionPolicy } from "@domain/models/completion-policy";
+import type { ProjectSummary } from "@domain/models/project";
+import type { FolderOwners } from "~/lib/schemas/test-run";
+import type { ReleaseDetectionSettings } from "~/lib/schemas/release-detection";
+import type { ProjectNotFoundError } from "@domain/errors/project-errors";
+import type { DatabaseError } from "@shared/errors/database-error";
+
+/**
+ * プロジェクトリポジトリのポート (インターフェース)
+ */
+export interface ProjectRepository {
+  /**
+   * 有効なプロジェクトを環境・リリースとともに取得
+   */
+  readonly listActive: () => Effect.Effect<
+    ReadonlyArray<ProjectSummary>,
+    DatabaseError
+  >;
+
+  /**
+   * プロジェクトを環境・リリースとともに取得
+   */
+  readonly findById: (
+    projectId: string,
+  ) => Effect.Effect<ProjectSummary, ProjectNotFoundError | DatabaseError>;
+
+  /**
+   * プロジェクトの完了条件（テストランの既定値）を変更する（null で既定値に戻す）
+   * - 独自の完了条件を持たない実行中のテストランは新しい条件で評価し直す
+   */
+  readonly updateCompletionPolicy: (
+    projectId: string,
+    policy: CompletionPolicy | null,
+  ) => Effect.Effect<void, ProjectNotFoundError | DatabaseError>;
+
+  /**
+   * フォルダーの担当者を保存する（ルールによる振り分けで使う）
+   */
+  readonly updateFolderOwners: (
+    projectId: string,
+    owners: FolderOwners,
+  ) => Effect.Effect<void, ProjectNotFoundError | DatabaseError>;
+
+  /**
+   * リリース検出の設定を取得（未設定の場合は null）
+   */
+  readonly findReleaseDetection: (
+    projectId: string,
+  ) => Effect.Effect<
+    ReleaseDetectionSettings | null,
+    ProjectNotFoundError | DatabaseError
+  >;
+
+  /**
+   * リリース検出の設定を変更する（null で設定を外す）
+   */
+  readonly updateReleaseDetection: (
+    projectId: string,
+    settings: ReleaseDetectionSettings | null,
+  ) => Effect.Effect<void, ProjectNotFoundError | DatabaseError>;
+}
+
+export const ProjectRepository = Context.GenericTag<ProjectRepository>(
+  "@repositories/ProjectRepository",
+);
@@ -0,0 +1,145 @@
+import { Context, Effect } from "effect";
+import type {
+  CommitAuthor,
+  Scenario,
+  ScenarioEnvironment,
+  ScenarioVersion,
+  VersionedScenario,
+} from "@domain/models/scenario";
+import type {
+  InvalidScenarioFileError,
+  ScenarioAlreadyExistsError,
+  ScenarioConflictError,
+  ScenarioNotFoundError,
+} from "@domain/errors/scenario-errors";
+import type { GitError } from "@shared/errors/git-error";
+
+/**
+ * シナリオ一覧の絞り込み条件
+ */
+export interface ScenarioFilter {
+  project?: string;
+  environment?: ScenarioEnvironment;
+}
+
+/**
+ * シナリオリポジトリのポート (インターフェース)
+ *
+ * 変更はすべてコミットされ、その commit SHA がバージョンになる
+ */
+export interface ScenarioRepository {
+  /**
+   * シナリオ一覧を取得（アーカイブ済みは含まない）
+   */
+  readonly list: (
+    filter?: ScenarioFilter,
+  ) => Effect.Effect<
+    ReadonlyArray<VersionedScenario>,
+    InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * ID でシナリオを取得（アーカイブ済みは含まない）
+   */
+  readonly findById: (
+    scenarioId: string,
+  ) => Effect.Effect<
+    VersionedScenario,
+    ScenarioNotFoundError | InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * 指定した commit 時点のシナリオを取得
+   */
+  readonly findByIdAtVersion: (
+    scenarioId: string,
+    version: string,
+  ) => Effect.Effect<
+    VersionedScenario,
+    ScenarioNotFoundError | InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * アーカイブ済みのシナリオ一覧を取得
+   */
+  readonly listArchived: () => Effect.Effect<
+    ReadonlyArray<VersionedScenario>,
+    InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * ID でアーカイブ済みのシナリオを取得
+   */
+  readonly findArchivedById: (
+    scenarioId: string,
+  ) => Effect.Effect<
+    VersionedScenario,
+    ScenarioNotFoundError | InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * シナリオの版の履歴を新しい順に取得（移動前の配置での変更も含む）
+   */
+  readonly listVersions: (
+    scenarioId: string,
+  ) => Effect.Effect<
+    ReadonlyArray<ScenarioVersion>,
+    ScenarioNotFoundError | GitError
+  >;
+
+  /**
+   * シナリオを作成し、commit SHA を返す
+   */
+  readonly create: (
+    scenario: Scenario,
+    author: CommitAuthor,
+  ) => Effect.Effect<
+    string,
+    ScenarioAlreadyExistsError | InvalidScenarioFileError | GitError
+  >;
+
+  /**
+   * シナリオを更新し、commit SHA を返す（配置が変わった場合は移動する）
+   * - baseVersion が最新の版でなければ ScenarioConflictError
+   * - 版の確認とブランチの更新は同じ HEAD に対して行い、間に保存された変更を上書きしない
+   */
+  readonly update: (
+    scenario: Scenario,
+    author: CommitAuthor,
+    baseVersion: string,
+  ) => Effect.Effect<
+    string,
+    | ScenarioNotFoundError
+    | ScenarioConflictError
+    | InvalidScenarioFileError
+    | GitError
+  >;
+
+  /**
+   * シナリオを archived/ へ移動してアーカイブし、commit SHA を返す
+   */
+  readonly archive: (
+    scenarioId: string,
+    author: CommitAuthor,
+  ) => Effect.Effect<string, ScenarioNotFoundError | GitError>;
+
+  /**
+   * アーカイブ済みのシナリオを元の配置へ戻し、commit SHA を返す
+   */
+  readonly restore: (
+    scenarioId: string,
+    author: CommitAuthor,
+  ) => Effect.Effect<
+    string,
+    ScenarioNotFoundError | ScenarioAlreadyExistsError | GitError
+  >;
+
+  /**
+   * 現在の HEAD の commit SHA（未コミットのリポジトリでは null）
+   */
+  readonly getHeadVersion: () => Effect.Effect<string | null, GitError>;
+}
+
+export const ScenarioRepository = Context.GenericTag<ScenarioRepository>(
+  "@repositories/ScenarioRepository",
+);
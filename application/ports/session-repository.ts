@@ -0,0 +1,38 @@
+import { Context, Effect } from "effect";
+import type {
+  AuthSession,
+  IssuedAuthSession,
+  NewAuthSession,
+} from "@domain/models/auth";
+import type { DatabaseError } from "@shared/errors/database-error";
+
+/**
+ * ログインセッションのリポジトリのポート (インターフェース)
+ */
+export interface SessionRepository {
+  /**
+   * セッションを作成し、Cookie に保存するトークンを発行する
+   */
+  readonly create: (
+    session: NewAuthSession,
+  ) => Effect.Effect<IssuedAuthSession, DatabaseError>;
+
+  /**
+   * トークンのセッションを取得（見つからない場合は null）
+   */
+  readonly findByToken: (
+    token: string,
+  ) => Effect.Effect<AuthSession | null, DatabaseError>;
+
+  /**
+   * セッションを失効させる（ログアウト）
+   */
+  readonly revoke: (
+    sessionId: string,
+    revokedAt: Date,
+  ) => Effect.Effect<void, DatabaseError>;
+}
+
+export const SessionRepository = Context.GenericTag<SessionRepository>(
+  "@repositories/SessionRepository",
+);
@@ -0,0 +1,35 @@
+import { Context, Effect, Scope, Stream } from "effect";
+import type { TestRunEvent } from "~/lib/schemas/test-run-event";
+import type { TestRunStreamMessage } from "@domain/models/test-run-event";
+
+/**
+ * テストランの更新イベントを購読者に配信するポート (インターフェース)
+ */
+export interface TestRunEventHub {
+  /**
+   * イベントを配信する（購読者がいない場合は再送用に保持するだけ）
+   */
+  readonly publish: (event: TestRunEvent) => Effect.Effect<void>;
+
+  /**
+   * テストランのイベントを購読する（Scope を閉じるまで購読を続ける）
+   * - 購読は Effect の実行時に始まり、以降に配信されたイベントは Stream で受け取れる
+   * - lastEventId を渡すと、それより後に配信されたイベントを先に再送する
+   *   （再送できない場合は resync を送る）
+   */
+  readonly subscribe: (
+    testRunId: string,
+    lastEventId?: number,
+  ) => Effect.Effect<Stream.Stream<TestRunStreamMessage>, never, Scope.Scope>;
+
+  /**
+   * すべてのテストランのイベントを購読する（ダッシュボード向け）
+   */
+  readonly subscribeAll: (
+    lastEventId?: number,
+  ) => Effect.Effect<Stream.Stream<TestRunStreamMessage>, never, Scope.Scope>;
+}
+
+export const TestRunEventHub = Context.GenericTag<TestRunEventHub>(
+  "@services/TestRunEventHub",
+);
@@ -0,0 +1,35 @@
+import { Context, Effect } from "effect";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+import type { TestRunViewerNotFoundError } from "@domain/errors/test-run-errors";
+
+/**
+ * 実行画面を開いているユーザーを記録するポート (インターフェース)
+ *
+ * 同じ sessionId で複数回 join した場合（再接続の重なり）は、同じ回数 leave
+ * するまで残す。いずれの操作も変更後の全員を返す
+ */
+export interface TestRunPresence {
+  readonly join: (
+    testRunId: string,
+    viewer: TestRunViewer,
+  ) => Effect.Effect<ReadonlyArray<TestRunViewer>>;
+
+  readonly leave: (
+    testRunId: string,
+    sessionId: string,
+  ) => Effect.Effect<ReadonlyArray<TestRunViewer>>;
+
+  /**
+   * 実行中のテストケースを変更する（userId の接続でない場合は失敗する）
+   */
+  readonly focus: (
+    testRunId: string,
+    sessionId: string,
+    userId: string,
+    itemId: string | null,
+  ) => Effect.Effect<ReadonlyArray<TestRunViewer>, TestRunViewerNotFoundError>;
+}
+
+export const TestRunPresence = Context.GenericTag<TestRunPresence>(
+  "@services/TestRunPresence",
+);
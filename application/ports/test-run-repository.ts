@@ -0,0 +1,183 @@
+import { Context, Effect } from "effect";
+import type {
+  TestRun,
+  TestRunApproval,
+  TestRunItem,
+} from "~/lib/schemas/test-run";
+import type {
+  BlockResolutionInput,
+  ItemAssignment,
+  NewTestRun,
+  QueuedTestRunItem,
+  ScenarioSnapshotFields,
+  TestRunApprovalInput,
+  TestRunDetail,
+  TestRunItemResultInput,
+  TestRunListFilter,
+} from "@domain/models/test-run";
+import type {
+  TestRunItemNotFoundError,
+  TestRunNotFoundError,
+  TestRunStatusError,
+} from "@domain/errors/test-run-errors";
+import type { CompletionPolicy } from "@domain/models/completion-policy";
+import type { DatabaseError } from "@shared/errors/database-error";
+
+/**
+ * テストランリポジトリのポート (インターフェース)
+ */
+export interface TestRunRepository {
+  /**
+   * テストランとアイテムを1つのトランザクションで作成する
+   */
+  readonly create: (
+    testRun: NewTestRun,
+  ) => Effect.Effect<TestRun, DatabaseError>;
+
+  /**
+   * テストランの一覧を取得（アイテムは含まない）
+   */
+  readonly list: (
+    filter: TestRunListFilter,
+  ) => Effect.Effect<TestRun[], DatabaseError>;
+
+  /**
+   * Linear の Issue を参照するリリースのテストランとアイテムを取得（作成日時の新しい順）
+   */
+  readonly listByLinearRef: (
+    identifier: string,
+  ) => Effect.Effect<
+    Array<Pick<TestRunDetail, "run" | "items">>,
+    DatabaseError
+  >;
+
+  /**
+   * テストランとアイテムを取得
+   */
+  readonly findById: (
+    testRunId: string,
+  ) => Effect.Effect<TestRunDetail, TestRunNotFoundError | DatabaseError>;
+
+  /**
+   * テストランを取得（アイテムを含まない）
+   */
+  readonly findRun: (
+    testRunId: string,
+  ) => Effect.Effect<TestRun, TestRunNotFoundError | DatabaseError>;
+
+  /**
+   * アイテムを取得
+   */
+  readonly findItem: (
+    itemId: string,
+  ) => Effect.Effect<TestRunItem, TestRunItemNotFoundError | DatabaseError>;
+
+  /**
+   * アイテムが参照するシナリオの版と内容を置き換える
+   * （承認済みのテストランの場合は TestRunStatusError）
+   */
+  readonly updateItemScenario: (
+    itemId: string,
+    snapshot: ScenarioSnapshotFields,
+  ) => Effect.Effect<
+    TestRunItem,
+    TestRunItemNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * アイテムの実行履歴に結果を追記し、同じトランザクションでアイテムと
+   * テストランの進捗・ステータスを最新の結果に更新する
+   * （承認済みのテストランの場合は TestRunStatusError）
+   */
+  readonly recordItemResult: (
+    itemId: string,
+    result: TestRunItemResultInput,
+  ) => Effect.Effect<
+    TestRunItem,
+    TestRunItemNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * テストランの複数のアイテムに結果を 1 つのトランザクションで記録する
+   * （自動テストの取り込み用。進捗・ステータスは最後にまとめて更新する。
+   * 他のテストランのアイテムを含む場合は TestRunItemNotFoundError、
+   * 承認済みのテストランの場合は TestRunStatusError で、どの結果も記録しない）
+   */
+  readonly recordItemResults: (
+    testRunId: string,
+    results: ReadonlyArray<{ itemId: string; result: TestRunItemResultInput }>,
+  ) => Effect.Effect<
+    TestRunItem[],
+    TestRunItemNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * アイテムを再テスト待ちに戻す（resolution を渡した場合は最新の実行履歴に
+   * ブロックの解消内容を記録する。承認済みのテストランの場合は TestRunStatusError）
+   */
+  readonly reopenItem: (
+    itemId: string,
+    resolution?: BlockResolutionInput,
+  ) => Effect.Effect<
+    TestRunItem,
+    TestRunItemNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * テストランの完了条件を変更し、新しい条件でステータスを評価し直す
+   * （null でテストランの設定を外し、プロジェクトの設定に戻す。
+   * 承認済みのテストランの場合は TestRunStatusError）
+   */
+  readonly updateCompletionPolicy: (
+    testRunId: string,
+    policy: CompletionPolicy | null,
+  ) => Effect.Effect<
+    void,
+    TestRunNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * 承認ログに判断を追記し、同じトランザクションでテストランのステータスを
+   * 更新する（承認: completed、差し戻し: in_progress）
+   * 承認待ちかどうかも同じトランザクションで確かめ、承認待ちでなければ TestRunStatusError
+   */
+  readonly recordApproval: (
+    testRunId: string,
+    approval: TestRunApprovalInput,
+  ) => Effect.Effect<
+    TestRunApproval,
+    TestRunNotFoundError | TestRunStatusError | DatabaseError
+  >;
+
+  /**
+   * アイテムの担当者をまとめて変更する（テストランにないアイテムは無視する。
+   * 承認済みのテストランの場合は TestRunStatusError で、どの担当者も変更しない）
+   */
+  readonly assignItems: (
+    testRunId: string,
+    assignments: readonly ItemAssignment[],
+  ) => Effect.Effect<void, TestRunStatusError | DatabaseError>;
+
+  /**
+   * ユーザーが担当する未実行のアイテムを、進行中（計画中・実行中）のテストラン
+   * から期限の近い順に取得する
+   */
+  readonly listQueuedItems: (
+    assigneeId: string,
+  ) => Effect.Effect<ReadonlyArray<QueuedTestRunItem>, DatabaseError>;
+
+  /**
+   * アイテムの実行メモを保存する（承認済みのテストランの場合は TestRunStatusError）
+   */
+  readonly updateItemNotes: (
+    itemId: string,
+    notes: string,
+  ) => Effect.Effect<
+    TestRunItem,
+    TestRunItemNotFoundError | TestRunStatusError | DatabaseError
+  >;
+}
+
+export const TestRunRepository = Context.GenericTag<TestRunRepository>(
+  "@repositories/TestRunRepository",
+);
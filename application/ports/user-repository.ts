@@ -0,0 +1,53 @@
+import { Context, Effect } from "effect";
+import type { User } from "@domain/models/user";
+import type { NewUser } from "@domain/models/auth";
+import type { UserNotFoundError } from "@domain/errors/auth-errors";
+import type { DatabaseError } from "@shared/errors/database-error";
+
+/**
+ * ユーザーリポジトリのポート (インターフェース)
+ */
+export interface UserRepository {
+  /**
+   * メールアドレスでユーザー（ロールを含む）を取得
+   */
+  readonly findByEmail: (
+    email: string,
+  ) => Effect.Effect<User, UserNotFoundError | DatabaseError>;
+
+  /**
+   * ID でユーザー（ロールを含む）を取得（見つからない場合は null）
+   */
+  readonly findById: (
+    userId: string,
+  ) => Effect.Effect<User | null, DatabaseError>;
+
+  /**
+   * IdP 上の ID（sub）に紐づくユーザー（ロールを含む）を取得（見つからない場合は null）
+   */
+  readonly findByOidcSubject: (
+    subject: string,
+  ) => Effect.Effect<User | null, DatabaseError>;
+
+  /**
+   * 既存のユーザーを IdP 上の ID に紐づける
+   */
+  readonly linkOidcSubject: (
+    userId: string,
+    subject: string,
+  ) => Effect.Effect<User, DatabaseError>;
+
+  /**
+   * ユーザーを作成する（OIDC で初めてログインしたユーザー）
+   */
+  readonly create: (user: NewUser) => Effect.Effect<User, DatabaseError>;
+
+  /**
+   * 有効なユーザー（ロールを含む）を名前順に取得
+   */
+  readonly listActive: () => Effect.Effect<ReadonlyArray<User>, DatabaseError>;
+}
+
+export const UserRepository = Context.GenericTag<UserRepository>(
+  "@repositories/UserRepository",
+);
@@ -0,0 +1,120 @@
+import { Context, Effect } from "effect";
+import type {
+  IssuedWebhookSubscription,
+  NewWebhookDelivery,
+  NewWebhookSubscription,
+  WebhookAttemptResult,
+  WebhookDelivery,
+  WebhookDeliveryTarget,
+  WebhookSubscription,
+  WebhookSubscriptionChanges,
+} from "@domain/models/webhook";
+import type { DatabaseError } from "@shared/errors/database-error";
+import type {
+  WebhookDeliveryNotFoundError,
+  WebhookSubscriptionNotFoundError,
+} from "@domain/errors/webhook-errors";
+
+/**
+ * Webhook の購読と配信ログのリポジトリのポート (インターフェース)
+ */
+export interface WebhookRepository {
+  /**
+   * プロジェクトの購読の一覧（作成順）
+   */
+  readonly listByProject: (
+    projectId: string,
+  ) => Effect.Effect<readonly WebhookSubscription[], DatabaseError>;
+
+  /**
+   * 購読を取得
+   */
+  readonly findById: (
+    subscriptionId: string,
+  ) => Effect.Effect<
+    WebhookSubscription,
+    WebhookSubscriptionNotFoundError | DatabaseError
+  >;
+
+  /**
+   * 購読を作成し、署名のシークレットを発行する
+   */
+  readonly create: (
+    subscription: NewWebhookSubscription,
+  ) => Effect.Effect<IssuedWebhookSubscription, DatabaseError>;
+
+  /**
+   * 購読の送り先・イベント・有効かどうかを変更する
+   */
+  readonly update: (
+    subscriptionId: string,
+    changes: WebhookSubscriptionChanges,
+  ) => Effect.Effect<
+    WebhookSubscription,
+    WebhookSubscriptionNotFoundError | DatabaseError
+  >;
+
+  /**
+   * 署名のシークレットを再発行する（以前のシークレットは使えなくなる）
+   */
+  readonly rotateSecret: (
+    subscriptionId: string,
+  ) => Effect.Effect<
+    IssuedWebhookSubscription,
+    WebhookSubscriptionNotFoundError | DatabaseError
+  >;
+
+  /**
+   * 購読と配信ログを削除する
+   */
+  readonly remove: (
+    subscriptionId: string,
+  ) => Effect.Effect<void, WebhookSubscriptionNotFoundError | DatabaseError>;
+
+  /**
+   * 配信を作成する（送信前の状態）
+   */
+  readonly createDelivery: (
+    delivery: NewWebhookDelivery,
+  ) => Effect.Effect<WebhookDelivery, DatabaseError>;
+
+  /**
+   * 配信と送信に必要な購読・シークレットを取得
+   */
+  readonly findDeliveryTarget: (
+    deliveryId: string,
+  ) => Effect.Effect<
+    WebhookDeliveryTarget,
+    WebhookDeliveryNotFoundError | DatabaseError
+  >;
+
+  /**
+   * 送信の結果を記録する
+   */
+  readonly recordAttempt: (
+    deliveryId: string,
+    result: WebhookAttemptResult,
+  ) => Effect.Effect<WebhookDelivery, DatabaseError>;
+
+  /**
+   * 購読の最近の配信（新しい順）
+   */
+  readonly listDeliveries: (
+    subscriptionId: string,
+    limit: number,
+  ) => Effect.Effect<readonly WebhookDelivery[], DatabaseError>;
+
+  /**
+   * 再試行の時刻を過ぎた配信を leaseUntil まで予約し、予約できた配信の ID を返す
+   * （複数のワーカーが同じ配信を重ねて送らない）
+   */
+  readonly claimDueDeliveries: (
+    now: Date,
+    leaseUntil: Date,
+    limit: number,
+  ) => Effect.Effect<readonly string[], DatabaseError>;
+}
+
+export const WebhookRepository = Context.GenericTag<WebhookRepository>(
+  "@repositories/WebhookRepository",
+);
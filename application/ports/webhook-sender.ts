@@ -0,0 +1,29 @@
+import { Context, Effect } from "effect";
+import type { WebhookResponse } from "@domain/models/webhook";
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type { WebhookError } from "@shared/errors/webhook-error";
+
+/**
+ * 送信する Webhook（本文はシークレットで署名する）
+ */
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: NotificationEventType;
+  payload: string;
+}
+
+/**
+ * Webhook を送信するポート (インターフェース)
+ * 2xx 以外の応答も WebhookResponse で返し、接続できない場合だけ失敗する
+ */
+export interface WebhookSender {
+  readonly send: (
+    request: WebhookRequest,
+  ) => Effect.Effect<WebhookResponse, WebhookError>;
+}
+
+export const WebhookSender = Context.GenericTag<WebhookSender>(
+  "@services/WebhookSender",
+);
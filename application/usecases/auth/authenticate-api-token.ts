@@ -0,0 +1,34 @@
+import { Effect } from "effect";
+import { ApiTokenRepository } from "../../ports/api-token-repository";
+import { UserRepository } from "../../ports/user-repository";
+import { UnauthenticatedError } from "@domain/errors/auth-errors";
+import { isApiTokenActive } from "@domain/logic/api-token";
+
+/**
+ * Authorization ヘッダーの API トークンからユーザーとスコープを取得する usecase
+ * （使えたトークンは最終利用日時を記録する）
+ */
+export const authenticateApiToken = (token: string | null) =>
+  Effect.gen(function* () {
+    const apiTokens = yield* ApiTokenRepository;
+    const users = yield* UserRepository;
+    const unauthenticated = (message: string) =>
+      Effect.fail(new UnauthenticatedError({ message }));
+
+    if (!token) {
+      return yield* unauthenticated("API トークンを指定してください");
+    }
+    const apiToken = yield* apiTokens.findByToken(token);
+    const now = new Date();
+    if (!apiToken || !isApiTokenActive(apiToken, now)) {
+      return yield* unauthenticated(
+        "API トークンが無効か、有効期限が切れています",
+      );
+    }
+    const user = yield* users.findById(apiToken.userId);
+    if (!user || user.status !== "active") {
+      return yield* unauthenticated("このユーザーは API を利用できません");
+    }
+    yield* apiTokens.markUsed(apiToken.id, now);
+    return { user, scopes: apiToken.scopes };
+  });
@@ -0,0 +1,31 @@
+import { Effect } from "effect";
+import { SessionRepository } from "../../ports/session-repository";
+import { UserRepository } from "../../ports/user-repository";
+import { UnauthenticatedError } from "@domain/errors/auth-errors";
+import { isSessionActive } from "@domain/logic/auth-session";
+
+/**
+ * Cookie のトークンからログイン中のユーザーを取得する usecase
+ */
+export const authenticateSession = (token: string | null) =>
+  Effect.gen(function* () {
+    const sessions = yield* SessionRepository;
+    const users = yield* UserRepository;
+    const unauthenticated = (message: string) =>
+      Effect.fail(new UnauthenticatedError({ message }));
+
+    if (!token) {
+      return yield* unauthenticated("ログインしてください");
+    }
+    const session = yield* sessions.findByToken(token);
+    if (!session || !isSessionActive(session, new Date())) {
+      return yield* unauthenticated(
+        "セッションの有効期限が切れました。もう一度ログインしてください",
+      );
+    }
+    const user = yield* users.findById(session.userId);
+    if (!user || user.status !== "active") {
+      return yield* unauthenticated("このユーザーはログインできません");
+    }
+    return user;
+  });
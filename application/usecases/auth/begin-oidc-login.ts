@@ -0,0 +1,13 @@
+import { Effect } from "effect";
+import { OidcClient } from "../../ports/oidc-client";
+import { safeReturnTo } from "@domain/logic/auth-session";
+
+/**
+ * OIDC でのログインを始める usecase（認可サーバーへのリダイレクト先と、
+ * コールバックで照合する値を返す）
+ */
+export const beginOidcLogin = (returnTo: string | null) =>
+  Effect.gen(function* () {
+    const oidc = yield* OidcClient;
+    return yield* oidc.beginLogin(safeReturnTo(returnTo));
+  });
@@ -0,0 +1,64 @@
+import { Effect } from "effect";
+import { OidcClient } from "../../ports/oidc-client";
+import { UserRepository } from "../../ports/user-repository";
+import { startSession } from "./start-session";
+import { OidcLoginError } from "@domain/errors/auth-errors";
+import { PROVISIONED_USER_ROLES } from "@domain/logic/auth-session";
+import type {
+  OidcCallbackParams,
+  OidcIdentity,
+  PendingOidcLogin,
+} from "@domain/models/auth";
+
+/**
+ * ID トークンのユーザーに対応するユーザーを取得する
+ * - IdP 上の ID で紐づいたユーザー
+ * - 紐づいていない場合は、同じメールアドレスのユーザーに紐づける
+ *   （IdP が確認済みとしたメールアドレスのみ。未確認のまま紐づけると、既存のユーザーを乗っ取れる）
+ * - どちらもない場合は、閲覧者として作成する
+ */
+const resolveOidcUser = (identity: OidcIdentity) =>
+  Effect.gen(function* () {
+    const users = yield* UserRepository;
+
+    const linked = yield* users.findByOidcSubject(identity.subject);
+    if (linked) return linked;
+
+    const existing = yield* users
+      .findByEmail(identity.email)
+      .pipe(Effect.catchTag("UserNotFoundError", () => Effect.succeed(null)));
+    if (existing) {
+      if (!identity.emailVerified) {
+        return yield* Effect.fail(
+          new OidcLoginError({
+            message:
+              "メールアドレスが確認されていないため、既存のユーザーに紐づけられません",
+          }),
+        );
+      }
+      return yield* users.linkOidcSubject(existing.id, identity.subject);
+    }
+
+    return yield* users.create({
+      email: identity.email,
+      name: identity.name,
+      avatarUrl: identity.picture,
+      oidcSubject: identity.subject,
+      roles: PROVISIONED_USER_ROLES,
+    });
+  });
+
+/**
+ * 認可サーバーからのコールバックでログインを完了する usecase
+ */
+export const completeOidcLogin = (
+  pending: PendingOidcLogin,
+  params: OidcCallbackParams,
+) =>
+  Effect.gen(function* () {
+    const oidc = yield* OidcClient;
+    const identity = yield* oidc.completeLogin(pending, params);
+    const user = yield* resolveOidcUser(identity);
+    const issued = yield* startSession(user, identity.idToken);
+    return { ...issued, returnTo: pending.returnTo };
+  });
@@ -0,0 +1,38 @@
+import { Effect } from "effect";
+import { ApiTokenRepository } from "../../ports/api-token-repository";
+import { CurrentUser } from "../../ports/current-user";
+import { InvalidApiTokenScopeError } from "@domain/errors/auth-errors";
+import { apiTokenExpiresAt } from "@domain/logic/api-token";
+import { permissionsOf } from "@domain/logic/permission-checker";
+import type { Permission } from "@domain/models/user";
+
+/**
+ * ログイン中のユーザーの API トークンを作成する usecase
+ * （スコープは自分が持つ権限の範囲内のみ。トークンは作成時にだけ返す）
+ */
+export const createApiToken = (input: {
+  name: string;
+  scopes: Permission[];
+  expiresInDays: number | null;
+}) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const apiTokens = yield* ApiTokenRepository;
+
+    const permissions = permissionsOf(currentUser);
+    const invalid = input.scopes.filter(
+      (scope) => !permissions.includes(scope),
+    );
+    if (invalid.length > 0) {
+      return yield* Effect.fail(
+        new InvalidApiTokenScopeError({ scopes: invalid }),
+      );
+    }
+
+    return yield* apiTokens.create({
+      userId: currentUser.id,
+      name: input.name,
+      scopes: [...new Set(input.scopes)],
+      expiresAt: apiTokenExpiresAt(new Date(), input.expiresInDays),
+    });
+  });
@@ -0,0 +1,18 @@
+import { Effect } from "effect";
+import { OidcClient } from "../../ports/oidc-client";
+import { LocalCredentials } from "../../ports/local-credentials";
+import type { LoginOptions } from "@domain/models/auth";
+
+/**
+ * ログイン画面で使える認証方法を取得する usecase
+ */
+export const getLoginOptions = () =>
+  Effect.gen(function* () {
+    const oidc = yield* OidcClient;
+    const local = yield* LocalCredentials;
+    const options: LoginOptions = {
+      oidc: oidc.configured,
+      local: local.enabled,
+    };
+    return options;
+  });
@@ -0,0 +1,13 @@
+import { Effect } from "effect";
+import { ApiTokenRepository } from "../../ports/api-token-repository";
+import { CurrentUser } from "../../ports/current-user";
+
+/**
+ * ログイン中のユーザーの API トークンの一覧を取得する usecase
+ */
+export const listApiTokens = () =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const apiTokens = yield* ApiTokenRepository;
+    return yield* apiTokens.listByUser(currentUser.id);
+  });
@@ -0,0 +1,24 @@
+import { Effect } from "effect";
+import { LocalCredentials } from "../../ports/local-credentials";
+import { UserRepository } from "../../ports/user-repository";
+import { startSession } from "./start-session";
+import { InvalidCredentialsError } from "@domain/errors/auth-errors";
+
+/**
+ * 開発用のローカル認証でログインする usecase（登録済みのユーザーのみ）
+ */
+export const loginWithPassword = (username: string, password: string) =>
+  Effect.gen(function* () {
+    const local = yield* LocalCredentials;
+    const users = yield* UserRepository;
+
+    const email = yield* local.verify(username, password);
+    const user = yield* users
+      .findByEmail(email)
+      .pipe(
+        Effect.catchTag("UserNotFoundError", () =>
+          Effect.fail(new InvalidCredentialsError()),
+        ),
+      );
+    return yield* startSession(user);
+  });
@@ -0,0 +1,24 @@
+import { Effect } from "effect";
+import { OidcClient } from "../../ports/oidc-client";
+import { SessionRepository } from "../../ports/session-repository";
+
+/**
+ * ログアウトする usecase（セッションを失効させ、IdP からもログアウトする URL を返す）
+ */
+export const logout = (token: string | null) =>
+  Effect.gen(function* () {
+    const sessions = yield* SessionRepository;
+    const oidc = yield* OidcClient;
+
+    const session = token ? yield* sessions.findByToken(token) : null;
+    if (!session) {
+      return { endSessionUrl: null };
+    }
+    yield* sessions.revoke(session.id, new Date());
+    // OIDC でログインしたセッションのみ IdP からもログアウトする
+    return {
+      endSessionUrl: session.idToken
+        ? yield* oidc.endSessionUrl(session.idToken)
+        : null,
+    };
+  });
@@ -0,0 +1,29 @@
+import { Effect } from "effect";
+import { CurrentUser } from "../../ports/current-user";
+import { hasPermission } from "@domain/logic/permission-checker";
+import { UnauthorizedError } from "@domain/errors/auth-errors";
+import type { Permission } from "@domain/models/user";
+
+/**
+ * 実行しているユーザーの権限を確認してから処理を実行する（usecase と loader / action で使う）
+ * 権限がない場合は処理を実行せずに UnauthorizedError で失敗する
+ *
+ * @example
+ * Effect.gen(function* () { ... }).pipe(
+ *   requirePermission("test-run:execute", "テストを実行する権限がありません"),
+ * )
+ */
+export const requirePermission =
+  (permission: Permission, message = "この操作を行う権限がありません") =>
+  <A, E, R>(self: Effect.Effect<A, E, R>) =>
+    Effect.flatMap(CurrentUser, (currentUser) =>
+      hasPermission(currentUser, permission)
+        ? self
+        : Effect.fail<E | UnauthorizedError>(
+            new UnauthorizedError({
+              action: permission,
+              userId: currentUser.id,
+              message,
+            }),
+          ),
+    );
@@ -0,0 +1,13 @@
+import { Effect } from "effect";
+import { ApiTokenRepository } from "../../ports/api-token-repository";
+import { CurrentUser } from "../../ports/current-user";
+
+/**
+ * ログイン中のユーザーの API トークンを失効させる usecase
+ */
+export const revokeApiToken = (tokenId: string) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const apiTokens = yield* ApiTokenRepository;
+    yield* apiTokens.revoke(tokenId, currentUser.id, new Date());
+  });
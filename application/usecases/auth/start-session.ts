@@ -0,0 +1,21 @@
+import { Effect } from "effect";
+import { SessionRepository } from "../../ports/session-repository";
+import { UserInactiveError } from "@domain/errors/auth-errors";
+import { sessionExpiresAt } from "@domain/logic/auth-session";
+import type { User } from "@domain/models/user";
+
+/**
+ * ユーザーのログインセッションを作成する（無効なユーザーはログインできない）
+ */
+export const startSession = (user: User, idToken?: string) =>
+  Effect.gen(function* () {
+    if (user.status !== "active") {
+      return yield* Effect.fail(new UserInactiveError({ email: user.email }));
+    }
+    const sessions = yield* SessionRepository;
+    return yield* sessions.create({
+      userId: user.id,
+      idToken,
+      expiresAt: sessionExpiresAt(new Date()),
+    });
+  });
@@ -0,0 +1,65 @@
+import { Effect } from "effect";
+import { DashboardRepository } from "../../ports/dashboard-repository";
+import {
+  buildTestSummary,
+  calculateTrend,
+  fillExecutionTrends,
+  groupProjectStats,
+} from "@domain/logic/dashboard-statistics";
+import type { DashboardData } from "@domain/models/dashboard";
+
+const TREND_DAYS = 90;
+const RECENT_RUNS_LIMIT = 10;
+const WEEK_IN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * ダッシュボードの表示データを集計する usecase
+ * - サマリー（総数・成功・失敗・実行中・平均成功率・前週比）
+ * - 実行中 / 最近のテストラン
+ * - プロジェクト統計と過去90日間の実行トレンド
+ */
+export const getDashboardData = (now: Date = new Date()) =>
+  Effect.gen(function* () {
+    const repository = yield* DashboardRepository;
+
+    const oneWeekAgo = new Date(now.getTime() - WEEK_IN_MS);
+    const twoWeeksAgo = new Date(now.getTime() - 2 * WEEK_IN_MS);
+    const trendSince = new Date(now);
+    trendSince.setUTCDate(trendSince.getUTCDate() - (TREND_DAYS - 1));
+    trendSince.setUTCHours(0, 0, 0, 0);
+
+    const result = yield* Effect.all(
+      {
+        counts: repository.countRunsByStatus(),
+        averageSuccessRate: repository.averageSuccessRate(),
+        currentWeekRuns: repository.countRunsStartedBetween(oneWeekAgo, now),
+        previousWeekRuns: repository.countRunsStartedBetween(
+          twoWeeksAgo,
+          oneWeekAgo,
+        ),
+        dailyExecutions: repository.listDailyExecutions(trendSince),
+        projectStats: repository.listProjectStats(),
+        activeRuns: repository.listActiveRuns(),
+        recentRuns: repository.listRecentRuns(RECENT_RUNS_LIMIT),
+      },
+      { concurrency: "unbounded" },
+    );
+
+    const data: DashboardData = {
+      summary: buildTestSummary(
+        result.counts,
+        result.averageSuccessRate,
+        calculateTrend(result.currentWeekRuns, result.previousWeekRuns),
+      ),
+      testRuns: result.activeRuns,
+      recentRuns: result.recentRuns,
+      projectStats: groupProjectStats(result.projectStats),
+      executionTrends: fillExecutionTrends(
+        result.dailyExecutions,
+        TREND_DAYS,
+        now,
+      ),
+    };
+
+    return data;
+  });
@@ -0,0 +1,19 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { requirePermission } from "../auth/require-permission";
+
+/**
+ * プロジェクトとリリース検出の設定を取得する usecase
+ */
+export const getReleaseDetection = (projectId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* ProjectRepository;
+    const project = yield* repository.findById(projectId);
+    const settings = yield* repository.findReleaseDetection(projectId);
+    return { project, settings };
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
@@ -0,0 +1,11 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+
+/**
+ * 有効なプロジェクトの一覧（環境・リリースを含む）を取得する usecase
+ */
+export const listProjects = () =>
+  Effect.gen(function* () {
+    const repository = yield* ProjectRepository;
+    return yield* repository.listActive();
+  });
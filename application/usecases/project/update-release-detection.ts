@@ -0,0 +1,21 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { requirePermission } from "../auth/require-permission";
+import type { ReleaseDetectionSettings } from "~/lib/schemas/release-detection";
+
+/**
+ * プロジェクトのリリース検出の設定を変更する usecase（null で設定を外す）
+ */
+export const updateReleaseDetection = (
+  projectId: string,
+  settings: ReleaseDetectionSettings | null,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* ProjectRepository;
+    yield* repository.updateReleaseDetection(projectId, settings);
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
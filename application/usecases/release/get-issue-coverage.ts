@@ -0,0 +1,66 @@
+import { Effect } from "effect";
+import { LinearClient } from "../../ports/linear-client";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { requirePermission } from "../auth/require-permission";
+import { matchesIssueLabels } from "@domain/logic/linear-issue";
+import type { IssueCoverage } from "@domain/models/linear-issue";
+import type { ScenarioEnvironment } from "@domain/models/scenario";
+
+/**
+ * Linear の Issue をカバーしたテストケースを取得する usecase
+ * - Issue を参照するリリースのテストランのうち、フォルダーかシナリオのタグが
+ *   Issue のラベルと一致するテストケースをカバーしたものとする
+ * - Linear で Issue が見つからない場合も、参照しているテストランは返す（ラベルがないため
+ *   テストケースは空）
+ */
+export const getIssueCoverage = (identifier: string) =>
+  Effect.gen(function* () {
+    const testRunRepository = yield* TestRunRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+    const linear = yield* LinearClient;
+
+    const [issue] = yield* linear.listIssues([identifier]);
+    const runs = yield* testRunRepository.listByLinearRef(identifier);
+
+    // シナリオのタグはプロジェクト・環境ごとに 1 度だけ取得する
+    const tagsByScope = new Map<string, Map<string, ReadonlyArray<string>>>();
+    const tagsOf = (project: string, environment: ScenarioEnvironment) =>
+      Effect.gen(function* () {
+        const key = `${project}/${environment}`;
+        const cached = tagsByScope.get(key);
+        if (cached) return cached;
+        const scenarios = yield* scenarioRepository.list({
+          project,
+          environment,
+        });
+        const tags = new Map(
+          scenarios.map(({ scenario }) => [
+            scenario.location.id,
+            scenario.tags,
+          ]),
+        );
+        tagsByScope.set(key, tags);
+        return tags;
+      });
+
+    const coverage = yield* Effect.forEach(runs, ({ run, items }) =>
+      Effect.map(tagsOf(run.projectName, run.environment.type), (tags) => ({
+        run,
+        items: issue
+          ? items.filter((item) =>
+              matchesIssueLabels(issue.labels, {
+                folder: item.folder,
+                tags: tags.get(item.scenarioId) ?? [],
+              }),
+            )
+          : [],
+      })),
+    );
+
+    return {
+      identifier,
+      issue: issue ?? null,
+      runs: coverage,
+    } satisfies IssueCoverage;
+  }).pipe(requirePermission("test-run:view"));
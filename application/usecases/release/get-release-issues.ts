@@ -0,0 +1,57 @@
+import { Effect } from "effect";
+import { LinearClient } from "../../ports/linear-client";
+import { ProjectRepository } from "../../ports/project-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+import { ReleaseNotFoundError } from "@domain/errors/project-errors";
+import { suggestScenariosFromIssues } from "@domain/logic/linear-issue";
+import type { ReleaseIssues } from "@domain/models/linear-issue";
+
+/**
+ * リリースが参照する Linear の Issue と、ラベルから提案するシナリオを取得する usecase
+ * - リリースの環境のシナリオのうち、フォルダーかタグが Issue のラベルと一致するものを提案する
+ */
+export const getReleaseIssues = (projectId: string, releaseId: string) =>
+  Effect.gen(function* () {
+    const projectRepository = yield* ProjectRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+    const linear = yield* LinearClient;
+
+    const project = yield* projectRepository.findById(projectId);
+    const release = project.releases.find(({ id }) => id === releaseId);
+    const environment = project.environments.find(
+      ({ id }) => id === release?.environmentId,
+    );
+    if (!release || !environment) {
+      return yield* Effect.fail(new ReleaseNotFoundError({ releaseId }));
+    }
+    if (release.linearRefs.length === 0) {
+      return {
+        issues: [],
+        missingIdentifiers: [],
+        suggestions: [],
+      } satisfies ReleaseIssues;
+    }
+
+    const issues = yield* linear.listIssues(release.linearRefs);
+    const scenarios = yield* scenarioRepository.list({
+      project: project.key,
+      environment: environment.type,
+    });
+
+    return {
+      issues: [...issues],
+      missingIdentifiers: release.linearRefs.filter(
+        (identifier) =>
+          !issues.some((issue) => issue.identifier === identifier),
+      ),
+      suggestions: suggestScenariosFromIssues(
+        issues,
+        scenarios.map(({ scenario }) => ({
+          id: scenario.location.id,
+          folder: scenario.location.category,
+          tags: scenario.tags,
+        })),
+      ),
+    } satisfies ReleaseIssues;
+  }).pipe(requirePermission("test-run:view"));
@@ -0,0 +1,87 @@
+import { Effect } from "effect";
+import { GitHubClient } from "../../ports/github-client";
+import { ProjectRepository } from "../../ports/project-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+import {
+  ReleaseDetectionNotConfiguredError,
+  ReleaseNotFoundError,
+} from "@domain/errors/project-errors";
+import {
+  mapChangedFiles,
+  proposeScenarioIds,
+  releaseLabelOf,
+} from "@domain/logic/test-scope-proposal";
+import type { TestScopeProposal } from "@domain/models/release-detection";
+
+// 変更ファイルを同時に取得する PR の数
+const FILES_CONCURRENCY = 4;
+
+/**
+ * リリースのラベルが付いたマージ済みの PR の変更ファイルから、テストランに
+ * 含めるシナリオを提案する usecase
+ * - 変更ファイルをプロジェクトの対応表でフォルダー・タグに対応付ける
+ * - リリースの環境のシナリオのうち、フォルダーかタグが一致するものを提案する
+ */
+export const proposeTestScope = (projectId: string, releaseId: string) =>
+  Effect.gen(function* () {
+    const projectRepository = yield* ProjectRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+    const github = yield* GitHubClient;
+
+    const project = yield* projectRepository.findById(projectId);
+    const release = project.releases.find(({ id }) => id === releaseId);
+    const environment = project.environments.find(
+      ({ id }) => id === release?.environmentId,
+    );
+    if (!release || !environment) {
+      return yield* Effect.fail(new ReleaseNotFoundError({ releaseId }));
+    }
+    const settings = yield* projectRepository.findReleaseDetection(projectId);
+    if (!settings) {
+      return yield* Effect.fail(
+        new ReleaseDetectionNotConfiguredError({ projectId }),
+      );
+    }
+
+    const label = releaseLabelOf(settings.releaseLabel, release.tag);
+    const pullRequests = yield* github.listMergedPullRequests(
+      settings.repository,
+      label,
+    );
+    const changedFiles = yield* Effect.forEach(
+      pullRequests,
+      (pullRequest) =>
+        github.listChangedFiles(settings.repository, pullRequest.number),
+      { concurrency: FILES_CONCURRENCY },
+    );
+    const mapping = mapChangedFiles(changedFiles.flat(), settings.pathRules);
+
+    const scenarios = yield* scenarioRepository.list({
+      project: project.key,
+      environment: environment.type,
+    });
+    const scenarioIds = proposeScenarioIds(
+      scenarios.map(({ scenario }) => ({
+        id: scenario.location.id,
+        folder: scenario.location.category,
+        tags: scenario.tags,
+      })),
+      mapping,
+    );
+
+    return {
+      ...mapping,
+      label,
+      pullRequests: pullRequests.map((pullRequest, index) => ({
+        ...pullRequest,
+        files: changedFiles[index].map(({ path }) => path),
+      })),
+      scenarioIds,
+    } satisfies TestScopeProposal;
+  }).pipe(
+    requirePermission(
+      "test-run:create",
+      "テストランを作成する権限がありません",
+    ),
+  );
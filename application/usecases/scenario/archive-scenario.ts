@@ -0,0 +1,26 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+import { CommitAuthor } from "@domain/models/scenario";
+
+/**
+ * シナリオをアーカイブする usecase（Admin のみ）
+ * - YAML + Markdown を archived/ へ移動してコミットする
+ * - 過去のテストランからは記録した commit SHA で引き続き参照できる
+ */
+export const archiveScenario = (scenarioId: string) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    const repository = yield* ScenarioRepository;
+    return yield* repository.archive(
+      scenarioId,
+      new CommitAuthor({ name: currentUser.name, email: currentUser.email }),
+    );
+  }).pipe(
+    requirePermission(
+      "scenario:archive",
+      "シナリオをアーカイブする権限がありません",
+    ),
+  );
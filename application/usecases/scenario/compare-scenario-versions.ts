@@ -0,0 +1,21 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+
+/**
+ * シナリオの2つの版を取得する usecase（差分表示用）
+ */
+export const compareScenarioVersions = (
+  scenarioId: string,
+  fromVersion: string,
+  toVersion: string,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+
+    const [from, to] = yield* Effect.all([
+      repository.findByIdAtVersion(scenarioId, fromVersion),
+      repository.findByIdAtVersion(scenarioId, toVersion),
+    ]);
+
+    return { from, to };
+  });
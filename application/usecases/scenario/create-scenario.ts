@@ -0,0 +1,40 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+import { VersionedScenario } from "@domain/models/scenario";
+import type { CommitAuthor, Scenario } from "@domain/models/scenario";
+import { InvalidScenarioLocationError } from "@domain/errors/scenario-errors";
+import { findInvalidLocationField } from "@domain/logic/scenario-path";
+
+/**
+ * 配置（プロジェクト・環境・フォルダー・ID）がパスとして安全か検証する
+ */
+export const validateScenarioLocation = (scenario: Scenario) => {
+  const field = findInvalidLocationField(scenario.location);
+
+  return field === null
+    ? Effect.void
+    : Effect.fail(
+        new InvalidScenarioLocationError({
+          field,
+          value: scenario.location[field],
+        }),
+      );
+};
+
+/**
+ * シナリオを作成する usecase（scenario:create 権限が必要）
+ * - 配置を検証
+ * - YAML + Markdown をコミットし、commit SHA をバージョンとして返す
+ */
+export const createScenario = (scenario: Scenario, author: CommitAuthor) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+
+    yield* validateScenarioLocation(scenario);
+    const version = yield* repository.create(scenario, author);
+
+    return new VersionedScenario({ scenario, version });
+  }).pipe(
+    requirePermission("scenario:create", "シナリオを作成する権限がありません"),
+  );
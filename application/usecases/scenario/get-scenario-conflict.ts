@@ -0,0 +1,22 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import type { ScenarioConflictError } from "@domain/errors/scenario-errors";
+
+/**
+ * 競合の解決に必要な2つの版（編集開始時の版と現在の版）を取得する usecase
+ */
+export const getScenarioConflict = (conflict: ScenarioConflictError) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+
+    const base = yield* repository.findByIdAtVersion(
+      conflict.scenarioId,
+      conflict.baseVersion,
+    );
+    const current = yield* repository.findByIdAtVersion(
+      conflict.scenarioId,
+      conflict.currentVersion,
+    );
+
+    return { base, current };
+  });
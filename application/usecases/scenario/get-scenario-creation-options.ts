@@ -0,0 +1,34 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+
+const sortedUnique = (values: ReadonlyArray<string>) =>
+  [...new Set(values)].sort();
+
+/**
+ * シナリオの作成に必要な選択肢（配置先のプロジェクト・環境、既存のフォルダー・タグ）を
+ * 取得する usecase
+ */
+export const getScenarioCreationOptions = () =>
+  Effect.gen(function* () {
+    const projectRepository = yield* ProjectRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+
+    const projects = yield* projectRepository.listActive();
+    const scenarios = yield* scenarioRepository.list();
+
+    return {
+      projects: projects.map((project) => ({
+        key: project.key,
+        name: project.name,
+        environments: project.environments.map(({ type }) => type),
+      })),
+      categories: sortedUnique(
+        scenarios.map(({ scenario }) => scenario.location.category),
+      ),
+      tags: sortedUnique(scenarios.flatMap(({ scenario }) => scenario.tags)),
+    };
+  }).pipe(
+    requirePermission("scenario:create", "シナリオを作成する権限がありません"),
+  );
@@ -0,0 +1,23 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+
+/**
+ * シナリオの最新版と版の履歴（新しい順）を取得する usecase
+ * アーカイブ済みのシナリオも監査のため参照できる
+ */
+export const getScenarioHistory = (scenarioId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+
+    const { current, archived } = yield* repository.findById(scenarioId).pipe(
+      Effect.map((current) => ({ current, archived: false })),
+      Effect.catchTag("ScenarioNotFoundError", () =>
+        repository
+          .findArchivedById(scenarioId)
+          .pipe(Effect.map((current) => ({ current, archived: true }))),
+      ),
+    );
+    const versions = yield* repository.listVersions(scenarioId);
+
+    return { current, archived, versions };
+  });
@@ -0,0 +1,11 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+
+/**
+ * シナリオを ID で取得する usecase
+ */
+export const getScenario = (scenarioId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+    return yield* repository.findById(scenarioId);
+  });
@@ -0,0 +1,11 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+
+/**
+ * アーカイブ済みのシナリオ一覧を取得する usecase
+ */
+export const listArchivedScenarios = () =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+    return yield* repository.listArchived();
+  });
@@ -0,0 +1,12 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import type { ScenarioFilter } from "../../ports/scenario-repository";
+
+/**
+ * シナリオ一覧を取得する usecase
+ */
+export const listScenarios = (filter?: ScenarioFilter) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+    return yield* repository.list(filter);
+  });
@@ -0,0 +1,22 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+import { CommitAuthor } from "@domain/models/scenario";
+
+/**
+ * アーカイブ済みのシナリオを元の配置へ戻す usecase（Admin のみ）
+ * - 同じ ID の有効なシナリオがある場合は ScenarioAlreadyExistsError
+ */
+export const restoreScenario = (scenarioId: string) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    const repository = yield* ScenarioRepository;
+    return yield* repository.restore(
+      scenarioId,
+      new CommitAuthor({ name: currentUser.name, email: currentUser.email }),
+    );
+  }).pipe(
+    requirePermission("scenario:archive", "シナリオを復元する権限がありません"),
+  );
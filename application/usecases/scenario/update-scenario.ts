@@ -0,0 +1,59 @@
+import { Effect } from "effect";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+import { Scenario, VersionedScenario } from "@domain/models/scenario";
+import type { CommitAuthor } from "@domain/models/scenario";
+import { ScenarioConflictError } from "@domain/errors/scenario-errors";
+import { validateScenarioLocation } from "./create-scenario";
+
+/**
+ * 編集可能なシナリオの項目
+ */
+export interface ScenarioChanges {
+  title: string;
+  description: string;
+  tags: ReadonlyArray<string>;
+}
+
+export interface UpdateScenarioInput {
+  scenarioId: string;
+  changes: ScenarioChanges;
+  baseVersion: string; // 編集開始時のバージョン（commit SHA）
+}
+
+/**
+ * シナリオを更新する usecase（楽観的ロック、scenario:edit 権限が必要）
+ * - 編集開始後にシナリオが更新されていれば ScenarioConflictError
+ *   （保存の直前に更新された場合もリポジトリがコミット時に検出する）
+ * - 変更をコミットし、新しい commit SHA をバージョンとして返す
+ */
+export const updateScenario = (
+  input: UpdateScenarioInput,
+  author: CommitAuthor,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* ScenarioRepository;
+
+    const current = yield* repository.findById(input.scenarioId);
+    if (current.version !== input.baseVersion) {
+      return yield* Effect.fail(
+        new ScenarioConflictError({
+          scenarioId: input.scenarioId,
+          baseVersion: input.baseVersion,
+          currentVersion: current.version,
+        }),
+      );
+    }
+
+    const scenario = new Scenario({ ...current.scenario, ...input.changes });
+    yield* validateScenarioLocation(scenario);
+    const version = yield* repository.update(
+      scenario,
+      author,
+      input.baseVersion,
+    );
+
+    return new VersionedScenario({ scenario, version });
+  }).pipe(
+    requirePermission("scenario:edit", "シナリオを編集する権限がありません"),
+  );
@@ -0,0 +1,54 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { ProjectRepository } from "../../ports/project-repository";
+import { publishAssigneeChanged } from "./publish-test-run-events";
+import { requirePermission } from "../auth/require-permission";
+import { planItemAssignments } from "@domain/logic/item-assignment";
+import { TestRunAssignmentError } from "@domain/errors/test-run-errors";
+import type { AssignmentStrategy, FolderOwners } from "~/lib/schemas/test-run";
+
+/**
+ * ルールに従って未実行のアイテムをテストランの担当者に振り分ける usecase
+ * - folder_owner で指定したフォルダーの担当者はプロジェクトに保存し、次回も使う
+ * - 変更したアイテムの件数を返す
+ */
+export const applyAssignmentRule = (
+  testRunId: string,
+  strategy: AssignmentStrategy,
+  onlyUnassigned: boolean,
+  folderOwners?: FolderOwners,
+) =>
+  Effect.gen(function* () {
+    const testRunRepository = yield* TestRunRepository;
+    const projectRepository = yield* ProjectRepository;
+
+    const { run, items } = yield* testRunRepository.findById(testRunId);
+    if (run.assignees.length === 0) {
+      return yield* Effect.fail(
+        new TestRunAssignmentError({
+          testRunId,
+          message: "テストランに担当者がいません",
+        }),
+      );
+    }
+
+    if (strategy === "folder_owner" && folderOwners) {
+      yield* projectRepository.updateFolderOwners(run.projectId, folderOwners);
+    }
+
+    const assignments = planItemAssignments(
+      strategy,
+      items,
+      run.assignees.map((assignee) => assignee.id),
+      {
+        onlyUnassigned,
+        folderOwners: folderOwners ?? run.folderOwners,
+      },
+    );
+    yield* testRunRepository.assignItems(testRunId, assignments);
+    yield* publishAssigneeChanged(testRunId, assignments, run.assignees);
+
+    return assignments.length;
+  }).pipe(
+    requirePermission("test-run:create", "担当者を割り当てる権限がありません"),
+  );
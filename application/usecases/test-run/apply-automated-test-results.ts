@@ -0,0 +1,44 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { requirePermission } from "../auth/require-permission";
+import { recordAutomatedTestMatches } from "./record-automated-test-results";
+import { TestRunItemNotFoundError } from "@domain/errors/test-run-errors";
+import type { AutomatedTestMatch } from "@domain/models/automated-test";
+import type {
+  AutomatedTestCase,
+  AutomatedTestReportFormat,
+} from "~/lib/schemas/automated-test";
+
+/**
+ * 照合できなかった自動テストのテストケースを、手動で割り当てたアイテムに記録する usecase
+ * - 同じアイテムに割り当てたテストケースはまとめて 1 回の結果として記録する
+ * - テストランにないアイテムを指定した場合は何も記録しない
+ */
+export const applyAutomatedTestResults = (
+  testRunId: string,
+  format: AutomatedTestReportFormat,
+  assignments: ReadonlyArray<{ itemId: string; testCase: AutomatedTestCase }>,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const { items } = yield* repository.findById(testRunId);
+
+    const matches = new Map<string, AutomatedTestMatch>();
+    for (const { itemId, testCase } of assignments) {
+      const item = items.find(({ id }) => id === itemId);
+      if (!item) {
+        return yield* Effect.fail(new TestRunItemNotFoundError({ itemId }));
+      }
+      const match = matches.get(itemId) ?? {
+        target: { itemId, scenarioId: item.scenarioId, title: item.title },
+        cases: [],
+      };
+      matches.set(itemId, { ...match, cases: [...match.cases, testCase] });
+    }
+
+    return yield* recordAutomatedTestMatches(testRunId, format, [
+      ...matches.values(),
+    ]);
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
@@ -0,0 +1,48 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { publishAssigneeChanged } from "./publish-test-run-events";
+import { requirePermission } from "../auth/require-permission";
+import {
+  TestRunAssignmentError,
+  TestRunItemNotFoundError,
+} from "@domain/errors/test-run-errors";
+
+/**
+ * 選択したアイテムの担当者をまとめて変更する usecase
+ * （担当者はテストランの担当者から選ぶ。null で担当を外す）
+ */
+export const assignItems = (
+  testRunId: string,
+  itemIds: readonly string[],
+  assigneeId: string | null,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const { run, items } = yield* repository.findById(testRunId);
+
+    const missing = itemIds.find(
+      (itemId) => !items.some((item) => item.id === itemId),
+    );
+    if (missing !== undefined) {
+      return yield* Effect.fail(
+        new TestRunItemNotFoundError({ itemId: missing }),
+      );
+    }
+    if (
+      assigneeId !== null &&
+      !run.assignees.some((assignee) => assignee.id === assigneeId)
+    ) {
+      return yield* Effect.fail(
+        new TestRunAssignmentError({
+          testRunId,
+          message: "テストランの担当者ではありません",
+        }),
+      );
+    }
+
+    const assignments = itemIds.map((itemId) => ({ itemId, assigneeId }));
+    yield* repository.assignItems(testRunId, assignments);
+    yield* publishAssigneeChanged(testRunId, assignments, run.assignees);
+  }).pipe(
+    requirePermission("test-run:create", "担当者を割り当てる権限がありません"),
+  );
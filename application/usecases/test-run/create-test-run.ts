@@ -0,0 +1,126 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { ProjectRepository } from "../../ports/project-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { UserRepository } from "../../ports/user-repository";
+import { CurrentUser } from "../../ports/current-user";
+import { publishRunStatusChanged } from "./publish-test-run-events";
+import { requirePermission } from "../auth/require-permission";
+import { snapshotScenario } from "@domain/logic/scenario-drift";
+import { hasPermission } from "@domain/logic/permission-checker";
+import {
+  InvalidTestRunAssigneeError,
+  InvalidTestRunScopeError,
+} from "@domain/errors/test-run-errors";
+import type { CreateTestRunRequest } from "~/lib/schemas/test-run";
+
+/**
+ * テストランを作成する usecase
+ * - 環境・リリースが選択したプロジェクトのものか検証
+ * - シナリオは最新版を取り込み、アイテムに版を記録する（同じシナリオは 1 つのアイテムにする）
+ * - 担当者は作成画面で選べるユーザー（テストを実行できる有効なユーザー）か検証
+ * - 重要度・必須はウィザードで指定した値を使う
+ */
+export const createTestRun = (request: CreateTestRunRequest) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    const projectRepository = yield* ProjectRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+    const testRunRepository = yield* TestRunRepository;
+    const userRepository = yield* UserRepository;
+
+    const project = yield* projectRepository.findById(request.projectId);
+    const environment = project.environments.find(
+      ({ id }) => id === request.environmentId,
+    );
+    if (!environment) {
+      return yield* Effect.fail(
+        new InvalidTestRunScopeError({
+          message: "プロジェクトにない環境が選択されています",
+        }),
+      );
+    }
+    const release = project.releases.find(({ id }) => id === request.releaseId);
+    if (
+      request.releaseId !== undefined &&
+      release?.environmentId !== environment.id
+    ) {
+      return yield* Effect.fail(
+        new InvalidTestRunScopeError({
+          message: "選択した環境のリリースではありません",
+        }),
+      );
+    }
+
+    const duplicated = request.items.find(
+      (item, index) =>
+        request.items.findIndex(
+          ({ scenarioId }) => scenarioId === item.scenarioId,
+        ) !== index,
+    );
+    if (duplicated) {
+      return yield* Effect.fail(
+        new InvalidTestRunScopeError({
+          message: `同じシナリオが複数選択されています: ${duplicated.scenarioId}`,
+        }),
+      );
+    }
+
+    const assigneeIds = [...new Set(request.assigneeIds)];
+    const executors = (yield* userRepository.listActive()).filter((user) =>
+      hasPermission(user, "test-run:execute"),
+    );
+    const invalidAssigneeId = assigneeIds.find(
+      (assigneeId) => !executors.some(({ id }) => id === assigneeId),
+    );
+    if (invalidAssigneeId !== undefined) {
+      return yield* Effect.fail(
+        new InvalidTestRunAssigneeError({
+          assigneeId: invalidAssigneeId,
+          message: `担当者にできないユーザーです: ${invalidAssigneeId}`,
+        }),
+      );
+    }
+
+    const items = yield* Effect.forEach(request.items, (item) =>
+      Effect.gen(function* () {
+        const versioned = yield* scenarioRepository.findById(item.scenarioId);
+        const { location } = versioned.scenario;
+        if (
+          location.project !== project.key ||
+          location.environment !== environment.type
+        ) {
+          return yield* Effect.fail(
+            new InvalidTestRunScopeError({
+              message: `選択したプロジェクト・環境のシナリオではありません: ${item.scenarioId}`,
+            }),
+          );
+        }
+        return {
+          ...snapshotScenario(versioned),
+          importance: item.importance,
+          required: item.required,
+        };
+      }),
+    );
+
+    const run = yield* testRunRepository.create({
+      projectId: project.id,
+      environmentId: environment.id,
+      releaseId: request.releaseId,
+      title: request.title,
+      dueAt: request.dueAt ? new Date(request.dueAt) : undefined,
+      assigneeIds,
+      createdById: currentUser.id,
+      items,
+    });
+    // ダッシュボードに新しいテストランを知らせる
+    yield* publishRunStatusChanged(run.id);
+    return run;
+  }).pipe(
+    requirePermission(
+      "test-run:create",
+      "テストランを作成する権限がありません",
+    ),
+  );
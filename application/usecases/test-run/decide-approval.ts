@@ -0,0 +1,40 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { publishRunStatusChanged } from "./publish-test-run-events";
+import {
+  notifyApprovalDecided,
+  notifyStatusChanged,
+} from "./notify-test-run-events";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+import type { ApprovalDecision } from "~/lib/schemas/test-run";
+
+/**
+ * 承認待ちのテストランを承認・差し戻し、判断とコメントを承認ログに残す usecase
+ */
+export const decideApproval = (
+  testRunId: string,
+  decision: ApprovalDecision,
+  comment: string,
+) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    // 承認待ちかどうかは、同時に判断されても食い違わないよう記録と同じトランザクションで確かめる
+    const repository = yield* TestRunRepository;
+    const approval = yield* repository.recordApproval(testRunId, {
+      decision,
+      comment,
+      approverId: currentUser.id,
+      decidedAt: new Date(),
+    });
+    yield* publishRunStatusChanged(testRunId);
+    yield* notifyApprovalDecided(testRunId, approval);
+    yield* notifyStatusChanged(testRunId, "awaiting_approval");
+    return approval;
+  }).pipe(
+    requirePermission(
+      "test-run:approve",
+      "テストランを承認する権限がありません",
+    ),
+  );
@@ -0,0 +1,43 @@
+import { Effect } from "effect";
+import { TestRunEventHub } from "../../ports/test-run-event-hub";
+import { TestRunPresence } from "../../ports/test-run-presence";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+
+/**
+ * 実行画面で実行中のテストケースを他のユーザーに知らせる usecase
+ * （itemId が null の場合は閲覧のみに戻す）
+ */
+export const focusTestRunItem = (
+  testRunId: string,
+  sessionId: string,
+  itemId: string | null,
+) => {
+  const focus = Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const presence = yield* TestRunPresence;
+    const hub = yield* TestRunEventHub;
+
+    const viewers = yield* presence.focus(
+      testRunId,
+      sessionId,
+      currentUser.id,
+      itemId,
+    );
+    yield* hub.publish({
+      type: "presence_changed",
+      testRunId,
+      viewers: [...viewers],
+    });
+  });
+
+  // 閲覧のみに戻す場合は権限を問わない
+  return itemId === null
+    ? focus
+    : focus.pipe(
+        requirePermission(
+          "test-run:execute",
+          "テストを実行する権限がありません",
+        ),
+      );
+};
@@ -0,0 +1,15 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { CurrentUser } from "../../ports/current-user";
+
+/**
+ * ログイン中のユーザーが担当する未実行のアイテムを、進行中のテストランから
+ * 取得する usecase
+ */
+export const getMyQueue = () =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const repository = yield* TestRunRepository;
+
+    return yield* repository.listQueuedItems(currentUser.id);
+  });
@@ -0,0 +1,34 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { UserRepository } from "../../ports/user-repository";
+import { requirePermission } from "../auth/require-permission";
+import { hasPermission } from "@domain/logic/permission-checker";
+
+/**
+ * テストランの作成に必要な選択肢（プロジェクト・環境・リリース、シナリオ、
+ * 担当者にできるユーザー）を取得する usecase
+ */
+export const getTestRunCreationOptions = () =>
+  Effect.gen(function* () {
+    const projectRepository = yield* ProjectRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+    const userRepository = yield* UserRepository;
+
+    const projects = yield* projectRepository.listActive();
+    const scenarios = yield* scenarioRepository.list();
+    const users = yield* userRepository.listActive();
+
+    return {
+      projects,
+      scenarios,
+      executors: users.filter((user) =>
+        hasPermission(user, "test-run:execute"),
+      ),
+    };
+  }).pipe(
+    requirePermission(
+      "test-run:create",
+      "テストランを作成する権限がありません",
+    ),
+  );
@@ -0,0 +1,16 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { TestRunItemNotFoundError } from "@domain/errors/test-run-errors";
+
+/**
+ * テストランのアイテムを取得する usecase（他のテストランのアイテムは見つからない扱い）
+ */
+export const getTestRunItem = (testRunId: string, itemId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const item = yield* repository.findItem(itemId);
+    if (item.testRunId !== testRunId) {
+      return yield* Effect.fail(new TestRunItemNotFoundError({ itemId }));
+    }
+    return item;
+  });
@@ -0,0 +1,44 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { detectScenarioDrift } from "@domain/logic/scenario-drift";
+import type { ScenarioHead } from "@domain/models/test-run";
+
+/**
+ * テストランとアイテム、アイテムごとのシナリオの版のずれを取得する usecase
+ */
+export const getTestRun = (testRunId: string) =>
+  Effect.gen(function* () {
+    const testRunRepository = yield* TestRunRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+
+    const detail = yield* testRunRepository.findById(testRunId);
+
+    // 同じシナリオを参照するアイテムがあっても最新版の取得は1回にする
+    const scenarioIds = [
+      ...new Set(detail.items.map((item) => item.scenarioId)),
+    ];
+    const heads = new Map(
+      yield* Effect.forEach(scenarioIds, (scenarioId) =>
+        scenarioRepository.findById(scenarioId).pipe(
+          Effect.map((current): ScenarioHead | null => ({
+            version: current.version,
+            archived: false,
+          })),
+          Effect.catchTag("ScenarioNotFoundError", () =>
+            scenarioRepository
+              .findArchivedById(scenarioId)
+              .pipe(Effect.map(({ version }) => ({ version, archived: true }))),
+          ),
+          Effect.catchTag("ScenarioNotFoundError", () => Effect.succeed(null)),
+          Effect.map((head) => [scenarioId, head] as const),
+        ),
+      ),
+    );
+
+    const drifts = detail.items.map((item) =>
+      detectScenarioDrift(item, heads.get(item.scenarioId) ?? null),
+    );
+
+    return { ...detail, drifts };
+  });
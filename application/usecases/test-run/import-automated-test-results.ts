@@ -0,0 +1,67 @@
+import { Effect } from "effect";
+import { AutomatedTestReportParser } from "../../ports/automated-test-report-parser";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { requirePermission } from "../auth/require-permission";
+import { recordAutomatedTestMatches } from "./record-automated-test-results";
+import { matchAutomatedTestCases } from "@domain/logic/automated-test-result";
+import type {
+  AutomatedTestImportResult,
+  AutomatedTestReportFormat,
+} from "~/lib/schemas/automated-test";
+
+/**
+ * 自動テストのレポート（JUnit XML・Playwright / Jest の JSON）を取り込む usecase
+ * - テストケースはシナリオの automated_test_id でテストランのアイテムと照合する
+ *   （automated_test_id はシナリオの最新版のもの）
+ * - 照合したアイテムには結果・実行時間・失敗のログを証跡として記録する
+ * - 照合できなかったテストケースは、手動で割り当てられるように結果に含める
+ */
+export const importAutomatedTestResults = (
+  testRunId: string,
+  input: { report: string; format?: AutomatedTestReportFormat },
+) =>
+  Effect.gen(function* () {
+    const parser = yield* AutomatedTestReportParser;
+    const testRunRepository = yield* TestRunRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+
+    const { run, items } = yield* testRunRepository.findById(testRunId);
+    const report = yield* parser.parse(input.report, input.format);
+
+    const scenarios = yield* scenarioRepository.list({
+      project: run.projectName,
+      environment: run.environment.type,
+    });
+    const automatedTestIds = new Map(
+      scenarios.flatMap(({ scenario }) =>
+        scenario.automatedTestId
+          ? [[scenario.location.id, scenario.automatedTestId] as const]
+          : [],
+      ),
+    );
+
+    const { matches, unmatched } = matchAutomatedTestCases(
+      report.cases,
+      items.map((item) => ({
+        itemId: item.id,
+        scenarioId: item.scenarioId,
+        title: item.title,
+        automatedTestId: automatedTestIds.get(item.scenarioId),
+      })),
+    );
+    const outcomes = yield* recordAutomatedTestMatches(
+      testRunId,
+      report.format,
+      matches,
+    );
+
+    return {
+      format: report.format,
+      totalCases: report.cases.length,
+      outcomes,
+      unmatched,
+    } satisfies AutomatedTestImportResult;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
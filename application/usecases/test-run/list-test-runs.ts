@@ -0,0 +1,12 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import type { TestRunListFilter } from "@domain/models/test-run";
+
+/**
+ * テストランの一覧を作成日時の新しい順に取得する usecase
+ */
+export const listTestRuns = (filter: TestRunListFilter) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    return yield* repository.list(filter);
+  });
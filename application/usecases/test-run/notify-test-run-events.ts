@@ -0,0 +1,120 @@
+import { Effect } from "effect";
+import { Notifier } from "../../ports/notifier";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { dispatchWebhookEvent } from "../webhook/dispatch-webhook-event";
+import type { NotificationEvent } from "@domain/models/notification";
+import type {
+  TestRun,
+  TestRunApproval,
+  TestRunItem,
+  TestRunStatus,
+} from "~/lib/schemas/test-run";
+
+/**
+ * テストランの現在のステータスと進捗で通知し、Webhook に配信する
+ * （更新は保存済みのため、送信に失敗しても呼び出し元の usecase は失敗させずにログに残す。
+ * 通知は応答を待たずに送り、遅い・失敗した通知を Webhook の配信やリクエストに影響させない）
+ */
+const notifyWithRun = (
+  testRunId: string,
+  toEvents: (run: TestRun) => ReadonlyArray<NotificationEvent>,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const notifier = yield* Notifier;
+
+    const events = toEvents(yield* repository.findRun(testRunId));
+    for (const event of events) {
+      yield* notifier.notify(event).pipe(
+        Effect.catchAll((error) =>
+          Effect.logWarning("テストランの通知を送信できませんでした", error),
+        ),
+        Effect.forkDaemon,
+      );
+      yield* dispatchWebhookEvent(event);
+    }
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning("通知するテストランを取得できませんでした", error),
+    ),
+  );
+
+/**
+ * 変更前のテストランのステータス（取得できない場合は undefined で、状態の変化を通知しない）
+ */
+export const findRunStatus = (testRunId: string) =>
+  Effect.flatMap(TestRunRepository, (repository) =>
+    repository.findRun(testRunId),
+  ).pipe(
+    Effect.map((run): TestRunStatus | undefined => run.status),
+    Effect.orElseSucceed(() => undefined),
+  );
+
+/**
+ * テストケースの失敗を通知する
+ */
+export const notifyItemFailed = (item: TestRunItem) =>
+  notifyWithRun(item.testRunId, (run) => [{ type: "item_failed", run, item }]);
+
+/**
+ * 自動テストの取り込みで記録した結果をまとめて通知する（取り込みごとに 1 回）
+ */
+export const notifyAutomatedResultsRecorded = (
+  testRunId: string,
+  items: TestRunItem[],
+) =>
+  notifyWithRun(testRunId, (run) => [
+    { type: "automated_results_recorded", run, items },
+  ]);
+
+/**
+ * 変わった後のステータスの通知（承認待ち・完了・失敗の場合だけ）
+ */
+const statusEventOf = (run: TestRun): NotificationEvent | undefined => {
+  switch (run.status) {
+    case "awaiting_approval":
+      return { type: "run_awaiting_approval", run };
+    case "completed":
+    case "failed":
+      return { type: "run_completed", run };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * ステータスの変化を通知する
+ * - 計画中から変わった場合（最初の結果を記録した場合）は実行の開始を通知する
+ * - 承認待ち・完了・失敗に変わった場合はそのステータスを通知する
+ */
+export const notifyStatusChanged = (
+  testRunId: string,
+  previous: TestRunStatus | undefined,
+) =>
+  notifyWithRun(testRunId, (run) => {
+    if (previous === undefined || run.status === previous) return [];
+    const events: NotificationEvent[] = [];
+    if (previous === "planned") {
+      events.push({ type: "run_started", run });
+    }
+    const statusEvent = statusEventOf(run);
+    if (statusEvent) {
+      events.push(statusEvent);
+    }
+    return events;
+  });
+
+/**
+ * 承認者の判断を通知する
+ */
+export const notifyApprovalDecided = (
+  testRunId: string,
+  approval: TestRunApproval,
+) =>
+  notifyWithRun(testRunId, (run) => [
+    {
+      type: approval.decision === "approved" ? "run_approved" : "run_sent_back",
+      run,
+      approval,
+    },
+  ]);
@@ -0,0 +1,65 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { TestRunEventHub } from "../../ports/test-run-event-hub";
+import type { Assignee, TestRunItem } from "~/lib/schemas/test-run";
+import type { ItemAssignment } from "@domain/models/test-run";
+
+/**
+ * アイテムの変更を配信する
+ */
+export const publishItemUpdated = (item: TestRunItem) =>
+  Effect.gen(function* () {
+    const hub = yield* TestRunEventHub;
+    yield* hub.publish({
+      type: "item_updated",
+      testRunId: item.testRunId,
+      item,
+    });
+  });
+
+/**
+ * テストランの現在のステータスと進捗を配信する
+ * （更新は保存済みのため、取得に失敗しても呼び出し元の usecase は失敗させずにログに残す）
+ */
+export const publishRunStatusChanged = (testRunId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const hub = yield* TestRunEventHub;
+
+    const run = yield* repository.findRun(testRunId);
+    yield* hub.publish({
+      type: "run_status_changed",
+      testRunId,
+      status: run.status,
+      totalItems: run.totalItems,
+      completedItems: run.completedItems,
+      passedItems: run.passedItems,
+      failedItems: run.failedItems,
+    });
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning("テストランのステータスを配信できませんでした", error),
+    ),
+  );
+
+/**
+ * アイテムの担当者の変更を配信する（assignees はテストランの担当者）
+ */
+export const publishAssigneeChanged = (
+  testRunId: string,
+  assignments: readonly ItemAssignment[],
+  assignees: readonly Assignee[],
+) =>
+  Effect.gen(function* () {
+    if (assignments.length === 0) return;
+
+    const hub = yield* TestRunEventHub;
+    yield* hub.publish({
+      type: "assignee_changed",
+      testRunId,
+      items: assignments.map(({ itemId, assigneeId }) => ({
+        itemId,
+        assignee: assignees.find((assignee) => assignee.id === assigneeId),
+      })),
+    });
+  });
@@ -0,0 +1,38 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { publishItemUpdated } from "./publish-test-run-events";
+import { ScenarioRepository } from "../../ports/scenario-repository";
+import { requirePermission } from "../auth/require-permission";
+import { snapshotScenario } from "@domain/logic/scenario-drift";
+import { isItemCompleted } from "@domain/logic/test-run-progress";
+import { TestRunItemAlreadyExecutedError } from "@domain/errors/test-run-errors";
+
+/**
+ * アイテムにシナリオの最新版を取り込む usecase
+ * - 実行済みのアイテムは記録した版の結果として残すため取り込まない
+ * - 既に最新版であれば何もしない
+ */
+export const pullLatestScenario = (itemId: string) =>
+  Effect.gen(function* () {
+    const testRunRepository = yield* TestRunRepository;
+    const scenarioRepository = yield* ScenarioRepository;
+
+    const item = yield* testRunRepository.findItem(itemId);
+    if (isItemCompleted(item.status)) {
+      return yield* Effect.fail(
+        new TestRunItemAlreadyExecutedError({ itemId }),
+      );
+    }
+
+    const current = yield* scenarioRepository.findById(item.scenarioId);
+    if (item.scenarioVersion === current.version) return item;
+
+    const updated = yield* testRunRepository.updateItemScenario(
+      itemId,
+      snapshotScenario(current),
+    );
+    yield* publishItemUpdated(updated);
+    return updated;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
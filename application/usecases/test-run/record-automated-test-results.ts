@@ -0,0 +1,78 @@
+import { Effect } from "effect";
+import { CurrentUser } from "../../ports/current-user";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import {
+  publishItemUpdated,
+  publishRunStatusChanged,
+} from "./publish-test-run-events";
+import {
+  findRunStatus,
+  notifyAutomatedResultsRecorded,
+  notifyStatusChanged,
+} from "./notify-test-run-events";
+import { toAutomatedItemResult } from "@domain/logic/automated-test-result";
+import type { AutomatedTestMatch } from "@domain/models/automated-test";
+import type {
+  AutomatedTestItemOutcome,
+  AutomatedTestReportFormat,
+} from "~/lib/schemas/automated-test";
+
+/**
+ * 照合したテストケースの結果をテストランのアイテムに記録する
+ * - 結果は手動の記録と同じく実行履歴に追記し、すべてのアイテムを 1 つのトランザクションで記録する
+ * - 更新はアイテムごとに配信し、通知・Webhook は取り込みごとに 1 回だけまとめて送る
+ *   （テストランのステータスが変わった場合はその通知も送る）
+ * - テストケースがすべてスキップされたアイテムは記録しない（手動で実行する）
+ */
+export const recordAutomatedTestMatches = (
+  testRunId: string,
+  format: AutomatedTestReportFormat,
+  matches: ReadonlyArray<AutomatedTestMatch>,
+) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const repository = yield* TestRunRepository;
+
+    const importedAt = new Date();
+    const recorded = matches.map(({ target, cases }) => ({
+      target,
+      cases,
+      itemResult: toAutomatedItemResult(format, cases, importedAt),
+    }));
+    const results = recorded.flatMap(({ target, itemResult }) =>
+      itemResult
+        ? [
+            {
+              itemId: target.itemId,
+              result: {
+                status: itemResult.result,
+                executedById: currentUser.id,
+                executedAt: importedAt,
+                durationSeconds: itemResult.durationSeconds,
+                evidence: itemResult.evidence,
+              },
+            },
+          ]
+        : [],
+    );
+
+    if (results.length > 0) {
+      const previousStatus = yield* findRunStatus(testRunId);
+      const items = yield* repository.recordItemResults(testRunId, results);
+      yield* Effect.forEach(items, publishItemUpdated, { discard: true });
+      yield* publishRunStatusChanged(testRunId);
+      yield* notifyAutomatedResultsRecorded(testRunId, items);
+      yield* notifyStatusChanged(testRunId, previousStatus);
+    }
+
+    return recorded.map(
+      ({ target, cases, itemResult }) =>
+        ({
+          itemId: target.itemId,
+          scenarioId: target.scenarioId,
+          title: target.title,
+          result: itemResult?.result ?? "skipped",
+          testCaseIds: [...new Set(cases.map((testCase) => testCase.id))],
+        }) satisfies AutomatedTestItemOutcome,
+    );
+  });
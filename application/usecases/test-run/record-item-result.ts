@@ -0,0 +1,60 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import {
+  publishItemUpdated,
+  publishRunStatusChanged,
+} from "./publish-test-run-events";
+import {
+  findRunStatus,
+  notifyItemFailed,
+  notifyStatusChanged,
+} from "./notify-test-run-events";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+import type { Evidence, TestRunItemResult } from "~/lib/schemas/test-run";
+
+/**
+ * アイテムに結果（成功・失敗・ブロック・スキップ）を記録する usecase
+ * - 結果は実行履歴に追記し、再テストでも以前の結果は上書きしない
+ * - テストランの completedItems / passedItems / failedItems とステータスは
+ *   アイテムごとの最新の結果から更新する
+ * - notes を渡した場合は実行メモも同時に保存する
+ * - 自動テストの結果を取り込む場合は実行時間と証跡（evidence）も記録する
+ * - 失敗した場合と、テストランの実行が始まった場合・ステータスが承認待ち・完了・失敗に変わった場合は通知する
+ */
+export const recordItemResult = (
+  itemId: string,
+  input: {
+    result: TestRunItemResult;
+    notes?: string;
+    blockedReason?: string;
+    durationSeconds?: number;
+    evidence?: Evidence;
+  },
+) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    const repository = yield* TestRunRepository;
+    const { testRunId } = yield* repository.findItem(itemId);
+    const previousStatus = yield* findRunStatus(testRunId);
+    const updated = yield* repository.recordItemResult(itemId, {
+      status: input.result,
+      executedById: currentUser.id,
+      executedAt: new Date(),
+      durationSeconds: input.durationSeconds,
+      notes: input.notes,
+      evidence: input.evidence,
+      blockedReason:
+        input.result === "blocked" ? input.blockedReason : undefined,
+    });
+    yield* publishItemUpdated(updated);
+    yield* publishRunStatusChanged(updated.testRunId);
+    if (updated.status === "failed") {
+      yield* notifyItemFailed(updated);
+    }
+    yield* notifyStatusChanged(updated.testRunId, previousStatus);
+    return updated;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
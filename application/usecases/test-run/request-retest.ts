@@ -0,0 +1,37 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { requirePermission } from "../auth/require-permission";
+import {
+  publishItemUpdated,
+  publishRunStatusChanged,
+} from "./publish-test-run-events";
+import { findRunStatus, notifyStatusChanged } from "./notify-test-run-events";
+import { TestRunItemStatusError } from "@domain/errors/test-run-errors";
+
+/**
+ * 失敗したアイテムを再テスト待ちに戻す usecase
+ * - 失敗した実行履歴はそのまま残し、次の実行を新しい履歴として記録する
+ */
+export const requestRetest = (itemId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const item = yield* repository.findItem(itemId);
+    if (item.status !== "failed") {
+      return yield* Effect.fail(
+        new TestRunItemStatusError({
+          itemId,
+          status: item.status,
+          message: "再テストを依頼できるのは失敗したアイテムのみです",
+        }),
+      );
+    }
+
+    const previousStatus = yield* findRunStatus(item.testRunId);
+    const updated = yield* repository.reopenItem(itemId);
+    yield* publishItemUpdated(updated);
+    yield* publishRunStatusChanged(updated.testRunId);
+    yield* notifyStatusChanged(updated.testRunId, previousStatus);
+    return updated;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
@@ -0,0 +1,43 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import {
+  publishItemUpdated,
+  publishRunStatusChanged,
+} from "./publish-test-run-events";
+import { findRunStatus, notifyStatusChanged } from "./notify-test-run-events";
+import { CurrentUser } from "../../ports/current-user";
+import { requirePermission } from "../auth/require-permission";
+import { TestRunItemStatusError } from "@domain/errors/test-run-errors";
+
+/**
+ * ブロックされたアイテムの解消内容を記録し、再テスト待ちに戻す usecase
+ */
+export const resolveBlock = (itemId: string, resolution: string) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    const repository = yield* TestRunRepository;
+    const item = yield* repository.findItem(itemId);
+    if (item.status !== "blocked") {
+      return yield* Effect.fail(
+        new TestRunItemStatusError({
+          itemId,
+          status: item.status,
+          message: "ブロックされていないアイテムです",
+        }),
+      );
+    }
+
+    const previousStatus = yield* findRunStatus(item.testRunId);
+    const updated = yield* repository.reopenItem(itemId, {
+      note: resolution,
+      resolvedById: currentUser.id,
+      resolvedAt: new Date(),
+    });
+    yield* publishItemUpdated(updated);
+    yield* publishRunStatusChanged(updated.testRunId);
+    yield* notifyStatusChanged(updated.testRunId, previousStatus);
+    return updated;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
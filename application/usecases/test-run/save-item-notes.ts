@@ -0,0 +1,17 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { publishItemUpdated } from "./publish-test-run-events";
+import { requirePermission } from "../auth/require-permission";
+
+/**
+ * アイテムの実行メモを保存する usecase（結果は変更しない）
+ */
+export const saveItemNotes = (itemId: string, notes: string) =>
+  Effect.gen(function* () {
+    const repository = yield* TestRunRepository;
+    const updated = yield* repository.updateItemNotes(itemId, notes);
+    yield* publishItemUpdated(updated);
+    return updated;
+  }).pipe(
+    requirePermission("test-run:execute", "テストを実行する権限がありません"),
+  );
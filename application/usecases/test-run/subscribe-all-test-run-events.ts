@@ -0,0 +1,19 @@
+import { Effect, Stream } from "effect";
+import { TestRunEventHub } from "../../ports/test-run-event-hub";
+
+/**
+ * すべてのテストランの更新イベントを購読する usecase（ダッシュボード向け）
+ * 実行画面を開いているユーザーの変更は含めない
+ */
+export const subscribeAllTestRunEvents = (lastEventId?: number) =>
+  Effect.gen(function* () {
+    const hub = yield* TestRunEventHub;
+
+    return Stream.unwrapScoped(hub.subscribeAll(lastEventId)).pipe(
+      Stream.filter(
+        (message) =>
+          message.type === "resync" ||
+          message.event.type !== "presence_changed",
+      ),
+    );
+  });
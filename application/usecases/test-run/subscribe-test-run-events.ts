@@ -0,0 +1,62 @@
+import { Effect, Stream } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { TestRunEventHub } from "../../ports/test-run-event-hub";
+import { TestRunPresence } from "../../ports/test-run-presence";
+import { CurrentUser } from "../../ports/current-user";
+import type { User } from "@domain/models/user";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+
+const toViewer = (sessionId: string, user: User): TestRunViewer => ({
+  sessionId,
+  user: {
+    id: user.id,
+    name: user.name,
+    avatar: user.avatarUrl ?? undefined,
+  },
+});
+
+/**
+ * テストランの更新イベントを購読する usecase
+ * - テストランが存在しない場合は TestRunNotFoundError で失敗する
+ * - lastEventId を渡すと、再接続までに配信されたイベントを先に受け取る
+ * - sessionId を渡すと、Stream の実行中は実行画面を開いているユーザーとして記録する
+ */
+export const subscribeTestRunEvents = (
+  testRunId: string,
+  options: { sessionId?: string; lastEventId?: number } = {},
+) =>
+  Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const repository = yield* TestRunRepository;
+    const hub = yield* TestRunEventHub;
+    const presence = yield* TestRunPresence;
+
+    yield* repository.findRun(testRunId);
+
+    const publishViewers = (viewers: ReadonlyArray<TestRunViewer>) =>
+      hub.publish({
+        type: "presence_changed",
+        testRunId,
+        viewers: [...viewers],
+      });
+
+    // 購読とユーザーの記録は Stream の実行中（接続中）だけ続ける
+    return Stream.unwrapScoped(
+      Effect.gen(function* () {
+        const events = yield* hub.subscribe(testRunId, options.lastEventId);
+        const { sessionId } = options;
+        if (sessionId !== undefined) {
+          yield* Effect.acquireRelease(
+            presence
+              .join(testRunId, toViewer(sessionId, currentUser))
+              .pipe(Effect.flatMap(publishViewers)),
+            () =>
+              presence
+                .leave(testRunId, sessionId)
+                .pipe(Effect.flatMap(publishViewers)),
+          );
+        }
+        return events;
+      }),
+    );
+  });
@@ -0,0 +1,42 @@
+import { Effect } from "effect";
+import { TestRunRepository } from "../../ports/test-run-repository";
+import { ProjectRepository } from "../../ports/project-repository";
+import { publishRunStatusChanged } from "./publish-test-run-events";
+import { findRunStatus, notifyStatusChanged } from "./notify-test-run-events";
+import { requirePermission } from "../auth/require-permission";
+import type { CompletionPolicy } from "@domain/models/completion-policy";
+
+/**
+ * 完了条件を変更する usecase
+ * - run: このテストランだけの条件（Executor 以上）。policy を省略するとプロジェクトの条件に戻す
+ * - project: テストランが属するプロジェクトの既定値（Admin のみ）
+ */
+export const updateCompletionPolicy = (
+  testRunId: string,
+  scope: "run" | "project",
+  policy?: CompletionPolicy,
+) =>
+  Effect.gen(function* () {
+    const testRunRepository = yield* TestRunRepository;
+    const previousStatus = yield* findRunStatus(testRunId);
+    if (scope === "run") {
+      yield* testRunRepository.updateCompletionPolicy(
+        testRunId,
+        policy ?? null,
+      );
+    } else {
+      const { run } = yield* testRunRepository.findById(testRunId);
+      const projectRepository = yield* ProjectRepository;
+      yield* projectRepository.updateCompletionPolicy(
+        run.projectId,
+        policy ?? null,
+      );
+    }
+    yield* publishRunStatusChanged(testRunId);
+    yield* notifyStatusChanged(testRunId, previousStatus);
+  }).pipe(
+    requirePermission(
+      scope === "run" ? "test-run:create" : "project:configure",
+      "完了条件を変更する権限がありません",
+    ),
+  );
@@ -0,0 +1,31 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import type { WebhookSubscriptionInput } from "~/lib/schemas/webhook";
+
+/**
+ * プロジェクトに Webhook の購読を作成する usecase
+ * （署名のシークレットは作成時にだけ返す）
+ */
+export const createWebhook = (
+  projectId: string,
+  input: WebhookSubscriptionInput,
+) =>
+  Effect.gen(function* () {
+    const projects = yield* ProjectRepository;
+    const repository = yield* WebhookRepository;
+
+    yield* projects.findById(projectId);
+    return yield* repository.create({
+      projectId,
+      url: input.url,
+      events: [...new Set(input.events)],
+      active: input.active,
+    });
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
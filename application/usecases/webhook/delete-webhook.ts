@@ -0,0 +1,19 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import { findProjectWebhook } from "./project-webhook";
+
+/**
+ * Webhook の購読を配信ログとともに削除する usecase
+ */
+export const deleteWebhook = (projectId: string, subscriptionId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    yield* findProjectWebhook(projectId, subscriptionId);
+    yield* repository.remove(subscriptionId);
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
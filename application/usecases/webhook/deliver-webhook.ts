@@ -0,0 +1,46 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { WebhookSender } from "../../ports/webhook-sender";
+import { toAttemptResult, toCancelledResult } from "@domain/logic/webhook";
+
+/**
+ * 配信を 1 回送信し、結果を記録する usecase
+ * （失敗した場合は次の再試行の日時を記録する。無効にした購読の配信は送らずに打ち切る）
+ */
+export const deliverWebhook = (deliveryId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    const sender = yield* WebhookSender;
+    const { delivery, subscription, secret } =
+      yield* repository.findDeliveryTarget(deliveryId);
+
+    if (!subscription.active) {
+      return yield* repository.recordAttempt(
+        deliveryId,
+        toCancelledResult(
+          delivery.attempts,
+          "購読が無効になっているため送信しませんでした",
+          new Date(),
+        ),
+      );
+    }
+
+    const outcome = yield* sender
+      .send({
+        url: subscription.url,
+        secret,
+        deliveryId,
+        event: delivery.event,
+        payload: delivery.payload,
+      })
+      .pipe(
+        Effect.map((response) => ({ response })),
+        Effect.catchTag("WebhookError", (error) =>
+          Effect.succeed({ error: error.message }),
+        ),
+      );
+    return yield* repository.recordAttempt(
+      deliveryId,
+      toAttemptResult(delivery.attempts, outcome, new Date()),
+    );
+  });
@@ -0,0 +1,38 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { subscribesTo, toWebhookPayload } from "@domain/logic/webhook";
+import type { NotificationEvent } from "@domain/models/notification";
+
+/**
+ * テストランのイベントを購読しているプロジェクトの Webhook に配信する
+ *
+ * 配信を送信待ちとして記録するだけで、送信は再試行のワーカーに任せる（応答の遅い送り先にリクエストを待たせない）
+ * （更新は保存済みのため、記録に失敗しても呼び出し元の usecase は失敗させずにログに残す）
+ */
+export const dispatchWebhookEvent = (event: NotificationEvent) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    const subscriptions = (yield* repository.listByProject(
+      event.run.projectId,
+    )).filter((subscription) => subscribesTo(subscription, event.type));
+    if (subscriptions.length === 0) return;
+
+    const now = new Date();
+    const payload = JSON.stringify(toWebhookPayload(event, now));
+    yield* Effect.forEach(
+      subscriptions,
+      (subscription) =>
+        repository.createDelivery({
+          subscriptionId: subscription.id,
+          event: event.type,
+          payload,
+          // 次にワーカーが探したときに最初の送信をする
+          nextAttemptAt: now,
+        }),
+      { concurrency: "unbounded", discard: true },
+    );
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning("Webhook の配信を記録できませんでした", error),
+    ),
+  );
@@ -0,0 +1,34 @@
+import { Effect } from "effect";
+import { ProjectRepository } from "../../ports/project-repository";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import type { WebhookOverview } from "@domain/models/webhook";
+
+// 購読ごとに表示する最近の配信の数
+const RECENT_DELIVERIES = 20;
+
+/**
+ * プロジェクトの Webhook の購読と最近の配信を取得する usecase
+ */
+export const listWebhooks = (projectId: string) =>
+  Effect.gen(function* () {
+    const projects = yield* ProjectRepository;
+    const repository = yield* WebhookRepository;
+
+    yield* projects.findById(projectId);
+    const subscriptions = yield* repository.listByProject(projectId);
+    return yield* Effect.forEach(subscriptions, (subscription) =>
+      repository
+        .listDeliveries(subscription.id, RECENT_DELIVERIES)
+        .pipe(
+          Effect.map(
+            (deliveries): WebhookOverview => ({ subscription, deliveries }),
+          ),
+        ),
+    );
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
@@ -0,0 +1,18 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { WebhookSubscriptionNotFoundError } from "@domain/errors/webhook-errors";
+
+/**
+ * プロジェクトの Webhook の購読を取得する（他のプロジェクトの購読は見つからないものとして扱う）
+ */
+export const findProjectWebhook = (projectId: string, subscriptionId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    const subscription = yield* repository.findById(subscriptionId);
+    if (subscription.projectId !== projectId) {
+      return yield* Effect.fail(
+        new WebhookSubscriptionNotFoundError({ subscriptionId }),
+      );
+    }
+    return subscription;
+  });
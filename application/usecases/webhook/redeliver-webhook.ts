@@ -0,0 +1,37 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import { deliverWebhook } from "./deliver-webhook";
+import { WebhookDeliveryNotFoundError } from "@domain/errors/webhook-errors";
+import { WEBHOOK_DELIVERY_LEASE } from "@domain/logic/webhook";
+
+/**
+ * 配信済みの本文を同じ購読にもう一度送る usecase
+ *
+ * 元の配信は残し、新しい配信として送信する（失敗した場合は通常の配信と同じく再試行する）
+ */
+export const redeliverWebhook = (projectId: string, deliveryId: string) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    const { delivery, subscription } =
+      yield* repository.findDeliveryTarget(deliveryId);
+    if (subscription.projectId !== projectId) {
+      return yield* Effect.fail(
+        new WebhookDeliveryNotFoundError({ deliveryId }),
+      );
+    }
+
+    const redelivery = yield* repository.createDelivery({
+      subscriptionId: subscription.id,
+      event: delivery.event,
+      payload: delivery.payload,
+      nextAttemptAt: new Date(Date.now() + WEBHOOK_DELIVERY_LEASE),
+      redeliveryOfId: delivery.id,
+    });
+    return yield* deliverWebhook(redelivery.id);
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
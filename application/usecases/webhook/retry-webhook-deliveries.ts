@@ -0,0 +1,33 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { deliverWebhook } from "./deliver-webhook";
+import { WEBHOOK_DELIVERY_LEASE } from "@domain/logic/webhook";
+
+// 1 回に再試行する配信数の上限（残りは次の実行で送る）
+const RETRY_BATCH_SIZE = 20;
+
+/**
+ * 送信・再試行の日時を過ぎた配信を送る usecase（再試行のワーカーが定期的に実行する）
+ * 送り直した配信の数を返す
+ */
+export const retryDueWebhookDeliveries = () =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    const now = new Date();
+    const deliveryIds = yield* repository.claimDueDeliveries(
+      now,
+      new Date(now.getTime() + WEBHOOK_DELIVERY_LEASE),
+      RETRY_BATCH_SIZE,
+    );
+    yield* Effect.forEach(
+      deliveryIds,
+      (deliveryId) =>
+        deliverWebhook(deliveryId).pipe(
+          Effect.catchAll((error) =>
+            Effect.logWarning("Webhook を再送できませんでした", error),
+          ),
+        ),
+      { concurrency: 5, discard: true },
+    );
+    return deliveryIds.length;
+  });
@@ -0,0 +1,23 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import { findProjectWebhook } from "./project-webhook";
+
+/**
+ * Webhook の署名のシークレットを再発行する usecase
+ * （以降の送信は、再試行・再送も含めて新しいシークレットで署名する）
+ */
+export const rotateWebhookSecret = (
+  projectId: string,
+  subscriptionId: string,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    yield* findProjectWebhook(projectId, subscriptionId);
+    return yield* repository.rotateSecret(subscriptionId);
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
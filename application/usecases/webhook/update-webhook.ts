@@ -0,0 +1,28 @@
+import { Effect } from "effect";
+import { WebhookRepository } from "../../ports/webhook-repository";
+import { requirePermission } from "../auth/require-permission";
+import { findProjectWebhook } from "./project-webhook";
+import type { WebhookSubscriptionInput } from "~/lib/schemas/webhook";
+
+/**
+ * Webhook の購読の送り先・イベント・有効かどうかを変更する usecase
+ */
+export const updateWebhook = (
+  projectId: string,
+  subscriptionId: string,
+  input: WebhookSubscriptionInput,
+) =>
+  Effect.gen(function* () {
+    const repository = yield* WebhookRepository;
+    yield* findProjectWebhook(projectId, subscriptionId);
+    return yield* repository.update(subscriptionId, {
+      url: input.url,
+      events: [...new Set(input.events)],
+      active: input.active,
+    });
+  }).pipe(
+    requirePermission(
+      "project:configure",
+      "プロジェクトを設定する権限がありません",
+    ),
+  );
@@ -0,0 +1,61 @@
+import { Data } from "effect";
+import type { Permission } from "../models/user";
+
+export class UnauthorizedError extends Data.TaggedError("UnauthorizedError")<{
+  action: Permission;
+  userId: string;
+  message: string;
+}> {}
+
+export class UserNotFoundError extends Data.TaggedError("UserNotFoundError")<{
+  email: string;
+}> {}
+
+/**
+ * ログインしていない（セッションがない、ログアウト済み、有効期限切れ、ユーザーが無効）
+ */
+export class UnauthenticatedError extends Data.TaggedError(
+  "UnauthenticatedError",
+)<{
+  message: string;
+}> {}
+
+/**
+ * OIDC でのログインの失敗（state の不一致、トークンの検証失敗、IdP のエラーなど）
+ */
+export class OidcLoginError extends Data.TaggedError("OidcLoginError")<{
+  message: string;
+  cause?: unknown;
+}> {}
+
+/**
+ * ローカル認証のユーザー名またはパスワードの誤り（ローカル認証が無効な場合も含む）
+ */
+export class InvalidCredentialsError extends Data.TaggedError(
+  "InvalidCredentialsError",
+)<{}> {}
+
+/**
+ * 無効化されたユーザーのログイン
+ */
+export class UserInactiveError extends Data.TaggedError("UserInactiveError")<{
+  email: string;
+}> {}
+
+/**
+ * API トークンが見つからない（他のユーザーのトークンも含む）
+ */
+export class ApiTokenNotFoundError extends Data.TaggedError(
+  "ApiTokenNotFoundError",
+)<{
+  tokenId: string;
+}> {}
+
+/**
+ * API トークンに自分が持っていない権限のスコープを指定した
+ */
+export class InvalidApiTokenScopeError extends Data.TaggedError(
+  "InvalidApiTokenScopeError",
+)<{
+  scopes: string[];
+}> {}
@@ -0,0 +1,10 @@
+import { Data } from "effect";
+
+/**
+ * 自動テストのレポートを読み取れない（形式が違う、テストケースがないなど）
+ */
+export class InvalidAutomatedTestReportError extends Data.TaggedError(
+  "InvalidAutomatedTestReportError",
+)<{
+  message: string;
+}> {}
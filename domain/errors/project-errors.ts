@@ -0,0 +1,22 @@
+import { Data } from "effect";
+
+export class ProjectNotFoundError extends Data.TaggedError(
+  "ProjectNotFoundError",
+)<{
+  projectId: string;
+}> {}
+
+export class ReleaseNotFoundError extends Data.TaggedError(
+  "ReleaseNotFoundError",
+)<{
+  releaseId: string;
+}> {}
+
+/**
+ * プロジェクトにリリース検出（GitHub のリポジトリ）が設定されていない
+ */
+export class ReleaseDetectionNotConfiguredError extends Data.TaggedError(
+  "ReleaseDetectionNotConfiguredError",
+)<{
+  projectId: string;
+}> {}
@@ -0,0 +1,47 @@
+import { Data } from "effect";
+
+export class ScenarioNotFoundError extends Data.TaggedError(
+  "ScenarioNotFoundError",
+)<{
+  scenarioId: string;
+}> {}
+
+export class ScenarioAlreadyExistsError extends Data.TaggedError(
+  "ScenarioAlreadyExistsError",
+)<{
+  scenarioId: string;
+}> {}
+
+export class InvalidScenarioLocationError extends Data.TaggedError(
+  "InvalidScenarioLocationError",
+)<{
+  field: "project" | "environment" | "category" | "id";
+  value: string;
+}> {}
+
+/**
+ * シナリオファイルの問題箇所（line は 1 始まり）
+ */
+export interface ScenarioFileIssue {
+  line: number;
+  message: string;
+}
+
+export class InvalidScenarioFileError extends Data.TaggedError(
+  "InvalidScenarioFileError",
+)<{
+  path: string;
+  message: string;
+  issues: ReadonlyArray<ScenarioFileIssue>;
+}> {}
+
+/**
+ * 編集開始時のバージョン（base_version）以降にシナリオが更新されていた
+ */
+export class ScenarioConflictError extends Data.TaggedError(
+  "ScenarioConflictError",
+)<{
+  scenarioId: string;
+  baseVersion: string;
+  currentVersion: string;
+}> {}
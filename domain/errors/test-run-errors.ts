@@ -0,0 +1,85 @@
+import { Data } from "effect";
+
+export class TestRunNotFoundError extends Data.TaggedError(
+  "TestRunNotFoundError",
+)<{
+  testRunId: string;
+}> {}
+
+export class TestRunItemNotFoundError extends Data.TaggedError(
+  "TestRunItemNotFoundError",
+)<{
+  itemId: string;
+}> {}
+
+/**
+ * 実行済みのアイテムはシナリオの版を変更できない（結果と版の対応が崩れるため）
+ */
+export class TestRunItemAlreadyExecutedError extends Data.TaggedError(
+  "TestRunItemAlreadyExecutedError",
+)<{
+  itemId: string;
+}> {}
+
+/**
+ * アイテムの現在のステータスでは行えない操作
+ * （失敗していないアイテムの再テスト依頼、ブロックされていないアイテムの解消など）
+ */
+export class TestRunItemStatusError extends Data.TaggedError(
+  "TestRunItemStatusError",
+)<{
+  itemId: string;
+  status: string;
+  message: string;
+}> {}
+
+/**
+ * テストランの現在のステータスでは行えない操作
+ * （承認待ちでないテストランの承認・差し戻しなど）
+ */
+export class TestRunStatusError extends Data.TaggedError("TestRunStatusError")<{
+  testRunId: string;
+  status: string;
+  message: string;
+}> {}
+
+/**
+ * テストランの対象として選べない組み合わせ
+ * （プロジェクトにない環境・リリース、対象外のシナリオなど）
+ */
+export class InvalidTestRunScopeError extends Data.TaggedError(
+  "InvalidTestRunScopeError",
+)<{
+  message: string;
+}> {}
+
+/**
+ * テストランの担当者にできないユーザー（存在しない・無効・テストを実行できないユーザー）
+ */
+export class InvalidTestRunAssigneeError extends Data.TaggedError(
+  "InvalidTestRunAssigneeError",
+)<{
+  assigneeId: string;
+  message: string;
+}> {}
+
+/**
+ * 担当者を割り当てられない（テストランに担当者がいない、担当者でないユーザーを
+ * 指定したなど）
+ */
+export class TestRunAssignmentError extends Data.TaggedError(
+  "TestRunAssignmentError",
+)<{
+  testRunId: string;
+  message: string;
+}> {}
+
+/**
+ * 実行画面の接続が見つからない（切断済み、または他のユーザーの接続）
+ */
+export class TestRunViewerNotFoundError extends Data.TaggedError(
+  "TestRunViewerNotFoundError",
+)<{
+  testRunId: string;
+  sessionId: string;
+}> {}
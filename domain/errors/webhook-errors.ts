@@ -0,0 +1,19 @@
+import { Data } from "effect";
+
+/**
+ * Webhook の購読が見つからない（他のプロジェクトの購読を含む）
+ */
+export class WebhookSubscriptionNotFoundError extends Data.TaggedError(
+  "WebhookSubscriptionNotFoundError",
+)<{
+  subscriptionId: string;
+}> {}
+
+/**
+ * Webhook の配信が見つからない（他のプロジェクトの配信を含む）
+ */
+export class WebhookDeliveryNotFoundError extends Data.TaggedError(
+  "WebhookDeliveryNotFoundError",
+)<{
+  deliveryId: string;
+}> {}
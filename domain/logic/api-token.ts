@@ -0,0 +1,27 @@
+import type { ApiToken } from "../models/api-token";
+
+/**
+ * API トークンの文字列の接頭辞（漏洩したトークンをシークレットスキャンで見つけやすくする）
+ */
+export const API_TOKEN_PREFIX = "mdt_";
+
+/**
+ * 選べる有効期間（日数、null は無期限）
+ */
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365, null] as const;
+
+/**
+ * 有効期間から有効期限を求める（null は無期限）
+ */
+export const apiTokenExpiresAt = (
+  now: Date,
+  days: number | null,
+): Date | null =>
+  days === null ? null : new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * API トークンが使えるか（失効しておらず、有効期限内）
+ */
+export const isApiTokenActive = (token: ApiToken, now: Date): boolean =>
+  token.revokedAt === null &&
+  (token.expiresAt === null || token.expiresAt > now);
@@ -0,0 +1,40 @@
+import type { AuthSession } from "../models/auth";
+import type { Role } from "../models/user";
+
+// ログインセッションの有効期間（日）
+export const SESSION_TTL_DAYS = 7;
+
+// OIDC で初めてログインしたユーザーのロール（必要なロールは管理者が付与する）
+export const PROVISIONED_USER_ROLES: readonly Role[] = ["viewer"];
+
+/**
+ * ログインセッションの有効期限
+ */
+export const sessionExpiresAt = (now: Date): Date =>
+  new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * ログインセッションが有効か（ログアウトしておらず、有効期限内）
+ */
+export const isSessionActive = (session: AuthSession, now: Date): boolean =>
+  session.revokedAt === null && session.expiresAt > now;
+
+// 遷移先を解釈するための仮のオリジン（同じオリジンのままかだけを確かめる）
+const RETURN_TO_BASE = "http://medi-test.invalid";
+
+/**
+ * ログイン後の遷移先（同じオリジンのパスのみ許可し、それ以外はダッシュボード）
+ * - ブラウザは `\` を `/` として扱うため、`/\evil.com` のような値も拒否する
+ * - URL として解釈し、オリジンが変わらないことを確かめる
+ */
+export const safeReturnTo = (returnTo: string | null | undefined): string => {
+  if (!returnTo?.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(returnTo)) {
+    return "/";
+  }
+  try {
+    const url = new URL(returnTo, RETURN_TO_BASE);
+    return url.origin === RETURN_TO_BASE ? returnTo : "/";
+  } catch {
+    return "/";
+  }
+};
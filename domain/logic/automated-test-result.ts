@@ -0,0 +1,131 @@
+import type {
+  AutomatedTestItemResult,
+  AutomatedTestMatching,
+  AutomatedTestTarget,
+} from "../models/automated-test";
+import type {
+  AutomatedTestCase,
+  AutomatedTestReportFormat,
+  AutomatedTestStatus,
+} from "~/lib/schemas/automated-test";
+import type { Evidence } from "~/lib/schemas/test-run";
+
+type EvidenceLog = NonNullable<Evidence["logs"]>[number];
+
+/**
+ * レポートの形式の表示名
+ */
+export const AUTOMATED_TEST_REPORT_FORMAT_LABELS: Record<
+  AutomatedTestReportFormat,
+  string
+> = {
+  junit: "JUnit XML",
+  playwright: "Playwright JSON",
+  jest: "Jest JSON",
+};
+
+/**
+ * 証跡のログに残す失敗のメッセージの文字数
+ */
+const MAX_FAILURE_MESSAGE = 10_000;
+
+/**
+ * テストケースをシナリオの automated_test_id でアイテムと照合する
+ * - テストケースの ID と一致するものを優先し、なければテストケース名と一致するものを使う
+ * - 1 つのテストケースが複数のアイテムと照合することもある（同じシナリオのアイテムなど）
+ */
+export const matchAutomatedTestCases = (
+  cases: ReadonlyArray<AutomatedTestCase>,
+  targets: ReadonlyArray<AutomatedTestTarget>,
+): AutomatedTestMatching => {
+  const matched = new Set<AutomatedTestCase>();
+  const matches = targets.flatMap((target) => {
+    const { automatedTestId } = target;
+    if (!automatedTestId) return [];
+    const byId = cases.filter((testCase) => testCase.id === automatedTestId);
+    const found =
+      byId.length > 0
+        ? byId
+        : cases.filter((testCase) => testCase.name === automatedTestId);
+    if (found.length === 0) return [];
+    for (const testCase of found) matched.add(testCase);
+    return [{ target, cases: found }];
+  });
+
+  return {
+    matches,
+    unmatched: cases.filter((testCase) => !matched.has(testCase)),
+  };
+};
+
+/**
+ * テストケースの結果をまとめる（1 つでも失敗なら失敗、すべてスキップならスキップ）
+ */
+export const summarizeAutomatedTestStatus = (
+  cases: ReadonlyArray<AutomatedTestCase>,
+): AutomatedTestStatus => {
+  if (cases.some((testCase) => testCase.status === "failed")) return "failed";
+  if (cases.some((testCase) => testCase.status === "passed")) return "passed";
+  return "skipped";
+};
+
+const toLog = (testCase: AutomatedTestCase, timestamp: string): EvidenceLog => {
+  const duration =
+    testCase.durationSeconds === undefined
+      ? ""
+      : `（${testCase.durationSeconds.toFixed(1)} 秒）`;
+  switch (testCase.status) {
+    case "passed":
+      return {
+        level: "info",
+        message: `成功: ${testCase.id}${duration}`,
+        timestamp,
+      };
+    case "skipped":
+      return {
+        level: "warning",
+        message: `スキップ: ${testCase.id}`,
+        timestamp,
+      };
+    case "failed":
+      return {
+        level: "error",
+        message: [
+          `失敗: ${testCase.id}${duration}`,
+          testCase.failureMessage?.slice(0, MAX_FAILURE_MESSAGE),
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        timestamp,
+      };
+  }
+};
+
+/**
+ * テストケースの結果からアイテムに記録する結果・実行時間・証跡を作る
+ * （すべてスキップされた場合は記録しないため null）
+ */
+export const toAutomatedItemResult = (
+  format: AutomatedTestReportFormat,
+  cases: ReadonlyArray<AutomatedTestCase>,
+  importedAt: Date,
+): AutomatedTestItemResult | null => {
+  const status = summarizeAutomatedTestStatus(cases);
+  if (status === "skipped") return null;
+
+  const durations = cases.flatMap((testCase) =>
+    testCase.durationSeconds === undefined ? [] : [testCase.durationSeconds],
+  );
+  const timestamp = importedAt.toISOString();
+  return {
+    result: status,
+    durationSeconds:
+      durations.length > 0
+        ? Math.round(durations.reduce((sum, seconds) => sum + seconds, 0))
+        : undefined,
+    evidence: {
+      notes: `自動テストの結果（${AUTOMATED_TEST_REPORT_FORMAT_LABELS[format]}）から記録`,
+      logs: cases.map((testCase) => toLog(testCase, timestamp)),
+    },
+  };
+};
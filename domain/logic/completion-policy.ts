@@ -0,0 +1,102 @@
+import type {
+  CompletionBucket,
+  CompletionPolicy,
+  CompletionPolicyItem,
+  CompletionVerdict,
+} from "../models/completion-policy";
+import type {
+  CompletionPolicyOverride,
+  Importance,
+} from "~/lib/schemas/test-run";
+import { isItemCompleted } from "./test-run-progress";
+
+/**
+ * 既定の完了条件（docs/data-model.md の例に critical を加えたもの）
+ */
+export const DEFAULT_COMPLETION_POLICY: CompletionPolicy = {
+  critical: 100,
+  high: 100,
+  medium: 95,
+  low: 90,
+};
+
+const IMPORTANCE_ORDER: readonly Importance[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+];
+
+/**
+ * 既定値にプロジェクト・テストランの設定を順に重ねる（後の設定を優先する）
+ */
+export const resolveCompletionPolicy = (
+  ...overrides: readonly (CompletionPolicyOverride | undefined)[]
+): CompletionPolicy =>
+  overrides.reduce<CompletionPolicy>(
+    (policy, override) => ({ ...policy, ...override }),
+    DEFAULT_COMPLETION_POLICY,
+  );
+
+const evaluateBucket = (
+  importance: Importance,
+  threshold: number,
+  items: readonly CompletionPolicyItem[],
+): CompletionBucket => {
+  // 意図的なスキップは成功率の分母に含めない
+  const targets = items.filter(
+    (item) => item.importance === importance && item.status !== "skipped",
+  );
+  const passed = targets.filter((item) => item.status === "passed").length;
+  const failed = targets.filter((item) => item.status === "failed").length;
+  const successRate =
+    targets.length > 0
+      ? Math.round((passed / targets.length) * 1000) / 10
+      : null;
+
+  return {
+    importance,
+    threshold,
+    total: targets.length,
+    passed,
+    failed,
+    outstanding: targets.filter((item) => !isItemCompleted(item.status)).length,
+    successRate,
+    met: successRate === null || successRate >= threshold,
+  };
+};
+
+/**
+ * 完了条件を評価する
+ * - 成功率は重要度ごとに「成功 / スキップを除く件数」で計算し、未実行は成功に数えない
+ * - 必須アイテムが未実行の間は条件を満たしていても完了にしない
+ * - 未確定のアイテム（未実行・ブロック・再テスト待ち）が残る間は失敗にしない
+ */
+export const evaluateCompletionPolicy = (
+  policy: CompletionPolicy,
+  items: readonly CompletionPolicyItem[],
+): CompletionVerdict => {
+  const buckets = IMPORTANCE_ORDER.map((importance) =>
+    evaluateBucket(importance, policy[importance], items),
+  );
+  const failedBuckets = buckets
+    .filter((bucket) => !bucket.met)
+    .map((bucket) => bucket.importance);
+  const unexecutedRequired = items
+    .filter((item) => item.required && !isItemCompleted(item.status))
+    .map(({ id, title }) => ({ id, title }));
+  const hasOutstanding = items.some((item) => !isItemCompleted(item.status));
+
+  const verdict = { buckets, failedBuckets, unexecutedRequired };
+
+  if (items.every((item) => item.status === "pending")) {
+    return { ...verdict, status: "not_started" };
+  }
+  if (unexecutedRequired.length === 0 && failedBuckets.length === 0) {
+    return { ...verdict, status: "passed" };
+  }
+  if (!hasOutstanding) {
+    return { ...verdict, status: "failed" };
+  }
+  return { ...verdict, status: "in_progress" };
+};
@@ -0,0 +1,89 @@
+import type {
+  ExecutionTrend,
+  ProjectStat,
+  ProjectStats,
+  RunStatusCounts,
+  TestSummary,
+} from "../models/dashboard";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 成功率（%）を計算（実行済みが 0 件なら 0）
+ */
+export const calculateSuccessRate = (
+  passedItems: number,
+  completedItems: number,
+): number =>
+  completedItems > 0 ? Math.round((passedItems / completedItems) * 100) : 0;
+
+/**
+ * 前期間比の増減率（%、小数第1位まで）
+ */
+export const calculateTrend = (
+  current: number,
+  previous: number,
+): TestSummary["trend"] => {
+  if (previous === 0) {
+    return { value: current > 0 ? 100 : 0, isPositive: true };
+  }
+
+  const value = Math.round(((current - previous) / previous) * 1000) / 10;
+  return { value, isPositive: value >= 0 };
+};
+
+/**
+ * ステータス別件数からサマリーを組み立てる
+ */
+export const buildTestSummary = (
+  counts: RunStatusCounts,
+  averageSuccessRate: number,
+  trend: TestSummary["trend"],
+): TestSummary => ({
+  totalRuns:
+    counts.planned +
+    counts.in_progress +
+    counts.awaiting_approval +
+    counts.completed +
+    counts.failed,
+  successfulRuns: counts.completed,
+  failedRuns: counts.failed,
+  inProgressRuns: counts.in_progress,
+  averageSuccessRate: Math.round(averageSuccessRate),
+  trend,
+});
+
+/**
+ * 基準日から遡った N 日分の日付（YYYY-MM-DD, UTC）
+ */
+export const listPastDates = (days: number, now: Date): string[] =>
+  Array.from({ length: days }, (_, index) =>
+    new Date(now.getTime() - (days - 1 - index) * DAY_IN_MS)
+      .toISOString()
+      .slice(0, 10),
+  );
+
+/**
+ * 集計結果に実行のない日を 0 件で補完する
+ */
+export const fillExecutionTrends = (
+  rows: ReadonlyArray<ExecutionTrend>,
+  days: number,
+  now: Date,
+): ExecutionTrend[] => {
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+
+  return listPastDates(days, now).map(
+    (date) => byDate.get(date) ?? { date, successful: 0, failed: 0, total: 0 },
+  );
+};
+
+/**
+ * プロジェクト統計を環境ごとに振り分ける
+ */
+export const groupProjectStats = (
+  stats: ReadonlyArray<ProjectStat>,
+): ProjectStats => ({
+  production: stats.filter((stat) => stat.environment === "production"),
+  staging: stats.filter((stat) => stat.environment === "staging"),
+});
@@ -0,0 +1,103 @@
+import type { ItemAssignment } from "../models/test-run";
+import { isItemCompleted } from "./test-run-progress";
+import type {
+  AssignmentStrategy,
+  FolderOwners,
+  TestRunItem,
+} from "~/lib/schemas/test-run";
+
+/**
+ * 振り分けの設定
+ * - onlyUnassigned: 担当者のいないアイテムだけを振り分ける
+ * - folderOwners: folder_owner で使うフォルダーの担当者
+ */
+export type AssignmentOptions = {
+  onlyUnassigned: boolean;
+  folderOwners: FolderOwners;
+};
+
+type AssignableItem = Pick<
+  TestRunItem,
+  "id" | "folder" | "status" | "estimatedMinutes" | "assignee"
+>;
+
+/**
+ * 想定所要時間の重み（未設定のアイテムは設定済みのアイテムの平均とみなす）
+ */
+const estimateMinutes = (items: readonly AssignableItem[]) => {
+  const known = items.flatMap((item) =>
+    item.estimatedMinutes === undefined ? [] : [item.estimatedMinutes],
+  );
+  const fallback =
+    known.length === 0
+      ? 1
+      : known.reduce((sum, minutes) => sum + minutes, 0) / known.length;
+  return (item: AssignableItem) => item.estimatedMinutes ?? fallback;
+};
+
+/**
+ * 所要時間の長いアイテムから、その時点で合計が最も少ない担当者に振り分ける
+ * （振り分け対象外の未実行アイテムも担当者の持ち分として数える）
+ */
+const balanceByDuration = (
+  targets: readonly AssignableItem[],
+  kept: readonly AssignableItem[],
+  assigneeIds: readonly string[],
+): ItemAssignment[] => {
+  const minutesOf = estimateMinutes([...targets, ...kept]);
+  const loads = new Map(assigneeIds.map((id) => [id, 0]));
+  for (const item of kept) {
+    const id = item.assignee?.id;
+    if (id !== undefined && loads.has(id)) {
+      loads.set(id, (loads.get(id) ?? 0) + minutesOf(item));
+    }
+  }
+
+  return [...targets]
+    .sort((a, b) => minutesOf(b) - minutesOf(a))
+    .map((item) => {
+      const [assigneeId] = [...loads].reduce((min, entry) =>
+        entry[1] < min[1] ? entry : min,
+      );
+      loads.set(assigneeId, (loads.get(assigneeId) ?? 0) + minutesOf(item));
+      return { itemId: item.id, assigneeId };
+    });
+};
+
+/**
+ * ルールに従って未実行のアイテムの担当者を決める（変更するアイテムだけを返す）
+ * - 実行済みのアイテムは結果を記録した担当者のまま残す
+ * - folder_owner では担当者のいない（またはテストランの担当者でない）フォルダーの
+ *   アイテムは変更しない
+ */
+export const planItemAssignments = (
+  strategy: AssignmentStrategy,
+  items: readonly AssignableItem[],
+  assigneeIds: readonly string[],
+  options: AssignmentOptions,
+): ItemAssignment[] => {
+  if (assigneeIds.length === 0) return [];
+
+  const open = items.filter((item) => !isItemCompleted(item.status));
+  const targets = open.filter(
+    (item) => !options.onlyUnassigned || item.assignee === undefined,
+  );
+  const kept = open.filter((item) => !targets.includes(item));
+
+  switch (strategy) {
+    case "round_robin":
+      return targets.map((item, index) => ({
+        itemId: item.id,
+        assigneeId: assigneeIds[index % assigneeIds.length],
+      }));
+    case "folder_owner":
+      return targets.flatMap((item) => {
+        const owner = options.folderOwners[item.folder ?? ""];
+        return owner !== undefined && assigneeIds.includes(owner)
+          ? [{ itemId: item.id, assigneeId: owner }]
+          : [];
+      });
+    case "balanced_duration":
+      return balanceByDuration(targets, kept, assigneeIds);
+  }
+};
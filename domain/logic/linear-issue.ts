@@ -0,0 +1,43 @@
+import type {
+  IssueScenarioSuggestion,
+  LinearIssue,
+} from "../models/linear-issue";
+
+/**
+ * ラベルの比較に使う値（大文字・小文字と前後の空白を区別しない）
+ */
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+/**
+ * フォルダーかタグが Issue のラベルと一致するか
+ */
+export const matchesIssueLabels = (
+  labels: ReadonlyArray<string>,
+  scenario: { folder?: string; tags: ReadonlyArray<string> },
+): boolean => {
+  const normalized = new Set(labels.map(normalizeLabel));
+  return [scenario.folder, ...scenario.tags].some(
+    (value) => value !== undefined && normalized.has(normalizeLabel(value)),
+  );
+};
+
+/**
+ * Issue ごとに、フォルダーかタグがラベルと一致するシナリオを提案する
+ * （提案するシナリオがない Issue は含めない）
+ */
+export const suggestScenariosFromIssues = (
+  issues: ReadonlyArray<LinearIssue>,
+  scenarios: ReadonlyArray<{
+    id: string;
+    folder: string;
+    tags: ReadonlyArray<string>;
+  }>,
+): IssueScenarioSuggestion[] =>
+  issues
+    .map((issue) => ({
+      identifier: issue.identifier,
+      scenarioIds: scenarios
+        .filter((scenario) => matchesIssueLabels(issue.labels, scenario))
+        .map((scenario) => scenario.id),
+    }))
+    .filter((suggestion) => suggestion.scenarioIds.length > 0);
@@ -0,0 +1,50 @@
+/**
+ * リストの差分の1行
+ * - unchanged: 両方の版にある
+ * - removed: 比較元の版にのみある
+ * - added: 比較先の版にのみある
+ */
+export type ListDiffEntry = {
+  type: "unchanged" | "removed" | "added";
+  value: string;
+};
+
+/**
+ * 2つのリストの差分を求める（最長共通部分列による行単位の差分）
+ *
+ * シナリオの手順・前提条件などは数十行程度のため O(n*m) で十分
+ */
+export const diffList = (
+  from: ReadonlyArray<string>,
+  to: ReadonlyArray<string>,
+): ListDiffEntry[] => {
+  // lengths[i][j] = from[i..] と to[j..] の最長共通部分列の長さ
+  const lengths = Array.from({ length: from.length + 1 }, () =>
+    Array.from({ length: to.length + 1 }, () => 0),
+  );
+  for (const i of [...from.keys()].reverse()) {
+    for (const j of [...to.keys()].reverse()) {
+      lengths[i][j] =
+        from[i] === to[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const walk = (i: number, j: number): ListDiffEntry[] => {
+    if (i === from.length) {
+      return to.slice(j).map((value) => ({ type: "added", value }));
+    }
+    if (j === to.length) {
+      return from.slice(i).map((value) => ({ type: "removed", value }));
+    }
+    if (from[i] === to[j]) {
+      return [{ type: "unchanged", value: from[i] }, ...walk(i + 1, j + 1)];
+    }
+    return lengths[i + 1][j] >= lengths[i][j + 1]
+      ? [{ type: "removed", value: from[i] }, ...walk(i + 1, j)]
+      : [{ type: "added", value: to[j] }, ...walk(i, j + 1)];
+  };
+
+  return walk(0, 0);
+};
@@ -0,0 +1,46 @@
+import type { Permission, Role, User } from "../models/user";
+
+/**
+ * ロールごとの権限（docs/authentication.md の Permission Matrix）
+ */
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  admin: [
+    "scenario:create",
+    "scenario:edit",
+    "scenario:archive",
+    "test-run:create",
+    "test-run:execute",
+    "test-run:approve",
+    "test-run:view",
+    "user:manage",
+    "project:configure",
+  ],
+  executor: [
+    "scenario:create",
+    "scenario:edit",
+    "test-run:create",
+    "test-run:execute",
+    "test-run:view",
+  ],
+  viewer: ["test-run:view"],
+  approver: ["test-run:view", "test-run:approve"],
+};
+
+/**
+ * ユーザーが権限を持つか（有効なユーザーのみ、いずれかのロールが持っていればよい）
+ */
+export const hasPermission = (user: User, permission: Permission): boolean => {
+  if (user.status !== "active") {
+    return false;
+  }
+
+  return user.roles.some((role) => rolePermissions[role].includes(permission));
+};
+
+/**
+ * ユーザーが持つ権限の一覧（画面の表示の切り替えに使う。無効なユーザーは権限を持たない）
+ */
+export const permissionsOf = (user: User): Permission[] =>
+  user.status === "active"
+    ? [...new Set(user.roles.flatMap((role) => rolePermissions[role]))]
+    : [];
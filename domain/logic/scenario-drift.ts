@@ -0,0 +1,46 @@
+import type { VersionedScenario } from "../models/scenario";
+import type {
+  ScenarioDrift,
+  ScenarioHead,
+  ScenarioSnapshotFields,
+} from "../models/test-run";
+import type { TestRunItem } from "~/lib/schemas/test-run";
+
+/**
+ * アイテムが記録した版とシナリオの最新版を比較する
+ * （current が null の場合はシナリオが見つからない）
+ */
+export const detectScenarioDrift = (
+  item: TestRunItem,
+  current: ScenarioHead | null,
+): ScenarioDrift => {
+  const base = {
+    itemId: item.id,
+    scenarioId: item.scenarioId,
+    pinnedVersion: item.scenarioVersion,
+    currentVersion: current?.version,
+  };
+
+  if (current === null) return { ...base, status: "missing" };
+  if (current.archived) return { ...base, status: "archived" };
+  if (!item.scenarioVersion) return { ...base, status: "unpinned" };
+  return {
+    ...base,
+    status: item.scenarioVersion === current.version ? "current" : "outdated",
+  };
+};
+
+/**
+ * シナリオの版からアイテムに記録する内容を作る
+ */
+export const snapshotScenario = ({
+  scenario,
+  version,
+}: VersionedScenario): ScenarioSnapshotFields => ({
+  scenarioId: scenario.location.id,
+  scenarioVersion: version,
+  title: scenario.title,
+  description: scenario.description,
+  folder: scenario.location.category,
+  estimatedMinutes: scenario.estimatedDurationMinutes ?? null,
+});
@@ -0,0 +1,162 @@
+import { Either } from "effect";
+import type { ScenarioFileIssue } from "../errors/scenario-errors";
+
+/**
+ * Markdown ファイルに含まれるシナリオの内容
+ */
+export interface ScenarioMarkdown {
+  title: string;
+  description: string;
+  preconditions: ReadonlyArray<string>;
+  steps: ReadonlyArray<string>;
+  expectedResults: ReadonlyArray<string>;
+}
+
+/**
+ * 本文の後ろに固定順で出力するセクション
+ */
+const SECTIONS = [
+  { key: "preconditions", heading: "## 前提条件" },
+  { key: "steps", heading: "## テスト手順" },
+  { key: "expectedResults", heading: "## 期待結果" },
+] as const;
+
+const formatItem = (
+  key: (typeof SECTIONS)[number]["key"],
+  item: string,
+  index: number,
+) => {
+  switch (key) {
+    case "preconditions":
+      return `- ${item}`;
+    case "steps":
+      return `${index + 1}. ${item}`;
+    case "expectedResults":
+      return `- [ ] ${item}`;
+  }
+};
+
+const ITEM_PATTERNS = {
+  preconditions: /^- (.+)$/,
+  steps: /^(\d+)\. (.+)$/,
+  expectedResults: /^- \[[ x]\] (.+)$/,
+} as const;
+
+/**
+ * シナリオを Markdown に変換
+ *
+ * # タイトル → 本文 → 前提条件 / テスト手順 / 期待結果 の順に出力する。
+ * 本文は加工せずに埋め込むため、parseScenarioMarkdown で完全に復元できる
+ */
+export const toScenarioMarkdown = (markdown: ScenarioMarkdown): string => {
+  const sections = SECTIONS.map(({ key, heading }) => {
+    const items = markdown[key].map((item, index) =>
+      formatItem(key, item, index),
+    );
+    return items.length > 0
+      ? `${heading}\n\n${items.join("\n")}\n`
+      : `${heading}\n`;
+  });
+
+  const body = markdown.description === "" ? "" : `${markdown.description}\n\n`;
+
+  return `# ${markdown.title}\n\n${body}${sections.join("\n")}`;
+};
+
+const lineOf = (text: string, offset: number) =>
+  text.slice(0, offset).split("\n").length;
+
+/**
+ * Markdown からシナリオの内容を復元（問題があれば行番号付きで返す）
+ */
+export const parseScenarioMarkdown = (
+  text: string,
+): Either.Either<ScenarioMarkdown, ReadonlyArray<ScenarioFileIssue>> => {
+  const titleMatch = /^# (.+)\n\n/.exec(text);
+  if (!titleMatch) {
+    return Either.left([
+      { line: 1, message: "1行目は「# タイトル」の見出しである必要があります" },
+    ]);
+  }
+
+  const rest = text.slice(titleMatch[0].length);
+  const restOffset = titleMatch[0].length;
+
+  // 生成セクションは末尾にあり、項目は1行ずつなので最後の見出しを採用する
+  const firstHeading = `${SECTIONS[0].heading}\n`;
+  const sectionsStart = rest.lastIndexOf(firstHeading);
+  const validStart =
+    sectionsStart === 0 ||
+    (sectionsStart >= 2 &&
+      rest.slice(sectionsStart - 2, sectionsStart) === "\n\n");
+  if (sectionsStart === -1 || !validStart) {
+    return Either.left([
+      {
+        line: lineOf(text, text.length),
+        message: `「${SECTIONS[0].heading}」セクションが見つかりません`,
+      },
+    ]);
+  }
+
+  const description =
+    sectionsStart === 0 ? "" : rest.slice(0, sectionsStart - 2);
+  const lines = rest.slice(sectionsStart).split("\n");
+  const firstLine = lineOf(text, restOffset + sectionsStart);
+
+  const issues: ScenarioFileIssue[] = [];
+  const sections: Record<(typeof SECTIONS)[number]["key"], string[]> = {
+    preconditions: [],
+    steps: [],
+    expectedResults: [],
+  };
+  const current: { section: (typeof SECTIONS)[number] | null; next: number } = {
+    section: null,
+    next: 0,
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = firstLine + index;
+    if (line === "") return;
+
+    const expected = SECTIONS[current.next];
+    if (expected && line === expected.heading) {
+      current.section = expected;
+      current.next += 1;
+      return;
+    }
+
+    const section = current.section;
+    const match = section ? ITEM_PATTERNS[section.key].exec(line) : null;
+    if (!section || !match) {
+      issues.push({
+        line: lineNumber,
+        message: `解釈できない行です: ${line}`,
+      });
+      return;
+    }
+
+    const items = sections[section.key];
+    if (section.key === "steps" && Number(match[1]) !== items.length + 1) {
+      issues.push({
+        line: lineNumber,
+        message: `手順番号は ${items.length + 1} である必要があります`,
+      });
+    }
+    items.push(match[match.length - 1]);
+  });
+
+  SECTIONS.slice(current.next).forEach(({ heading }) =>
+    issues.push({
+      line: firstLine + lines.length - 1,
+      message: `「${heading}」セクションが見つかりません`,
+    }),
+  );
+
+  if (issues.length > 0) return Either.left(issues);
+
+  return Either.right({
+    title: titleMatch[1],
+    description,
+    ...sections,
+  });
+};
@@ -0,0 +1,90 @@
+import { ScenarioLocation } from "../models/scenario";
+import type { ScenarioEnvironment } from "../models/scenario";
+
+/**
+ * シナリオを格納するルートディレクトリ
+ */
+export const SCENARIO_ROOT = "projects";
+
+/**
+ * アーカイブしたシナリオを格納するルートディレクトリ（配下の構成は SCENARIO_ROOT と同じ）
+ */
+export const ARCHIVE_ROOT = "archived";
+
+export type ScenarioRoot = typeof SCENARIO_ROOT | typeof ARCHIVE_ROOT;
+
+const SEGMENT_PATTERN = /^[a-z0-9-]+$/;
+const ENVIRONMENTS: ReadonlyArray<ScenarioEnvironment> = [
+  "production",
+  "staging",
+];
+
+/**
+ * パスの1セグメントとして使える値か（kebab-case、".." や "/" を含まない）
+ */
+export const isValidPathSegment = (value: string): boolean =>
+  SEGMENT_PATTERN.test(value);
+
+/**
+ * 配置のうち不正なフィールドを返す（すべて正しければ null）
+ */
+export const findInvalidLocationField = (
+  location: ScenarioLocation,
+): keyof ScenarioLocation | null => {
+  if (!isValidPathSegment(location.project)) return "project";
+  if (!ENVIRONMENTS.includes(location.environment)) return "environment";
+  if (!isValidPathSegment(location.category)) return "category";
+  if (!isValidPathSegment(location.id)) return "id";
+  return null;
+};
+
+/**
+ * 拡張子を除いたシナリオファイルのパス
+ */
+export const scenarioBasePath = (
+  location: ScenarioLocation,
+  root: ScenarioRoot = SCENARIO_ROOT,
+): string =>
+  [
+    root,
+    location.project,
+    location.environment,
+    location.category,
+    location.id,
+  ].join("/");
+
+export const scenarioYamlPath = (
+  location: ScenarioLocation,
+  root: ScenarioRoot = SCENARIO_ROOT,
+): string => `${scenarioBasePath(location, root)}.yml`;
+
+export const scenarioMarkdownPath = (
+  location: ScenarioLocation,
+  root: ScenarioRoot = SCENARIO_ROOT,
+): string => `${scenarioBasePath(location, root)}.md`;
+
+/**
+ * YAML ファイルのパスから配置を復元（レイアウト外のパスは null）
+ */
+export const parseScenarioYamlPath = (
+  path: string,
+  root: ScenarioRoot = SCENARIO_ROOT,
+): ScenarioLocation | null => {
+  const segments = path.split("/");
+  if (segments.length !== 5 || segments[0] !== root) return null;
+
+  const [, project, environment, category, fileName] = segments;
+  if (!fileName.endsWith(".yml")) return null;
+
+  const environmentType = ENVIRONMENTS.find((type) => type === environment);
+  if (!environmentType) return null;
+
+  const location = new ScenarioLocation({
+    project,
+    environment: environmentType,
+    category,
+    id: fileName.slice(0, -".yml".length),
+  });
+
+  return findInvalidLocationField(location) === null ? location : null;
+};
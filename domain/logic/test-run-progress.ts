@@ -0,0 +1,53 @@
+import type { TestRunProgress } from "../models/test-run";
+import type { CompletionVerdict } from "../models/completion-policy";
+import type { TestRunItemStatus, TestRunStatus } from "~/lib/schemas/test-run";
+
+/**
+ * 完了として数えるステータス（blocked・retest は再実行するため含めない）
+ */
+const COMPLETED_STATUSES: readonly TestRunItemStatus[] = [
+  "passed",
+  "failed",
+  "skipped",
+];
+
+/**
+ * アイテムが実行済み（結果が確定している）か
+ */
+export const isItemCompleted = (status: TestRunItemStatus): boolean =>
+  COMPLETED_STATUSES.includes(status);
+
+/**
+ * アイテムのステータスからテストランの進捗を集計する
+ * （アイテムのステータスは最新の実行結果のため、再テスト前の結果は数えない）
+ */
+export const summarizeTestRunProgress = (
+  statuses: readonly TestRunItemStatus[],
+): TestRunProgress => ({
+  completedItems: statuses.filter(isItemCompleted).length,
+  passedItems: statuses.filter((status) => status === "passed").length,
+  failedItems: statuses.filter((status) => status === "failed").length,
+});
+
+/**
+ * 完了条件の判定からテストランのステータスを決める
+ * - 条件を満たした: awaiting_approval（承認済みの completed はそのまま）
+ * - 満たせないまま全件確定: failed
+ * - 実行中: in_progress
+ * - 未着手の場合は現在のステータスのまま
+ */
+export const deriveTestRunStatus = (
+  current: TestRunStatus,
+  verdict: CompletionVerdict,
+): TestRunStatus => {
+  switch (verdict.status) {
+    case "passed":
+      return current === "completed" ? "completed" : "awaiting_approval";
+    case "failed":
+      return "failed";
+    case "in_progress":
+      return "in_progress";
+    case "not_started":
+      return current;
+  }
+};
@@ -0,0 +1,82 @@
+import type { PathScopeRule } from "~/lib/schemas/release-detection";
+import type {
+  ChangedFile,
+  ChangedFileMapping,
+} from "../models/release-detection";
+
+/**
+ * リリースの PR に付けるラベル（`{tag}` をリリースのタグに置き換える）
+ */
+export const releaseLabelOf = (template: string, tag: string): string =>
+  template.replaceAll("{tag}", tag);
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * パスが glob のパターンに一致するか
+ * - `**` は `/` を含む任意の文字列、`*` は `/` を含まない任意の文字列
+ * - `/` で終わるパターンはそのディレクトリ以下のすべてのファイルに一致する
+ */
+export const matchesPathPattern = (path: string, pattern: string): boolean => {
+  const glob = pattern.endsWith("/") ? `${pattern}**` : pattern;
+  const source = glob
+    .split("**")
+    .map((part) => part.split("*").map(escapeRegExp).join("[^/]*"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(path);
+};
+
+/**
+ * 変更ファイルをルールでフォルダー・タグに対応付ける
+ * （名前を変えたファイルは変更前のパスも対象にする）
+ */
+export const mapChangedFiles = (
+  files: readonly ChangedFile[],
+  rules: readonly PathScopeRule[],
+): ChangedFileMapping => {
+  const folders = new Set<string>();
+  const tags = new Set<string>();
+  const unmatched = new Set<string>();
+
+  for (const file of files) {
+    const paths = [file.path, file.previousPath].filter(
+      (path): path is string => path !== undefined,
+    );
+    const matched = rules.filter((rule) =>
+      paths.some((path) => matchesPathPattern(path, rule.pattern)),
+    );
+    if (matched.length === 0) {
+      unmatched.add(file.path);
+    }
+    for (const rule of matched) {
+      rule.folders.forEach((folder) => folders.add(folder));
+      rule.tags.forEach((tag) => tags.add(tag));
+    }
+  }
+
+  return {
+    folders: [...folders].sort(),
+    tags: [...tags].sort(),
+    unmatchedFiles: [...unmatched].sort(),
+  };
+};
+
+/**
+ * フォルダー・タグのいずれかに該当するシナリオの ID（シナリオの順）
+ */
+export const proposeScenarioIds = (
+  scenarios: ReadonlyArray<{
+    id: string;
+    folder: string;
+    tags: ReadonlyArray<string>;
+  }>,
+  mapping: Pick<ChangedFileMapping, "folders" | "tags">,
+): string[] =>
+  scenarios
+    .filter(
+      (scenario) =>
+        mapping.folders.includes(scenario.folder) ||
+        scenario.tags.some((tag) => mapping.tags.includes(tag)),
+    )
+    .map((scenario) => scenario.id);
@@ -0,0 +1,42 @@
+/**
+ * 3-way マージの結果
+ * - resolved: 自動で決まった値
+ * - conflict: 双方が異なる値に変更しており、利用者の選択が必要
+ */
+export type MergeResult<T> =
+  | { status: "resolved"; value: T }
+  | { status: "conflict"; base: T; mine: T; theirs: T };
+
+/**
+ * 単一の値を 3-way マージする（片側だけの変更はその値を採用）
+ */
+export const mergeValue = <T>(
+  base: T,
+  mine: T,
+  theirs: T,
+  equals: (a: T, b: T) => boolean = (a, b) => a === b,
+): MergeResult<T> => {
+  if (equals(mine, theirs)) return { status: "resolved", value: mine };
+  if (equals(base, mine)) return { status: "resolved", value: theirs };
+  if (equals(base, theirs)) return { status: "resolved", value: mine };
+  return { status: "conflict", base, mine, theirs };
+};
+
+/**
+ * タグ（集合）を 3-way マージする
+ *
+ * 双方の追加・削除を両方反映するため競合しない。
+ * 順序は「最新版の並び → 自分が追加したタグ」とする
+ */
+export const mergeTags = (
+  base: ReadonlyArray<string>,
+  mine: ReadonlyArray<string>,
+  theirs: ReadonlyArray<string>,
+): string[] => {
+  const removedByMe = base.filter((tag) => !mine.includes(tag));
+  const addedByMe = mine.filter(
+    (tag) => !base.includes(tag) && !theirs.includes(tag),
+  );
+
+  return [...theirs.filter((tag) => !removedByMe.includes(tag)), ...addedByMe];
+};
@@ -0,0 +1,155 @@
+import type { NotificationEvent } from "../models/notification";
+import type {
+  WebhookAttemptResult,
+  WebhookPayload,
+  WebhookPayloadItem,
+  WebhookResponse,
+  WebhookSubscription,
+} from "../models/webhook";
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type { Assignee, TestRunItem } from "~/lib/schemas/test-run";
+
+/**
+ * 1 つの配信を送信する回数の上限（最初の送信を含む）
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * 最初の再試行までの間隔（ミリ秒）。以降は失敗するたびに倍にする
+ * （1, 2, 4, ... 64 分後で、最後の送信は最初の送信の約 2 時間後）
+ */
+export const WEBHOOK_RETRY_BASE_DELAY = 60_000;
+
+/**
+ * 送信中の配信を他のワーカーが重ねて送らないように予約する時間（ミリ秒）
+ * （送信のタイムアウトより長くし、送信中に止まった場合は予約が切れてから再試行する）
+ */
+export const WEBHOOK_DELIVERY_LEASE = 60_000;
+
+/**
+ * 購読がイベントを受け取るか（無効にした購読には送らない）
+ */
+export const subscribesTo = (
+  subscription: WebhookSubscription,
+  event: NotificationEventType,
+): boolean => subscription.active && subscription.events.includes(event);
+
+/**
+ * attempts 回失敗した後、次の送信までの間隔（ミリ秒）
+ */
+export const webhookRetryDelay = (attempts: number): number =>
+  WEBHOOK_RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0);
+
+/**
+ * 送信の結果から配信の状態を決める
+ * - 2xx の応答: 成功
+ * - それ以外の応答・接続できない: 上限まで指数バックオフで再試行し、上限に達したら失敗
+ */
+export const toAttemptResult = (
+  previousAttempts: number,
+  outcome: { response: WebhookResponse } | { error: string },
+  now: Date,
+): WebhookAttemptResult => {
+  const attempts = previousAttempts + 1;
+  const response = "response" in outcome ? outcome.response : undefined;
+  const succeeded =
+    response !== undefined && response.status >= 200 && response.status < 300;
+  const retry = !succeeded && attempts < WEBHOOK_MAX_ATTEMPTS;
+
+  return {
+    status: succeeded ? "succeeded" : retry ? "pending" : "failed",
+    attempts,
+    nextAttemptAt: retry
+      ? new Date(now.getTime() + webhookRetryDelay(attempts))
+      : null,
+    lastAttemptAt: now,
+    responseStatus: response?.status ?? null,
+    responseBody: response?.body ?? null,
+    error: "error" in outcome ? outcome.error : null,
+    durationMs: response?.durationMs ?? null,
+  };
+};
+
+/**
+ * 送信せずに配信を打ち切る結果（購読を無効にした場合など。送信回数は増やさない）
+ */
+export const toCancelledResult = (
+  attempts: number,
+  reason: string,
+  now: Date,
+): WebhookAttemptResult => ({
+  status: "failed",
+  attempts,
+  nextAttemptAt: null,
+  lastAttemptAt: now,
+  responseStatus: null,
+  responseBody: null,
+  error: reason,
+  durationMs: null,
+});
+
+const toActor = (assignee: Assignee | undefined) =>
+  assignee ? { id: assignee.id, name: assignee.name } : null;
+
+const toPayloadItem = (item: TestRunItem): WebhookPayloadItem => ({
+  id: item.id,
+  scenarioId: item.scenarioId,
+  title: item.title,
+  folder: item.folder ?? null,
+  importance: item.importance,
+  status: item.status,
+  executedBy: toActor(item.attempts.at(-1)?.executedBy),
+  executedAt: item.executedAt ?? null,
+});
+
+/**
+ * 通知のイベントから Webhook で送る本文を作る
+ */
+export const toWebhookPayload = (
+  event: NotificationEvent,
+  occurredAt: Date,
+): WebhookPayload => {
+  const { run } = event;
+  const payload: WebhookPayload = {
+    event: event.type,
+    occurredAt: occurredAt.toISOString(),
+    project: { id: run.projectId, name: run.projectName },
+    testRun: {
+      id: run.id,
+      title: run.title,
+      status: run.status,
+      environment: run.environment,
+      release: run.release ?? null,
+      successRate: run.successRate,
+      totalItems: run.totalItems,
+      completedItems: run.completedItems,
+      passedItems: run.passedItems,
+      failedItems: run.failedItems,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt ?? null,
+    },
+  };
+
+  switch (event.type) {
+    case "item_failed":
+      return { ...payload, item: toPayloadItem(event.item) };
+    case "automated_results_recorded":
+      return { ...payload, items: event.items.map(toPayloadItem) };
+    case "run_approved":
+    case "run_sent_back": {
+      const { approval } = event;
+      return {
+        ...payload,
+        approval: {
+          id: approval.id,
+          decision: approval.decision,
+          comment: approval.comment,
+          approver: toActor(approval.approver),
+          decidedAt: approval.decidedAt,
+        },
+      };
+    }
+    default:
+      return payload;
+  }
+};
@@ -0,0 +1,35 @@
+import type { Permission } from "./user";
+
+/**
+ * 個人用の API トークン（トークン自体は保存せず、一覧では prefix で見分ける）
+ * scopes はトークンで許可する権限で、作成したユーザーの権限の範囲内
+ */
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+};
+
+/**
+ * 作成する API トークン
+ */
+export type NewApiToken = {
+  userId: string;
+  name: string;
+  scopes: Permission[];
+  expiresAt: Date | null;
+};
+
+/**
+ * 作成した API トークンと、作成時に一度だけ表示するトークン
+ */
+export type IssuedApiToken = {
+  token: string;
+  apiToken: ApiToken;
+};
@@ -0,0 +1,80 @@
+import type { Role } from "./user";
+
+/**
+ * ログインセッション（id はトークンのハッシュで、トークン自体は保存しない）
+ */
+export type AuthSession = {
+  id: string;
+  userId: string;
+  idToken: string | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+/**
+ * 作成するログインセッション
+ */
+export type NewAuthSession = {
+  userId: string;
+  idToken?: string;
+  expiresAt: Date;
+};
+
+/**
+ * 作成したログインセッションと、Cookie に保存するトークン
+ */
+export type IssuedAuthSession = {
+  token: string;
+  session: AuthSession;
+};
+
+/**
+ * OIDC の認可リクエストの開始時に保存し、コールバックで照合する値
+ */
+export type PendingOidcLogin = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+};
+
+/**
+ * 認可サーバーからのコールバックのパラメーター
+ */
+export type OidcCallbackParams = {
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
+};
+
+/**
+ * ID トークンで確認したユーザー（subject は IdP 上の ID）
+ */
+export type OidcIdentity = {
+  subject: string;
+  email: string;
+  emailVerified: boolean; // IdP がメールアドレスを確認済みとしているか（email_verified が true）
+  name?: string;
+  picture?: string;
+  idToken: string;
+};
+
+/**
+ * OIDC で初めてログインしたユーザーとして作成するユーザー
+ */
+export type NewUser = {
+  email: string;
+  name?: string;
+  avatarUrl?: string;
+  oidcSubject: string;
+  roles: readonly Role[];
+};
+
+/**
+ * ログイン画面で使える認証方法
+ */
+export type LoginOptions = {
+  oidc: boolean;
+  local: boolean;
+};
@@ -0,0 +1,48 @@
+import type {
+  AutomatedTestCase,
+  AutomatedTestReportFormat,
+} from "~/lib/schemas/automated-test";
+import type { Evidence } from "~/lib/schemas/test-run";
+
+/**
+ * 読み取った自動テストのレポート（テストケースはレポートの順）
+ */
+export type AutomatedTestReport = {
+  format: AutomatedTestReportFormat;
+  cases: AutomatedTestCase[];
+};
+
+/**
+ * 結果を記録する候補のアイテム（シナリオの automated_test_id を含む）
+ */
+export type AutomatedTestTarget = {
+  itemId: string;
+  scenarioId: string;
+  title: string;
+  automatedTestId?: string;
+};
+
+/**
+ * アイテムと、照合したテストケース
+ */
+export type AutomatedTestMatch = {
+  target: AutomatedTestTarget;
+  cases: AutomatedTestCase[];
+};
+
+/**
+ * テストケースとアイテムの照合の結果
+ */
+export type AutomatedTestMatching = {
+  matches: AutomatedTestMatch[];
+  unmatched: AutomatedTestCase[]; // どのアイテムとも照合できなかったテストケース
+};
+
+/**
+ * テストケースの結果からアイテムに記録する内容
+ */
+export type AutomatedTestItemResult = {
+  result: "passed" | "failed";
+  durationSeconds?: number;
+  evidence: Evidence;
+};
@@ -0,0 +1,50 @@
+import type { Importance, TestRunItem } from "~/lib/schemas/test-run";
+
+/**
+ * 完了条件（重要度ごとに必要な成功率 %）
+ */
+export type CompletionPolicy = Record<Importance, number>;
+
+/**
+ * 完了条件の判定に使うアイテムの情報
+ */
+export type CompletionPolicyItem = Pick<
+  TestRunItem,
+  "id" | "title" | "importance" | "required" | "status"
+>;
+
+/**
+ * 重要度ごとの判定結果
+ * - total はスキップを除いた件数、outstanding は結果が確定していない件数
+ * - successRate は total が 0 の場合 null（判定対象なし）
+ */
+export type CompletionBucket = {
+  importance: Importance;
+  threshold: number;
+  total: number;
+  passed: number;
+  failed: number;
+  outstanding: number;
+  successRate: number | null;
+  met: boolean;
+};
+
+/**
+ * 完了条件の判定
+ * - not_started: まだ何も実行していない
+ * - in_progress: 必須アイテムが残っている、または成功率が条件に届いていない
+ * - passed: 必須アイテムをすべて実行し、すべての重要度が条件を満たした
+ * - failed: 未確定のアイテムがなく、条件を満たさない重要度がある
+ */
+export type CompletionVerdictStatus =
+  | "not_started"
+  | "in_progress"
+  | "passed"
+  | "failed";
+
+export type CompletionVerdict = {
+  status: CompletionVerdictStatus;
+  buckets: CompletionBucket[];
+  failedBuckets: Importance[]; // 条件を満たしていない重要度
+  unexecutedRequired: Pick<CompletionPolicyItem, "id" | "title">[];
+};
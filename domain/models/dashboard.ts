@@ -0,0 +1,61 @@
+import type { TestRun, TestRunStatus } from "~/lib/schemas/test-run";
+
+/**
+ * テスト実行サマリー統計
+ */
+export type TestSummary = {
+  totalRuns: number;
+  successfulRuns: number;
+  failedRuns: number;
+  inProgressRuns: number;
+  averageSuccessRate: number;
+  trend: {
+    value: number;
+    isPositive: boolean;
+  };
+};
+
+/**
+ * プロジェクト統計
+ */
+export type ProjectStat = {
+  projectName: string;
+  environment: "production" | "staging";
+  successRate: number;
+  totalRuns: number;
+  lastRunDate: string;
+};
+
+/**
+ * プロジェクト統計グループ
+ */
+export type ProjectStats = {
+  production: ProjectStat[];
+  staging: ProjectStat[];
+};
+
+/**
+ * 期間別実行トレンド
+ */
+export type ExecutionTrend = {
+  date: string;
+  successful: number;
+  failed: number;
+  total: number;
+};
+
+/**
+ * ステータス別のテストラン件数
+ */
+export type RunStatusCounts = Record<TestRunStatus, number>;
+
+/**
+ * ダッシュボード全体のデータ
+ */
+export type DashboardData = {
+  summary: TestSummary;
+  testRuns: TestRun[];
+  recentRuns: TestRun[];
+  projectStats: ProjectStats;
+  executionTrends: ExecutionTrend[];
+};
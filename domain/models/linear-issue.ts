@@ -0,0 +1,48 @@
+import type { TestRun, TestRunItem } from "~/lib/schemas/test-run";
+
+/**
+ * Linear の優先度（0: 優先度なし、1: Urgent、2: High、3: Medium、4: Low）
+ */
+export type LinearPriority = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Linear の Issue
+ */
+export type LinearIssue = {
+  identifier: string; // 例: MED-200
+  title: string;
+  description: string | null; // Markdown
+  labels: string[];
+  priority: LinearPriority;
+  state: string | null; // ワークフローの状態（例: In Progress）
+  url: string;
+};
+
+/**
+ * Issue のラベルから提案するシナリオ
+ */
+export type IssueScenarioSuggestion = {
+  identifier: string;
+  scenarioIds: string[];
+};
+
+/**
+ * リリースが参照する Issue と、ラベルから提案するシナリオ
+ */
+export type ReleaseIssues = {
+  issues: LinearIssue[]; // リリースの参照の順
+  missingIdentifiers: string[]; // Linear で見つからなかった Issue
+  suggestions: IssueScenarioSuggestion[];
+};
+
+/**
+ * Issue を参照するリリースのテストランと、Issue のラベルに該当するテストケース
+ */
+export type IssueCoverage = {
+  identifier: string;
+  issue: LinearIssue | null; // Linear で見つからない場合は null
+  runs: Array<{
+    run: TestRun;
+    items: TestRunItem[];
+  }>;
+};
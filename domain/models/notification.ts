@@ -0,0 +1,21 @@
+import type {
+  TestRun,
+  TestRunApproval,
+  TestRunItem,
+} from "~/lib/schemas/test-run";
+
+/**
+ * テストランの通知（run は通知する時点のステータスと進捗。
+ * 自動テストの取り込みでは items に結果を記録したアイテムを持つ）
+ */
+export type NotificationEvent =
+  | { type: "run_started"; run: TestRun }
+  | { type: "item_failed"; run: TestRun; item: TestRunItem }
+  | { type: "automated_results_recorded"; run: TestRun; items: TestRunItem[] }
+  | { type: "run_awaiting_approval"; run: TestRun }
+  | {
+      type: "run_approved" | "run_sent_back";
+      run: TestRun;
+      approval: TestRunApproval;
+    }
+  | { type: "run_completed"; run: TestRun };
@@ -0,0 +1,32 @@
+import type { ScenarioEnvironment } from "./scenario";
+
+/**
+ * プロジェクトの環境
+ */
+export type ProjectEnvironment = {
+  id: string;
+  name: string;
+  type: ScenarioEnvironment;
+};
+
+/**
+ * プロジェクトのリリース（環境ごと）
+ */
+export type ProjectRelease = {
+  id: string;
+  environmentId: string;
+  tag: string;
+  linearRefs: string[]; // Linear の Issue の識別子（例: MED-200）
+  plannedAt?: string; // ISO 8601
+};
+
+/**
+ * テストランの対象として選べるプロジェクト（環境とリリースを含む）
+ */
+export type ProjectSummary = {
+  id: string;
+  key: string;
+  name: string;
+  environments: ProjectEnvironment[];
+  releases: ProjectRelease[]; // 新しい順
+};
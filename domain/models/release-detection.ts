@@ -0,0 +1,38 @@
+/**
+ * GitHub のマージ済みの Pull Request
+ */
+export type PullRequest = {
+  number: number;
+  title: string;
+  url: string;
+  author: string | null;
+  labels: string[];
+  mergedAt: string; // ISO 8601
+};
+
+/**
+ * Pull Request の変更ファイル
+ */
+export type ChangedFile = {
+  path: string;
+  status: "added" | "modified" | "removed" | "renamed" | "other";
+  previousPath?: string; // 名前を変えた場合の変更前のパス
+};
+
+/**
+ * 変更ファイルをフォルダー・タグに対応付けた結果
+ */
+export type ChangedFileMapping = {
+  folders: string[];
+  tags: string[];
+  unmatchedFiles: string[]; // どのルールにも一致しなかったファイル
+};
+
+/**
+ * リリースの PR から提案するテスト範囲
+ */
+export type TestScopeProposal = ChangedFileMapping & {
+  label: string; // 検索したリリースのラベル
+  pullRequests: Array<PullRequest & { files: string[] }>;
+  scenarioIds: string[];
+};
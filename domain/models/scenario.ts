@@ -0,0 +1,68 @@
+import { Data } from "effect";
+
+/**
+ * シナリオを配置する環境
+ */
+export type ScenarioEnvironment = "production" | "staging";
+
+/**
+ * シナリオの重要度
+ */
+export type Importance = "low" | "medium" | "high" | "critical";
+
+/**
+ * Git 上のシナリオ配置
+ * projects/<project>/<environment>/<category>/<id>.{yml,md}
+ */
+export class ScenarioLocation extends Data.Class<{
+  project: string; // プロジェクトキー (例: "medimo-web")
+  environment: ScenarioEnvironment;
+  category: string; // フォルダー (例: "auth")
+  id: string; // シナリオ ID (例: "auth-login-001")
+}> {}
+
+/**
+ * テストシナリオ（YAML + Markdown のペア）
+ */
+export class Scenario extends Data.Class<{
+  location: ScenarioLocation;
+  title: string;
+  description: string; // Markdown 本文
+  tags: ReadonlyArray<string>;
+  preconditions: ReadonlyArray<string>;
+  steps: ReadonlyArray<string>;
+  expectedResults: ReadonlyArray<string>;
+  defaultImportance: Importance;
+  requiredByDefault: boolean;
+  relatedScenarios: ReadonlyArray<string>; // 関連シナリオ ID
+  estimatedDurationMinutes?: number;
+  automatedTestId?: string; // 結果を取り込む自動テストのテストケース ID
+  lastUpdated?: string; // ISO 8601
+  author?: string; // メールアドレス
+}> {}
+
+/**
+ * バージョン付きシナリオ（version はシナリオを最後に変更した commit SHA）
+ */
+export class VersionedScenario extends Data.Class<{
+  scenario: Scenario;
+  version: string;
+}> {}
+
+/**
+ * コミットの作成者
+ */
+export class CommitAuthor extends Data.Class<{
+  name: string;
+  email: string;
+}> {}
+
+/**
+ * シナリオの版（シナリオのファイルを変更した commit）
+ */
+export class ScenarioVersion extends Data.Class<{
+  version: string; // commit SHA
+  author: CommitAuthor;
+  committedAt: string; // ISO 8601
+  message: string;
+}> {}
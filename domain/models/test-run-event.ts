@@ -0,0 +1,18 @@
+import type { TestRunEvent } from "~/lib/schemas/test-run-event";
+
+/**
+ * 配信済みのイベント（id は配信順の通し番号で、再接続時の再送に使う）
+ */
+export type PublishedTestRunEvent = {
+  id: number;
+  event: TestRunEvent;
+};
+
+/**
+ * 購読者に届けるメッセージ
+ * - event: 配信されたイベント
+ * - resync: 再接続前のイベントを再送できない（クライアントは最新の状態を読み直す）
+ */
+export type TestRunStreamMessage =
+  | ({ type: "event" } & PublishedTestRunEvent)
+  | { type: "resync" };
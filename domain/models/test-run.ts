@@ -0,0 +1,153 @@
+import type {
+  ApprovalDecision,
+  Evidence,
+  Importance,
+  TestRun,
+  TestRunApproval,
+  TestRunItem,
+  TestRunItemResult,
+  TestRunStatus,
+} from "~/lib/schemas/test-run";
+
+/**
+ * アイテムが参照するシナリオの版の状態
+ * - current: 最新版を参照している
+ * - outdated: テストラン作成後にシナリオが更新された
+ * - unpinned: 版が記録されていない（版の記録導入前のアイテム）
+ * - archived: シナリオがアーカイブされた（記録した版は引き続き参照できる）
+ * - missing: シナリオが見つからない
+ */
+export type ScenarioDriftStatus =
+  | "current"
+  | "outdated"
+  | "unpinned"
+  | "archived"
+  | "missing";
+
+/**
+ * アイテムごとのシナリオの版のずれ
+ */
+export type ScenarioDrift = {
+  itemId: string;
+  scenarioId: string;
+  pinnedVersion?: string;
+  currentVersion?: string;
+  status: ScenarioDriftStatus;
+};
+
+/**
+ * シナリオの現在の状態（最新版の commit SHA とアーカイブ済みか）
+ */
+export type ScenarioHead = {
+  version: string;
+  archived: boolean;
+};
+
+/**
+ * テストランとアイテム、承認ログ（古い順）
+ */
+export type TestRunDetail = {
+  run: TestRun;
+  items: TestRunItem[];
+  approvals: TestRunApproval[];
+};
+
+/**
+ * テストランの一覧の絞り込み（作成日時の新しい順に limit 件まで）
+ */
+export type TestRunListFilter = {
+  projectId?: string;
+  status?: TestRunStatus;
+  limit: number;
+};
+
+/**
+ * シナリオから取り込むアイテムの内容
+ */
+export type ScenarioSnapshotFields = {
+  scenarioId: string;
+  scenarioVersion: string;
+  title: string;
+  description: string;
+  folder: string;
+  estimatedMinutes: number | null;
+};
+
+/**
+ * 作成するテストランのアイテム（シナリオの版と実行時の設定）
+ */
+export type NewTestRunItem = ScenarioSnapshotFields & {
+  importance: Importance;
+  required: boolean;
+};
+
+/**
+ * 作成するテストラン
+ */
+export type NewTestRun = {
+  projectId: string;
+  environmentId: string;
+  releaseId?: string;
+  title: string;
+  dueAt?: Date;
+  assigneeIds: string[];
+  createdById: string;
+  items: NewTestRunItem[];
+};
+
+/**
+ * テストランに保持する進捗の集計
+ */
+export type TestRunProgress = {
+  completedItems: number;
+  passedItems: number;
+  failedItems: number;
+};
+
+/**
+ * アイテムに記録する結果（実行履歴として追記される）
+ */
+export type TestRunItemResultInput = {
+  status: TestRunItemResult;
+  executedById: string;
+  executedAt: Date;
+  durationSeconds?: number; // 実行時間（秒）
+  notes?: string;
+  evidence?: Evidence;
+  blockedReason?: string;
+};
+
+/**
+ * ブロックの解消内容
+ */
+export type BlockResolutionInput = {
+  note: string;
+  resolvedById: string;
+  resolvedAt: Date;
+};
+
+/**
+ * 承認者の判断
+ */
+export type TestRunApprovalInput = {
+  decision: ApprovalDecision;
+  comment: string;
+  approverId: string;
+  decidedAt: Date;
+};
+
+/**
+ * アイテムの担当者の変更（assigneeId が null の場合は担当を外す）
+ */
+export type ItemAssignment = {
+  itemId: string;
+  assigneeId: string | null;
+};
+
+/**
+ * 担当者の未実行アイテムとそのテストラン
+ */
+export type QueuedTestRunItem = {
+  run: TestRun;
+  item: TestRunItem;
+};
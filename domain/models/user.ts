@@ -0,0 +1,25 @@
+import { Data } from "effect";
+
+export type Role = "admin" | "executor" | "viewer" | "approver";
+
+export type UserStatus = "active" | "inactive";
+
+export class User extends Data.Class<{
+  readonly id: string;
+  readonly email: string;
+  readonly name: string;
+  readonly avatarUrl: string | null;
+  readonly roles: readonly Role[];
+  readonly status: UserStatus;
+}> {}
+
+export type Permission =
+  | "scenario:create"
+  | "scenario:edit"
+  | "scenario:archive"
+  | "test-run:create"
+  | "test-run:execute"
+  | "test-run:approve"
+  | "test-run:view"
+  | "user:manage"
+  | "project:configure";
@@ -0,0 +1,165 @@
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type {
+  ApprovalDecision,
+  Environment,
+  Importance,
+  TestRunItemStatus,
+  TestRunStatus,
+} from "~/lib/schemas/test-run";
+import type { WebhookDeliveryStatus } from "~/lib/schemas/webhook";
+
+/**
+ * プロジェクトの Webhook の購読（署名のシークレットは含めない）
+ */
+export type WebhookSubscription = {
+  id: string;
+  projectId: string;
+  url: string;
+  events: NotificationEventType[];
+  active: boolean;
+  createdAt: Date;
+};
+
+/**
+ * 作成する Webhook の購読
+ */
+export type NewWebhookSubscription = {
+  projectId: string;
+  url: string;
+  events: NotificationEventType[];
+  active: boolean;
+};
+
+/**
+ * 変更する Webhook の購読の設定
+ */
+export type WebhookSubscriptionChanges = {
+  url: string;
+  events: NotificationEventType[];
+  active: boolean;
+};
+
+/**
+ * 作成（再発行）した購読と、受信側で署名を確かめるためのシークレット
+ */
+export type IssuedWebhookSubscription = {
+  secret: string;
+  subscription: WebhookSubscription;
+};
+
+/**
+ * Webhook の配信（送信する本文と、最後の送信の結果）
+ */
+export type WebhookDelivery = {
+  id: string;
+  subscriptionId: string;
+  event: NotificationEventType;
+  payload: string; // 送信する JSON の本文（再送でも同じ本文を送る）
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null; // 次に送信する日時（pending の場合）
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null; // 接続できなかった場合などの理由
+  durationMs: number | null;
+  redeliveryOfId: string | null; // 手動で再送した元の配信
+  createdAt: Date;
+};
+
+/**
+ * 作成する配信（nextAttemptAt までは他のワーカーが送信しない）
+ */
+export type NewWebhookDelivery = {
+  subscriptionId: string;
+  event: NotificationEventType;
+  payload: string;
+  nextAttemptAt: Date;
+  redeliveryOfId?: string;
+};
+
+/**
+ * 送信に必要な配信・購読・シークレット
+ */
+export type WebhookDeliveryTarget = {
+  delivery: WebhookDelivery;
+  subscription: WebhookSubscription;
+  secret: string;
+};
+
+/**
+ * 送り先の応答（2xx 以外も応答として記録する）
+ */
+export type WebhookResponse = {
+  status: number;
+  body: string;
+  durationMs: number;
+};
+
+/**
+ * 1 回の送信の結果として記録する内容
+ */
+export type WebhookAttemptResult = {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+};
+
+/**
+ * 購読と最近の配信（設定画面の一覧）
+ */
+export type WebhookOverview = {
+  subscription: WebhookSubscription;
+  deliveries: readonly WebhookDelivery[]; // 新しい順
+};
+
+/**
+ * Webhook の本文に含めるアイテム
+ */
+export type WebhookPayloadItem = {
+  id: string;
+  scenarioId: string;
+  title: string;
+  folder: string | null;
+  importance: Importance;
+  status: TestRunItemStatus;
+  executedBy: { id: string; name: string } | null;
+  executedAt: string | null;
+};
+
+/**
+ * Webhook で送る JSON の本文（日時は ISO 8601 文字列）
+ */
+export type WebhookPayload = {
+  event: NotificationEventType;
+  occurredAt: string;
+  project: { id: string; name: string };
+  testRun: {
+    id: string;
+    title: string;
+    status: TestRunStatus;
+    environment: Environment;
+    release: { id: string; tag: string } | null;
+    successRate: number;
+    totalItems: number;
+    completedItems: number;
+    passedItems: number;
+    failedItems: number;
+    startedAt: string;
+    completedAt: string | null;
+  };
+  item?: WebhookPayloadItem;
+  items?: WebhookPayloadItem[];
+  approval?: {
+    id: string;
+    decision: ApprovalDecision;
+    comment: string;
+    approver: { id: string; name: string } | null;
+    decidedAt: string;
+  };
+};
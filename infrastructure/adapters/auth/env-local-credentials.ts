@@ -0,0 +1,39 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { Config, Effect, Layer, Option } from "effect";
+import { LocalCredentials } from "@application/ports/local-credentials";
+import { InvalidCredentialsError } from "@domain/errors/auth-errors";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * 環境変数のパスワードで確認する LocalCredentials（開発用）
+ *
+ * ユーザー名は登録済みユーザーのメールアドレスで、全員が同じパスワードでログインする
+ */
+export const makeEnvLocalCredentials = (
+  password: string | undefined,
+): LocalCredentials => ({
+  enabled: password !== undefined,
+  verify: (username, input) =>
+    password !== undefined && timingSafeEqual(digest(input), digest(password))
+      ? Effect.succeed(username.trim().toLowerCase())
+      : Effect.fail(new InvalidCredentialsError()),
+});
+
+/**
+ * 開発用のローカル認証の Layer
+ * - AUTH_LOCAL_PASSWORD: ローカル認証のパスワード（未設定の場合はローカル認証を使えない）
+ * - NODE_ENV が production の場合は設定にかかわらず使えない
+ */
+export const EnvLocalCredentialsLive = Layer.effect(
+  LocalCredentials,
+  Effect.gen(function* () {
+    const production =
+      (yield* Config.string("NODE_ENV").pipe(Config.withDefault(""))) ===
+      "production";
+    const password = yield* Config.option(Config.string("AUTH_LOCAL_PASSWORD"));
+    return makeEnvLocalCredentials(
+      production ? undefined : Option.getOrUndefined(password),
+    );
+  }),
+);
@@ -0,0 +1,394 @@
+import {
+  createHash,
+  createPublicKey,
+  randomBytes,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import type { JsonWebKey } from "node:crypto";
+import { Config, Effect, Layer, Option } from "effect";
+import { z } from "zod";
+import { OidcClient } from "@application/ports/oidc-client";
+import { OidcLoginError } from "@domain/errors/auth-errors";
+import type { OidcIdentity } from "@domain/models/auth";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // 公開クライアント（PKCE のみ）の場合は未設定
+  redirectUri: string;
+  postLogoutRedirectUri: string;
+  scopes: string;
+}
+
+// ID トークンの有効期限の判定で許容する時刻のずれ（秒）
+const CLOCK_SKEW_SECONDS = 60;
+
+const discoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  jwks_uri: z.string(),
+  end_session_endpoint: z.string().optional(),
+});
+
+type OidcMetadata = z.infer<typeof discoverySchema>;
+
+const jwksSchema = z.object({
+  keys: z.array(
+    z.looseObject({
+      kid: z.string().optional(),
+      kty: z.string(),
+    }),
+  ),
+});
+
+const tokenResponseSchema = z.object({
+  id_token: z.string(),
+});
+
+const tokenErrorSchema = z.object({
+  error: z.string(),
+  error_description: z.string().optional(),
+});
+
+const idTokenHeaderSchema = z.object({
+  alg: z.enum(["RS256", "ES256"]),
+  kid: z.string().optional(),
+});
+
+const idTokenClaimsSchema = z.object({
+  iss: z.string(),
+  sub: z.string().min(1),
+  aud: z.union([z.string(), z.array(z.string())]),
+  exp: z.number(),
+  nonce: z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.boolean().optional(),
+  name: z.string().optional(),
+  picture: z.string().optional(),
+});
+
+const base64url = (bytes: Buffer) => bytes.toString("base64url");
+
+const randomToken = () => base64url(randomBytes(32));
+
+const sameString = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const fetchJson = (url: string, init?: RequestInit) =>
+  Effect.tryPromise({
+    try: async () => {
+      const response = await fetch(url, init);
+      return { ok: response.ok, body: (await response.json()) as unknown };
+    },
+    catch: (cause) =>
+      new OidcLoginError({
+        message: `認可サーバーに接続できません: ${url}`,
+        cause,
+      }),
+  });
+
+const parseWith = <A>(schema: z.ZodType<A>, value: unknown, message: string) =>
+  Effect.try({
+    try: () => schema.parse(value),
+    catch: (cause) => new OidcLoginError({ message, cause }),
+  });
+
+// loader / action ごとに Layer を構築し直すため、認可サーバーの設定と公開鍵はプロセスで保持する
+// （公開鍵は ID トークンの kid が見つからない場合に取得し直す）
+const metadataCache = new Map<string, OidcMetadata>();
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+const discover = (issuer: string) =>
+  Effect.gen(function* () {
+    const cached = metadataCache.get(issuer);
+    if (cached) return cached;
+    const { body } = yield* fetchJson(
+      `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    );
+    const metadata = yield* parseWith(
+      discoverySchema,
+      body,
+      "認可サーバーの設定を読み取れません",
+    );
+    metadataCache.set(issuer, metadata);
+    return metadata;
+  });
+
+const findSigningKey = (
+  metadata: OidcMetadata,
+  kid: string | undefined,
+  refresh: boolean,
+) =>
+  Effect.gen(function* () {
+    const select = (keys: JsonWebKey[]) =>
+      kid === undefined && keys.length === 1
+        ? keys[0]
+        : keys.find((key) => key.kid === kid);
+
+    const cached = jwksCache.get(metadata.jwks_uri);
+    const found = cached && select(cached);
+    if (found || !refresh) return found;
+
+    const { body } = yield* fetchJson(metadata.jwks_uri);
+    const { keys } = yield* parseWith(
+      jwksSchema,
+      body,
+      "認可サーバーの公開鍵を読み取れません",
+    );
+    jwksCache.set(metadata.jwks_uri, keys);
+    return select(keys);
+  });
+
+/**
+ * ID トークンの署名とクレーム（iss / aud / exp / nonce）を検証する
+ */
+const verifyIdToken = (
+  idToken: string,
+  metadata: OidcMetadata,
+  config: OidcConfig,
+  nonce: string,
+) =>
+  Effect.gen(function* () {
+    const fail = (message: string) =>
+      Effect.fail(new OidcLoginError({ message }));
+
+    const [encodedHeader, encodedClaims, signature] = idToken.split(".");
+    if (!encodedHeader || !encodedClaims || !signature) {
+      return yield* fail("ID トークンの形式が不正です");
+    }
+    const decode = (part: string) =>
+      Effect.try({
+        try: () =>
+          JSON.parse(
+            Buffer.from(part, "base64url").toString("utf8"),
+          ) as unknown,
+        catch: (cause) =>
+          new OidcLoginError({ message: "ID トークンの形式が不正です", cause }),
+      });
+
+    const header = yield* parseWith(
+      idTokenHeaderSchema,
+      yield* decode(encodedHeader),
+      "ID トークンの署名方式に対応していません",
+    );
+
+    // 鍵の更新に備えて、見つからない場合は公開鍵を取得し直す
+    const jwk =
+      (yield* findSigningKey(metadata, header.kid, false)) ??
+      (yield* findSigningKey(metadata, header.kid, true));
+    if (!jwk) {
+      return yield* fail("ID トークンの署名鍵が見つかりません");
+    }
+
+    const valid = yield* Effect.try({
+      try: () => {
+        const key = createPublicKey({ key: jwk, format: "jwk" });
+        return verify(
+          "sha256",
+          Buffer.from(`${encodedHeader}.${encodedClaims}`),
+          header.alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key,
+          Buffer.from(signature, "base64url"),
+        );
+      },
+      catch: (cause) =>
+        new OidcLoginError({ message: "ID トークンを検証できません", cause }),
+    });
+    if (!valid) {
+      return yield* fail("ID トークンの署名が不正です");
+    }
+
+    const claims = yield* parseWith(
+      idTokenClaimsSchema,
+      yield* decode(encodedClaims),
+      "ID トークンのクレームが不正です",
+    );
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== metadata.issuer) {
+      return yield* fail("ID トークンの発行者が一致しません");
+    }
+    if (!audiences.includes(config.clientId)) {
+      return yield* fail("ID トークンの対象が一致しません");
+    }
+    if (claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+      return yield* fail("ID トークンの有効期限が切れています");
+    }
+    if (!claims.nonce || !sameString(claims.nonce, nonce)) {
+      return yield* fail("ID トークンの nonce が一致しません");
+    }
+    if (!claims.email || claims.email_verified === false) {
+      return yield* fail("確認済みのメールアドレスを取得できません");
+    }
+
+    const identity: OidcIdentity = {
+      subject: claims.sub,
+      email: claims.email.toLowerCase(),
+      emailVerified: claims.email_verified === true,
+      name: claims.name,
+      picture: claims.picture,
+      idToken,
+    };
+    return identity;
+  });
+
+/**
+ * HTTP で認可サーバーと通信する OidcClient（Authorization Code + PKCE）
+ */
+export const makeHttpOidcClient = (config: OidcConfig): OidcClient => ({
+  configured: true,
+
+  beginLogin: (returnTo) =>
+    Effect.gen(function* () {
+      const metadata = yield* discover(config.issuer);
+      const pending = {
+        state: randomToken(),
+        nonce: randomToken(),
+        codeVerifier: randomToken(),
+        returnTo,
+      };
+      const url = new URL(metadata.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scopes,
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: base64url(
+          createHash("sha256").update(pending.codeVerifier).digest(),
+        ),
+        code_challenge_method: "S256",
+      }).toString();
+      return { authorizationUrl: url.toString(), pending };
+    }),
+
+  completeLogin: (pending, params) =>
+    Effect.gen(function* () {
+      if (params.error) {
+        return yield* Effect.fail(
+          new OidcLoginError({
+            message: params.errorDescription ?? params.error,
+          }),
+        );
+      }
+      if (!params.state || !sameString(params.state, pending.state)) {
+        return yield* Effect.fail(
+          new OidcLoginError({ message: "state が一致しません" }),
+        );
+      }
+      if (!params.code) {
+        return yield* Effect.fail(
+          new OidcLoginError({ message: "認可コードがありません" }),
+        );
+      }
+
+      const metadata = yield* discover(config.issuer);
+      const { ok, body } = yield* fetchJson(metadata.token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code: params.code,
+          redirect_uri: config.redirectUri,
+          client_id: config.clientId,
+          code_verifier: pending.codeVerifier,
+          ...(config.clientSecret && { client_secret: config.clientSecret }),
+        }),
+      });
+      if (!ok) {
+        const error = tokenErrorSchema.safeParse(body);
+        return yield* Effect.fail(
+          new OidcLoginError({
+            message: error.success
+              ? (error.data.error_description ?? error.data.error)
+              : "認可コードをトークンに交換できません",
+          }),
+        );
+      }
+      const tokens = yield* parseWith(
+        tokenResponseSchema,
+        body,
+        "ID トークンを取得できません",
+      );
+      return yield* verifyIdToken(
+        tokens.id_token,
+        metadata,
+        config,
+        pending.nonce,
+      );
+    }),
+
+  endSessionUrl: (idToken) =>
+    discover(config.issuer).pipe(
+      Effect.map(({ end_session_endpoint }) => {
+        if (!end_session_endpoint) return null;
+        const url = new URL(end_session_endpoint);
+        url.search = new URLSearchParams({
+          client_id: config.clientId,
+          post_logout_redirect_uri: config.postLogoutRedirectUri,
+          ...(idToken && { id_token_hint: idToken }),
+        }).toString();
+        return url.toString();
+      }),
+      Effect.orElseSucceed(() => null),
+    ),
+});
+
+/**
+ * 認可サーバーが設定されていない場合の OidcClient
+ */
+const unconfiguredOidcClient: OidcClient = {
+  configured: false,
+  beginLogin: () =>
+    Effect.fail(new OidcLoginError({ message: "OIDC が設定されていません" })),
+  completeLogin: () =>
+    Effect.fail(new OidcLoginError({ message: "OIDC が設定されていません" })),
+  endSessionUrl: () => Effect.succeed(null),
+};
+
+/**
+ * 環境変数で設定した認可サーバーを使う OidcClient の Layer
+ * - OIDC_ISSUER: 認可サーバーの issuer（未設定の場合は OIDC でログインできない）
+ * - OIDC_CLIENT_ID: クライアント ID（OIDC_ISSUER を設定した場合は必須）
+ * - OIDC_CLIENT_SECRET: クライアントシークレット（公開クライアントの場合は不要）
+ * - OIDC_REDIRECT_URI: コールバック URL（既定: http://localhost:5173/auth/callback）
+ * - OIDC_POST_LOGOUT_REDIRECT_URI: IdP からのログアウト後の URL（既定: コールバック URL と同じオリジンの /login）
+ * - OIDC_SCOPES: 要求するスコープ（既定: openid email profile）
+ */
+export const HttpOidcClientLive = Layer.effect(
+  OidcClient,
+  Effect.gen(function* () {
+    const issuer = yield* Config.option(Config.string("OIDC_ISSUER"));
+    if (Option.isNone(issuer)) {
+      return unconfiguredOidcClient;
+    }
+    const config = yield* Config.all({
+      clientId: Config.string("OIDC_CLIENT_ID"),
+      clientSecret: Config.option(Config.string("OIDC_CLIENT_SECRET")),
+      redirectUri: Config.string("OIDC_REDIRECT_URI").pipe(
+        Config.withDefault("http://localhost:5173/auth/callback"),
+      ),
+      postLogoutRedirectUri: Config.option(
+        Config.string("OIDC_POST_LOGOUT_REDIRECT_URI"),
+      ),
+      scopes: Config.string("OIDC_SCOPES").pipe(
+        Config.withDefault("openid email profile"),
+      ),
+    });
+    return makeHttpOidcClient({
+      issuer: issuer.value,
+      clientId: config.clientId,
+      clientSecret: Option.getOrUndefined(config.clientSecret),
+      redirectUri: config.redirectUri,
+      postLogoutRedirectUri: Option.getOrElse(
+        config.postLogoutRedirectUri,
+        () => new URL("/login", config.redirectUri).toString(),
+      ),
+      scopes: config.scopes,
+    });
+  }),
+);
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import type { AutomatedTestCase } from "~/lib/schemas/automated-test";
+import { stripAnsi } from "./report-text";
+
+const jestAssertionResultSchema = z.object({
+  ancestorTitles: z.array(z.string()).default([]),
+  title: z.string(),
+  fullName: z.string().optional(),
+  status: z.string(), // passed / failed / pending / skipped / todo / disabled
+  duration: z.number().nullish(), // ミリ秒
+  failureMessages: z.array(z.string()).nullish(),
+});
+
+/**
+ * Jest の JSON レポーター（--json）の出力（使う項目のみ。Vitest の json レポーターも同じ形）
+ */
+export const jestReportSchema = z.object({
+  testResults: z.array(
+    z.object({
+      name: z.string(), // テストファイルのパス
+      assertionResults: z.array(jestAssertionResultSchema),
+    }),
+  ),
+});
+
+type JestReport = z.infer<typeof jestReportSchema>;
+
+/**
+ * Jest の JSON レポートのテストケース
+ * - テストケースの ID は fullName（describe とテスト名を空白でつないだもの）
+ * - passed は成功、failed は失敗、それ以外（pending / todo など）はスキップ
+ */
+export const toJestTestCases = (report: JestReport): AutomatedTestCase[] =>
+  report.testResults.flatMap(({ name: file, assertionResults }) =>
+    assertionResults.map((assertion) => {
+      const status =
+        assertion.status === "passed"
+          ? "passed"
+          : assertion.status === "failed"
+            ? "failed"
+            : "skipped";
+      const failureMessage = (assertion.failureMessages ?? [])
+        .map((message) => stripAnsi(message).trim())
+        .filter(Boolean)
+        .join("\n\n");
+      return {
+        id:
+          assertion.fullName ||
+          [...assertion.ancestorTitles, assertion.title].join(" "),
+        name: assertion.title,
+        file,
+        status,
+        durationSeconds:
+          assertion.duration == null ? undefined : assertion.duration / 1000,
+        failureMessage:
+          status === "failed" && failureMessage ? failureMessage : undefined,
+      };
+    }),
+  );
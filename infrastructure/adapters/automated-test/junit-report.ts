@@ -0,0 +1,86 @@
+import { Either } from "effect";
+import type { AutomatedTestCase } from "~/lib/schemas/automated-test";
+import { childrenNamed, readXml } from "./xml-reader";
+import type { XmlElement } from "./xml-reader";
+
+const SUITE_ELEMENTS = ["testsuites", "testsuite"];
+
+/**
+ * スイートの入れ子をたどってテストケースの要素を集める
+ */
+const collectTestCases = (element: XmlElement): XmlElement[] =>
+  element.children.flatMap((child) =>
+    child.name === "testcase"
+      ? [child]
+      : SUITE_ELEMENTS.includes(child.name)
+        ? collectTestCases(child)
+        : [],
+  );
+
+/**
+ * <failure> / <error> のメッセージと本文（本文がメッセージを含む場合は本文だけ）
+ */
+const failureMessageOf = (failures: XmlElement[]) =>
+  failures
+    .map(({ attributes, text }) => {
+      const body = text.trim();
+      const message = attributes.message?.trim();
+      return message && !body.includes(message)
+        ? [message, body].filter(Boolean).join("\n")
+        : body;
+    })
+    .filter(Boolean)
+    .join("\n\n") || undefined;
+
+const toTestCase = (element: XmlElement): AutomatedTestCase => {
+  const { attributes } = element;
+  const name = attributes.name;
+  const seconds = Number(attributes.time);
+  const failures = [
+    ...childrenNamed(element, "failure"),
+    ...childrenNamed(element, "error"),
+  ];
+  const skipped = childrenNamed(element, "skipped");
+
+  return {
+    id: attributes.classname ? `${attributes.classname}.${name}` : name,
+    name,
+    file: attributes.file,
+    status:
+      failures.length > 0
+        ? "failed"
+        : skipped.length > 0
+          ? "skipped"
+          : "passed",
+    durationSeconds:
+      Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined,
+    failureMessage: failureMessageOf(failures),
+  };
+};
+
+/**
+ * JUnit XML のテストケースを読み取る
+ * - テストケースの ID は「classname.name」（classname がない場合は name）
+ * - <failure> か <error> があれば失敗、<skipped> があればスキップ
+ */
+export const parseJunitReport = (
+  content: string,
+): Either.Either<AutomatedTestCase[], string> =>
+  Either.flatMap(
+    Either.mapLeft(
+      readXml(content),
+      (message) => `XML を読み取れません: ${message}`,
+    ),
+    (root) => {
+      if (!SUITE_ELEMENTS.includes(root.name)) {
+        return Either.left(
+          "JUnit XML のルート要素は <testsuites> か <testsuite> である必要があります",
+        );
+      }
+      const elements = collectTestCases(root);
+      if (elements.some(({ attributes }) => !attributes.name)) {
+        return Either.left("name のない <testcase> があります");
+      }
+      return Either.right(elements.map(toTestCase));
+    },
+  );
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import type { AutomatedTestCase } from "~/lib/schemas/automated-test";
+import { stripAnsi } from "./report-text";
+
+const playwrightErrorSchema = z.object({
+  message: z.string().optional(),
+  stack: z.string().optional(),
+});
+
+const playwrightResultSchema = z.object({
+  duration: z.number(), // ミリ秒
+  error: playwrightErrorSchema.optional(),
+  errors: z.array(playwrightErrorSchema).optional(),
+});
+
+const playwrightTestSchema = z.object({
+  projectName: z.string().optional(),
+  expectedStatus: z.string().optional(),
+  status: z.enum(["expected", "unexpected", "flaky", "skipped"]),
+  results: z.array(playwrightResultSchema),
+});
+
+const playwrightSpecSchema = z.object({
+  title: z.string(),
+  file: z.string().optional(),
+  tests: z.array(playwrightTestSchema),
+});
+
+type PlaywrightSpec = z.infer<typeof playwrightSpecSchema>;
+type PlaywrightTest = z.infer<typeof playwrightTestSchema>;
+
+type PlaywrightSuite = {
+  title: string;
+  specs?: PlaywrightSpec[];
+  suites?: PlaywrightSuite[];
+};
+
+const playwrightSuiteSchema: z.ZodType<PlaywrightSuite> = z.lazy(() =>
+  z.object({
+    title: z.string(),
+    specs: z.array(playwrightSpecSchema).optional(),
+    suites: z.array(playwrightSuiteSchema).optional(),
+  }),
+);
+
+/**
+ * Playwright の JSON レポーターの出力（使う項目のみ）
+ */
+export const playwrightReportSchema = z.object({
+  config: z.unknown(),
+  suites: z.array(playwrightSuiteSchema),
+});
+
+type PlaywrightReport = z.infer<typeof playwrightReportSchema>;
+
+/**
+ * 最後の試行のエラー（プロジェクト名を付ける）
+ */
+const failureMessageOf = ({ projectName, results }: PlaywrightTest) => {
+  const last = results.at(-1);
+  const errors = last?.errors?.length
+    ? last.errors
+    : last?.error
+      ? [last.error]
+      : [];
+  const message = errors
+    .map((error) => stripAnsi(error.stack ?? error.message ?? "").trim())
+    .filter(Boolean)
+    .join("\n\n");
+  if (!message) return undefined;
+  return projectName ? `[${projectName}] ${message}` : message;
+};
+
+const toTestCase = (
+  spec: PlaywrightSpec,
+  test: PlaywrightTest,
+  titles: string[],
+): AutomatedTestCase => {
+  const status =
+    test.status === "unexpected"
+      ? "failed"
+      : test.status === "skipped" || test.expectedStatus === "skipped"
+        ? "skipped"
+        : "passed";
+  return {
+    id: [...titles, spec.title].join(" › "),
+    name: spec.title,
+    file: spec.file,
+    status,
+    durationSeconds:
+      test.results.reduce((sum, result) => sum + result.duration, 0) / 1000,
+    failureMessage: status === "failed" ? failureMessageOf(test) : undefined,
+  };
+};
+
+const collectTestCases = (
+  suite: PlaywrightSuite,
+  parentTitles: string[],
+): AutomatedTestCase[] => {
+  const titles = suite.title ? [...parentTitles, suite.title] : parentTitles;
+  return [
+    ...(suite.specs ?? []).flatMap((spec) =>
+      spec.tests.map((test) => toTestCase(spec, test, titles)),
+    ),
+    ...(suite.suites ?? []).flatMap((child) => collectTestCases(child, titles)),
+  ];
+};
+
+/**
+ * Playwright の JSON レポートのテストケース（プロジェクトごとに 1 件）
+ * - テストケースの ID は「ファイル › describe › テスト名」（一覧のレポーターの表示と同じ）
+ * - unexpected は失敗、flaky（再試行で成功）は成功、skipped はスキップ
+ */
+export const toPlaywrightTestCases = (
+  report: PlaywrightReport,
+): AutomatedTestCase[] =>
+  report.suites.flatMap((suite) => collectTestCases(suite, []));
@@ -0,0 +1,113 @@
+import { Effect, Either, Layer } from "effect";
+import type { z } from "zod";
+import { AutomatedTestReportParser } from "@application/ports/automated-test-report-parser";
+import { InvalidAutomatedTestReportError } from "@domain/errors/automated-test-errors";
+import { AUTOMATED_TEST_REPORT_FORMAT_LABELS } from "@domain/logic/automated-test-result";
+import type {
+  AutomatedTestCase,
+  AutomatedTestReportFormat,
+} from "~/lib/schemas/automated-test";
+import { parseJunitReport } from "./junit-report";
+import { jestReportSchema, toJestTestCases } from "./jest-report";
+import {
+  playwrightReportSchema,
+  toPlaywrightTestCases,
+} from "./playwright-report";
+
+const invalid = (message: string) =>
+  new InvalidAutomatedTestReportError({ message });
+
+const readJson = (content: string) =>
+  Effect.try({
+    try: (): unknown => JSON.parse(content),
+    catch: () => invalid("JSON を読み取れません"),
+  });
+
+/**
+ * 内容から形式を判定する（XML は JUnit、JSON は最上位の項目で判定する）
+ */
+const detectFormat = (content: string) =>
+  Effect.gen(function* () {
+    if (content.trimStart().startsWith("<")) return "junit" as const;
+    const json = yield* readJson(content);
+    if (typeof json === "object" && json !== null) {
+      if (Array.isArray(Reflect.get(json, "suites")))
+        return "playwright" as const;
+      if (Array.isArray(Reflect.get(json, "testResults")))
+        return "jest" as const;
+    }
+    return yield* Effect.fail(
+      invalid(
+        "レポートの形式を判定できません（JUnit XML・Playwright JSON・Jest JSON に対応しています）",
+      ),
+    );
+  });
+
+/**
+ * JSON のレポートをスキーマで確かめてからテストケースにする
+ */
+const parseJsonReport = <T>(
+  format: AutomatedTestReportFormat,
+  content: string,
+  schema: z.ZodType<T>,
+  toTestCases: (report: T) => AutomatedTestCase[],
+) =>
+  Effect.gen(function* () {
+    const parsed = schema.safeParse(yield* readJson(content));
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      const location = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+      return yield* Effect.fail(
+        invalid(
+          `${AUTOMATED_TEST_REPORT_FORMAT_LABELS[format]} のレポートとして読み取れません（${location}${issue?.message ?? "形式が違います"}）`,
+        ),
+      );
+    }
+    return toTestCases(parsed.data);
+  });
+
+const parseAs = (format: AutomatedTestReportFormat, content: string) => {
+  switch (format) {
+    case "junit":
+      return Either.match(parseJunitReport(content), {
+        onLeft: (message) => Effect.fail(invalid(message)),
+        onRight: Effect.succeed,
+      });
+    case "playwright":
+      return parseJsonReport(
+        format,
+        content,
+        playwrightReportSchema,
+        toPlaywrightTestCases,
+      );
+    case "jest":
+      return parseJsonReport(
+        format,
+        content,
+        jestReportSchema,
+        toJestTestCases,
+      );
+  }
+};
+
+/**
+ * JUnit XML・Playwright JSON・Jest JSON を読み取る AutomatedTestReportParser
+ */
+export const makeAutomatedTestReportParser = (): AutomatedTestReportParser => ({
+  parse: (content, format) =>
+    Effect.gen(function* () {
+      const resolved = format ?? (yield* detectFormat(content));
+      const cases = yield* parseAs(resolved, content);
+      if (cases.length === 0) {
+        return yield* Effect.fail(
+          invalid("レポートにテストケースがありません"),
+        );
+      }
+      return { format: resolved, cases };
+    }),
+});
+
+export const AutomatedTestReportParserLive = Layer.succeed(
+  AutomatedTestReportParser,
+  makeAutomatedTestReportParser(),
+);
@@ -0,0 +1,9 @@
+/**
+ * 端末の色付けのエスケープシーケンス（Playwright・Jest のエラーメッセージに含まれる）
+ */
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * エラーメッセージから色付けを除く
+ */
+export const stripAnsi = (text: string) => text.replace(ANSI_ESCAPE, "");
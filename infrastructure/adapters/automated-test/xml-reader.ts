@@ -0,0 +1,162 @@
+import { Either } from "effect";
+
+/**
+ * XML の要素（text は子要素の間のテキストをつなげたもの）
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const fromCodePoint = (entity: string, codePoint: number) =>
+  Number.isNaN(codePoint) || codePoint > 0x10ffff
+    ? entity
+    : String.fromCodePoint(codePoint);
+
+/**
+ * 文字参照・定義済みの実体参照を文字に戻す（それ以外の実体参照はそのまま残す）
+ */
+const decodeEntities = (text: string) =>
+  text.replace(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g,
+    (entity, reference: string) => {
+      if (reference.startsWith("#x")) {
+        return fromCodePoint(entity, Number.parseInt(reference.slice(2), 16));
+      }
+      if (reference.startsWith("#")) {
+        return fromCodePoint(entity, Number.parseInt(reference.slice(1), 10));
+      }
+      return NAMED_ENTITIES[reference] ?? entity;
+    },
+  );
+
+const START_TAG =
+  /<([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const lineOf = (source: string, offset: number) =>
+  source.slice(0, offset).split("\n").length;
+
+/**
+ * XML を要素の木にする（レポートを読むための最小限の実装）
+ *
+ * 名前空間・DTD は解釈しない。XML 宣言・コメント・DOCTYPE は読み飛ばし、
+ * CDATA はテキストとして扱う。問題があれば行番号付きのメッセージを返す
+ */
+export const readXml = (source: string): Either.Either<XmlElement, string> => {
+  const document: XmlElement = {
+    name: "",
+    attributes: {},
+    children: [],
+    text: "",
+  };
+  const stack = [document];
+  let position = 0;
+
+  const skipTo = (offset: number, terminator: string) => {
+    const end = source.indexOf(terminator, offset);
+    return end === -1 ? -1 : end + terminator.length;
+  };
+
+  while (position < source.length) {
+    const current = stack[stack.length - 1];
+    const open = source.indexOf("<", position);
+    if (open === -1) {
+      current.text += decodeEntities(source.slice(position));
+      break;
+    }
+    current.text += decodeEntities(source.slice(position, open));
+
+    if (source.startsWith("<![CDATA[", open)) {
+      const end = source.indexOf("]]>", open);
+      if (end === -1) {
+        return Either.left(
+          `CDATA が閉じていません（${lineOf(source, open)} 行目）`,
+        );
+      }
+      current.text += source.slice(open + "<![CDATA[".length, end);
+      position = end + "]]>".length;
+      continue;
+    }
+
+    const [terminator, kind] = source.startsWith("<!--", open)
+      ? ["-->", "コメント"]
+      : source.startsWith("<?", open)
+        ? ["?>", "処理命令"]
+        : source.startsWith("<!", open)
+          ? [">", "宣言"]
+          : [null, null];
+    if (terminator) {
+      const next = skipTo(open, terminator);
+      if (next === -1) {
+        return Either.left(
+          `${kind}が閉じていません（${lineOf(source, open)} 行目）`,
+        );
+      }
+      position = next;
+      continue;
+    }
+
+    if (source.startsWith("</", open)) {
+      const end = source.indexOf(">", open);
+      const name = source.slice(open + 2, end === -1 ? undefined : end).trim();
+      if (end === -1 || stack.length === 1 || current.name !== name) {
+        return Either.left(
+          `終了タグ </${name}> が開始タグと対応しません（${lineOf(source, open)} 行目）`,
+        );
+      }
+      stack.pop();
+      position = end + 1;
+      continue;
+    }
+
+    START_TAG.lastIndex = open;
+    const tag = START_TAG.exec(source);
+    if (!tag) {
+      return Either.left(
+        `タグを読み取れません（${lineOf(source, open)} 行目）`,
+      );
+    }
+    const [, name, attributeSource, selfClosing] = tag;
+    const element: XmlElement = {
+      name,
+      attributes: Object.fromEntries(
+        [...attributeSource.matchAll(ATTRIBUTE)].map(
+          ([, key, doubleQuoted, singleQuoted]) => [
+            key,
+            decodeEntities(doubleQuoted ?? singleQuoted ?? ""),
+          ],
+        ),
+      ),
+      children: [],
+      text: "",
+    };
+    current.children.push(element);
+    if (!selfClosing) stack.push(element);
+    position = START_TAG.lastIndex;
+  }
+
+  if (stack.length > 1) {
+    return Either.left(`<${stack[stack.length - 1].name}> が閉じていません`);
+  }
+  const [root, ...rest] = document.children;
+  if (!root) return Either.left("XML の要素がありません");
+  if (rest.length > 0) return Either.left("ルート要素が複数あります");
+  return Either.right(root);
+};
+
+/**
+ * 名前が一致する子要素
+ */
+export const childrenNamed = (element: XmlElement, name: string) =>
+  element.children.filter((child) => child.name === name);
@@ -0,0 +1,55 @@
+import { spawn } from "node:child_process";
+import { Effect } from "effect";
+import { GitError } from "@shared/errors/git-error";
+
+export interface GitCommandOptions {
+  input?: string; // 標準入力に渡す内容
+  env?: Record<string, string>;
+}
+
+/**
+ * リポジトリ（bare / 作業ツリーあり どちらも可）に対して git コマンドを実行し、標準出力を返す
+ */
+export const runGit = (
+  repositoryPath: string,
+  args: ReadonlyArray<string>,
+  options: GitCommandOptions = {},
+) =>
+  Effect.async<string, GitError>((resume) => {
+    const child = spawn("git", ["-C", repositoryPath, ...args], {
+      env: { ...process.env, ...options.env },
+      stdio: [options.input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout?.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr?.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (error) =>
+      resume(
+        Effect.fail(new GitError({ message: error.message, args, stderr: "" })),
+      ),
+    );
+    child.on("close", (code) => {
+      const errorOutput = Buffer.concat(stderr).toString("utf8");
+      if (code === 0) {
+        resume(Effect.succeed(Buffer.concat(stdout).toString("utf8")));
+      } else {
+        resume(
+          Effect.fail(
+            new GitError({
+              message: `git ${args[0]} が終了コード ${code} で失敗しました`,
+              args,
+              stderr: errorOutput.trim(),
+            }),
+          ),
+        );
+      }
+    });
+
+    if (child.stdin) {
+      // git が入力を読む前に終了した場合の EPIPE は終了コードで報告する
+      child.stdin.on("error", () => undefined);
+      child.stdin.end(options.input);
+    }
+  });
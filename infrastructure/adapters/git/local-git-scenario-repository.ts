@@ -0,0 +1,541 @@
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Config, Effect, Layer, Option } from "effect";
+import { ScenarioRepository } from "@application/ports/scenario-repository";
+import {
+  CommitAuthor,
+  ScenarioVersion,
+  VersionedScenario,
+} from "@domain/models/scenario";
+import type { Scenario, ScenarioLocation } from "@domain/models/scenario";
+import {
+  ScenarioAlreadyExistsError,
+  ScenarioConflictError,
+  ScenarioNotFoundError,
+} from "@domain/errors/scenario-errors";
+import {
+  ARCHIVE_ROOT,
+  SCENARIO_ROOT,
+  parseScenarioYamlPath,
+  scenarioMarkdownPath,
+  scenarioYamlPath,
+} from "@domain/logic/scenario-path";
+import type { ScenarioRoot } from "@domain/logic/scenario-path";
+import { runGit } from "./git-cli";
+import type { GitCommandOptions } from "./git-cli";
+import {
+  fromScenarioFiles,
+  toScenarioMarkdown,
+  toScenarioYaml,
+} from "./scenario-file-format";
+
+export interface LocalGitConfig {
+  repositoryPath: string; // bare リポジトリ（または作業ツリー）のパス
+  branch: string;
+}
+
+interface FileChanges {
+  writes: ReadonlyArray<{ path: string; content: string }>;
+  removals: ReadonlyArray<string>;
+  moves: ReadonlyArray<{ from: string; to: string }>; // 内容を変えずに移動（git mv 相当）
+}
+
+const ZERO_OID = "0".repeat(40);
+
+// 更新中に他のコミットでブランチが進んだ場合に、版を確かめ直す回数
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// git log の出力区切り（フィールド: US, レコード: RS）
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+const authorEnv = (author: CommitAuthor): Record<string, string> => ({
+  GIT_AUTHOR_NAME: author.name,
+  GIT_AUTHOR_EMAIL: author.email,
+  GIT_COMMITTER_NAME: author.name,
+  GIT_COMMITTER_EMAIL: author.email,
+});
+
+/**
+ * シナリオを YAML + Markdown に変換する
+ * 読み戻せない内容（スキーマ違反）はコミットしないよう、書き込み前に検証する
+ */
+const scenarioFiles = (scenario: Scenario) =>
+  Effect.gen(function* () {
+    const yamlPath = scenarioYamlPath(scenario.location);
+    const markdownPath = scenarioMarkdownPath(scenario.location);
+    const yamlText = toScenarioYaml(scenario);
+    const markdownText = toScenarioMarkdown(scenario);
+
+    yield* fromScenarioFiles(
+      scenario.location,
+      yamlPath,
+      yamlText,
+      markdownPath,
+      markdownText,
+    );
+
+    return [
+      { path: yamlPath, content: yamlText },
+      { path: markdownPath, content: markdownText },
+    ];
+  });
+
+/**
+ * ローカルの Git リポジトリをシナリオの保存先とするアダプター
+ *
+ * 作業ツリーを使わず一時 index と plumbing コマンドでコミットを作るため、
+ * bare リポジトリに対してもそのまま動作する
+ */
+export const makeLocalGitScenarioRepository = (
+  config: LocalGitConfig,
+): ScenarioRepository => {
+  const branchRef = `refs/heads/${config.branch}`;
+  const git = (args: ReadonlyArray<string>, options?: GitCommandOptions) =>
+    runGit(config.repositoryPath, args, options);
+
+  const getHeadVersion = () =>
+    git(["for-each-ref", "--format=%(objectname)", branchRef]).pipe(
+      Effect.map((output) => output.trim() || null),
+    );
+
+  const listLocations = (
+    head: string | null,
+    root: ScenarioRoot = SCENARIO_ROOT,
+  ) =>
+    Effect.gen(function* () {
+      if (head === null) return [];
+
+      const output = yield* git([
+        "ls-tree",
+        "-r",
+        "--name-only",
+        "-z",
+        head,
+        "--",
+        root,
+      ]);
+
+      return output.split("\0").flatMap((path) => {
+        const location = parseScenarioYamlPath(path, root);
+        return location ? [location] : [];
+      });
+    });
+
+  const findLocation = (
+    head: string | null,
+    scenarioId: string,
+    root: ScenarioRoot = SCENARIO_ROOT,
+  ) =>
+    listLocations(head, root).pipe(
+      Effect.map((locations) =>
+        locations.find((location) => location.id === scenarioId),
+      ),
+    );
+
+  /**
+   * head の時点でシナリオを最後に変更した commit SHA
+   */
+  const scenarioVersionAt = (
+    head: string,
+    location: ScenarioLocation,
+    root: ScenarioRoot = SCENARIO_ROOT,
+  ) =>
+    git([
+      "log",
+      "-1",
+      "--format=%H",
+      head,
+      "--",
+      scenarioYamlPath(location, root),
+      scenarioMarkdownPath(location, root),
+    ]).pipe(Effect.map((output) => output.trim()));
+
+  const readScenario = (
+    head: string,
+    location: ScenarioLocation,
+    root: ScenarioRoot = SCENARIO_ROOT,
+  ) =>
+    Effect.gen(function* () {
+      const yamlPath = scenarioYamlPath(location, root);
+      const markdownPath = scenarioMarkdownPath(location, root);
+
+      const yamlText = yield* git(["cat-file", "blob", `${head}:${yamlPath}`]);
+      const markdownText = yield* git([
+        "cat-file",
+        "blob",
+        `${head}:${markdownPath}`,
+      ]);
+      const version = yield* scenarioVersionAt(head, location, root);
+
+      const scenario = yield* fromScenarioFiles(
+        location,
+        yamlPath,
+        yamlText,
+        markdownPath,
+        markdownText,
+      );
+
+      return new VersionedScenario({ scenario, version });
+    });
+
+  /**
+   * 変更を一時 index に積んでコミットし、ブランチを進める
+   * update-ref に旧 HEAD を渡すため、並行して HEAD が動いた場合は失敗する
+   */
+  const commitChanges = (
+    head: string | null,
+    changes: FileChanges,
+    message: string,
+    author: CommitAuthor,
+  ) =>
+    Effect.acquireUseRelease(
+      Effect.sync(() => join(tmpdir(), `medi-test-index-${randomUUID()}`)),
+      (indexFile) =>
+        Effect.gen(function* () {
+          const env = { GIT_INDEX_FILE: indexFile };
+
+          yield* git(head ? ["read-tree", head] : ["read-tree", "--empty"], {
+            env,
+          });
+
+          const blobs = yield* Effect.forEach(changes.writes, (file) =>
+            git(["hash-object", "-w", "--stdin"], { input: file.content }),
+          );
+          const movedBlobs = yield* Effect.forEach(changes.moves, (move) =>
+            git(["rev-parse", `${head}:${move.from}`]),
+          );
+
+          // --index-info は作業ツリーを必要としない（mode 0 はエントリ削除）
+          const indexInfo = [
+            ...changes.writes.map(
+              (file, index) => `100644 ${blobs[index].trim()}\t${file.path}`,
+            ),
+            ...changes.removals.map((path) => `0 ${ZERO_OID}\t${path}`),
+            ...changes.moves.flatMap((move, index) => [
+              `0 ${ZERO_OID}\t${move.from}`,
+              `100644 ${movedBlobs[index].trim()}\t${move.to}`,
+            ]),
+          ];
+          yield* git(["update-index", "--index-info"], {
+            env,
+            input: `${indexInfo.join("\n")}\n`,
+          });
+
+          const tree = (yield* git(["write-tree"], { env })).trim();
+
+          // 内容に変化がなければコミットしない
+          if (head) {
+            const headTree = yield* git(["rev-parse", `${head}^{tree}`]);
+            if (headTree.trim() === tree) return head;
+          }
+
+          const commit = yield* git(
+            ["commit-tree", tree, ...(head ? ["-p", head] : []), "-m", message],
+            { env: authorEnv(author) },
+          );
+
+          yield* git(["update-ref", branchRef, commit.trim(), head ?? ""]);
+          if (head === null) {
+            yield* git(["symbolic-ref", "HEAD", branchRef]);
+          }
+
+          return commit.trim();
+        }),
+      (indexFile) => Effect.promise(() => rm(indexFile, { force: true })),
+    );
+
+  /**
+   * シナリオの YAML + Markdown を別のルートへ移動してコミットする
+   */
+  const moveScenario = (
+    head: string,
+    location: ScenarioLocation,
+    from: ScenarioRoot,
+    to: ScenarioRoot,
+    message: string,
+    author: CommitAuthor,
+    removals: ReadonlyArray<string> = [],
+  ) =>
+    commitChanges(
+      head,
+      {
+        writes: [],
+        removals,
+        moves: [
+          {
+            from: scenarioYamlPath(location, from),
+            to: scenarioYamlPath(location, to),
+          },
+          {
+            from: scenarioMarkdownPath(location, from),
+            to: scenarioMarkdownPath(location, to),
+          },
+        ],
+      },
+      message,
+      author,
+    );
+
+  return {
+    list: (filter = {}) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        if (head === null) return [];
+
+        const locations = (yield* listLocations(head)).filter(
+          (location) =>
+            (!filter.project || location.project === filter.project) &&
+            (!filter.environment ||
+              location.environment === filter.environment),
+        );
+
+        return yield* Effect.forEach(locations, (location) =>
+          readScenario(head, location),
+        );
+      }),
+
+    findById: (scenarioId) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        const location = yield* findLocation(head, scenarioId);
+        if (head === null || !location) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+
+        return yield* readScenario(head, location);
+      }),
+
+    findByIdAtVersion: (scenarioId, version) =>
+      Effect.gen(function* () {
+        const commit = yield* git([
+          "rev-parse",
+          "--verify",
+          "--quiet",
+          `${version}^{commit}`,
+        ]).pipe(
+          Effect.map((output) => output.trim()),
+          Effect.catchTag("GitError", () =>
+            Effect.fail(new ScenarioNotFoundError({ scenarioId })),
+          ),
+        );
+        // その commit の時点でアーカイブ済みであれば archived/ から読む
+        const active = yield* findLocation(commit, scenarioId);
+        if (active) return yield* readScenario(commit, active);
+
+        const archived = yield* findLocation(commit, scenarioId, ARCHIVE_ROOT);
+        if (!archived) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+        return yield* readScenario(commit, archived, ARCHIVE_ROOT);
+      }),
+
+    listArchived: () =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        if (head === null) return [];
+
+        const locations = yield* listLocations(head, ARCHIVE_ROOT);
+        return yield* Effect.forEach(locations, (location) =>
+          readScenario(head, location, ARCHIVE_ROOT),
+        );
+      }),
+
+    findArchivedById: (scenarioId) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        const location = yield* findLocation(head, scenarioId, ARCHIVE_ROOT);
+        if (head === null || !location) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+
+        return yield* readScenario(head, location, ARCHIVE_ROOT);
+      }),
+
+    listVersions: (scenarioId) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        const location =
+          (yield* findLocation(head, scenarioId)) ??
+          (yield* findLocation(head, scenarioId, ARCHIVE_ROOT));
+        if (head === null || !location) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+
+        // 配置（フォルダー）の移動やアーカイブの前の履歴も辿れるよう ID でパスを照合する
+        const output = yield* git([
+          "log",
+          "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e",
+          head,
+          "--",
+          ...[SCENARIO_ROOT, ARCHIVE_ROOT].flatMap((root) => [
+            `:(glob)${root}/**/${scenarioId}.yml`,
+            `:(glob)${root}/**/${scenarioId}.md`,
+          ]),
+        ]);
+
+        return output
+          .split(RECORD_SEPARATOR)
+          .map((record) => record.trim())
+          .filter((record) => record !== "")
+          .map((record) => {
+            const [version, name, email, committedAt, message] =
+              record.split(FIELD_SEPARATOR);
+            return new ScenarioVersion({
+              version,
+              author: new CommitAuthor({ name, email }),
+              committedAt,
+              message,
+            });
+          });
+      }),
+
+    create: (scenario, author) =>
+      Effect.gen(function* () {
+        const scenarioId = scenario.location.id;
+        const head = yield* getHeadVersion();
+        const existing = yield* findLocation(head, scenarioId);
+        if (existing) {
+          return yield* Effect.fail(
+            new ScenarioAlreadyExistsError({ scenarioId }),
+          );
+        }
+
+        return yield* commitChanges(
+          head,
+          { writes: yield* scenarioFiles(scenario), removals: [], moves: [] },
+          `Create scenario: ${scenarioId}`,
+          author,
+        );
+      }),
+
+    update: (scenario, author, baseVersion) =>
+      Effect.gen(function* () {
+        const scenarioId = scenario.location.id;
+
+        for (let attempt = 1; ; attempt++) {
+          const head = yield* getHeadVersion();
+          const existing = yield* findLocation(head, scenarioId);
+          if (head === null || !existing) {
+            return yield* Effect.fail(
+              new ScenarioNotFoundError({ scenarioId }),
+            );
+          }
+
+          // 版の確認とコミットは同じ HEAD に対して行い、update-ref の旧値にも渡す
+          const currentVersion = yield* scenarioVersionAt(head, existing);
+          if (currentVersion !== baseVersion) {
+            return yield* Effect.fail(
+              new ScenarioConflictError({
+                scenarioId,
+                baseVersion,
+                currentVersion,
+              }),
+            );
+          }
+
+          // フォルダーなど配置が変わった場合は旧パスを削除する
+          const moved =
+            scenarioYamlPath(existing) !== scenarioYamlPath(scenario.location);
+
+          const committed = yield* commitChanges(
+            head,
+            {
+              writes: yield* scenarioFiles(scenario),
+              removals: moved
+                ? [scenarioYamlPath(existing), scenarioMarkdownPath(existing)]
+                : [],
+              moves: [],
+            },
+            `Update scenario: ${scenarioId}`,
+            author,
+          ).pipe(
+            Effect.map(Option.some),
+            // 確認の後にブランチが進んだ場合は、新しい HEAD で版を確かめ直す
+            Effect.catchTag("GitError", (error) =>
+              Effect.flatMap(getHeadVersion(), (latest) =>
+                latest !== head && attempt < MAX_UPDATE_ATTEMPTS
+                  ? Effect.succeedNone
+                  : Effect.fail(error),
+              ),
+            ),
+          );
+          if (Option.isSome(committed)) return committed.value;
+        }
+      }),
+
+    archive: (scenarioId, author) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        const location = yield* findLocation(head, scenarioId);
+        if (head === null || !location) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+
+        // 同じ ID を以前アーカイブしていた場合は置き換える（旧版は Git 履歴に残る）
+        const previous = yield* findLocation(head, scenarioId, ARCHIVE_ROOT);
+
+        return yield* moveScenario(
+          head,
+          location,
+          SCENARIO_ROOT,
+          ARCHIVE_ROOT,
+          `Archive scenario: ${scenarioId}`,
+          author,
+          previous
+            ? [
+                scenarioYamlPath(previous, ARCHIVE_ROOT),
+                scenarioMarkdownPath(previous, ARCHIVE_ROOT),
+              ]
+            : [],
+        );
+      }),
+
+    restore: (scenarioId, author) =>
+      Effect.gen(function* () {
+        const head = yield* getHeadVersion();
+        const location = yield* findLocation(head, scenarioId, ARCHIVE_ROOT);
+        if (head === null || !location) {
+          return yield* Effect.fail(new ScenarioNotFoundError({ scenarioId }));
+        }
+        if (yield* findLocation(head, scenarioId)) {
+          return yield* Effect.fail(
+            new ScenarioAlreadyExistsError({ scenarioId }),
+          );
+        }
+
+        return yield* moveScenario(
+          head,
+          location,
+          ARCHIVE_ROOT,
+          SCENARIO_ROOT,
+          `Restore scenario: ${scenarioId}`,
+          author,
+        );
+      }),
+
+    getHeadVersion,
+  };
+};
+
+/**
+ * 環境変数で保存先を指定する Layer
+ * - SCENARIO_REPOSITORY_PATH: リポジトリのパス（既定: scenarios.git）
+ * - SCENARIO_REPOSITORY_BRANCH: ブランチ名（既定: main）
+ */
+export const LocalGitScenarioRepositoryLive = Layer.effect(
+  ScenarioRepository,
+  Effect.map(
+    Config.all({
+      repositoryPath: Config.string("SCENARIO_REPOSITORY_PATH").pipe(
+        Config.withDefault("scenarios.git"),
+      ),
+      branch: Config.string("SCENARIO_REPOSITORY_BRANCH").pipe(
+        Config.withDefault("main"),
+      ),
+    }),
+    makeLocalGitScenarioRepository,
+  ),
+);
@@ -0,0 +1,208 @@
+import { Effect, Either } from "effect";
+import { LineCounter, isNode, parseDocument, stringify } from "yaml";
+import type { Document } from "yaml";
+import { scenarioFileSchema } from "~/lib/schemas/scenario";
+import type { ScenarioFile } from "~/lib/schemas/scenario";
+import { Scenario } from "@domain/models/scenario";
+import type { ScenarioLocation } from "@domain/models/scenario";
+import {
+  InvalidScenarioFileError,
+  type ScenarioFileIssue,
+} from "@domain/errors/scenario-errors";
+import {
+  parseScenarioMarkdown,
+  toScenarioMarkdown as renderScenarioMarkdown,
+} from "@domain/logic/scenario-markdown";
+
+/**
+ * シナリオの構造化データを YAML に変換（キー順は固定）
+ */
+export const toScenarioYaml = (scenario: Scenario): string => {
+  const file: ScenarioFile = {
+    id: scenario.location.id,
+    title: scenario.title,
+    category: scenario.location.category,
+    tags: [...scenario.tags],
+    default_importance: scenario.defaultImportance,
+    required_by_default: scenario.requiredByDefault,
+    preconditions: [...scenario.preconditions],
+    steps: [...scenario.steps],
+    expected_results: [...scenario.expectedResults],
+    related_scenarios: [...scenario.relatedScenarios],
+    estimated_duration_minutes: scenario.estimatedDurationMinutes,
+    automated_test_id: scenario.automatedTestId,
+    last_updated: scenario.lastUpdated,
+    author: scenario.author,
+  };
+
+  return stringify(file);
+};
+
+/**
+ * シナリオの本文と手順を Markdown に変換
+ */
+export const toScenarioMarkdown = (scenario: Scenario): string =>
+  renderScenarioMarkdown(scenario);
+
+/**
+ * YAML のパス（キー・添字）に対応する行番号。ノードがなければ親をたどる
+ */
+const lineOfPath = (
+  document: Document,
+  lineCounter: LineCounter,
+  path: ReadonlyArray<PropertyKey>,
+): number => {
+  const node = document.getIn(
+    path.filter((key) => typeof key !== "symbol"),
+    true,
+  );
+  if (isNode(node) && node.range) {
+    return lineCounter.linePos(node.range[0]).line;
+  }
+
+  return path.length > 0
+    ? lineOfPath(document, lineCounter, path.slice(0, -1))
+    : 1;
+};
+
+const fail = (path: string, issues: ReadonlyArray<ScenarioFileIssue>) =>
+  Effect.fail(
+    new InvalidScenarioFileError({
+      path,
+      message: issues
+        .map((issue) => `${path}:${issue.line}: ${issue.message}`)
+        .join("\n"),
+      issues,
+    }),
+  );
+
+/**
+ * YAML を検証してスキーマの型に変換（エラーは行番号付き）
+ */
+export const parseScenarioYaml = (yamlPath: string, yamlText: string) =>
+  Effect.gen(function* () {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(yamlText, { lineCounter });
+
+    if (document.errors.length > 0) {
+      return yield* fail(
+        yamlPath,
+        document.errors.map((error) => ({
+          line: error.linePos?.[0].line ?? 1,
+          // 先頭行のみ（以降はソースの抜粋）
+          message: error.message.split("\n")[0],
+        })),
+      );
+    }
+
+    const result = scenarioFileSchema.safeParse(document.toJS());
+    if (!result.success) {
+      return yield* fail(
+        yamlPath,
+        result.error.issues.map((issue) => {
+          // 未知のキーはそのキーの行を指す
+          const path =
+            issue.code === "unrecognized_keys"
+              ? [...issue.path, issue.keys[0]]
+              : issue.path;
+
+          return {
+            line: lineOfPath(document, lineCounter, path),
+            message: path.length
+              ? `${path.map(String).join(".")}: ${issue.message}`
+              : issue.message,
+          };
+        }),
+      );
+    }
+
+    return { file: result.data, document, lineCounter };
+  });
+
+/**
+ * YAML + Markdown のペアを検証してシナリオを復元
+ *
+ * - YAML の id / category はファイルの配置と一致している必要がある
+ * - Markdown のタイトル・前提条件・手順・期待結果は YAML と一致している必要がある
+ */
+export const fromScenarioFiles = (
+  location: ScenarioLocation,
+  yamlPath: string,
+  yamlText: string,
+  markdownPath: string,
+  markdownText: string,
+) =>
+  Effect.gen(function* () {
+    const { file, document, lineCounter } = yield* parseScenarioYaml(
+      yamlPath,
+      yamlText,
+    );
+
+    const locationIssues = [
+      file.id !== location.id && {
+        line: lineOfPath(document, lineCounter, ["id"]),
+        message: `id はファイル名（${location.id}）と一致する必要があります`,
+      },
+      file.category !== location.category && {
+        line: lineOfPath(document, lineCounter, ["category"]),
+        message: `category はフォルダー（${location.category}）と一致する必要があります`,
+      },
+    ].filter((issue): issue is ScenarioFileIssue => issue !== false);
+    if (locationIssues.length > 0) {
+      return yield* fail(yamlPath, locationIssues);
+    }
+
+    const markdown = parseScenarioMarkdown(markdownText);
+    if (Either.isLeft(markdown)) {
+      return yield* fail(markdownPath, markdown.left);
+    }
+
+    const mismatches = (
+      [
+        ["title", "タイトル", [markdown.right.title], [file.title]],
+        [
+          "preconditions",
+          "前提条件",
+          markdown.right.preconditions,
+          file.preconditions,
+        ],
+        ["steps", "テスト手順", markdown.right.steps, file.steps],
+        [
+          "expected_results",
+          "期待結果",
+          markdown.right.expectedResults,
+          file.expected_results,
+        ],
+      ] as const
+    ).filter(
+      ([, , fromMarkdown, fromYaml]) =>
+        fromMarkdown.length !== fromYaml.length ||
+        fromMarkdown.some((item, index) => item !== fromYaml[index]),
+    );
+    if (mismatches.length > 0) {
+      return yield* fail(
+        yamlPath,
+        mismatches.map(([key, label]) => ({
+          line: lineOfPath(document, lineCounter, [key]),
+          message: `${label}が Markdown（${markdownPath}）と一致しません`,
+        })),
+      );
+    }
+
+    return new Scenario({
+      location,
+      title: file.title,
+      description: markdown.right.description,
+      tags: file.tags,
+      preconditions: file.preconditions,
+      steps: file.steps,
+      expectedResults: file.expected_results,
+      defaultImportance: file.default_importance,
+      requiredByDefault: file.required_by_default,
+      relatedScenarios: file.related_scenarios,
+      estimatedDurationMinutes: file.estimated_duration_minutes,
+      automatedTestId: file.automated_test_id,
+      lastUpdated: file.last_updated,
+      author: file.author,
+    });
+  });
@@ -0,0 +1,195 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { Config, Effect, Layer } from "effect";
+import { z } from "zod";
+import { GitHubClient } from "@application/ports/github-client";
+import type { PullRequest } from "@domain/models/release-detection";
+import { GitHubError } from "@shared/errors/github-error";
+import { githubConfig, makeHttpGitHubClient } from "./http-github-client";
+
+/**
+ * 記録したリポジトリの Pull Request と変更ファイル
+ * （<GITHUB_FIXTURES_PATH>/<owner>/<name>.json に 1 リポジトリずつ保存する）
+ */
+const fixtureSchema = z.object({
+  pullRequests: z.array(
+    z.object({
+      number: z.number(),
+      title: z.string(),
+      url: z.string(),
+      author: z.string().nullable(),
+      labels: z.array(z.string()),
+      mergedAt: z.string(),
+      files: z
+        .array(
+          z.object({
+            path: z.string(),
+            status: z.enum([
+              "added",
+              "modified",
+              "removed",
+              "renamed",
+              "other",
+            ]),
+            previousPath: z.string().optional(),
+          }),
+        )
+        .optional(), // 変更ファイルを記録していない場合は未設定
+    }),
+  ),
+});
+
+type GitHubFixture = z.infer<typeof fixtureSchema>;
+
+const fixturePathOf = (directory: string, repository: string) =>
+  join(directory, `${repository}.json`);
+
+/**
+ * リポジトリの記録を読み込む（記録がない場合は空）
+ */
+const readFixture = (directory: string, repository: string) =>
+  Effect.tryPromise({
+    try: async (): Promise<GitHubFixture> => {
+      const path = fixturePathOf(directory, repository);
+      const text = await readFile(path, "utf8").catch((error: unknown) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      });
+      return text === null
+        ? { pullRequests: [] }
+        : fixtureSchema.parse(JSON.parse(text));
+    },
+    catch: (cause) =>
+      new GitHubError({
+        message: `GitHub の記録を読み込めません: ${repository}`,
+        cause,
+      }),
+  });
+
+const writeFixture = (
+  directory: string,
+  repository: string,
+  fixture: GitHubFixture,
+) =>
+  Effect.tryPromise({
+    try: async () => {
+      const path = fixturePathOf(directory, repository);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+    catch: (cause) =>
+      new GitHubError({
+        message: `GitHub の記録を保存できません: ${repository}`,
+        cause,
+      }),
+  });
+
+/**
+ * 記録したファイルから応答する GitHubClient（オフラインの開発・テスト用）
+ */
+export const makeFixtureGitHubClient = (directory: string): GitHubClient => ({
+  listMergedPullRequests: (repository, label) =>
+    readFixture(directory, repository).pipe(
+      Effect.map(({ pullRequests }) =>
+        pullRequests
+          .filter((pullRequest) => pullRequest.labels.includes(label))
+          .map(({ files, ...pullRequest }): PullRequest => pullRequest)
+          .sort((a, b) => b.mergedAt.localeCompare(a.mergedAt)),
+      ),
+    ),
+
+  listChangedFiles: (repository, pullNumber) =>
+    Effect.gen(function* () {
+      const { pullRequests } = yield* readFixture(directory, repository);
+      const files = pullRequests.find(
+        ({ number }) => number === pullNumber,
+      )?.files;
+      if (!files) {
+        return yield* Effect.fail(
+          new GitHubError({
+            message: `変更ファイルが記録されていません: ${repository}#${pullNumber}`,
+            status: 404,
+          }),
+        );
+      }
+      return files;
+    }),
+});
+
+/**
+ * 応答を記録しながら GitHub API を使う GitHubClient（記録は PR 番号ごとに上書きする）
+ */
+export const makeRecordingGitHubClient = (
+  client: GitHubClient,
+  directory: string,
+): GitHubClient => {
+  const update = (
+    repository: string,
+    change: (fixture: GitHubFixture) => GitHubFixture,
+  ) =>
+    readFixture(directory, repository).pipe(
+      Effect.flatMap((fixture) =>
+        writeFixture(directory, repository, change(fixture)),
+      ),
+    );
+
+  return {
+    listMergedPullRequests: (repository, label) =>
+      client.listMergedPullRequests(repository, label).pipe(
+        Effect.tap((found) =>
+          update(repository, ({ pullRequests }) => ({
+            pullRequests: [
+              ...pullRequests.filter(
+                ({ number }) => !found.some((pr) => pr.number === number),
+              ),
+              // 記録済みの変更ファイルは残す
+              ...found.map((pullRequest) => ({
+                ...pullRequest,
+                files: pullRequests.find(
+                  ({ number }) => number === pullRequest.number,
+                )?.files,
+              })),
+            ].sort((a, b) => a.number - b.number),
+          })),
+        ),
+      ),
+
+    listChangedFiles: (repository, pullNumber) =>
+      client.listChangedFiles(repository, pullNumber).pipe(
+        Effect.tap((files) =>
+          update(repository, ({ pullRequests }) => ({
+            pullRequests: pullRequests.map((pullRequest) =>
+              pullRequest.number === pullNumber
+                ? { ...pullRequest, files: [...files] }
+                : pullRequest,
+            ),
+          })),
+        ),
+      ),
+  };
+};
+
+const fixturesPath = Config.string("GITHUB_FIXTURES_PATH").pipe(
+  Config.withDefault("fixtures/github"),
+);
+
+/**
+ * 記録したファイルから応答する GitHubClient の Layer
+ * - GITHUB_FIXTURES_PATH: 記録のディレクトリ（既定は fixtures/github）
+ */
+export const FixtureGitHubClientLive = Layer.effect(
+  GitHubClient,
+  Effect.map(fixturesPath, makeFixtureGitHubClient),
+);
+
+/**
+ * GitHub API の応答を GITHUB_FIXTURES_PATH に記録する GitHubClient の Layer
+ */
+export const RecordingGitHubClientLive = Layer.effect(
+  GitHubClient,
+  Effect.gen(function* () {
+    const config = yield* githubConfig;
+    const directory = yield* fixturesPath;
+    return makeRecordingGitHubClient(makeHttpGitHubClient(config), directory);
+  }),
+);
@@ -0,0 +1,193 @@
+import { Config, Effect, Layer, Option } from "effect";
+import { z } from "zod";
+import { GitHubClient } from "@application/ports/github-client";
+import type {
+  ChangedFile,
+  PullRequest,
+} from "@domain/models/release-detection";
+import { GitHubError } from "@shared/errors/github-error";
+
+export interface GitHubConfig {
+  apiUrl: string;
+  token?: string; // 未設定の場合は公開リポジトリのみ（レート制限も厳しい）
+}
+
+// 1 ページの件数（GitHub API の上限）
+const PER_PAGE = 100;
+// 検索 API は 1,000 件、変更ファイルの API は 3,000 件までしか返さない
+const MAX_SEARCH_PAGES = 10;
+const MAX_FILE_PAGES = 30;
+
+const searchResponseSchema = z.object({
+  items: z.array(
+    z.object({
+      number: z.number(),
+      title: z.string(),
+      html_url: z.string(),
+      user: z.object({ login: z.string() }).nullable(),
+      labels: z.array(z.object({ name: z.string() })),
+      pull_request: z
+        .object({ merged_at: z.string().nullable().optional() })
+        .optional(),
+    }),
+  ),
+});
+
+const filesResponseSchema = z.array(
+  z.object({
+    filename: z.string(),
+    status: z.string(),
+    previous_filename: z.string().optional(),
+  }),
+);
+
+const errorResponseSchema = z.object({ message: z.string() });
+
+const toFileStatus = (status: string): ChangedFile["status"] =>
+  status === "added" ||
+  status === "modified" ||
+  status === "removed" ||
+  status === "renamed"
+    ? status
+    : "other";
+
+export const makeHttpGitHubClient = (config: GitHubConfig): GitHubClient => {
+  const get = <A>(path: string, schema: z.ZodType<A>) =>
+    Effect.gen(function* () {
+      const url = `${config.apiUrl}${path}`;
+      const response = yield* Effect.tryPromise({
+        try: async () => {
+          const response = await fetch(url, {
+            headers: {
+              Accept: "application/vnd.github+json",
+              "X-GitHub-Api-Version": "2022-11-28",
+              "User-Agent": "medi-test",
+              ...(config.token
+                ? { Authorization: `Bearer ${config.token}` }
+                : {}),
+            },
+          });
+          return {
+            status: response.status,
+            ok: response.ok,
+            body: (await response.json()) as unknown,
+          };
+        },
+        catch: (cause) =>
+          new GitHubError({
+            message: `GitHub に接続できません: ${url}`,
+            cause,
+          }),
+      });
+      if (!response.ok) {
+        const error = errorResponseSchema.safeParse(response.body);
+        return yield* Effect.fail(
+          new GitHubError({
+            message: `GitHub API がエラーを返しました（${response.status}）: ${
+              error.success ? error.data.message : path
+            }`,
+            status: response.status,
+          }),
+        );
+      }
+      return yield* Effect.try({
+        try: () => schema.parse(response.body),
+        catch: (cause) =>
+          new GitHubError({
+            message: `GitHub API の応答の形式が正しくありません: ${path}`,
+            cause,
+          }),
+      });
+    });
+
+  /**
+   * 件数が 1 ページに満たなくなるまで順に取得する
+   */
+  const getAllPages = <A>(
+    fetchPage: (page: number) => Effect.Effect<A[], GitHubError>,
+    maxPages: number,
+  ) =>
+    Effect.gen(function* () {
+      const all: A[] = [];
+      for (let page = 1; page <= maxPages; page++) {
+        const items = yield* fetchPage(page);
+        all.push(...items);
+        if (items.length < PER_PAGE) break;
+      }
+      return all;
+    });
+
+  return {
+    listMergedPullRequests: (repository, label) =>
+      getAllPages((page) => {
+        const query = `repo:${repository} is:pr is:merged label:"${label}"`;
+        return get(
+          `/search/issues?q=${encodeURIComponent(query)}&per_page=${PER_PAGE}&page=${page}`,
+          searchResponseSchema,
+        ).pipe(Effect.map(({ items }) => items));
+      }, MAX_SEARCH_PAGES).pipe(
+        Effect.map((items) =>
+          items
+            .flatMap((item): PullRequest[] =>
+              item.pull_request?.merged_at
+                ? [
+                    {
+                      number: item.number,
+                      title: item.title,
+                      url: item.html_url,
+                      author: item.user?.login ?? null,
+                      labels: item.labels.map(({ name }) => name),
+                      mergedAt: item.pull_request.merged_at,
+                    },
+                  ]
+                : [],
+            )
+            .sort((a, b) => b.mergedAt.localeCompare(a.mergedAt)),
+        ),
+      ),
+
+    listChangedFiles: (repository, pullNumber) =>
+      getAllPages(
+        (page) =>
+          get(
+            `/repos/${repository}/pulls/${pullNumber}/files?per_page=${PER_PAGE}&page=${page}`,
+            filesResponseSchema,
+          ),
+        MAX_FILE_PAGES,
+      ).pipe(
+        Effect.map((files) =>
+          files.map(
+            (file): ChangedFile => ({
+              path: file.filename,
+              status: toFileStatus(file.status),
+              previousPath: file.previous_filename,
+            }),
+          ),
+        ),
+      ),
+  };
+};
+
+/**
+ * GitHub API の設定（環境変数）
+ */
+export const githubConfig = Effect.gen(function* () {
+  const apiUrl = yield* Config.string("GITHUB_API_URL").pipe(
+    Config.withDefault("https://api.github.com"),
+  );
+  const token = yield* Config.option(Config.string("GITHUB_TOKEN"));
+  return {
+    apiUrl: apiUrl.replace(/\/$/, ""),
+    token: Option.getOrUndefined(token),
+  } satisfies GitHubConfig;
+});
+
+/**
+ * 環境変数で設定した GitHub API を使う GitHubClient の Layer
+ * - GITHUB_API_URL: API の URL（既定は https://api.github.com、GitHub Enterprise の場合は変更する）
+ * - GITHUB_TOKEN: アクセストークン（private リポジトリの場合は必須）
+ */
+export const HttpGitHubClientLive = Layer.effect(
+  GitHubClient,
+  Effect.map(githubConfig, makeHttpGitHubClient),
+);
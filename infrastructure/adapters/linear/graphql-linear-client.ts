@@ -0,0 +1,165 @@
+import { Config, Effect, Layer, Option } from "effect";
+import { z } from "zod";
+import { LinearClient } from "@application/ports/linear-client";
+import type { LinearIssue } from "@domain/models/linear-issue";
+import { LinearError } from "@shared/errors/linear-error";
+
+export interface LinearConfig {
+  apiUrl: string;
+  apiKey?: string; // 未設定の場合は Issue を取得できない
+}
+
+// 1 回のクエリで取得する Issue の数（クエリの複雑さの上限に収まる数）
+const ISSUES_PER_QUERY = 50;
+
+const issueSchema = z.object({
+  identifier: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  priority: z.number(),
+  url: z.string(),
+  state: z.object({ name: z.string() }).nullable(),
+  labels: z.object({ nodes: z.array(z.object({ name: z.string() })) }),
+});
+
+// 見つからない Issue は null になり、errors にその理由が入る
+const responseSchema = z.object({
+  data: z.record(z.string(), issueSchema.nullable()).nullable().optional(),
+  errors: z.array(z.object({ message: z.string() })).optional(),
+});
+
+const ISSUE_FIELDS = `
+  fragment IssueFields on Issue {
+    identifier
+    title
+    description
+    priority
+    url
+    state { name }
+    labels { nodes { name } }
+  }
+`;
+
+/**
+ * 識別子ごとに別名を付けて 1 回のクエリで取得する
+ */
+const issuesQuery = (count: number) => {
+  const variables = Array.from({ length: count }, (_, i) => `$i${i}: String!`);
+  const fields = Array.from(
+    { length: count },
+    (_, i) => `i${i}: issue(id: $i${i}) { ...IssueFields }`,
+  );
+  return `query Issues(${variables.join(", ")}) { ${fields.join(" ")} } ${ISSUE_FIELDS}`;
+};
+
+const toPriority = (priority: number): LinearIssue["priority"] =>
+  priority === 1 || priority === 2 || priority === 3 || priority === 4
+    ? priority
+    : 0;
+
+export const makeGraphqlLinearClient = (config: LinearConfig): LinearClient => {
+  const queryIssues = (identifiers: ReadonlyArray<string>) =>
+    Effect.gen(function* () {
+      const apiKey = config.apiKey;
+      if (!apiKey) {
+        return yield* Effect.fail(
+          new LinearError({ message: "LINEAR_API_KEY が設定されていません" }),
+        );
+      }
+      const response = yield* Effect.tryPromise({
+        try: async () => {
+          const response = await fetch(config.apiUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: apiKey,
+            },
+            body: JSON.stringify({
+              query: issuesQuery(identifiers.length),
+              variables: Object.fromEntries(
+                identifiers.map((identifier, i) => [`i${i}`, identifier]),
+              ),
+            }),
+          });
+          return {
+            status: response.status,
+            ok: response.ok,
+            body: (await response.json()) as unknown,
+          };
+        },
+        catch: (cause) =>
+          new LinearError({
+            message: `Linear に接続できません: ${config.apiUrl}`,
+            cause,
+          }),
+      });
+      const parsed = responseSchema.safeParse(response.body);
+      if (!parsed.success) {
+        return yield* Effect.fail(
+          new LinearError({
+            message: "Linear API の応答の形式が正しくありません",
+            status: response.status,
+            cause: parsed.error,
+          }),
+        );
+      }
+      const { data, errors } = parsed.data;
+      if (!response.ok || !data) {
+        return yield* Effect.fail(
+          new LinearError({
+            message: `Linear API がエラーを返しました（${response.status}）: ${
+              errors?.[0]?.message ?? "不明なエラー"
+            }`,
+            status: response.status,
+          }),
+        );
+      }
+      return identifiers.flatMap((_, i): LinearIssue[] => {
+        const issue = data[`i${i}`];
+        return issue
+          ? [
+              {
+                identifier: issue.identifier,
+                title: issue.title,
+                description: issue.description,
+                labels: issue.labels.nodes.map(({ name }) => name),
+                priority: toPriority(issue.priority),
+                state: issue.state?.name ?? null,
+                url: issue.url,
+              },
+            ]
+          : [];
+      });
+    });
+
+  return {
+    listIssues: (identifiers) =>
+      Effect.forEach(
+        Array.from(
+          { length: Math.ceil(identifiers.length / ISSUES_PER_QUERY) },
+          (_, i) =>
+            identifiers.slice(i * ISSUES_PER_QUERY, (i + 1) * ISSUES_PER_QUERY),
+        ),
+        queryIssues,
+      ).pipe(Effect.map((chunks) => chunks.flat())),
+  };
+};
+
+/**
+ * 環境変数で設定した Linear の GraphQL API を使う LinearClient の Layer
+ * - LINEAR_API_URL: API の URL（既定は https://api.linear.app/graphql）
+ * - LINEAR_API_KEY: 個人用の API キー
+ */
+export const GraphqlLinearClientLive = Layer.effect(
+  LinearClient,
+  Effect.gen(function* () {
+    const apiUrl = yield* Config.string("LINEAR_API_URL").pipe(
+      Config.withDefault("https://api.linear.app/graphql"),
+    );
+    const apiKey = yield* Config.option(Config.string("LINEAR_API_KEY"));
+    return makeGraphqlLinearClient({
+      apiUrl,
+      apiKey: Option.getOrUndefined(apiKey),
+    });
+  }),
+);
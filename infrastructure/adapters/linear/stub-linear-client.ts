@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import { Config, Effect, Layer } from "effect";
+import { z } from "zod";
+import { LinearClient } from "@application/ports/linear-client";
+import type { LinearIssue } from "@domain/models/linear-issue";
+import { LinearError } from "@shared/errors/linear-error";
+
+/**
+ * スタブの Issue（LINEAR_STUB_PATH の JSON）
+ */
+const stubSchema = z.object({
+  issues: z.array(
+    z.object({
+      identifier: z.string(),
+      title: z.string(),
+      description: z.string().nullable(),
+      labels: z.array(z.string()),
+      priority: z.union([
+        z.literal(0),
+        z.literal(1),
+        z.literal(2),
+        z.literal(3),
+        z.literal(4),
+      ]),
+      state: z.string().nullable(),
+      url: z.string(),
+    }),
+  ),
+});
+
+/**
+ * JSON ファイルの Issue から応答する LinearClient（オフラインの開発・テスト用）
+ * （ファイルは呼び出しごとに読み込むため、起動したまま Issue を書き換えられる）
+ */
+export const makeStubLinearClient = (path: string): LinearClient => ({
+  listIssues: (identifiers) =>
+    Effect.tryPromise({
+      try: async () =>
+        stubSchema.parse(JSON.parse(await readFile(path, "utf8"))),
+      catch: (cause) =>
+        new LinearError({
+          message: `Linear のスタブを読み込めません: ${path}`,
+          cause,
+        }),
+    }).pipe(
+      Effect.map(({ issues }) =>
+        identifiers.flatMap((identifier): LinearIssue[] =>
+          issues.filter((issue) => issue.identifier === identifier),
+        ),
+      ),
+    ),
+});
+
+/**
+ * JSON ファイルの Issue から応答する LinearClient の Layer
+ * - LINEAR_STUB_PATH: Issue の JSON（既定は fixtures/linear/issues.json）
+ */
+export const StubLinearClientLive = Layer.effect(
+  LinearClient,
+  Effect.map(
+    Config.string("LINEAR_STUB_PATH").pipe(
+      Config.withDefault("fixtures/linear/issues.json"),
+    ),
+    makeStubLinearClient,
+  ),
+);
@@ -0,0 +1,58 @@
+import type { Prisma } from "generated/prisma/client";
+import { z } from "zod";
+import type { ProjectSummary } from "@domain/models/project";
+import { releaseDetectionSettingsSchema } from "~/lib/schemas/release-detection";
+import type { ReleaseDetectionSettings } from "~/lib/schemas/release-detection";
+
+/**
+ * ProjectSummary への変換に必要なリレーション（アーカイブ済みの環境は除く）
+ */
+export const projectSummaryInclude = {
+  environments: { where: { status: "active" }, orderBy: { type: "asc" } },
+  releases: { orderBy: { createdAt: "desc" } },
+} satisfies Prisma.ProjectInclude;
+
+export type ProjectSummaryRow = Prisma.ProjectGetPayload<{
+  include: typeof projectSummaryInclude;
+}>;
+
+const linearRefsSchema = z.array(z.string());
+
+/**
+ * JSON 列の Linear の Issue の識別子を取り出す（形式が合わない場合は空）
+ */
+export const toLinearRefs = (value: Prisma.JsonValue): string[] => {
+  const parsed = linearRefsSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+};
+
+/**
+ * DB の行をドメインの ProjectSummary に変換
+ */
+export const toProjectSummary = (row: ProjectSummaryRow): ProjectSummary => ({
+  id: row.id,
+  key: row.key,
+  name: row.name,
+  environments: row.environments.map((environment) => ({
+    id: environment.id,
+    name: environment.name,
+    type: environment.type,
+  })),
+  releases: row.releases.map((release) => ({
+    id: release.id,
+    environmentId: release.environmentId,
+    tag: release.tag,
+    linearRefs: toLinearRefs(release.linearRefs),
+    plannedAt: release.plannedAt?.toISOString(),
+  })),
+});
+
+/**
+ * JSON 列のリリース検出の設定を検証して取り出す（未設定・形式が合わない場合は null）
+ */
+export const toReleaseDetectionSettings = (
+  value: Prisma.JsonValue,
+): ReleaseDetectionSettings | null => {
+  const parsed = releaseDetectionSettingsSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
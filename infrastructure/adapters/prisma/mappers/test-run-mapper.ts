@@ -0,0 +1,227 @@
+import type { Prisma, User } from "generated/prisma/client";
+import {
+  completionPolicyOverrideSchema,
+  evidenceSchema,
+  folderOwnersSchema,
+} from "~/lib/schemas/test-run";
+import type {
+  Assignee,
+  CompletionPolicyOverride,
+  Evidence,
+  FolderOwners,
+  TestRun,
+  TestRunApproval,
+  TestRunItem,
+  TestRunItemAttempt,
+} from "~/lib/schemas/test-run";
+import { calculateSuccessRate } from "@domain/logic/dashboard-statistics";
+import { resolveCompletionPolicy } from "@domain/logic/completion-policy";
+
+/**
+ * TestRun スキーマへの変換に必要なリレーション
+ */
+export const testRunInclude = {
+  project: true,
+  environment: true,
+  release: true,
+  assignees: true,
+} satisfies Prisma.TestRunInclude;
+
+export type TestRunRow = Prisma.TestRunGetPayload<{
+  include: typeof testRunInclude;
+}>;
+
+export const toAssignee = (user: User): Assignee => ({
+  id: String(user.id),
+  name: user.name ?? user.email,
+  avatar: user.avatar ?? undefined,
+});
+
+/**
+ * JSON 列の完了条件を検証して取り出す（未設定・形式が合わない場合は undefined）
+ */
+export const toCompletionPolicyOverride = (
+  value: Prisma.JsonValue,
+): CompletionPolicyOverride | undefined => {
+  const parsed = completionPolicyOverrideSchema.safeParse(value);
+  return parsed.success && Object.keys(parsed.data).length > 0
+    ? parsed.data
+    : undefined;
+};
+
+/**
+ * JSON 列のフォルダー担当を検証して取り出す（未設定・形式が合わない場合は空）
+ */
+export const toFolderOwners = (value: Prisma.JsonValue): FolderOwners => {
+  const parsed = folderOwnersSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+};
+
+/**
+ * DB の行を zod の TestRun 型に変換
+ */
+export const toTestRun = (row: TestRunRow): TestRun => ({
+  id: row.id,
+  title: row.title,
+  projectId: row.projectId,
+  projectName: row.project.key,
+  environment: {
+    id: row.environment.id,
+    name: row.environment.name,
+    type: row.environment.type,
+  },
+  release: row.release
+    ? { id: row.release.id, tag: row.release.tag }
+    : undefined,
+  status: row.status,
+  successRate: calculateSuccessRate(row.passedItems, row.completedItems),
+  totalItems: row.totalItems,
+  completedItems: row.completedItems,
+  passedItems: row.passedItems,
+  failedItems: row.failedItems,
+  assignees: row.assignees.map(toAssignee),
+  startedAt: (row.startedAt ?? row.createdAt).toISOString(),
+  completedAt: row.completedAt?.toISOString(),
+  dueAt: row.dueAt?.toISOString(),
+  ...toResolvedCompletionPolicy(row),
+  folderOwners: toFolderOwners(row.project.folderOwners),
+});
+
+/**
+ * 既定値・プロジェクト・テストランの完了条件を重ね、どこで設定されたかを返す
+ */
+const toResolvedCompletionPolicy = (
+  row: Pick<TestRunRow, "completionPolicy" | "project">,
+): Pick<TestRun, "completionPolicy" | "completionPolicyScope"> => {
+  const projectPolicy = toCompletionPolicyOverride(
+    row.project.completionPolicy,
+  );
+  const runPolicy = toCompletionPolicyOverride(row.completionPolicy);
+
+  return {
+    completionPolicy: resolveCompletionPolicy(projectPolicy, runPolicy),
+    completionPolicyScope: runPolicy
+      ? "run"
+      : projectPolicy
+        ? "project"
+        : "default",
+  };
+};
+
+/**
+ * TestRunItemAttempt スキーマへの変換に必要なリレーション
+ */
+export const testRunItemAttemptInclude = {
+  executedBy: true,
+  resolvedBy: true,
+} satisfies Prisma.TestRunItemAttemptInclude;
+
+export type TestRunItemAttemptRow = Prisma.TestRunItemAttemptGetPayload<{
+  include: typeof testRunItemAttemptInclude;
+}>;
+
+/**
+ * JSON 列の証跡を検証して取り出す（形式が合わない場合は無視する）
+ */
+const toEvidence = (value: Prisma.JsonValue): Evidence | undefined => {
+  const parsed = evidenceSchema.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+};
+
+/**
+ * DB の行を zod の TestRunItemAttempt 型に変換
+ * （結果以外のステータスは記録されないため、想定外の行は除く）
+ */
+export const toTestRunItemAttempts = (
+  rows: TestRunItemAttemptRow[],
+): TestRunItemAttempt[] =>
+  rows.flatMap((row) =>
+    row.status === "pending" ||
+    row.status === "in_progress" ||
+    row.status === "retest"
+      ? []
+      : [
+          {
+            id: row.id,
+            attemptNumber: row.attemptNumber,
+            result: row.status,
+            executedBy: row.executedBy ? toAssignee(row.executedBy) : undefined,
+            executedAt: row.executedAt.toISOString(),
+            duration: row.durationSeconds ?? undefined,
+            notes: row.notes ?? undefined,
+            evidence: toEvidence(row.evidence),
+            blockedReason: row.blockedReason ?? undefined,
+            resolution:
+              row.resolution !== null && row.resolvedAt !== null
+                ? {
+                    note: row.resolution,
+                    resolvedBy: row.resolvedBy
+                      ? toAssignee(row.resolvedBy)
+                      : undefined,
+                    resolvedAt: row.resolvedAt.toISOString(),
+                  }
+                : undefined,
+          },
+        ],
+  );
+
+/**
+ * TestRunItem スキーマへの変換に必要なリレーション
+ */
+export const testRunItemInclude = {
+  assignee: true,
+  attempts: {
+    include: testRunItemAttemptInclude,
+    orderBy: { attemptNumber: "asc" },
+  },
+} satisfies Prisma.TestRunItemInclude;
+
+export type TestRunItemRow = Prisma.TestRunItemGetPayload<{
+  include: typeof testRunItemInclude;
+}>;
+
+/**
+ * DB の行を zod の TestRunItem 型に変換
+ */
+export const toTestRunItem = (row: TestRunItemRow): TestRunItem => ({
+  id: row.id,
+  testRunId: row.testRunId,
+  scenarioId: row.scenarioId,
+  scenarioVersion: row.scenarioVersion ?? undefined,
+  title: row.title,
+  description: row.description ?? undefined,
+  folder: row.folder ?? undefined,
+  importance: row.importance,
+  required: row.required,
+  estimatedMinutes: row.estimatedMinutes ?? undefined,
+  status: row.status,
+  assignee: row.assignee ? toAssignee(row.assignee) : undefined,
+  executedAt: row.executedAt?.toISOString(),
+  duration: row.durationSeconds ?? undefined,
+  notes: row.notes ?? undefined,
+  attempts: toTestRunItemAttempts(row.attempts),
+});
+
+/**
+ * TestRunApproval スキーマへの変換に必要なリレーション
+ */
+export const testRunApprovalInclude = {
+  approver: true,
+} satisfies Prisma.TestRunApprovalInclude;
+
+export type TestRunApprovalRow = Prisma.TestRunApprovalGetPayload<{
+  include: typeof testRunApprovalInclude;
+}>;
+
+/**
+ * DB の行を zod の TestRunApproval 型に変換
+ */
+export const toTestRunApproval = (
+  row: TestRunApprovalRow,
+): TestRunApproval => ({
+  id: row.id,
+  decision: row.decision,
+  comment: row.comment,
+  approver: row.approver ? toAssignee(row.approver) : undefined,
+  decidedAt: row.createdAt.toISOString(),
+});
@@ -0,0 +1,27 @@
+import type { Prisma } from "generated/prisma/client";
+import { User } from "@domain/models/user";
+import type { Role } from "@domain/models/user";
+import { rolePermissions } from "@domain/logic/permission-checker";
+
+export const userInclude = {
+  roles: true,
+} satisfies Prisma.UserInclude;
+
+export type UserRow = Prisma.UserGetPayload<{
+  include: typeof userInclude;
+}>;
+
+const isRole = (name: string): name is Role => name in rolePermissions;
+
+/**
+ * DB の行をドメインの User に変換（未知のロール名は無視する）
+ */
+export const toUser = (row: UserRow): User =>
+  new User({
+    id: String(row.id),
+    email: row.email,
+    name: row.name ?? row.email,
+    avatarUrl: row.avatar,
+    roles: row.roles.map((role) => role.name).filter(isRole),
+    status: row.status,
+  });
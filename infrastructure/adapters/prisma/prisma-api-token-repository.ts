@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "node:crypto";
+import { Effect, Layer } from "effect";
+import type { Prisma, PrismaClient } from "generated/prisma/client";
+import { ApiTokenRepository } from "@application/ports/api-token-repository";
+import { ApiTokenNotFoundError } from "@domain/errors/auth-errors";
+import type { ApiToken } from "@domain/models/api-token";
+import { API_TOKEN_PREFIX } from "@domain/logic/api-token";
+import { permissionSchema } from "~/lib/schemas/auth";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+
+/**
+ * トークンから保存するハッシュを作る（DB が漏れてもトークンを復元できない）
+ */
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// 一覧で見分けるために保存するトークンの先頭の文字数（接頭辞を含む）
+const PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+const toApiToken = (row: {
+  id: string;
+  userId: number;
+  name: string;
+  prefix: string;
+  scopes: Prisma.JsonValue;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}): ApiToken => {
+  // 形式が合わない場合はスコープなし（何も許可しない）として扱う
+  const scopes = permissionSchema.array().safeParse(row.scopes);
+  return {
+    id: row.id,
+    userId: String(row.userId),
+    name: row.name,
+    prefix: row.prefix,
+    scopes: scopes.success ? scopes.data : [],
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    revokedAt: row.revokedAt,
+  };
+};
+
+export const makePrismaApiTokenRepository = (
+  prisma: PrismaClient,
+): ApiTokenRepository => ({
+  create: ({ userId, name, scopes, expiresAt }) =>
+    Effect.gen(function* () {
+      const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+      const row = yield* tryQuery("API トークンの作成に失敗しました", () =>
+        prisma.apiToken.create({
+          data: {
+            userId: Number(userId),
+            name,
+            tokenHash: hashToken(token),
+            prefix: token.slice(0, PREFIX_LENGTH),
+            scopes,
+            expiresAt,
+          },
+        }),
+      );
+      return { token, apiToken: toApiToken(row) };
+    }),
+
+  findByToken: (token) =>
+    tryQuery("API トークンの取得に失敗しました", () =>
+      prisma.apiToken.findUnique({ where: { tokenHash: hashToken(token) } }),
+    ).pipe(Effect.map((row) => (row ? toApiToken(row) : null))),
+
+  listByUser: (userId) =>
+    tryQuery("API トークンの取得に失敗しました", () =>
+      prisma.apiToken.findMany({
+        where: { userId: Number(userId) },
+        orderBy: { createdAt: "desc" },
+      }),
+    ).pipe(Effect.map((rows) => rows.map(toApiToken))),
+
+  revoke: (tokenId, userId, revokedAt) =>
+    Effect.gen(function* () {
+      const row = yield* tryQuery("API トークンの取得に失敗しました", () =>
+        prisma.apiToken.findFirst({
+          where: { id: tokenId, userId: Number(userId) },
+        }),
+      );
+      if (!row) {
+        return yield* Effect.fail(new ApiTokenNotFoundError({ tokenId }));
+      }
+      yield* tryQuery("API トークンの失効に失敗しました", () =>
+        prisma.apiToken.updateMany({
+          where: { id: tokenId, revokedAt: null },
+          data: { revokedAt },
+        }),
+      );
+    }),
+
+  markUsed: (tokenId, usedAt) =>
+    tryQuery("API トークンの更新に失敗しました", () =>
+      prisma.apiToken.update({
+        where: { id: tokenId },
+        data: { lastUsedAt: usedAt },
+      }),
+    ).pipe(Effect.asVoid),
+});
+
+export const PrismaApiTokenRepositoryLive = Layer.effect(
+  ApiTokenRepository,
+  Effect.map(PrismaClientService, makePrismaApiTokenRepository),
+);
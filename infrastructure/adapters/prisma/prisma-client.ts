@@ -0,0 +1,28 @@
+import { Context, Effect, Layer } from "effect";
+import { createPrismaClient } from "repository/libs/db";
+import type { PrismaClient } from "generated/prisma/client";
+import { DatabaseError } from "@shared/errors/database-error";
+
+export const PrismaClientService = Context.GenericTag<PrismaClient>(
+  "@infrastructure/PrismaClient",
+);
+
+/**
+ * リクエスト（Effect の実行）単位で PrismaClient を生成し、終了時に切断する
+ */
+export const PrismaClientLive = Layer.scoped(
+  PrismaClientService,
+  Effect.acquireRelease(
+    Effect.sync(() => createPrismaClient()),
+    (prisma) => Effect.promise(() => prisma.$disconnect()),
+  ),
+);
+
+/**
+ * Prisma の Promise を Effect に変換し、失敗を DatabaseError にする
+ */
+export const tryQuery = <A>(message: string, query: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: query,
+    catch: (cause) => new DatabaseError({ message, cause }),
+  });
@@ -0,0 +1,158 @@
+import { Effect, Layer } from "effect";
+import type { PrismaClient } from "generated/prisma/client";
+import { DashboardRepository } from "@application/ports/dashboard-repository";
+import type { ProjectStat, RunStatusCounts } from "@domain/models/dashboard";
+import { calculateSuccessRate } from "@domain/logic/dashboard-statistics";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+import { testRunInclude, toTestRun } from "./mappers/test-run-mapper";
+
+type DailyExecutionRow = {
+  date: string;
+  successful: number | bigint | null;
+  failed: number | bigint | null;
+};
+
+type AverageRow = {
+  rate: number | null;
+};
+
+export const makePrismaDashboardRepository = (
+  prisma: PrismaClient,
+): DashboardRepository => ({
+  countRunsByStatus: () =>
+    tryQuery("テストラン件数の集計に失敗しました", () =>
+      prisma.testRun.groupBy({ by: ["status"], _count: { _all: true } }),
+    ).pipe(
+      Effect.map((rows) =>
+        rows.reduce<RunStatusCounts>(
+          (counts, row) => ({ ...counts, [row.status]: row._count._all }),
+          {
+            planned: 0,
+            in_progress: 0,
+            awaiting_approval: 0,
+            completed: 0,
+            failed: 0,
+          },
+        ),
+      ),
+    ),
+
+  countRunsStartedBetween: (from, to) =>
+    tryQuery("テストラン件数の集計に失敗しました", () =>
+      prisma.testRun.count({ where: { startedAt: { gte: from, lt: to } } }),
+    ),
+
+  averageSuccessRate: () =>
+    tryQuery(
+      "平均成功率の集計に失敗しました",
+      () => prisma.$queryRaw<AverageRow[]>`
+        SELECT AVG(
+          CASE WHEN completedItems > 0
+            THEN passedItems * 100.0 / completedItems
+            ELSE 0
+          END
+        ) AS rate
+        FROM TestRun
+        WHERE status != 'planned'
+      `,
+    ).pipe(Effect.map((rows) => rows[0]?.rate ?? 0)),
+
+  listDailyExecutions: (since) =>
+    tryQuery(
+      "実行トレンドの集計に失敗しました",
+      () => prisma.$queryRaw<DailyExecutionRow[]>`
+        SELECT
+          date(completedAt) AS date,
+          SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) AS successful,
+          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) AS failed
+        FROM TestRun
+        WHERE completedAt IS NOT NULL
+          AND datetime(completedAt) >= datetime(${since.toISOString()})
+        GROUP BY date(completedAt)
+        ORDER BY date(completedAt)
+      `,
+    ).pipe(
+      Effect.map((rows) =>
+        rows.map((row) => {
+          const successful = Number(row.successful ?? 0);
+          const failed = Number(row.failed ?? 0);
+          return {
+            date: row.date,
+            successful,
+            failed,
+            total: successful + failed,
+          };
+        }),
+      ),
+    ),
+
+  listProjectStats: () =>
+    Effect.gen(function* () {
+      const groups = yield* tryQuery(
+        "プロジェクト統計の集計に失敗しました",
+        () =>
+          prisma.testRun.groupBy({
+            by: ["environmentId"],
+            where: { status: { not: "planned" } },
+            _count: { _all: true },
+            _sum: { passedItems: true, completedItems: true },
+            _max: { startedAt: true },
+          }),
+      );
+      const environments = yield* tryQuery(
+        "プロジェクトの取得に失敗しました",
+        () =>
+          prisma.environment.findMany({
+            where: { project: { status: "active" } },
+            include: { project: true },
+            orderBy: { project: { key: "asc" } },
+          }),
+      );
+
+      const groupByEnvironment = new Map(
+        groups.map((group) => [group.environmentId, group]),
+      );
+
+      return environments.flatMap((environment): ProjectStat[] => {
+        const group = groupByEnvironment.get(environment.id);
+        if (!group) return [];
+
+        return [
+          {
+            projectName: environment.project.key,
+            environment: environment.type,
+            successRate: calculateSuccessRate(
+              group._sum.passedItems ?? 0,
+              group._sum.completedItems ?? 0,
+            ),
+            totalRuns: group._count._all,
+            lastRunDate: group._max.startedAt?.toISOString() ?? "",
+          },
+        ];
+      });
+    }),
+
+  listActiveRuns: () =>
+    tryQuery("実行中のテストランの取得に失敗しました", () =>
+      prisma.testRun.findMany({
+        where: { status: "in_progress" },
+        include: testRunInclude,
+        orderBy: { startedAt: "desc" },
+      }),
+    ).pipe(Effect.map((rows) => rows.map(toTestRun))),
+
+  listRecentRuns: (limit) =>
+    tryQuery("テスト履歴の取得に失敗しました", () =>
+      prisma.testRun.findMany({
+        where: { status: { not: "planned" } },
+        include: testRunInclude,
+        orderBy: { startedAt: "desc" },
+        take: limit,
+      }),
+    ).pipe(Effect.map((rows) => rows.map(toTestRun))),
+});
+
+export const PrismaDashboardRepositoryLive = Layer.effect(
+  DashboardRepository,
+  Effect.map(PrismaClientService, makePrismaDashboardRepository),
+);
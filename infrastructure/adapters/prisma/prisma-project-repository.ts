@@ -0,0 +1,125 @@
+import { Effect, Layer } from "effect";
+import { Prisma } from "generated/prisma/client";
+import type { PrismaClient } from "generated/prisma/client";
+import { ProjectRepository } from "@application/ports/project-repository";
+import { ProjectNotFoundError } from "@domain/errors/project-errors";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+import { syncRunProgress } from "./run-progress-sync";
+import {
+  projectSummaryInclude,
+  toProjectSummary,
+  toReleaseDetectionSettings,
+} from "./mappers/project-mapper";
+
+export const makePrismaProjectRepository = (
+  prisma: PrismaClient,
+): ProjectRepository => ({
+  listActive: () =>
+    tryQuery("プロジェクトの取得に失敗しました", () =>
+      prisma.project.findMany({
+        where: { status: "active" },
+        include: projectSummaryInclude,
+        orderBy: { key: "asc" },
+      }),
+    ).pipe(Effect.map((rows) => rows.map(toProjectSummary))),
+
+  findById: (projectId) =>
+    Effect.gen(function* () {
+      const row = yield* tryQuery("プロジェクトの取得に失敗しました", () =>
+        prisma.project.findUnique({
+          where: { id: projectId },
+          include: projectSummaryInclude,
+        }),
+      );
+      if (!row) {
+        return yield* Effect.fail(new ProjectNotFoundError({ projectId }));
+      }
+      return toProjectSummary(row);
+    }),
+
+  updateCompletionPolicy: (projectId, policy) =>
+    Effect.gen(function* () {
+      const project = yield* tryQuery("プロジェクトの取得に失敗しました", () =>
+        prisma.project.findUnique({ where: { id: projectId } }),
+      );
+      if (!project) {
+        return yield* Effect.fail(new ProjectNotFoundError({ projectId }));
+      }
+
+      yield* tryQuery("完了条件の更新に失敗しました", () =>
+        prisma.$transaction(async (tx) => {
+          await tx.project.update({
+            where: { id: projectId },
+            data: { completionPolicy: policy ?? Prisma.DbNull },
+          });
+
+          // 終了済みのテストランは当時の条件での判定を残す（承認待ちは評価し直す）
+          const runs = await tx.testRun.findMany({
+            where: {
+              projectId,
+              status: { in: ["in_progress", "awaiting_approval"] },
+              completionPolicy: { equals: Prisma.DbNull },
+            },
+            select: { id: true },
+          });
+          const now = new Date();
+          for (const run of runs) {
+            await syncRunProgress(tx, run.id, now);
+          }
+        }),
+      );
+    }),
+
+  updateFolderOwners: (projectId, owners) =>
+    Effect.gen(function* () {
+      const project = yield* tryQuery("プロジェクトの取得に失敗しました", () =>
+        prisma.project.findUnique({ where: { id: projectId } }),
+      );
+      if (!project) {
+        return yield* Effect.fail(new ProjectNotFoundError({ projectId }));
+      }
+
+      yield* tryQuery("フォルダー担当の更新に失敗しました", () =>
+        prisma.project.update({
+          where: { id: projectId },
+          data: { folderOwners: owners },
+        }),
+      );
+    }),
+
+  findReleaseDetection: (projectId) =>
+    Effect.gen(function* () {
+      const project = yield* tryQuery("プロジェクトの取得に失敗しました", () =>
+        prisma.project.findUnique({
+          where: { id: projectId },
+          select: { releaseDetection: true },
+        }),
+      );
+      if (!project) {
+        return yield* Effect.fail(new ProjectNotFoundError({ projectId }));
+      }
+      return toReleaseDetectionSettings(project.releaseDetection);
+    }),
+
+  updateReleaseDetection: (projectId, settings) =>
+    Effect.gen(function* () {
+      const project = yield* tryQuery("プロジェクトの取得に失敗しました", () =>
+        prisma.project.findUnique({ where: { id: projectId } }),
+      );
+      if (!project) {
+        return yield* Effect.fail(new ProjectNotFoundError({ projectId }));
+      }
+
+      yield* tryQuery("リリース検出の設定の更新に失敗しました", () =>
+        prisma.project.update({
+          where: { id: projectId },
+          data: { releaseDetection: settings ?? Prisma.DbNull },
+        }),
+      );
+    }),
+});
+
+export const PrismaProjectRepositoryLive = Layer.effect(
+  ProjectRepository,
+  Effect.map(PrismaClientService, makePrismaProjectRepository),
+);
@@ -0,0 +1,64 @@
+import { createHash, randomBytes } from "node:crypto";
+import { Effect, Layer } from "effect";
+import type { PrismaClient } from "generated/prisma/client";
+import { SessionRepository } from "@application/ports/session-repository";
+import type { AuthSession } from "@domain/models/auth";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+
+/**
+ * トークンから保存するセッション ID を作る（DB が漏れてもトークンを復元できない）
+ */
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const toAuthSession = (row: {
+  id: string;
+  userId: number;
+  idToken: string | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}): AuthSession => ({
+  id: row.id,
+  userId: String(row.userId),
+  idToken: row.idToken,
+  expiresAt: row.expiresAt,
+  revokedAt: row.revokedAt,
+});
+
+export const makePrismaSessionRepository = (
+  prisma: PrismaClient,
+): SessionRepository => ({
+  create: ({ userId, idToken, expiresAt }) =>
+    Effect.gen(function* () {
+      const token = randomBytes(32).toString("base64url");
+      const row = yield* tryQuery("セッションの作成に失敗しました", () =>
+        prisma.session.create({
+          data: {
+            id: hashToken(token),
+            userId: Number(userId),
+            idToken,
+            expiresAt,
+          },
+        }),
+      );
+      return { token, session: toAuthSession(row) };
+    }),
+
+  findByToken: (token) =>
+    tryQuery("セッションの取得に失敗しました", () =>
+      prisma.session.findUnique({ where: { id: hashToken(token) } }),
+    ).pipe(Effect.map((row) => (row ? toAuthSession(row) : null))),
+
+  revoke: (sessionId, revokedAt) =>
+    tryQuery("セッションの失効に失敗しました", () =>
+      prisma.session.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt },
+      }),
+    ).pipe(Effect.asVoid),
+});
+
+export const PrismaSessionRepositoryLive = Layer.effect(
+  SessionRepository,
+  Effect.map(PrismaClientService, makePrismaSessionRepository),
+);
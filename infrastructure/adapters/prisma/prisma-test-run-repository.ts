@@ -0,0 +1,520 @@
+import { Effect, Layer } from "effect";
+import { Prisma } from "generated/prisma/client";
+import type { PrismaClient } from "generated/prisma/client";
+import { TestRunRepository } from "@application/ports/test-run-repository";
+import {
+  TestRunItemNotFoundError,
+  TestRunNotFoundError,
+  TestRunStatusError,
+} from "@domain/errors/test-run-errors";
+import type { TestRunItemResultInput } from "@domain/models/test-run";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+import { syncRunProgress } from "./run-progress-sync";
+import {
+  testRunApprovalInclude,
+  testRunInclude,
+  testRunItemInclude,
+  toTestRun,
+  toTestRunApproval,
+  toTestRunItem,
+} from "./mappers/test-run-mapper";
+import { toLinearRefs } from "./mappers/project-mapper";
+
+/**
+ * 承認前のテストラン（承認済みの completed はアイテムの結果を変更できない）
+ */
+const unapprovedRun = { status: { not: "completed" } } as const;
+
+const approvedRunError = (testRunId: string, message: string) =>
+  new TestRunStatusError({ testRunId, status: "completed", message });
+
+/**
+ * 結果を記録したアイテムの更新内容
+ */
+const toItemResultData = (result: TestRunItemResultInput) => ({
+  status: result.status,
+  executedAt: result.executedAt,
+  // 実行時間は最新の結果のもの（記録しなかった場合は消す）
+  durationSeconds: result.durationSeconds ?? null,
+  ...(result.notes === undefined ? {} : { notes: result.notes }),
+});
+
+/**
+ * アイテムの実行履歴に結果を追記する（アイテムの更新と同じトランザクションで呼ぶ）
+ */
+const appendAttempt = async (
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  result: TestRunItemResultInput,
+) => {
+  const latest = await tx.testRunItemAttempt.findFirst({
+    where: { itemId },
+    orderBy: { attemptNumber: "desc" },
+  });
+  await tx.testRunItemAttempt.create({
+    data: {
+      itemId,
+      attemptNumber: (latest?.attemptNumber ?? 0) + 1,
+      status: result.status,
+      executedById: Number(result.executedById),
+      executedAt: result.executedAt,
+      durationSeconds: result.durationSeconds,
+      notes: result.notes,
+      evidence: result.evidence,
+      blockedReason: result.blockedReason,
+    },
+  });
+};
+
+export const makePrismaTestRunRepository = (
+  prisma: PrismaClient,
+): TestRunRepository => {
+  const findItem = (itemId: string) =>
+    Effect.gen(function* () {
+      const row = yield* tryQuery("アイテムの取得に失敗しました", () =>
+        prisma.testRunItem.findUnique({
+          where: { id: itemId },
+          include: testRunItemInclude,
+        }),
+      );
+      if (!row) {
+        return yield* Effect.fail(new TestRunItemNotFoundError({ itemId }));
+      }
+      return toTestRunItem(row);
+    });
+
+  /**
+   * 承認前のテストランのアイテムだけを更新する（承認済みの場合は TestRunStatusError）
+   */
+  const updateUnapprovedItem = (
+    itemId: string,
+    data: Prisma.TestRunItemUpdateManyMutationInput,
+    messages: { failure: string; approved: string },
+  ) =>
+    Effect.gen(function* () {
+      const { testRunId } = yield* findItem(itemId);
+      const row = yield* tryQuery(messages.failure, () =>
+        prisma.$transaction(async (tx) => {
+          const updated = await tx.testRunItem.updateMany({
+            where: { id: itemId, testRun: unapprovedRun },
+            data,
+          });
+          if (updated.count === 0) return null;
+
+          return tx.testRunItem.findUniqueOrThrow({
+            where: { id: itemId },
+            include: testRunItemInclude,
+          });
+        }),
+      );
+      if (!row) {
+        return yield* Effect.fail(
+          approvedRunError(testRunId, messages.approved),
+        );
+      }
+      return toTestRunItem(row);
+    });
+
+  return {
+    create: (testRun) =>
+      // アイテムはネストして作成し、テストランと同じトランザクションで保存する
+      tryQuery("テストランの作成に失敗しました", () =>
+        prisma.testRun.create({
+          data: {
+            projectId: testRun.projectId,
+            environmentId: testRun.environmentId,
+            releaseId: testRun.releaseId,
+            title: testRun.title,
+            dueAt: testRun.dueAt,
+            totalItems: testRun.items.length,
+            createdById: Number(testRun.createdById),
+            assignees: {
+              connect: testRun.assigneeIds.map((id) => ({ id: Number(id) })),
+            },
+            items: { create: testRun.items },
+          },
+          include: testRunInclude,
+        }),
+      ).pipe(Effect.map(toTestRun)),
+
+    findById: (testRunId) =>
+      Effect.gen(function* () {
+        const row = yield* tryQuery("テストランの取得に失敗しました", () =>
+          prisma.testRun.findUnique({
+            where: { id: testRunId },
+            include: {
+              ...testRunInclude,
+              items: {
+                include: testRunItemInclude,
+                orderBy: [{ folder: "asc" }, { createdAt: "asc" }],
+              },
+              approvals: {
+                include: testRunApprovalInclude,
+                orderBy: { createdAt: "asc" },
+              },
+            },
+          }),
+        );
+        if (!row) {
+          return yield* Effect.fail(new TestRunNotFoundError({ testRunId }));
+        }
+        return {
+          run: toTestRun(row),
+          items: row.items.map(toTestRunItem),
+          approvals: row.approvals.map(toTestRunApproval),
+        };
+      }),
+
+    list: ({ projectId, status, limit }) =>
+      tryQuery("テストランの一覧の取得に失敗しました", () =>
+        prisma.testRun.findMany({
+          where: { projectId, status },
+          include: testRunInclude,
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        }),
+      ).pipe(Effect.map((rows) => rows.map(toTestRun))),
+
+    listByLinearRef: (identifier) =>
+      Effect.gen(function* () {
+        // JSON 列の要素での絞り込みは SQLite で使えないため、リリースを取得してから絞り込む
+        const releases = yield* tryQuery("リリースの取得に失敗しました", () =>
+          prisma.release.findMany({ select: { id: true, linearRefs: true } }),
+        );
+        const releaseIds = releases
+          .filter(({ linearRefs }) =>
+            toLinearRefs(linearRefs).includes(identifier),
+          )
+          .map(({ id }) => id);
+        if (releaseIds.length === 0) return [];
+
+        const rows = yield* tryQuery("テストランの取得に失敗しました", () =>
+          prisma.testRun.findMany({
+            where: { releaseId: { in: releaseIds } },
+            include: {
+              ...testRunInclude,
+              items: {
+                include: testRunItemInclude,
+                orderBy: [{ folder: "asc" }, { createdAt: "asc" }],
+              },
+            },
+            orderBy: { createdAt: "desc" },
+          }),
+        );
+        return rows.map((row) => ({
+          run: toTestRun(row),
+          items: row.items.map(toTestRunItem),
+        }));
+      }),
+
+    findRun: (testRunId) =>
+      Effect.gen(function* () {
+        const row = yield* tryQuery("テストランの取得に失敗しました", () =>
+          prisma.testRun.findUnique({
+            where: { id: testRunId },
+            include: testRunInclude,
+          }),
+        );
+        if (!row) {
+          return yield* Effect.fail(new TestRunNotFoundError({ testRunId }));
+        }
+        return toTestRun(row);
+      }),
+
+    findItem,
+
+    updateItemScenario: (itemId, snapshot) =>
+      updateUnapprovedItem(itemId, snapshot, {
+        failure: "アイテムの更新に失敗しました",
+        approved: "承認済みのテストランのアイテムには最新版を取り込めません",
+      }),
+
+    recordItemResult: (itemId, result) =>
+      Effect.gen(function* () {
+        const { testRunId } = yield* findItem(itemId);
+        const row = yield* tryQuery("結果の記録に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            const updated = await tx.testRunItem.updateMany({
+              where: { id: itemId, testRun: unapprovedRun },
+              data: toItemResultData(result),
+            });
+            if (updated.count === 0) return null;
+
+            await appendAttempt(tx, itemId, result);
+            await syncRunProgress(tx, testRunId, result.executedAt);
+            return tx.testRunItem.findUniqueOrThrow({
+              where: { id: itemId },
+              include: testRunItemInclude,
+            });
+          }),
+        );
+        if (!row) {
+          return yield* Effect.fail(
+            approvedRunError(
+              testRunId,
+              "承認済みのテストランには結果を記録できません",
+            ),
+          );
+        }
+        return toTestRunItem(row);
+      }),
+
+    recordItemResults: (testRunId, results) =>
+      Effect.gen(function* () {
+        if (results.length === 0) return [];
+        const itemIds = results.map(({ itemId }) => itemId);
+        const existing = yield* tryQuery("アイテムの取得に失敗しました", () =>
+          prisma.testRunItem.findMany({
+            where: { id: { in: itemIds }, testRunId },
+            select: { id: true },
+          }),
+        );
+        const missing = itemIds.find(
+          (itemId) => !existing.some(({ id }) => id === itemId),
+        );
+        if (missing) {
+          return yield* Effect.fail(
+            new TestRunItemNotFoundError({ itemId: missing }),
+          );
+        }
+
+        const now = new Date();
+        const rows = yield* tryQuery("結果の記録に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            // 承認されていないことを確かめてから、すべてのアイテムに記録する
+            const updated = await tx.testRun.updateMany({
+              where: { id: testRunId, ...unapprovedRun },
+              data: { updatedAt: now },
+            });
+            if (updated.count === 0) return null;
+
+            for (const { itemId, result } of results) {
+              await tx.testRunItem.update({
+                where: { id: itemId },
+                data: toItemResultData(result),
+              });
+              await appendAttempt(tx, itemId, result);
+            }
+            await syncRunProgress(tx, testRunId, now);
+            return tx.testRunItem.findMany({
+              where: { id: { in: itemIds } },
+              include: testRunItemInclude,
+            });
+          }),
+        );
+        if (!rows) {
+          return yield* Effect.fail(
+            approvedRunError(
+              testRunId,
+              "承認済みのテストランには結果を記録できません",
+            ),
+          );
+        }
+        // 渡した結果の順に返す
+        const items = new Map(rows.map((row) => [row.id, toTestRunItem(row)]));
+        return itemIds.flatMap((itemId) => items.get(itemId) ?? []);
+      }),
+
+    reopenItem: (itemId, resolution) =>
+      Effect.gen(function* () {
+        const { testRunId } = yield* findItem(itemId);
+        const row = yield* tryQuery("アイテムの更新に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            // 前回のメモは実行履歴に残っているため、次の実行のメモは空にする
+            const updated = await tx.testRunItem.updateMany({
+              where: { id: itemId, testRun: unapprovedRun },
+              data: { status: "retest", notes: null },
+            });
+            if (updated.count === 0) return null;
+
+            if (resolution) {
+              // 解消内容は最新の（ブロックされた）実行履歴に記録する
+              const latest = await tx.testRunItemAttempt.findFirstOrThrow({
+                where: { itemId },
+                orderBy: { attemptNumber: "desc" },
+              });
+              await tx.testRunItemAttempt.update({
+                where: { id: latest.id },
+                data: {
+                  resolution: resolution.note,
+                  resolvedById: Number(resolution.resolvedById),
+                  resolvedAt: resolution.resolvedAt,
+                },
+              });
+            }
+            await syncRunProgress(tx, testRunId, new Date());
+            return tx.testRunItem.findUniqueOrThrow({
+              where: { id: itemId },
+              include: testRunItemInclude,
+            });
+          }),
+        );
+        if (!row) {
+          return yield* Effect.fail(
+            approvedRunError(
+              testRunId,
+              "承認済みのテストランのアイテムは再テストにできません",
+            ),
+          );
+        }
+        return toTestRunItem(row);
+      }),
+
+    updateCompletionPolicy: (testRunId, policy) =>
+      Effect.gen(function* () {
+        const run = yield* tryQuery("テストランの取得に失敗しました", () =>
+          prisma.testRun.findUnique({ where: { id: testRunId } }),
+        );
+        if (!run) {
+          return yield* Effect.fail(new TestRunNotFoundError({ testRunId }));
+        }
+
+        const updated = yield* tryQuery("完了条件の更新に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            // 承認後にステータスを評価し直さないよう、承認前の場合だけ変更する
+            const { count } = await tx.testRun.updateMany({
+              where: { id: testRunId, ...unapprovedRun },
+              data: { completionPolicy: policy ?? Prisma.DbNull },
+            });
+            if (count === 0) return false;
+
+            await syncRunProgress(tx, testRunId, new Date());
+            return true;
+          }),
+        );
+        if (!updated) {
+          return yield* Effect.fail(
+            approvedRunError(
+              testRunId,
+              "承認済みのテストランの完了条件は変更できません",
+            ),
+          );
+        }
+      }),
+
+    recordApproval: (testRunId, approval) =>
+      Effect.gen(function* () {
+        const run = yield* tryQuery("テストランの取得に失敗しました", () =>
+          prisma.testRun.findUnique({ where: { id: testRunId } }),
+        );
+        if (!run) {
+          return yield* Effect.fail(new TestRunNotFoundError({ testRunId }));
+        }
+
+        const approved = approval.decision === "approved";
+        const row = yield* tryQuery("承認の記録に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            // 承認待ちの場合だけ更新し、同時に判断されても承認ログが食い違わないようにする
+            const updated = await tx.testRun.updateMany({
+              where: { id: testRunId, status: "awaiting_approval" },
+              data: approved
+                ? { status: "completed", completedAt: approval.decidedAt }
+                : { status: "in_progress", completedAt: null },
+            });
+            if (updated.count === 0) return null;
+
+            return tx.testRunApproval.create({
+              data: {
+                testRunId,
+                decision: approval.decision,
+                comment: approval.comment,
+                approverId: Number(approval.approverId),
+                createdAt: approval.decidedAt,
+              },
+              include: testRunApprovalInclude,
+            });
+          }),
+        );
+        if (!row) {
+          const current = yield* tryQuery(
+            "テストランの取得に失敗しました",
+            () =>
+              prisma.testRun.findUniqueOrThrow({ where: { id: testRunId } }),
+          );
+          return yield* Effect.fail(
+            new TestRunStatusError({
+              testRunId,
+              status: current.status,
+              message: "承認待ちのテストランではありません",
+            }),
+          );
+        }
+        return toTestRunApproval(row);
+      }),
+
+    assignItems: (testRunId, assignments) =>
+      Effect.gen(function* () {
+        const updated = yield* tryQuery("担当者の変更に失敗しました", () =>
+          prisma.$transaction(async (tx) => {
+            // 承認されていないことを確かめてから、すべてのアイテムを変更する
+            const { count } = await tx.testRun.updateMany({
+              where: { id: testRunId, ...unapprovedRun },
+              data: { updatedAt: new Date() },
+            });
+            if (count === 0) return false;
+
+            for (const { itemId, assigneeId } of assignments) {
+              await tx.testRunItem.updateMany({
+                where: { id: itemId, testRunId },
+                data: {
+                  assigneeId: assigneeId === null ? null : Number(assigneeId),
+                },
+              });
+            }
+            return true;
+          }),
+        );
+        if (!updated) {
+          return yield* Effect.fail(
+            approvedRunError(
+              testRunId,
+              "承認済みのテストランの担当者は変更できません",
+            ),
+          );
+        }
+      }),
+
+    listQueuedItems: (assigneeId) =>
+      tryQuery("担当アイテムの取得に失敗しました", () =>
+        prisma.testRunItem.findMany({
+          where: {
+            assigneeId: Number(assigneeId),
+            status: { in: ["pending", "in_progress", "retest"] },
+            testRun: { status: { in: ["planned", "in_progress"] } },
+          },
+          include: {
+            ...testRunItemInclude,
+            testRun: { include: testRunInclude },
+          },
+          orderBy: [
+            { testRun: { dueAt: { sort: "asc", nulls: "last" } } },
+            { testRunId: "asc" },
+            { folder: "asc" },
+            { createdAt: "asc" },
+          ],
+        }),
+      ).pipe(
+        Effect.map((rows) =>
+          rows.map((row) => ({
+            run: toTestRun(row.testRun),
+            item: toTestRunItem(row),
+          })),
+        ),
+      ),
+
+    updateItemNotes: (itemId, notes) =>
+      updateUnapprovedItem(
+        itemId,
+        { notes },
+        {
+          failure: "メモの保存に失敗しました",
+          approved: "承認済みのテストランのメモは変更できません",
+        },
+      ),
+  };
+};
+
+export const PrismaTestRunRepositoryLive = Layer.effect(
+  TestRunRepository,
+  Effect.map(PrismaClientService, makePrismaTestRunRepository),
+);
@@ -0,0 +1,76 @@
+import { Effect, Layer } from "effect";
+import type { PrismaClient } from "generated/prisma/client";
+import { UserRepository } from "@application/ports/user-repository";
+import { UserNotFoundError } from "@domain/errors/auth-errors";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+import { toUser, userInclude } from "./mappers/user-mapper";
+
+export const makePrismaUserRepository = (
+  prisma: PrismaClient,
+): UserRepository => ({
+  findByEmail: (email) =>
+    Effect.gen(function* () {
+      const row = yield* tryQuery("ユーザーの取得に失敗しました", () =>
+        prisma.user.findUnique({ where: { email }, include: userInclude }),
+      );
+      if (!row) {
+        return yield* Effect.fail(new UserNotFoundError({ email }));
+      }
+      return toUser(row);
+    }),
+
+  findById: (userId) =>
+    Number.isSafeInteger(Number(userId))
+      ? tryQuery("ユーザーの取得に失敗しました", () =>
+          prisma.user.findUnique({
+            where: { id: Number(userId) },
+            include: userInclude,
+          }),
+        ).pipe(Effect.map((row) => (row ? toUser(row) : null)))
+      : Effect.succeed(null),
+
+  findByOidcSubject: (subject) =>
+    tryQuery("ユーザーの取得に失敗しました", () =>
+      prisma.user.findUnique({
+        where: { oidcSubject: subject },
+        include: userInclude,
+      }),
+    ).pipe(Effect.map((row) => (row ? toUser(row) : null))),
+
+  linkOidcSubject: (userId, subject) =>
+    tryQuery("ユーザーの更新に失敗しました", () =>
+      prisma.user.update({
+        where: { id: Number(userId) },
+        data: { oidcSubject: subject },
+        include: userInclude,
+      }),
+    ).pipe(Effect.map(toUser)),
+
+  create: (user) =>
+    tryQuery("ユーザーの作成に失敗しました", () =>
+      prisma.user.create({
+        data: {
+          email: user.email,
+          name: user.name,
+          avatar: user.avatarUrl,
+          oidcSubject: user.oidcSubject,
+          roles: { connect: user.roles.map((name) => ({ name })) },
+        },
+        include: userInclude,
+      }),
+    ).pipe(Effect.map(toUser)),
+
+  listActive: () =>
+    tryQuery("ユーザーの取得に失敗しました", () =>
+      prisma.user.findMany({
+        where: { status: "active" },
+        include: userInclude,
+        orderBy: { name: "asc" },
+      }),
+    ).pipe(Effect.map((rows) => rows.map(toUser))),
+});
+
+export const PrismaUserRepositoryLive = Layer.effect(
+  UserRepository,
+  Effect.map(PrismaClientService, makePrismaUserRepository),
+);
@@ -0,0 +1,226 @@
+import { randomBytes } from "node:crypto";
+import { Effect, Layer } from "effect";
+import type { Prisma, PrismaClient } from "generated/prisma/client";
+import { WebhookRepository } from "@application/ports/webhook-repository";
+import {
+  WebhookDeliveryNotFoundError,
+  WebhookSubscriptionNotFoundError,
+} from "@domain/errors/webhook-errors";
+import type {
+  WebhookDelivery,
+  WebhookSubscription,
+} from "@domain/models/webhook";
+import { notificationEventTypeSchema } from "~/lib/schemas/notification";
+import { PrismaClientService, tryQuery } from "./prisma-client";
+
+/**
+ * 署名のシークレットを発行する（受信側の設定で見分けやすいように接頭辞を付ける）
+ */
+const generateSecret = () => `whsec_${randomBytes(32).toString("base64url")}`;
+
+type SubscriptionRow = {
+  id: string;
+  projectId: string;
+  url: string;
+  events: Prisma.JsonValue;
+  active: boolean;
+  createdAt: Date;
+};
+
+const toSubscription = (row: SubscriptionRow): WebhookSubscription => {
+  // 形式が合わない場合はイベントなし（何も送らない）として扱う
+  const events = notificationEventTypeSchema.array().safeParse(row.events);
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    url: row.url,
+    events: events.success ? events.data : [],
+    active: row.active,
+    createdAt: row.createdAt,
+  };
+};
+
+const toDelivery = (row: {
+  id: string;
+  subscriptionId: string;
+  event: string;
+  payload: string;
+  status: WebhookDelivery["status"];
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  redeliveryOfId: string | null;
+  createdAt: Date;
+}): WebhookDelivery => ({
+  ...row,
+  // 配信は作成時のイベントの種類で記録するため、形式は作成時に確かめている
+  event: notificationEventTypeSchema.parse(row.event),
+});
+
+export const makePrismaWebhookRepository = (
+  prisma: PrismaClient,
+): WebhookRepository => {
+  const findSubscriptionRow = (subscriptionId: string) =>
+    Effect.gen(function* () {
+      const row = yield* tryQuery("Webhook の購読の取得に失敗しました", () =>
+        prisma.webhookSubscription.findUnique({
+          where: { id: subscriptionId },
+        }),
+      );
+      if (!row) {
+        return yield* Effect.fail(
+          new WebhookSubscriptionNotFoundError({ subscriptionId }),
+        );
+      }
+      return row;
+    });
+
+  return {
+    listByProject: (projectId) =>
+      tryQuery("Webhook の購読の取得に失敗しました", () =>
+        prisma.webhookSubscription.findMany({
+          where: { projectId },
+          orderBy: { createdAt: "asc" },
+        }),
+      ).pipe(Effect.map((rows) => rows.map(toSubscription))),
+
+    findById: (subscriptionId) =>
+      findSubscriptionRow(subscriptionId).pipe(Effect.map(toSubscription)),
+
+    create: ({ projectId, url, events, active }) =>
+      Effect.gen(function* () {
+        const secret = generateSecret();
+        const row = yield* tryQuery("Webhook の購読の作成に失敗しました", () =>
+          prisma.webhookSubscription.create({
+            data: { projectId, url, secret, events, active },
+          }),
+        );
+        return { secret, subscription: toSubscription(row) };
+      }),
+
+    update: (subscriptionId, { url, events, active }) =>
+      Effect.gen(function* () {
+        yield* findSubscriptionRow(subscriptionId);
+        const row = yield* tryQuery("Webhook の購読の変更に失敗しました", () =>
+          prisma.webhookSubscription.update({
+            where: { id: subscriptionId },
+            data: { url, events, active },
+          }),
+        );
+        return toSubscription(row);
+      }),
+
+    rotateSecret: (subscriptionId) =>
+      Effect.gen(function* () {
+        yield* findSubscriptionRow(subscriptionId);
+        const secret = generateSecret();
+        const row = yield* tryQuery(
+          "Webhook のシークレットの再発行に失敗しました",
+          () =>
+            prisma.webhookSubscription.update({
+              where: { id: subscriptionId },
+              data: { secret },
+            }),
+        );
+        return { secret, subscription: toSubscription(row) };
+      }),
+
+    remove: (subscriptionId) =>
+      Effect.gen(function* () {
+        yield* findSubscriptionRow(subscriptionId);
+        yield* tryQuery("Webhook の購読の削除に失敗しました", () =>
+          prisma.webhookSubscription.delete({ where: { id: subscriptionId } }),
+        );
+      }),
+
+    createDelivery: ({
+      subscriptionId,
+      event,
+      payload,
+      nextAttemptAt,
+      redeliveryOfId,
+    }) =>
+      tryQuery("Webhook の配信の記録に失敗しました", () =>
+        prisma.webhookDelivery.create({
+          data: {
+            subscriptionId,
+            event,
+            payload,
+            nextAttemptAt,
+            redeliveryOfId,
+          },
+        }),
+      ).pipe(Effect.map(toDelivery)),
+
+    findDeliveryTarget: (deliveryId) =>
+      Effect.gen(function* () {
+        const row = yield* tryQuery("Webhook の配信の取得に失敗しました", () =>
+          prisma.webhookDelivery.findUnique({
+            where: { id: deliveryId },
+            include: { subscription: true },
+          }),
+        );
+        if (!row) {
+          return yield* Effect.fail(
+            new WebhookDeliveryNotFoundError({ deliveryId }),
+          );
+        }
+        const { subscription, ...delivery } = row;
+        return {
+          delivery: toDelivery(delivery),
+          subscription: toSubscription(subscription),
+          secret: subscription.secret,
+        };
+      }),
+
+    recordAttempt: (deliveryId, result) =>
+      tryQuery("Webhook の配信の結果の記録に失敗しました", () =>
+        prisma.webhookDelivery.update({
+          where: { id: deliveryId },
+          data: result,
+        }),
+      ).pipe(Effect.map(toDelivery)),
+
+    listDeliveries: (subscriptionId, limit) =>
+      tryQuery("Webhook の配信ログの取得に失敗しました", () =>
+        prisma.webhookDelivery.findMany({
+          where: { subscriptionId },
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        }),
+      ).pipe(Effect.map((rows) => rows.map(toDelivery))),
+
+    claimDueDeliveries: (now, leaseUntil, limit) =>
+      Effect.gen(function* () {
+        const due = yield* tryQuery(
+          "再試行する Webhook の配信の取得に失敗しました",
+          () =>
+            prisma.webhookDelivery.findMany({
+              where: { status: "pending", nextAttemptAt: { lte: now } },
+              orderBy: { nextAttemptAt: "asc" },
+              take: limit,
+              select: { id: true, nextAttemptAt: true },
+            }),
+        );
+        // 読み取ってから予約するまでに他のワーカーが予約した配信は除く
+        const claimed = yield* Effect.forEach(due, ({ id, nextAttemptAt }) =>
+          tryQuery("Webhook の配信の予約に失敗しました", () =>
+            prisma.webhookDelivery.updateMany({
+              where: { id, status: "pending", nextAttemptAt },
+              data: { nextAttemptAt: leaseUntil },
+            }),
+          ).pipe(Effect.map(({ count }) => (count > 0 ? [id] : []))),
+        );
+        return claimed.flat();
+      }),
+  };
+};
+
+export const PrismaWebhookRepositoryLive = Layer.effect(
+  WebhookRepository,
+  Effect.map(PrismaClientService, makePrismaWebhookRepository),
+);
@@ -0,0 +1,56 @@
+import type { Prisma } from "generated/prisma/client";
+import {
+  evaluateCompletionPolicy,
+  resolveCompletionPolicy,
+} from "@domain/logic/completion-policy";
+import {
+  deriveTestRunStatus,
+  summarizeTestRunProgress,
+} from "@domain/logic/test-run-progress";
+import { toCompletionPolicyOverride } from "./mappers/test-run-mapper";
+
+/**
+ * アイテムのステータスからテストランの進捗を数え直し、完了条件を評価して
+ * ステータスを更新する
+ * （同時に記録されても件数がずれないよう、アイテムの更新と同じトランザクションで行う）
+ */
+export const syncRunProgress = async (
+  tx: Prisma.TransactionClient,
+  testRunId: string,
+  now: Date,
+) => {
+  const run = await tx.testRun.findUniqueOrThrow({
+    where: { id: testRunId },
+    include: {
+      project: { select: { completionPolicy: true } },
+      items: {
+        select: {
+          id: true,
+          title: true,
+          importance: true,
+          required: true,
+          status: true,
+        },
+      },
+    },
+  });
+  const policy = resolveCompletionPolicy(
+    toCompletionPolicyOverride(run.project.completionPolicy),
+    toCompletionPolicyOverride(run.completionPolicy),
+  );
+  const status = deriveTestRunStatus(
+    run.status,
+    evaluateCompletionPolicy(policy, run.items),
+  );
+  const finished = status === "completed" || status === "failed";
+
+  await tx.testRun.update({
+    where: { id: run.id },
+    data: {
+      ...summarizeTestRunProgress(run.items.map((item) => item.status)),
+      status,
+      startedAt: status === "planned" ? run.startedAt : (run.startedAt ?? now),
+      completedAt: finished ? (run.completedAt ?? now) : null,
+    },
+  });
+};
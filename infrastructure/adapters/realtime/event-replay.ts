@@ -0,0 +1,73 @@
+import { Stream } from "effect";
+import type {
+  PublishedTestRunEvent,
+  TestRunStreamMessage,
+} from "@domain/models/test-run-event";
+
+/**
+ * 再送用に保持しているイベントの範囲（oldestId は保持していない場合 undefined）
+ */
+export type RetainedRange = {
+  oldestId?: number;
+  lastId: number;
+};
+
+/**
+ * 再送できる範囲か（lastEventId が保持しているイベントの直前から最新まで）
+ * サーバーの再起動などで通し番号が戻った場合も再送できない
+ */
+export const canReplay = (
+  { oldestId, lastId }: RetainedRange,
+  lastEventId: number,
+) => lastEventId <= lastId && (oldestId ?? lastId + 1) <= lastEventId + 1;
+
+export const toMessage = (
+  published: PublishedTestRunEvent,
+): TestRunStreamMessage => ({ type: "event", ...published });
+
+/**
+ * 再接続前のイベントの再送と、購読開始後のイベントをつなぐ
+ *
+ * @param retained - 購読開始時点で保持していたイベントの範囲
+ * @param history - 保持していたイベント（古い順）
+ * @param live - 購読開始後に受け取るイベント（retained.lastId 以前のものは除く）
+ * @param lastEventId - クライアントが最後に受け取ったイベント ID
+ */
+export const resumeStream = (
+  retained: RetainedRange,
+  history: readonly PublishedTestRunEvent[],
+  live: Stream.Stream<PublishedTestRunEvent>,
+  lastEventId?: number,
+): Stream.Stream<TestRunStreamMessage> => {
+  const backlog: TestRunStreamMessage[] =
+    lastEventId === undefined
+      ? []
+      : canReplay(retained, lastEventId)
+        ? history
+            .filter((published) => published.id > lastEventId)
+            .map(toMessage)
+        : [{ type: "resync" }];
+
+  return Stream.concat(
+    Stream.fromIterable(backlog),
+    live.pipe(
+      Stream.filter((published) => published.id > retained.lastId),
+      Stream.map(toMessage),
+    ),
+  );
+};
+
+/**
+ * テストランのイベントに絞り込む（resync はすべての購読者に送る）
+ */
+export const onlyTestRun =
+  (testRunId: string) =>
+  (
+    messages: Stream.Stream<TestRunStreamMessage>,
+  ): Stream.Stream<TestRunStreamMessage> =>
+    messages.pipe(
+      Stream.filter(
+        (message) =>
+          message.type === "resync" || message.event.testRunId === testRunId,
+      ),
+    );
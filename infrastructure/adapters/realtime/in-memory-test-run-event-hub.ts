@@ -0,0 +1,73 @@
+import { Effect, Layer, PubSub, Ref, Stream } from "effect";
+import { TestRunEventHub } from "@application/ports/test-run-event-hub";
+import type { PublishedTestRunEvent } from "@domain/models/test-run-event";
+import { onlyTestRun, resumeStream } from "./event-replay";
+
+// 再接続時の再送に備えて保持するイベント数（全テストランの合計）
+const HISTORY_SIZE = 1000;
+
+interface HubState {
+  lastId: number;
+  history: readonly PublishedTestRunEvent[]; // 古い順
+}
+
+/**
+ * プロセス内の PubSub でイベントを配信する TestRunEventHub
+ */
+export const makeInMemoryTestRunEventHub = Effect.gen(function* () {
+  const pubsub = yield* PubSub.unbounded<PublishedTestRunEvent>();
+  const state = yield* Ref.make<HubState>({ lastId: 0, history: [] });
+  // 通し番号の採番と配信の順序をそろえる
+  const lock = yield* Effect.makeSemaphore(1);
+
+  const subscribe = (lastEventId?: number) =>
+    Effect.gen(function* () {
+      // 購読してから保持分を読むことで、その間に配信されたイベントも取りこぼさない
+      const [dequeue, snapshot] = yield* Effect.all([
+        PubSub.subscribe(pubsub),
+        Ref.get(state),
+      ]).pipe(lock.withPermits(1));
+
+      return resumeStream(
+        {
+          oldestId: snapshot.history[0]?.id,
+          lastId: snapshot.lastId,
+        },
+        snapshot.history,
+        Stream.fromQueue(dequeue),
+        lastEventId,
+      );
+    });
+
+  const hub: TestRunEventHub = {
+    publish: (event) =>
+      Ref.modify(state, ({ lastId, history }) => {
+        const published = { id: lastId + 1, event };
+        return [
+          published,
+          {
+            lastId: published.id,
+            history: [...history, published].slice(-HISTORY_SIZE),
+          },
+        ] as const;
+      }).pipe(
+        Effect.flatMap((published) => PubSub.publish(pubsub, published)),
+        lock.withPermits(1),
+        Effect.asVoid,
+      ),
+
+    subscribe: (testRunId, lastEventId) =>
+      subscribe(lastEventId).pipe(Effect.map(onlyTestRun(testRunId))),
+
+    subscribeAll: (lastEventId) => subscribe(lastEventId),
+  };
+  return hub;
+});
+
+// loader / action ごとに Layer を構築し直すため、配信先はプロセスで1つに保つ
+const inMemoryTestRunEventHub = Effect.runSync(makeInMemoryTestRunEventHub);
+
+export const InMemoryTestRunEventHubLive = Layer.succeed(
+  TestRunEventHub,
+  inMemoryTestRunEventHub,
+);
@@ -0,0 +1,100 @@
+import { Effect, Layer, Ref } from "effect";
+import { TestRunPresence } from "@application/ports/test-run-presence";
+import { TestRunViewerNotFoundError } from "@domain/errors/test-run-errors";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+
+interface ViewerEntry {
+  viewer: TestRunViewer;
+  connections: number; // 同じ sessionId の接続数（再接続の重なり）
+}
+
+// テストランごとの sessionId → 接続
+type PresenceState = ReadonlyMap<string, ReadonlyMap<string, ViewerEntry>>;
+
+const viewersOf = (state: PresenceState, testRunId: string) =>
+  [...(state.get(testRunId)?.values() ?? [])].map((entry) => entry.viewer);
+
+const withSessions = (
+  state: PresenceState,
+  testRunId: string,
+  update: (sessions: Map<string, ViewerEntry>) => void,
+): PresenceState => {
+  const sessions = new Map(state.get(testRunId));
+  update(sessions);
+  const next = new Map(state);
+  if (sessions.size === 0) {
+    next.delete(testRunId);
+  } else {
+    next.set(testRunId, sessions);
+  }
+  return next;
+};
+
+/**
+ * プロセス内で実行画面を開いているユーザーを記録する TestRunPresence
+ */
+export const makeInMemoryTestRunPresence = Effect.gen(function* () {
+  const state = yield* Ref.make<PresenceState>(new Map());
+
+  const modify = (
+    testRunId: string,
+    update: (sessions: Map<string, ViewerEntry>) => void,
+  ) =>
+    Ref.modify(state, (current) => {
+      const next = withSessions(current, testRunId, update);
+      return [viewersOf(next, testRunId), next];
+    });
+
+  const presence: TestRunPresence = {
+    join: (testRunId, viewer) =>
+      modify(testRunId, (sessions) => {
+        const entry = sessions.get(viewer.sessionId);
+        sessions.set(viewer.sessionId, {
+          viewer: entry?.viewer ?? viewer,
+          connections: (entry?.connections ?? 0) + 1,
+        });
+      }),
+
+    leave: (testRunId, sessionId) =>
+      modify(testRunId, (sessions) => {
+        const entry = sessions.get(sessionId);
+        if (!entry) return;
+        if (entry.connections > 1) {
+          sessions.set(sessionId, {
+            ...entry,
+            connections: entry.connections - 1,
+          });
+        } else {
+          sessions.delete(sessionId);
+        }
+      }),
+
+    focus: (testRunId, sessionId, userId, itemId) =>
+      Effect.gen(function* () {
+        const entry = (yield* Ref.get(state)).get(testRunId)?.get(sessionId);
+        if (!entry || entry.viewer.user.id !== userId) {
+          return yield* Effect.fail(
+            new TestRunViewerNotFoundError({ testRunId, sessionId }),
+          );
+        }
+        return yield* modify(testRunId, (sessions) => {
+          const current = sessions.get(sessionId);
+          if (!current) return;
+          const { itemId: _, ...viewer } = current.viewer;
+          sessions.set(sessionId, {
+            ...current,
+            viewer: itemId === null ? viewer : { ...viewer, itemId },
+          });
+        });
+      }),
+  };
+  return presence;
+});
+
+// loader / action ごとに Layer を構築し直すため、記録はプロセスで1つに保つ
+const inMemoryTestRunPresence = Effect.runSync(makeInMemoryTestRunPresence);
+
+export const InMemoryTestRunPresenceLive = Layer.succeed(
+  TestRunPresence,
+  inMemoryTestRunPresence,
+);
@@ -0,0 +1,198 @@
+import { Effect, Layer, PubSub, Ref, Schedule, Stream } from "effect";
+import { createPrismaClient } from "repository/libs/db";
+import type { PrismaClient } from "generated/prisma/client";
+import { testRunEventSchema } from "~/lib/schemas/test-run-event";
+import { TestRunEventHub } from "@application/ports/test-run-event-hub";
+import type {
+  PublishedTestRunEvent,
+  TestRunStreamMessage,
+} from "@domain/models/test-run-event";
+import { tryQuery } from "../prisma/prisma-client";
+import { onlyTestRun, resumeStream, toMessage } from "./event-replay";
+import type { RetainedRange } from "./event-replay";
+
+// 他のインスタンスが記録したイベントを読み取る間隔
+const POLL_INTERVAL = "500 millis";
+// 1 回に読み取るイベント数の上限
+const POLL_BATCH_SIZE = 100;
+// 再接続時の再送に備えて保持するイベント数（全テストランの合計）
+const HISTORY_SIZE = 1000;
+
+interface Connection {
+  prisma: PrismaClient;
+  cursor: Ref.Ref<number>; // 読み取り済みの最後のイベント ID
+}
+
+/**
+ * 記録されたイベントを読み取る（他の版のサーバーが記録した形式の異なるイベントは読み飛ばす）
+ */
+const decodeEvents = (
+  rows: readonly { id: number; payload: unknown }[],
+): PublishedTestRunEvent[] =>
+  rows.flatMap(({ id, payload }) => {
+    const parsed = testRunEventSchema.safeParse(payload);
+    return parsed.success ? [{ id, event: parsed.data }] : [];
+  });
+
+const readRetainedRange = (prisma: PrismaClient) =>
+  tryQuery("保持しているイベントの取得に失敗しました", () =>
+    prisma.testRunEventLog.aggregate({
+      _min: { id: true },
+      _max: { id: true },
+    }),
+  ).pipe(
+    Effect.map(
+      ({ _min, _max }): RetainedRange => ({
+        oldestId: _min.id ?? undefined,
+        lastId: _max.id ?? 0,
+      }),
+    ),
+  );
+
+/**
+ * 前回の読み取り以降に記録されたイベントを、このインスタンスの購読者に配信する
+ */
+const pollEvents = (
+  { prisma, cursor }: Connection,
+  pubsub: PubSub.PubSub<PublishedTestRunEvent>,
+) =>
+  Effect.gen(function* () {
+    const after = yield* Ref.get(cursor);
+    const rows = yield* tryQuery("イベントの読み取りに失敗しました", () =>
+      prisma.testRunEventLog.findMany({
+        where: { id: { gt: after } },
+        orderBy: { id: "asc" },
+        take: POLL_BATCH_SIZE,
+      }),
+    );
+    const last = rows.at(-1);
+    if (!last) return;
+    yield* PubSub.publishAll(pubsub, decodeEvents(rows));
+    yield* Ref.set(cursor, last.id);
+  });
+
+/**
+ * データベースを経由してイベントを配信する TestRunEventHub（複数インスタンス向け）
+ *
+ * - publish はイベントを TestRunEventLog に記録し、通し番号はデータベースの ID を使う
+ *   （どのインスタンスに再接続しても Last-Event-ID から再送できる）
+ * - 各インスタンスは記録されたイベントを一定間隔で読み取り、自分の購読者に配信する
+ *   （自分が記録したイベントも読み取ってから配信する）
+ */
+export const makePrismaTestRunEventHub = Effect.gen(function* () {
+  const pubsub = yield* PubSub.unbounded<PublishedTestRunEvent>();
+
+  // 最初の配信か購読で接続し、イベントの読み取りを始める
+  // （リクエストより長く使うため、リクエスト単位の PrismaClient とは別に接続する）
+  const connect = yield* Effect.cached(
+    Effect.gen(function* () {
+      const prisma = createPrismaClient();
+      // 最新の位置から読み始める（取得できない場合は保持分から読み、購読者側で読み飛ばす）
+      const { lastId } = yield* readRetainedRange(prisma).pipe(
+        Effect.orElseSucceed((): RetainedRange => ({ lastId: 0 })),
+      );
+      const connection: Connection = {
+        prisma,
+        cursor: yield* Ref.make(lastId),
+      };
+      yield* pollEvents(connection, pubsub).pipe(
+        Effect.catchAll((error) =>
+          Effect.logWarning(
+            "テストランのイベントを読み取れませんでした",
+            error,
+          ),
+        ),
+        Effect.repeat(Schedule.spaced(POLL_INTERVAL)),
+        Effect.forkDaemon,
+      );
+      return connection;
+    }),
+  );
+
+  const subscribe = (lastEventId?: number) =>
+    Effect.gen(function* () {
+      const { prisma, cursor } = yield* connect;
+      // 購読してから保持分を読むことで、その間に記録されたイベントも取りこぼさない
+      const dequeue = yield* PubSub.subscribe(pubsub);
+      const live = Stream.fromQueue(dequeue);
+
+      const snapshot = yield* Effect.gen(function* () {
+        const retained = yield* readRetainedRange(prisma);
+        const history =
+          lastEventId === undefined
+            ? []
+            : yield* tryQuery("再送するイベントの取得に失敗しました", () =>
+                prisma.testRunEventLog.findMany({
+                  where: { id: { gt: lastEventId, lte: retained.lastId } },
+                  orderBy: { id: "asc" },
+                }),
+              );
+        return { retained, history: decodeEvents(history) };
+      }).pipe(
+        Effect.catchAll((error) =>
+          Effect.logWarning(
+            "再送するイベントを取得できませんでした",
+            error,
+          ).pipe(Effect.as(null)),
+        ),
+      );
+
+      if (!snapshot) {
+        // 再送できないため、クライアントには最新の状態を読み直してもらう
+        const lastId = yield* Ref.get(cursor);
+        return Stream.concat(
+          Stream.make<[TestRunStreamMessage]>({ type: "resync" }),
+          live.pipe(
+            Stream.filter((published) => published.id > lastId),
+            Stream.map(toMessage),
+          ),
+        );
+      }
+      return resumeStream(
+        snapshot.retained,
+        snapshot.history,
+        live,
+        lastEventId,
+      );
+    });
+
+  const hub: TestRunEventHub = {
+    // 配信に失敗しても保存済みの更新は失敗させず、ログに残す
+    publish: (event) =>
+      Effect.gen(function* () {
+        const { prisma } = yield* connect;
+        const { id } = yield* tryQuery("イベントの記録に失敗しました", () =>
+          prisma.testRunEventLog.create({
+            data: { testRunId: event.testRunId, payload: event },
+            select: { id: true },
+          }),
+        );
+        yield* tryQuery("古いイベントの削除に失敗しました", () =>
+          prisma.testRunEventLog.deleteMany({
+            where: { id: { lte: id - HISTORY_SIZE } },
+          }),
+        );
+      }).pipe(
+        Effect.catchAll((error) =>
+          Effect.logWarning(
+            "テストランのイベントを配信できませんでした",
+            error,
+          ),
+        ),
+      ),
+
+    subscribe: (testRunId, lastEventId) =>
+      subscribe(lastEventId).pipe(Effect.map(onlyTestRun(testRunId))),
+
+    subscribeAll: (lastEventId) => subscribe(lastEventId),
+  };
+  return hub;
+});
+
+// loader / action ごとに Layer を構築し直すため、接続と配信先はプロセスで1つに保つ
+const prismaTestRunEventHub = Effect.runSync(makePrismaTestRunEventHub);
+
+export const PrismaTestRunEventHubLive = Layer.succeed(
+  TestRunEventHub,
+  prismaTestRunEventHub,
+);
@@ -0,0 +1,70 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { Config, Effect, Layer } from "effect";
+import { Notifier } from "@application/ports/notifier";
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import { NotificationError } from "@shared/errors/notification-error";
+import { toSlackMessage } from "./slack-message";
+import type { SlackMessage } from "./slack-message";
+import { appUrlConfig } from "./slack-webhook-notifier";
+
+/**
+ * 送信せずに記録した通知（Slack に送るはずだったメッセージ）
+ */
+export interface CapturedNotification {
+  type: NotificationEventType;
+  testRunId: string;
+  message: SlackMessage;
+  capturedAt: string; // ISO 8601
+}
+
+/**
+ * 通知を送信せずに capture に渡す Notifier（テスト・ローカルでの確認用）
+ *
+ * @example
+ * const captured: CapturedNotification[] = [];
+ * const notifier = makeCaptureNotifier(appUrl, (notification) =>
+ *   Effect.sync(() => captured.push(notification)),
+ * );
+ */
+export const makeCaptureNotifier = (
+  appUrl: string,
+  capture: (
+    notification: CapturedNotification,
+  ) => Effect.Effect<void, NotificationError>,
+): Notifier => ({
+  notify: (event) =>
+    capture({
+      type: event.type,
+      testRunId: event.run.id,
+      message: toSlackMessage(event, appUrl),
+      capturedAt: new Date().toISOString(),
+    }),
+});
+
+/**
+ * 通知を JSON Lines のファイルに追記する Notifier の Layer
+ * - NOTIFIER_CAPTURE_PATH: 追記するファイル（既定は .notifications/slack.jsonl）
+ */
+export const CaptureNotifierLive = Layer.effect(
+  Notifier,
+  Effect.gen(function* () {
+    const path = yield* Config.string("NOTIFIER_CAPTURE_PATH").pipe(
+      Config.withDefault(".notifications/slack.jsonl"),
+    );
+    const appUrl = yield* appUrlConfig;
+    return makeCaptureNotifier(appUrl, (notification) =>
+      Effect.tryPromise({
+        try: async () => {
+          await mkdir(dirname(path), { recursive: true });
+          await appendFile(path, `${JSON.stringify(notification)}\n`);
+        },
+        catch: (cause) =>
+          new NotificationError({
+            message: `通知を記録できません: ${path}`,
+            cause,
+          }),
+      }),
+    );
+  }),
+);
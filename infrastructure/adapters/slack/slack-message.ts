@@ -0,0 +1,282 @@
+import type { NotificationEvent } from "@domain/models/notification";
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type {
+  Importance,
+  TestRun,
+  TestRunItemResult,
+} from "~/lib/schemas/test-run";
+
+/**
+ * Slack の Block Kit のメッセージ（text は通知のプレビューとブロックを表示できない場合に使う）
+ */
+export interface SlackMessage {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+type SlackText = {
+  type: "mrkdwn" | "plain_text";
+  text: string;
+  emoji?: boolean; // plain_text の :emoji: を絵文字にする
+};
+
+export type SlackBlock =
+  | { type: "header"; text: SlackText }
+  | { type: "section"; text?: SlackText; fields?: SlackText[] }
+  | { type: "context"; elements: SlackText[] }
+  | {
+      type: "actions";
+      elements: Array<{
+        type: "button";
+        text: SlackText;
+        url: string;
+        style?: "primary" | "danger";
+      }>;
+    };
+
+// 失敗時のメモとコメントの最大文字数（Slack のセクションは 3,000 文字まで）
+const MAX_NOTE_LENGTH = 500;
+
+// 自動テストの取り込みの通知に並べる失敗したテストケースの最大件数
+const MAX_LISTED_FAILURES = 10;
+
+const TITLES: Record<
+  Exclude<NotificationEventType, "run_completed">,
+  string
+> = {
+  run_started: ":rocket: テストランを開始しました",
+  item_failed: ":x: テストケースが失敗しました",
+  automated_results_recorded: ":robot_face: 自動テストの結果を取り込みました",
+  run_awaiting_approval: ":hourglass_flowing_sand: 承認待ちになりました",
+  run_approved: ":white_check_mark: テストランが承認されました",
+  run_sent_back: ":leftwards_arrow_with_hook: テストランが差し戻されました",
+};
+
+const IMPORTANCE_LABELS: Record<Importance, string> = {
+  critical: "最重要",
+  high: "高",
+  medium: "中",
+  low: "低",
+};
+
+const RESULT_LABELS: Record<TestRunItemResult, string> = {
+  passed: "成功",
+  failed: "失敗",
+  blocked: "ブロック",
+  skipped: "スキップ",
+};
+
+/**
+ * mrkdwn で特別な意味を持つ文字をエスケープする
+ */
+const escape = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * HTML の文字参照を文字に戻す（escape で改めてエスケープするため、二重にならないようにする）
+ */
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    const reference = name.toLowerCase();
+    if (!reference.startsWith("#")) return HTML_ENTITIES[reference] ?? entity;
+    const codePoint = reference.startsWith("#x")
+      ? Number.parseInt(reference.slice(2), 16)
+      : Number.parseInt(reference.slice(1), 10);
+    return codePoint > 0x10ffff ? entity : String.fromCodePoint(codePoint);
+  });
+
+/**
+ * HTML のメモを 1 つのテキストにする（長い場合は省略する）
+ */
+const toPlainNote = (html: string) => {
+  const text = decodeEntities(
+    html.replace(/<br\s*\/?>|<\/p>|<\/li>/gi, "\n").replace(/<[^>]*>/g, ""),
+  )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return text.length > MAX_NOTE_LENGTH
+    ? `${text.slice(0, MAX_NOTE_LENGTH)}…`
+    : text;
+};
+
+const mrkdwn = (text: string): SlackText => ({ type: "mrkdwn", text });
+
+const titleOf = (event: NotificationEvent) =>
+  event.type === "run_completed"
+    ? event.run.status === "failed"
+      ? ":rotating_light: 完了条件を満たせずにテストランが終了しました"
+      : ":tada: テストランが完了しました"
+    : TITLES[event.type];
+
+const runUrlOf = (appUrl: string, run: TestRun) =>
+  `${appUrl}/test-runs/${run.id}`;
+
+/**
+ * テストランの名前とプロジェクト・環境・リリース
+ */
+const runSummaryBlock = (appUrl: string, run: TestRun): SlackBlock => ({
+  type: "section",
+  text: mrkdwn(
+    `*<${runUrlOf(appUrl, run)}|${escape(run.title)}>*\n${[
+      run.projectName,
+      run.environment.name,
+      run.release?.tag,
+    ]
+      .filter((value) => value !== undefined)
+      .map(escape)
+      .join(" / ")}`,
+  ),
+});
+
+/**
+ * テストランの進捗（完了・成功・失敗の件数と成功率）
+ */
+const progressBlock = (run: TestRun): SlackBlock => ({
+  type: "section",
+  fields: [
+    mrkdwn(`*完了*\n${run.completedItems} / ${run.totalItems}`),
+    mrkdwn(`*成功率*\n${run.successRate}%`),
+    mrkdwn(`*成功*\n${run.passedItems}`),
+    mrkdwn(`*失敗*\n${run.failedItems}`),
+  ],
+});
+
+/**
+ * イベントごとの詳細（失敗したテストケース・取り込んだ結果の件数・承認者の判断）
+ */
+const detailBlocks = (
+  appUrl: string,
+  event: NotificationEvent,
+): SlackBlock[] => {
+  switch (event.type) {
+    case "item_failed": {
+      const { item } = event;
+      const attempt = item.attempts.at(-1);
+      const lines = [
+        `*テストケース:* ${escape(item.title)}`,
+        item.folder && `*フォルダー:* ${escape(item.folder)}`,
+        `*重要度:* ${IMPORTANCE_LABELS[item.importance]}${item.required ? "（必須）" : ""}`,
+        attempt?.executedBy && `*実行者:* ${escape(attempt.executedBy.name)}`,
+      ].filter(Boolean);
+      const blocks: SlackBlock[] = [
+        { type: "section", text: mrkdwn(lines.join("\n")) },
+      ];
+      // 失敗時の実行メモは引用として表示する
+      const note = attempt?.notes && toPlainNote(attempt.notes);
+      if (note) {
+        blocks.push({
+          type: "section",
+          text: mrkdwn(`>${escape(note).replace(/\n/g, "\n>")}`),
+        });
+      }
+      return blocks;
+    }
+    case "automated_results_recorded": {
+      const { run, items } = event;
+      const counts = (Object.keys(RESULT_LABELS) as TestRunItemResult[])
+        .map((result) => ({
+          result,
+          count: items.filter((item) => item.status === result).length,
+        }))
+        .filter(({ count }) => count > 0)
+        .map(({ result, count }) => `${RESULT_LABELS[result]} ${count}`);
+      const lines = [
+        `*記録したテストケース:* ${items.length} 件（${counts.join("・")}）`,
+      ];
+      // 失敗したテストケースは選択した状態で開けるようにリンクにする
+      const failed = items.filter((item) => item.status === "failed");
+      if (failed.length > 0) {
+        lines.push(
+          "*失敗したテストケース:*",
+          ...failed
+            .slice(0, MAX_LISTED_FAILURES)
+            .map(
+              (item) =>
+                `• <${runUrlOf(appUrl, run)}?item=${item.id}|${escape(item.title)}>（${IMPORTANCE_LABELS[item.importance]}）`,
+            ),
+        );
+        if (failed.length > MAX_LISTED_FAILURES) {
+          lines.push(`ほか ${failed.length - MAX_LISTED_FAILURES} 件`);
+        }
+      }
+      return [{ type: "section", text: mrkdwn(lines.join("\n")) }];
+    }
+    case "run_approved":
+    case "run_sent_back": {
+      const { approval } = event;
+      const lines = [
+        approval.approver && `*承認者:* ${escape(approval.approver.name)}`,
+        approval.comment &&
+          `*コメント:* ${escape(toPlainNote(approval.comment))}`,
+      ].filter(Boolean);
+      return lines.length > 0
+        ? [{ type: "section", text: mrkdwn(lines.join("\n")) }]
+        : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * テストランを開くボタン（失敗の通知はテストケースを選択した状態で開く）
+ */
+const actionsBlock = (
+  appUrl: string,
+  event: NotificationEvent,
+): SlackBlock => ({
+  type: "actions",
+  elements: [
+    event.type === "item_failed"
+      ? {
+          type: "button",
+          text: { type: "plain_text", text: "テストケースを開く" },
+          url: `${runUrlOf(appUrl, event.run)}?item=${event.item.id}`,
+          style: "danger",
+        }
+      : {
+          type: "button",
+          text: {
+            type: "plain_text",
+            text:
+              event.type === "run_awaiting_approval"
+                ? "承認する"
+                : "テストランを開く",
+          },
+          url: runUrlOf(appUrl, event.run),
+          style: "primary",
+        },
+  ],
+});
+
+/**
+ * 通知を Block Kit のメッセージにする（appUrl はテストランへのリンクに使うアプリの URL）
+ */
+export const toSlackMessage = (
+  event: NotificationEvent,
+  appUrl: string,
+): SlackMessage => {
+  const title = titleOf(event);
+  return {
+    text: `${title}: ${event.run.title}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: title, emoji: true },
+      },
+      runSummaryBlock(appUrl, event.run),
+      ...detailBlocks(appUrl, event),
+      progressBlock(event.run),
+      actionsBlock(appUrl, event),
+    ],
+  };
+};
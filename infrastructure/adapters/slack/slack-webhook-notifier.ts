@@ -0,0 +1,83 @@
+import { Config, Duration, Effect, Layer, Option } from "effect";
+import { Notifier } from "@application/ports/notifier";
+import { NotificationError } from "@shared/errors/notification-error";
+import { toSlackMessage } from "./slack-message";
+
+export interface SlackWebhookConfig {
+  webhookUrl?: string; // 未設定の場合は通知しない
+  appUrl: string;
+}
+
+// Slack の応答を待つ時間（応答しない場合に送信中の通知が溜まらないようにする）
+const REQUEST_TIMEOUT = Duration.seconds(5);
+
+/**
+ * Slack の Incoming Webhook に Block Kit のメッセージを送る Notifier
+ */
+export const makeSlackWebhookNotifier = (
+  config: SlackWebhookConfig,
+): Notifier => ({
+  notify: (event) =>
+    Effect.gen(function* () {
+      const webhookUrl = config.webhookUrl;
+      if (!webhookUrl) return;
+
+      const response = yield* Effect.tryPromise({
+        try: (signal) =>
+          fetch(webhookUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(toSlackMessage(event, config.appUrl)),
+            signal,
+          }).then(async (response) => ({
+            status: response.status,
+            ok: response.ok,
+            body: await response.text(),
+          })),
+        catch: (cause) =>
+          new NotificationError({
+            message: "Slack に接続できません",
+            cause,
+          }),
+      }).pipe(
+        Effect.timeoutFail({
+          duration: REQUEST_TIMEOUT,
+          onTimeout: () =>
+            new NotificationError({ message: "Slack が応答しません" }),
+        }),
+      );
+      if (!response.ok) {
+        return yield* Effect.fail(
+          new NotificationError({
+            message: `Slack がエラーを返しました（${response.status}）: ${response.body}`,
+            status: response.status,
+          }),
+        );
+      }
+    }),
+});
+
+/**
+ * 通知のリンクに使うアプリの URL（環境変数）
+ */
+export const appUrlConfig = Config.string("APP_URL").pipe(
+  Config.withDefault("http://localhost:5173"),
+  Config.map((url) => url.replace(/\/$/, "")),
+);
+
+/**
+ * 環境変数で設定した Slack の Incoming Webhook に通知する Notifier の Layer
+ * - SLACK_WEBHOOK_URL: Incoming Webhook の URL（未設定の場合は通知しない）
+ * - APP_URL: テストランへのリンクに使うアプリの URL（既定は http://localhost:5173）
+ */
+export const SlackWebhookNotifierLive = Layer.effect(
+  Notifier,
+  Effect.gen(function* () {
+    const webhookUrl = yield* Config.option(Config.string("SLACK_WEBHOOK_URL"));
+    const appUrl = yield* appUrlConfig;
+    return makeSlackWebhookNotifier({
+      webhookUrl: Option.getOrUndefined(webhookUrl),
+      appUrl,
+    });
+  }),
+);
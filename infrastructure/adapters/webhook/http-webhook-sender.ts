@@ -0,0 +1,70 @@
+import { createHmac } from "node:crypto";
+import { Duration, Effect, Layer } from "effect";
+import { WebhookSender } from "@application/ports/webhook-sender";
+import { WebhookError } from "@shared/errors/webhook-error";
+
+// 送り先の応答を待つ時間（通知を待つ usecase の応答が遅れないようにする）
+const REQUEST_TIMEOUT = Duration.seconds(10);
+// 配信ログに残す応答の本文の文字数
+const MAX_RESPONSE_BODY = 2000;
+
+/**
+ * 本文の HMAC-SHA256 署名（X-MediTest-Signature-256 ヘッダーの値）
+ *
+ * 受信側は受け取った本文（パース前のバイト列）で同じ値を計算し、定数時間で比較する
+ */
+export const signWebhookPayload = (secret: string, payload: string) =>
+  `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+
+/**
+ * JSON の本文を署名して POST する WebhookSender
+ *
+ * ヘッダー:
+ * - X-MediTest-Event: イベントの種類（run_started など）
+ * - X-MediTest-Delivery: 配信の ID（再送では新しい ID になる）
+ * - X-MediTest-Signature-256: 本文の HMAC-SHA256 署名（sha256=<hex>）
+ */
+export const makeHttpWebhookSender = (): WebhookSender => ({
+  send: ({ url, secret, deliveryId, event, payload }) =>
+    Effect.gen(function* () {
+      const startedAt = Date.now();
+      return yield* Effect.tryPromise({
+        try: (signal) =>
+          fetch(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "User-Agent": "medi-test-webhook",
+              "X-MediTest-Event": event,
+              "X-MediTest-Delivery": deliveryId,
+              "X-MediTest-Signature-256": signWebhookPayload(secret, payload),
+            },
+            body: payload,
+            redirect: "manual",
+            signal,
+          }).then(async (response) => ({
+            status: response.status,
+            body: (await response.text()).slice(0, MAX_RESPONSE_BODY),
+            durationMs: Date.now() - startedAt,
+          })),
+        catch: (cause) =>
+          new WebhookError({
+            message: `送り先に接続できません: ${cause instanceof Error ? cause.message : String(cause)}`,
+            cause,
+          }),
+      }).pipe(
+        Effect.timeoutFail({
+          duration: REQUEST_TIMEOUT,
+          onTimeout: () =>
+            new WebhookError({
+              message: `送り先が ${Duration.toSeconds(REQUEST_TIMEOUT)} 秒以内に応答しません`,
+            }),
+        }),
+      );
+    }),
+});
+
+export const HttpWebhookSenderLive = Layer.succeed(
+  WebhookSender,
+  makeHttpWebhookSender(),
+);
@@ -0,0 +1,144 @@
+import { Config, Effect, Layer } from "effect";
+import { PrismaClientLive } from "../adapters/prisma/prisma-client";
+import { PrismaDashboardRepositoryLive } from "../adapters/prisma/prisma-dashboard-repository";
+import { PrismaProjectRepositoryLive } from "../adapters/prisma/prisma-project-repository";
+import { PrismaTestRunRepositoryLive } from "../adapters/prisma/prisma-test-run-repository";
+import { PrismaUserRepositoryLive } from "../adapters/prisma/prisma-user-repository";
+import { PrismaSessionRepositoryLive } from "../adapters/prisma/prisma-session-repository";
+import { PrismaApiTokenRepositoryLive } from "../adapters/prisma/prisma-api-token-repository";
+import { PrismaWebhookRepositoryLive } from "../adapters/prisma/prisma-webhook-repository";
+import { LocalGitScenarioRepositoryLive } from "../adapters/git/local-git-scenario-repository";
+import { InMemoryTestRunEventHubLive } from "../adapters/realtime/in-memory-test-run-event-hub";
+import { PrismaTestRunEventHubLive } from "../adapters/realtime/prisma-test-run-event-hub";
+import { InMemoryTestRunPresenceLive } from "../adapters/realtime/in-memory-test-run-presence";
+import { HttpOidcClientLive } from "../adapters/auth/http-oidc-client";
+import { EnvLocalCredentialsLive } from "../adapters/auth/env-local-credentials";
+import { HttpGitHubClientLive } from "../adapters/github/http-github-client";
+import {
+  FixtureGitHubClientLive,
+  RecordingGitHubClientLive,
+} from "../adapters/github/fixture-github-client";
+import { GraphqlLinearClientLive } from "../adapters/linear/graphql-linear-client";
+import { StubLinearClientLive } from "../adapters/linear/stub-linear-client";
+import { SlackWebhookNotifierLive } from "../adapters/slack/slack-webhook-notifier";
+import { CaptureNotifierLive } from "../adapters/slack/capture-notifier";
+import { HttpWebhookSenderLive } from "../adapters/webhook/http-webhook-sender";
+import { AutomatedTestReportParserLive } from "../adapters/automated-test/report-parser";
+import { WebhookRetryWorkerLive } from "./webhook-retry-worker";
+
+/**
+ * Prisma を使うリポジトリ（PrismaClient を共有する）
+ */
+const PrismaRepositoriesLive = Layer.mergeAll(
+  PrismaDashboardRepositoryLive,
+  PrismaProjectRepositoryLive,
+  PrismaTestRunRepositoryLive,
+  PrismaUserRepositoryLive,
+  PrismaSessionRepositoryLive,
+  PrismaApiTokenRepositoryLive,
+  PrismaWebhookRepositoryLive,
+).pipe(Layer.provide(PrismaClientLive));
+
+/**
+ * テストランの更新イベントの配信方法
+ *
+ * 環境変数:
+ * - REALTIME_BROKER: memory（既定、プロセス内で配信する）または
+ *   database（データベースを経由して、同じデータベースを使うすべてのインスタンスに配信する）
+ */
+const TestRunEventHubLive = Layer.unwrapEffect(
+  Config.literal(
+    "memory",
+    "database",
+  )("REALTIME_BROKER").pipe(
+    Config.withDefault("memory"),
+    Effect.map((broker) =>
+      broker === "database"
+        ? PrismaTestRunEventHubLive
+        : InMemoryTestRunEventHubLive,
+    ),
+  ),
+);
+
+/**
+ * GitHub の呼び出し方法
+ *
+ * 環境変数:
+ * - GITHUB_CLIENT: http（既定、GitHub API を使う）、fixture（記録したファイルから
+ *   応答する）または record（GitHub API の応答をファイルに記録する）
+ */
+const GitHubClientLive = Layer.unwrapEffect(
+  Config.literal(
+    "http",
+    "fixture",
+    "record",
+  )("GITHUB_CLIENT").pipe(
+    Config.withDefault("http"),
+    Effect.map((client) => {
+      switch (client) {
+        case "fixture":
+          return FixtureGitHubClientLive;
+        case "record":
+          return RecordingGitHubClientLive;
+        default:
+          return HttpGitHubClientLive;
+      }
+    }),
+  ),
+);
+
+/**
+ * Linear の呼び出し方法
+ *
+ * 環境変数:
+ * - LINEAR_CLIENT: graphql（既定、Linear の GraphQL API を使う）または
+ *   stub（JSON ファイルの Issue から応答する）
+ */
+const LinearClientLive = Layer.unwrapEffect(
+  Config.literal(
+    "graphql",
+    "stub",
+  )("LINEAR_CLIENT").pipe(
+    Config.withDefault("graphql"),
+    Effect.map((client) =>
+      client === "stub" ? StubLinearClientLive : GraphqlLinearClientLive,
+    ),
+  ),
+);
+
+/**
+ * テストランの通知の送り先
+ *
+ * 環境変数:
+ * - NOTIFIER: slack（既定、SLACK_WEBHOOK_URL に送る）または capture（送信せずに
+ *   NOTIFIER_CAPTURE_PATH に記録する）
+ */
+const NotifierLive = Layer.unwrapEffect(
+  Config.literal(
+    "slack",
+    "capture",
+  )("NOTIFIER").pipe(
+    Config.withDefault("slack"),
+    Effect.map((notifier) =>
+      notifier === "capture" ? CaptureNotifierLive : SlackWebhookNotifierLive,
+    ),
+  ),
+);
+
+/**
+ * サーバー（loader / action）で使用する実装を束ねた Layer
+ */
+export const AppLayer = Layer.mergeAll(
+  PrismaRepositoriesLive,
+  LocalGitScenarioRepositoryLive,
+  TestRunEventHubLive,
+  InMemoryTestRunPresenceLive,
+  HttpOidcClientLive,
+  EnvLocalCredentialsLive,
+  GitHubClientLive,
+  LinearClientLive,
+  NotifierLive,
+  HttpWebhookSenderLive,
+  WebhookRetryWorkerLive,
+  AutomatedTestReportParserLive,
+);
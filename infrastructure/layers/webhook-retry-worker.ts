@@ -0,0 +1,38 @@
+import { Effect, Layer, Schedule } from "effect";
+import { retryDueWebhookDeliveries } from "@application/usecases/webhook/retry-webhook-deliveries";
+import { PrismaClientLive } from "../adapters/prisma/prisma-client";
+import { PrismaWebhookRepositoryLive } from "../adapters/prisma/prisma-webhook-repository";
+import { HttpWebhookSenderLive } from "../adapters/webhook/http-webhook-sender";
+
+// 送信・再試行の日時を過ぎた配信を探す間隔
+const POLL_INTERVAL = "10 seconds";
+
+/**
+ * 再試行で使う実装（実行ごとに PrismaClient を生成し、終了時に切断する）
+ */
+const RetryLayer = Layer.mergeAll(
+  PrismaWebhookRepositoryLive.pipe(Layer.provide(PrismaClientLive)),
+  HttpWebhookSenderLive,
+);
+
+// loader / action ごとに Layer を構築し直すため、ワーカーはプロセスで1つだけ起動する
+// （複数のインスタンスで起動しても、配信を予約してから送るため重ねて送らない）
+const startRetryWorker = Effect.runSync(
+  Effect.cached(
+    retryDueWebhookDeliveries().pipe(
+      Effect.provide(RetryLayer),
+      Effect.catchAll((error) =>
+        Effect.logWarning("Webhook の再試行に失敗しました", error),
+      ),
+      Effect.repeat(Schedule.spaced(POLL_INTERVAL)),
+      Effect.forkDaemon,
+      Effect.asVoid,
+    ),
+  ),
+);
+
+/**
+ * 送信待ちの Webhook の配信を送り、失敗した配信を指数バックオフで送り直すワーカーを起動する Layer
+ * （最初の loader / action の実行時に起動し、以降はプロセスの終了まで動き続ける）
+ */
+export const WebhookRetryWorkerLive = Layer.effectDiscard(startRetryWorker);
@@ -0,0 +1,97 @@
+import { Form } from "react-router";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import type { ApiTokenListItem } from "../types/api-token-types";
+
+interface ApiTokenListProps {
+  tokens: ApiTokenListItem[];
+}
+
+/**
+ * 日時（ISO 8601 文字列）を日付で表示する
+ */
+const formatDate = (value: string) => value.slice(0, 10).replaceAll("-", "/");
+
+const statusOf = (token: ApiTokenListItem) => {
+  if (token.revokedAt) return "失効";
+  return token.active ? "有効" : "期限切れ";
+};
+
+/**
+ * 自分の API トークンの一覧（失効させたものも表示する）
+ */
+export function ApiTokenList({ tokens }: ApiTokenListProps) {
+  if (tokens.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        API トークンはまだありません
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>名前</TableHead>
+          <TableHead>スコープ</TableHead>
+          <TableHead>有効期限</TableHead>
+          <TableHead>最終利用</TableHead>
+          <TableHead>状態</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tokens.map((token) => (
+          <TableRow key={token.id}>
+            <TableCell>
+              <div className="font-medium">{token.name}</div>
+              <code className="text-xs text-muted-foreground">
+                {token.prefix}…
+              </code>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell>
+              {token.expiresAt ? formatDate(token.expiresAt) : "無期限"}
+            </TableCell>
+            <TableCell>
+              {token.lastUsedAt ? formatDate(token.lastUsedAt) : "未使用"}
+            </TableCell>
+            <TableCell>
+              <Badge variant={token.active ? "default" : "secondary"}>
+                {statusOf(token)}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              {token.active && (
+                <Form method="post">
+                  <input type="hidden" name="intent" value="revoke" />
+                  <input type="hidden" name="tokenId" value={token.id} />
+                  <Button type="submit" variant="outline" size="sm">
+                    失効させる
+                  </Button>
+                </Form>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,83 @@
+import { Form } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { API_TOKEN_EXPIRY_DAYS } from "@domain/logic/api-token";
+import type { Permission } from "@domain/models/user";
+
+interface CreateApiTokenFormProps {
+  // 自分が持つ権限（スコープとして選べる）
+  permissions: Permission[];
+  error?: string;
+}
+
+const expiryLabel = (days: number | null) =>
+  days === null ? "無期限" : `${days} 日`;
+
+/**
+ * API トークンの作成フォーム（名前・スコープ・有効期間）
+ */
+export function CreateApiTokenForm({
+  permissions,
+  error,
+}: CreateApiTokenFormProps) {
+  return (
+    <Form method="post" className="space-y-4">
+      <input type="hidden" name="intent" value="create" />
+      <div className="space-y-2">
+        <Label htmlFor="api-token-name">名前</Label>
+        <Input
+          id="api-token-name"
+          name="name"
+          placeholder="例: GitHub Actions"
+          maxLength={100}
+          required
+        />
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">スコープ</legend>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {permissions.map((permission) => (
+            <Label key={permission} className="font-normal">
+              <Checkbox
+                name="scopes"
+                value={permission}
+                defaultChecked={permission === "test-run:view"}
+              />
+              <code className="text-sm">{permission}</code>
+            </Label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label htmlFor="api-token-expiry">有効期間</Label>
+        <Select name="expiresInDays" defaultValue="30">
+          <SelectTrigger id="api-token-expiry" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {API_TOKEN_EXPIRY_DAYS.map((days) => (
+              <SelectItem key={days ?? "none"} value={String(days ?? "none")}>
+                {expiryLabel(days)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit">トークンを作成</Button>
+    </Form>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { Check, Copy, KeyRound } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Button } from "~/components/ui/button";
+import type { IssuedApiTokenView } from "../types/api-token-types";
+
+interface IssuedApiTokenAlertProps {
+  issued: IssuedApiTokenView;
+}
+
+/**
+ * 作成したトークンの表示（トークンは保存しないため、この画面を離れると二度と表示できない）
+ */
+export function IssuedApiTokenAlert({ issued }: IssuedApiTokenAlertProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(issued.token);
+    setCopied(true);
+  };
+
+  return (
+    <Alert>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>「{issued.name}」を作成しました</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>このトークンは今だけ表示されます。安全な場所に保存してください。</p>
+        <div className="flex items-center gap-2">
+          <code className="rounded bg-muted px-2 py-1 text-sm break-all">
+            {issued.token}
+          </code>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={copy}
+          >
+            {copied ? (
+              <Check className="h-4 w-4" />
+            ) : (
+              <Copy className="h-4 w-4" />
+            )}
+            コピー
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * API トークン画面の型定義
+ */
+import type { Permission } from "@domain/models/user";
+
+/**
+ * 一覧に表示する API トークン（日時は ISO 8601 文字列）
+ */
+export interface ApiTokenListItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  active: boolean;
+}
+
+/**
+ * 作成したトークン（この画面で一度だけ表示する）
+ */
+export interface IssuedApiTokenView {
+  name: string;
+  token: string;
+}
@@ -0,0 +1,33 @@
+import { data } from "react-router";
+import type { ApiError } from "~/lib/schemas/api";
+
+/**
+ * API のエラーのレスポンス
+ */
+export const apiError = (
+  error: string,
+  status: number,
+  headers?: HeadersInit,
+) => data<ApiError>({ error }, { status, headers });
+
+/**
+ * リクエストの検証エラーのメッセージ（最初の項目と場所）
+ */
+export const validationMessage = (
+  issues: ReadonlyArray<{
+    message: string;
+    path: ReadonlyArray<PropertyKey>;
+  }>,
+) => {
+  const [issue] = issues;
+  if (!issue) return "リクエストが不正です";
+  return issue.path.length > 0
+    ? `${issue.path.map(String).join(".")}: ${issue.message}`
+    : issue.message;
+};
+
+/**
+ * JSON のリクエストボディ（空・JSON でない場合は undefined にし、検証エラーの 400 として返す）
+ */
+export const readJsonBody = (request: Request): Promise<unknown> =>
+  request.json().catch(() => undefined);
@@ -0,0 +1,39 @@
+import type { VersionedScenario } from "@domain/models/scenario";
+import type { TestRunDetail } from "@domain/models/test-run";
+import type { ApiScenario, ApiTestRunDetail } from "~/lib/schemas/api";
+
+/**
+ * シナリオを API のレスポンスの形にする（項目名は Git の YAML に合わせる）
+ */
+export const toApiScenario = ({
+  scenario,
+  version,
+}: VersionedScenario): ApiScenario => ({
+  id: scenario.location.id,
+  project: scenario.location.project,
+  environment: scenario.location.environment,
+  category: scenario.location.category,
+  title: scenario.title,
+  description: scenario.description,
+  tags: [...scenario.tags],
+  default_importance: scenario.defaultImportance,
+  required_by_default: scenario.requiredByDefault,
+  preconditions: [...scenario.preconditions],
+  steps: [...scenario.steps],
+  expected_results: [...scenario.expectedResults],
+  related_scenarios: [...scenario.relatedScenarios],
+  estimated_duration_minutes: scenario.estimatedDurationMinutes,
+  automated_test_id: scenario.automatedTestId,
+  last_updated: scenario.lastUpdated,
+  author: scenario.author,
+  version,
+});
+
+/**
+ * テストランとアイテム・承認ログを API のレスポンスの形にする
+ */
+export const toApiTestRunDetail = ({
+  run,
+  items,
+  approvals,
+}: TestRunDetail): ApiTestRunDetail => ({ ...run, items, approvals });
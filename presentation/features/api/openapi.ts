@@ -0,0 +1,245 @@
+import { z } from "zod";
+import {
+  apiSchemas,
+  scenarioListQuerySchema,
+  testRunListQuerySchema,
+} from "~/lib/schemas/api";
+import { automatedTestImportQuerySchema } from "~/lib/schemas/automated-test";
+
+type SchemaName =
+  | keyof typeof apiSchemas.requests
+  | keyof typeof apiSchemas.responses;
+
+const ref = (name: SchemaName) => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+/**
+ * スキーマを components の JSON Schema にする（スキーマ同士は $ref で参照する）
+ */
+const toComponents = (
+  schemas: Record<string, z.ZodType>,
+  io: "input" | "output",
+) => {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(schemas)) {
+    registry.add(schema, { id });
+  }
+  const { schemas: components } = z.toJSONSchema(registry, {
+    io,
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  // 各スキーマの $schema / $id は OpenAPI では不要
+  return Object.fromEntries(
+    Object.entries(components).map(([id, { $schema, $id, ...schema }]) => [
+      id,
+      schema,
+    ]),
+  );
+};
+
+const json = (name: SchemaName) => ({
+  content: { "application/json": { schema: ref(name) } },
+});
+
+const errors = {
+  "401": { description: "API トークンがない・無効", ...json("Error") },
+  "403": {
+    description: "トークンのスコープ・ユーザーの権限がない",
+    ...json("Error"),
+  },
+};
+
+const notFound = { description: "見つからない", ...json("Error") };
+
+const approvedRun = {
+  description: "承認済みのテストランのため記録できない",
+  ...json("Error"),
+};
+
+const pathParam = (name: string, description: string) => ({
+  name,
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+});
+
+/**
+ * クエリ文字列のスキーマを OpenAPI の parameters にする
+ */
+const queryParams = (schema: z.ZodObject) =>
+  Object.entries(schema.shape).map(([name, field]) => {
+    const { $schema, ...jsonSchema } = z.toJSONSchema(field, { io: "input" });
+    return {
+      name,
+      in: "query",
+      required: !field.safeParse(undefined).success,
+      schema: jsonSchema,
+    };
+  });
+
+const scope = (permission: string) => ({
+  "x-required-scope": permission,
+  security: [{ bearerAuth: [] }],
+});
+
+/**
+ * REST API（/api/v1）の OpenAPI ドキュメント
+ */
+export const buildOpenApiDocument = (serverUrl: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "medi-test API",
+    version: "1.0.0",
+    description:
+      "個人用の API トークン（設定 > API トークン）を Authorization: Bearer ヘッダーに指定する。" +
+      "各操作にはトークンのスコープと、トークンを作成したユーザーの権限の両方が必要。",
+  },
+  servers: [{ url: `${serverUrl}/api/v1` }],
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      ...toComponents(apiSchemas.responses, "output"),
+      ...toComponents(apiSchemas.requests, "input"),
+    },
+  },
+  paths: {
+    "/projects": {
+      get: {
+        summary: "プロジェクトの一覧",
+        ...scope("test-run:view"),
+        responses: {
+          "200": { description: "OK", ...json("ProjectList") },
+          ...errors,
+        },
+      },
+    },
+    "/scenarios": {
+      get: {
+        summary: "シナリオの一覧（アーカイブ済みは含まない）",
+        ...scope("test-run:view"),
+        parameters: queryParams(scenarioListQuerySchema),
+        responses: {
+          "200": { description: "OK", ...json("ScenarioList") },
+          ...errors,
+        },
+      },
+    },
+    "/scenarios/{scenarioId}": {
+      get: {
+        summary: "シナリオ",
+        ...scope("test-run:view"),
+        parameters: [pathParam("scenarioId", "シナリオ ID")],
+        responses: {
+          "200": { description: "OK", ...json("Scenario") },
+          ...errors,
+          "404": notFound,
+        },
+      },
+    },
+    "/test-runs": {
+      get: {
+        summary: "テストランの一覧（作成日時の新しい順）",
+        ...scope("test-run:view"),
+        parameters: queryParams(testRunListQuerySchema),
+        responses: {
+          "200": { description: "OK", ...json("TestRunList") },
+          ...errors,
+        },
+      },
+      post: {
+        summary: "テストランを作成する（シナリオは最新版を取り込む）",
+        ...scope("test-run:create"),
+        requestBody: { required: true, ...json("CreateTestRunRequest") },
+        responses: {
+          "201": { description: "作成した", ...json("TestRun") },
+          "400": {
+            description:
+              "リクエストが不正（同じシナリオの重複、担当者にできないユーザーなど）",
+            ...json("Error"),
+          },
+          ...errors,
+          "404": notFound,
+        },
+      },
+    },
+    "/test-runs/{testRunId}": {
+      get: {
+        summary: "テストラン（アイテムと承認ログを含む）",
+        ...scope("test-run:view"),
+        parameters: [pathParam("testRunId", "テストラン ID")],
+        responses: {
+          "200": { description: "OK", ...json("TestRunDetail") },
+          ...errors,
+          "404": notFound,
+        },
+      },
+    },
+    "/test-runs/{testRunId}/items": {
+      get: {
+        summary: "テストランのアイテムの一覧",
+        ...scope("test-run:view"),
+        parameters: [pathParam("testRunId", "テストラン ID")],
+        responses: {
+          "200": { description: "OK", ...json("TestRunItemList") },
+          ...errors,
+          "404": notFound,
+        },
+      },
+    },
+    "/test-runs/{testRunId}/items/{itemId}/results": {
+      post: {
+        summary: "アイテムに結果を記録する（実行履歴に追記する）",
+        ...scope("test-run:execute"),
+        parameters: [
+          pathParam("testRunId", "テストラン ID"),
+          pathParam("itemId", "アイテム ID"),
+        ],
+        requestBody: { required: true, ...json("ItemResultInput") },
+        responses: {
+          "201": { description: "記録した", ...json("TestRunItem") },
+          "400": { description: "リクエストが不正", ...json("Error") },
+          ...errors,
+          "404": notFound,
+          "409": approvedRun,
+        },
+      },
+    },
+    "/test-runs/{testRunId}/automated-results": {
+      post: {
+        summary:
+          "自動テストのレポートを取り込む（シナリオの automated_test_id と一致するアイテムに記録する）",
+        ...scope("test-run:execute"),
+        parameters: [
+          pathParam("testRunId", "テストラン ID"),
+          ...queryParams(automatedTestImportQuerySchema),
+        ],
+        requestBody: {
+          required: true,
+          description:
+            "JUnit XML・Playwright / Jest の JSON レポート（ファイルの内容をそのまま送る）",
+          content: {
+            "application/xml": { schema: { type: "string" } },
+            "application/json": { schema: { type: "object" } },
+          },
+        },
+        responses: {
+          "200": {
+            description: "取り込んだ（照合できなかったテストケースを含む）",
+            ...json("AutomatedTestImportResult"),
+          },
+          "400": {
+            description: "リクエストが不正・レポートを読み取れない",
+            ...json("Error"),
+          },
+          ...errors,
+          "404": notFound,
+          "409": approvedRun,
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,46 @@
+import { Effect } from "effect";
+import type { Permission, User } from "@domain/models/user";
+import { authenticateApiToken } from "@application/usecases/auth/authenticate-api-token";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { apiError } from "./api-response";
+
+/**
+ * Authorization: Bearer ヘッダーのトークン（なければ null）
+ */
+const readBearerToken = (request: Request) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(
+    request.headers.get("Authorization") ?? "",
+  );
+  return match ? match[1] : null;
+};
+
+/**
+ * API トークンのユーザーを取得する（/api/v1 の loader / action の最初に呼ぶ）
+ *
+ * トークンがない・無効な場合は 401、トークンに scope がない場合は 403 を返す。
+ * ユーザーの権限は usecase の requirePermission でも確認する（トークンの作成後に
+ * ロールが外れた場合はスコープがあっても使えない）
+ */
+export async function requireApiToken(
+  request: Request,
+  scope: Permission,
+): Promise<User> {
+  const result = await Effect.runPromise(
+    authenticateApiToken(readBearerToken(request)).pipe(
+      Effect.map((authenticated) => ({ ok: true, ...authenticated }) as const),
+      Effect.catchTag("UnauthenticatedError", (e) =>
+        Effect.succeed({ ok: false, message: e.message } as const),
+      ),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result.ok) {
+    throw apiError(result.message, 401, {
+      "WWW-Authenticate": 'Bearer realm="medi-test"',
+    });
+  }
+  if (!result.scopes.includes(scope)) {
+    throw apiError(`API トークンにスコープ ${scope} がありません`, 403);
+  }
+  return result.user;
+}
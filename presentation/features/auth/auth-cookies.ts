@@ -0,0 +1,47 @@
+import { createCookie } from "react-router";
+import { SESSION_TTL_DAYS } from "@domain/logic/auth-session";
+import { pendingOidcLoginSchema } from "~/lib/schemas/auth";
+import type { PendingOidcLogin } from "@domain/models/auth";
+
+const secure = process.env.NODE_ENV === "production";
+
+/**
+ * ログインセッションのトークン（サーバーにはハッシュだけを保存する）
+ */
+export const sessionCookie = createCookie("medi_test_session", {
+  httpOnly: true,
+  sameSite: "lax",
+  secure,
+  path: "/",
+  maxAge: SESSION_TTL_DAYS * 24 * 60 * 60,
+});
+
+/**
+ * OIDC の認可リクエストからコールバックまで保存する値（state / nonce / PKCE の code_verifier）
+ * 認可サーバーからのリダイレクトでも送られるよう SameSite=Lax にする
+ */
+export const oidcLoginCookie = createCookie("medi_test_oidc", {
+  httpOnly: true,
+  sameSite: "lax",
+  secure,
+  path: "/auth/callback",
+  maxAge: 10 * 60,
+});
+
+export async function readSessionToken(
+  request: Request,
+): Promise<string | null> {
+  const value: unknown = await sessionCookie.parse(
+    request.headers.get("Cookie"),
+  );
+  return typeof value === "string" && value ? value : null;
+}
+
+export async function readPendingOidcLogin(
+  request: Request,
+): Promise<PendingOidcLogin | null> {
+  const parsed = pendingOidcLoginSchema.safeParse(
+    await oidcLoginCookie.parse(request.headers.get("Cookie")),
+  );
+  return parsed.success ? parsed.data : null;
+}
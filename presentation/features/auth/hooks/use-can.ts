@@ -0,0 +1,23 @@
+import { useRouteLoaderData } from "react-router";
+import type { Permission } from "@domain/models/user";
+
+/**
+ * ルートの loader が返すログイン中のユーザーの権限
+ */
+export interface RootLoaderData {
+  permissions: Permission[];
+}
+
+/**
+ * ログイン中のユーザーが権限を持つかを確かめる関数を返すフック
+ * （ボタンやショートカットの表示の切り替えに使う。操作の可否はサーバーで確認する）
+ *
+ * @example
+ * const can = useCan();
+ * {can("scenario:create") && <Button>シナリオを作成</Button>}
+ */
+export function useCan() {
+  const permissions =
+    useRouteLoaderData<RootLoaderData>("root")?.permissions ?? [];
+  return (permission: Permission) => permissions.includes(permission);
+}
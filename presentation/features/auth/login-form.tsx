@@ -14,13 +14,17 @@ import { Button } from "~/components/ui/button";
 import { loginSchema, type LoginFormData } from "~/lib/schemas/auth";
 
 interface LoginFormProps {
+  returnTo: string;
   errors?: {
     username?: string;
     password?: string;
   };
 }
 
-export function LoginForm({ errors }: LoginFormProps) {
+/**
+ * 開発用のローカル認証のフォーム（ユーザー名は登録済みユーザーのメールアドレス）
+ */
+export function LoginForm({ returnTo, errors }: LoginFormProps) {
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -32,14 +36,16 @@ export function LoginForm({ errors }: LoginFormProps) {
   return (
     <FormProvider {...form}>
       <Form method="post" className="space-y-4">
+        <input type="hidden" name="intent" value="local" />
+        <input type="hidden" name="returnTo" value={returnTo} />
         <FormField
           control={form.control}
           name="username"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>ユーザー名</FormLabel>
+              <FormLabel>ユーザー名（メールアドレス）</FormLabel>
               <FormControl>
-                <Input {...field} />
+                <Input autoComplete="username" {...field} />
               </FormControl>
               <FormMessage>{errors?.username}</FormMessage>
             </FormItem>
@@ -53,7 +59,11 @@ export function LoginForm({ errors }: LoginFormProps) {
             <FormItem>
               <FormLabel>パスワード</FormLabel>
               <FormControl>
-                <Input type="password" {...field} />
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  {...field}
+                />
               </FormControl>
               <FormMessage>{errors?.password}</FormMessage>
             </FormItem>
@@ -61,7 +71,7 @@ export function LoginForm({ errors }: LoginFormProps) {
         />
 
         <Button type="submit" className="w-full">
-          ログイン
+          パスワードでログイン
         </Button>
       </Form>
     </FormProvider>
@@ -0,0 +1,79 @@
+import { data, redirect } from "react-router";
+import { Effect } from "effect";
+import type { User } from "@domain/models/user";
+import { UnauthorizedError } from "@domain/errors/auth-errors";
+import { authenticateSession } from "@application/usecases/auth/authenticate-session";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { readSessionToken, sessionCookie } from "./auth-cookies";
+
+/**
+ * ログイン後に戻る画面のパス（クライアントからのデータ取得の URL は画面のパスに戻す）
+ */
+const returnPathOf = (url: URL) => {
+  const search = new URLSearchParams(url.search);
+  search.delete("_routes");
+  const pathname = url.pathname.replace(/(\/_root)?\.data$/, "") || "/";
+  const query = search.toString();
+  return query ? `${pathname}?${query}` : pathname;
+};
+
+/**
+ * ログイン中のユーザーを取得する（ログインしていない場合は null）
+ */
+export async function findCurrentUser(request: Request): Promise<User | null> {
+  return Effect.runPromise(
+    authenticateSession(await readSessionToken(request)).pipe(
+      Effect.catchTag("UnauthenticatedError", () => Effect.succeed(null)),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+/**
+ * ログイン中のユーザーを取得する（loader / action の最初に呼ぶ）
+ *
+ * ログインしていない場合は、画面はログイン画面にリダイレクトし、
+ * API（/api/）は 401 を返す
+ */
+export async function requireUser(request: Request): Promise<User> {
+  const user = await findCurrentUser(request);
+  if (user) return user;
+
+  const url = new URL(request.url);
+  if (url.pathname.startsWith("/api/")) {
+    throw data({ error: "ログインしてください" }, { status: 401 });
+  }
+  // 失効したトークンは削除する
+  const headers = new Headers();
+  if (await readSessionToken(request)) {
+    headers.append(
+      "Set-Cookie",
+      await sessionCookie.serialize("", { maxAge: 0 }),
+    );
+  }
+  throw redirect(`/login?returnTo=${encodeURIComponent(returnPathOf(url))}`, {
+    headers,
+  });
+}
+
+/**
+ * loader の Effect を実行する（requirePermission で権限がない場合は 403 を返す）
+ */
+export async function runAuthorized<A, E>(
+  program: Effect.Effect<A, E | UnauthorizedError>,
+): Promise<A> {
+  const result = await Effect.runPromise(
+    program.pipe(
+      Effect.map((value) => ({ ok: true, value }) as const),
+      Effect.catchIf(
+        (error): error is UnauthorizedError =>
+          error instanceof UnauthorizedError,
+        (error) => Effect.succeed({ ok: false, error } as const),
+      ),
+    ),
+  );
+  if (!result.ok) {
+    throw data(result.error.message, { status: 403 });
+  }
+  return result.value;
+}
@@ -0,0 +1,75 @@
+import { Form, Link } from "react-router";
+import { FolderCog, KeyRound, LogOut } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { useCan } from "./hooks/use-can";
+
+interface UserMenuProps {
+  user: {
+    name: string;
+    email: string;
+    avatarUrl: string | null;
+  };
+}
+
+/**
+ * ログイン中のユーザーと API トークン・プロジェクト設定・ログアウトのメニュー
+ */
+export function UserMenu({ user }: UserMenuProps) {
+  const can = useCan();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-2">
+          <Avatar className="h-6 w-6">
+            {user.avatarUrl && (
+              <AvatarImage src={user.avatarUrl} alt={user.name} />
+            )}
+            <AvatarFallback className="bg-primary/10 text-xs">
+              {user.name.charAt(0)}
+            </AvatarFallback>
+          </Avatar>
+          <span className="hidden sm:inline">{user.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium">{user.name}</p>
+          <p className="text-xs text-muted-foreground">{user.email}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/settings/api-tokens">
+            <KeyRound className="h-4 w-4" />
+            API トークン
+          </Link>
+        </DropdownMenuItem>
+        {can("project:configure") && (
+          <DropdownMenuItem asChild>
+            <Link to="/projects">
+              <FolderCog className="h-4 w-4" />
+              プロジェクト設定
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <Form method="post" action="/logout">
+          <DropdownMenuItem asChild>
+            <button type="submit" className="w-full">
+              <LogOut className="h-4 w-4" />
+              ログアウト
+            </button>
+          </DropdownMenuItem>
+        </Form>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,3 +1,4 @@
+import { Link } from "react-router";
 import { Button } from "~/components/ui/button";
 import {
   Empty,
@@ -7,8 +8,11 @@ import {
   EmptyContent,
 } from "~/components/ui/empty";
 import { PlusCircle } from "lucide-react";
+import { useCan } from "~/features/auth/hooks/use-can";
 
 export function EmptyDashboard() {
+  const can = useCan();
+
   return (
     <div className="container mx-auto p-6 flex items-center justify-center min-h-viewport">
       <Empty>
@@ -18,12 +22,16 @@ export function EmptyDashboard() {
             新しいテストランを作成して、QAプロセスを開始しましょう
           </EmptyDescription>
         </EmptyHeader>
-        <EmptyContent>
-          <Button>
-            <PlusCircle className="mr-2 h-4 w-4" />
-            新しいテストランを作成
-          </Button>
-        </EmptyContent>
+        {can("test-run:create") && (
+          <EmptyContent>
+            <Button asChild>
+              <Link to="/test-runs/new">
+                <PlusCircle className="mr-2 h-4 w-4" />
+                新しいテストランを作成
+              </Link>
+            </Button>
+          </EmptyContent>
+        )}
       </Empty>
     </div>
   );
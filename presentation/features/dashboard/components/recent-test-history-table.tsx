@@ -1,3 +1,4 @@
+import { useNavigate } from "react-router";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import {
   Table,
@@ -20,6 +21,8 @@ interface RecentTestHistoryTableProps {
 export function RecentTestHistoryTable({
   testRuns,
 }: RecentTestHistoryTableProps) {
+  const navigate = useNavigate();
+
   return (
     <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
       <CardHeader>
@@ -54,6 +57,7 @@ export function RecentTestHistoryTable({
                   <TableRow
                     key={run.id}
                     className="cursor-pointer hover:bg-accent/50 transition-colors"
+                    onClick={() => navigate(`/test-runs/${run.id}`)}
                   >
                     <TableCell className="font-mono text-xs">
                       {run.id}
@@ -26,6 +26,12 @@ const statusConfig: Record<
     className:
       "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 animate-pulse",
   },
+  awaiting_approval: {
+    label: "承認待ち",
+    variant: "outline",
+    className:
+      "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300 border-amber-300 dark:border-amber-700",
+  },
   completed: {
     label: "完了",
     variant: "outline",
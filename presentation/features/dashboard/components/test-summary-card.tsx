@@ -54,8 +54,8 @@ export function TestSummaryCard({
 
   // 期間別のトレンドデータをフィルタリング
   const getLast7Days = () => executionTrends.slice(-7);
-  const getLast30Days = () => executionTrends;
-  const getLast90Days = () => executionTrends; // モックデータは30日分のみだが、実装上は90日対応
+  const getLast30Days = () => executionTrends.slice(-30);
+  const getLast90Days = () => executionTrends;
 
   return (
     <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
@@ -1,52 +1,60 @@
-import { useState, useEffect } from "react";
-import { getMockDashboardData } from "../types/dashboard";
+import { useEffect, useRef, useState } from "react";
+import { useLoaderData, useRevalidator } from "react-router";
+import type { TestRunEvent } from "~/lib/schemas/test-run-event";
+import { useAllTestRunUpdates } from "~/features/test-run/hooks/use-test-run-updates";
+import { applyEventToRun } from "~/features/test-run/utils/apply-test-run-event";
 import type { DashboardData } from "../types/dashboard";
 
+// ステータスの変更が続いた場合にまとめて集計し直すまでの待ち時間（ミリ秒）
+const REVALIDATE_DELAY = 1000;
+
 interface UseDashboardDataReturn {
-  data: DashboardData | null;
-  isLoading: boolean;
-  error: Error | null;
+  data: DashboardData;
+  isRefreshing: boolean;
   refresh: () => void;
+  connected: boolean;
 }
 
 /**
  * ダッシュボードデータを取得するフック
  *
- * Phase 1: モックデータを返す
- * Phase 2: React Router loader または API 呼び出しに置換
+ * データはルートの loader で集計され、refresh で loader を再実行する
+ * テストランの進捗はすべてのテストランの更新イベントからその場で反映し、
+ * ステータスが変わった場合や新しいテストランが作成された場合は集計し直す
  */
 export function useDashboardData(): UseDashboardDataReturn {
-  const [data, setData] = useState<DashboardData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-
-  const fetchData = () => {
-    setIsLoading(true);
-    setError(null);
-
-    // API 呼び出しをシミュレート
-    const timer = setTimeout(() => {
-      try {
-        const mockData = getMockDashboardData();
-        setData(mockData);
-      } catch (err) {
-        setError(err instanceof Error ? err : new Error(String(err)));
-      } finally {
-        setIsLoading(false);
-      }
-    }, 500);
-
-    return () => clearTimeout(timer);
-  };
+  const loaded = useLoaderData<DashboardData>();
+  const revalidator = useRevalidator();
+  const [data, setData] = useState(loaded);
+  const revalidateTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
 
-  useEffect(() => {
-    const cleanup = fetchData();
-    return cleanup;
-  }, []);
+  useEffect(() => setData(loaded), [loaded]);
+  useEffect(() => () => clearTimeout(revalidateTimer.current), []);
 
   const refresh = () => {
-    fetchData();
+    void revalidator.revalidate();
   };
 
-  return { data, isLoading, error, refresh };
+  const scheduleRevalidate = () => {
+    clearTimeout(revalidateTimer.current);
+    revalidateTimer.current = setTimeout(refresh, REVALIDATE_DELAY);
+  };
+
+  const { connected } = useAllTestRunUpdates((event: TestRunEvent) => {
+    if (event.type !== "run_status_changed") return;
+    const known = data.testRuns.find((run) => run.id === event.testRunId);
+    if (known?.status !== event.status) scheduleRevalidate();
+    setData((current) => ({
+      ...current,
+      testRuns: current.testRuns.map((run) => applyEventToRun(run, event)),
+      recentRuns: current.recentRuns.map((run) => applyEventToRun(run, event)),
+    }));
+  });
+
+  return {
+    data,
+    isRefreshing: revalidator.state === "loading",
+    refresh,
+    connected,
+  };
 }
@@ -0,0 +1,74 @@
+import { Link } from "react-router";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { TestRunStatusBadge } from "~/features/dashboard/components/test-run-status-badge";
+import { TestRunItemStatusBadge } from "~/features/test-run/components/test-run-item-status-badge";
+import type { IssueCoverage } from "@domain/models/linear-issue";
+
+interface IssueCoverageListProps {
+  runs: IssueCoverage["runs"];
+}
+
+/**
+ * Issue を参照するリリースのテストランと、Issue をカバーしたテストケース
+ */
+export function IssueCoverageList({ runs }: IssueCoverageListProps) {
+  if (runs.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        この Issue を参照するリリースのテストランはありません
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {runs.map(({ run, items }) => (
+        <Card key={run.id}>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <CardTitle className="text-lg">
+                <Link to={`/test-runs/${run.id}`} className="hover:underline">
+                  {run.title}
+                </Link>
+              </CardTitle>
+              <TestRunStatusBadge status={run.status} />
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>{run.projectName}</span>
+              <Badge variant="outline">{run.environment.name}</Badge>
+              {run.release && (
+                <Badge variant="secondary">{run.release.tag}</Badge>
+              )}
+              <span>{items.length}件</span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {items.length === 0 ? (
+              <p className="px-3 text-sm text-muted-foreground">
+                Issue のラベルに該当するテストケースはありません
+              </p>
+            ) : (
+              items.map((item) => (
+                <Link
+                  key={item.id}
+                  to={`/test-runs/${run.id}?item=${item.id}`}
+                  className="flex items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-accent"
+                >
+                  <TestRunItemStatusBadge status={item.status} />
+                  <span className="font-medium">{item.title}</span>
+                  <span className="text-muted-foreground">{item.folder}</span>
+                  {item.assignee && (
+                    <span className="ml-auto text-muted-foreground">
+                      {item.assignee.name}
+                    </span>
+                  )}
+                </Link>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
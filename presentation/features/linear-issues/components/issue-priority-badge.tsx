@@ -0,0 +1,55 @@
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import type { LinearPriority } from "@domain/models/linear-issue";
+
+interface IssuePriorityBadgeProps {
+  priority: LinearPriority;
+  className?: string;
+}
+
+const priorityConfig: Record<
+  LinearPriority,
+  {
+    label: string;
+    className: string;
+  }
+> = {
+  0: {
+    label: "優先度なし",
+    className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  },
+  1: {
+    label: "緊急",
+    className: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+  },
+  2: {
+    label: "高",
+    className:
+      "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+  },
+  3: {
+    label: "中",
+    className:
+      "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  },
+  4: {
+    label: "低",
+    className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  },
+};
+
+/**
+ * Linear の Issue の優先度
+ */
+export function IssuePriorityBadge({
+  priority,
+  className,
+}: IssuePriorityBadgeProps) {
+  const config = priorityConfig[priority];
+
+  return (
+    <Badge variant="outline" className={cn(config.className, className)}>
+      {config.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,69 @@
+import { Link } from "react-router";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "~/components/ui/collapsible";
+import type { LinearIssue } from "@domain/models/linear-issue";
+import { IssuePriorityBadge } from "./issue-priority-badge";
+
+interface IssueSummaryProps {
+  issue: LinearIssue;
+  // 識別子を Issue の画面（カバーしたテストケース）へのリンクにする
+  linkToCoverage?: boolean;
+}
+
+/**
+ * Issue のタイトル・状態・優先度・ラベル（説明は開いて表示する）
+ */
+export function IssueSummary({ issue, linkToCoverage }: IssueSummaryProps) {
+  return (
+    <Collapsible className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {linkToCoverage ? (
+          <Link
+            to={`/issues/${issue.identifier}`}
+            className="font-mono underline"
+          >
+            {issue.identifier}
+          </Link>
+        ) : (
+          <span className="font-mono">{issue.identifier}</span>
+        )}
+        <span className="font-medium">{issue.title}</span>
+        <a
+          href={issue.url}
+          target="_blank"
+          rel="noreferrer"
+          aria-label="Linear で開く"
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <IssuePriorityBadge priority={issue.priority} />
+        {issue.state && <Badge variant="secondary">{issue.state}</Badge>}
+        {issue.labels.map((label) => (
+          <Badge key={label} variant="outline">
+            {label}
+          </Badge>
+        ))}
+        {issue.description && (
+          <CollapsibleTrigger className="ml-1 text-xs text-muted-foreground underline">
+            説明
+          </CollapsibleTrigger>
+        )}
+      </div>
+      {issue.description && (
+        <CollapsibleContent>
+          <p className="whitespace-pre-wrap rounded-md bg-muted p-2 text-sm">
+            {issue.description}
+          </p>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
@@ -0,0 +1,70 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { useReleaseIssues } from "../hooks/use-release-issues";
+import { IssueSummary } from "./issue-summary";
+
+interface ReleaseIssuesCardProps {
+  projectId: string;
+  release: { id: string; tag: string };
+}
+
+/**
+ * テストランのリリースが参照する Linear の Issue
+ */
+export function ReleaseIssuesCard({
+  projectId,
+  release,
+}: ReleaseIssuesCardProps) {
+  const { loading, releaseIssues, error } = useReleaseIssues(
+    projectId,
+    release.id,
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Linear の Issue</CardTitle>
+        <CardDescription>
+          リリース「{release.tag}」が参照する Issue
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">
+            Issue を取得しています...
+          </p>
+        ) : !releaseIssues ? (
+          <p className="text-sm text-muted-foreground">
+            Issue を取得できません: {error}
+          </p>
+        ) : releaseIssues.issues.length === 0 &&
+          releaseIssues.missingIdentifiers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            リリースは Issue を参照していません
+          </p>
+        ) : (
+          <>
+            {releaseIssues.issues.map((issue) => (
+              <IssueSummary
+                key={issue.identifier}
+                issue={issue}
+                linkToCoverage
+              />
+            ))}
+            {releaseIssues.missingIdentifiers.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Linear で見つからない Issue:{" "}
+                {releaseIssues.missingIdentifiers.join(", ")}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import type { ReleaseIssuesResult } from "../types/linear-issue-types";
+
+/**
+ * リリースが参照する Linear の Issue を取得するフック（リリースが変わるたびに取得し直す）
+ */
+export function useReleaseIssues(projectId: string, releaseId: string) {
+  const fetcher = useFetcher<ReleaseIssuesResult>();
+
+  useEffect(() => {
+    void fetcher.load(
+      `/api/projects/${projectId}/releases/${releaseId}/issues`,
+    );
+  }, [projectId, releaseId]);
+
+  return {
+    loading: fetcher.state !== "idle" || !fetcher.data,
+    releaseIssues: fetcher.data?.releaseIssues,
+    error: fetcher.data?.error,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Linear の Issue の表示に使う型定義
+ */
+import type { ReleaseIssues } from "@domain/models/linear-issue";
+
+/**
+ * リリースが参照する Issue の取得結果
+ */
+export type ReleaseIssuesResult =
+  | { releaseIssues: ReleaseIssues; error?: undefined }
+  | { releaseIssues?: undefined; error: string };
@@ -0,0 +1,74 @@
+import { Link } from "react-router";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { TestRunStatusBadge } from "~/features/dashboard/components/test-run-status-badge";
+import { TestRunItemStatusBadge } from "~/features/test-run/components/test-run-item-status-badge";
+import type { QueueGroup } from "../types/my-queue-types";
+
+interface MyQueueListProps {
+  groups: QueueGroup[];
+}
+
+/**
+ * 期限（YYYY-MM-DD の ISO 文字列）を表示用に整える
+ */
+const formatDueDate = (dueAt: string) =>
+  dueAt.slice(0, 10).replaceAll("-", "/");
+
+/**
+ * テストランごとの担当テストケースの一覧
+ */
+export function MyQueueList({ groups }: MyQueueListProps) {
+  if (groups.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        担当している未実行のテストケースはありません
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map(({ run, items }) => (
+        <Card key={run.id}>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <CardTitle className="text-lg">
+                <Link to={`/test-runs/${run.id}`} className="hover:underline">
+                  {run.title}
+                </Link>
+              </CardTitle>
+              <TestRunStatusBadge status={run.status} />
+              <span className="ml-auto text-sm text-muted-foreground">
+                {run.dueAt ? `期限 ${formatDueDate(run.dueAt)}` : "期限なし"}
+              </span>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>{run.projectName}</span>
+              <Badge variant="outline">{run.environment.name}</Badge>
+              <span>{items.length}件</span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {items.map((item) => (
+              <Link
+                key={item.id}
+                to={`/test-runs/${run.id}?item=${item.id}`}
+                className="flex items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-accent"
+              >
+                <TestRunItemStatusBadge status={item.status} />
+                <span className="font-medium">{item.title}</span>
+                <span className="text-muted-foreground">{item.folder}</span>
+                {item.estimatedMinutes && (
+                  <span className="ml-auto text-muted-foreground">
+                    {item.estimatedMinutes}分
+                  </span>
+                )}
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
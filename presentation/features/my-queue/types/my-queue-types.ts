@@ -0,0 +1,12 @@
+/**
+ * 自分のキューの型定義
+ */
+import type { TestRun, TestRunItem } from "~/lib/schemas/test-run";
+
+/**
+ * テストランごとの担当アイテム
+ */
+export interface QueueGroup {
+  run: TestRun;
+  items: TestRunItem[];
+}
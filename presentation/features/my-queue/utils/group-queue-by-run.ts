@@ -0,0 +1,20 @@
+import type { QueuedTestRunItem } from "@domain/models/test-run";
+import type { QueueGroup } from "../types/my-queue-types";
+
+/**
+ * キューのアイテムをテストランごとにまとめる（取得順を保つ）
+ */
+export function groupQueueByRun(
+  queue: readonly QueuedTestRunItem[],
+): QueueGroup[] {
+  const groups = new Map<string, QueueGroup>();
+  for (const { run, item } of queue) {
+    const group = groups.get(run.id);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(run.id, { run, items: [item] });
+    }
+  }
+  return [...groups.values()];
+}
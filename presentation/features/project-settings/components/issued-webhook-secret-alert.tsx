@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Check, Copy, KeyRound } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Button } from "~/components/ui/button";
+import type { IssuedWebhookSecretView } from "../types/project-settings-types";
+
+interface IssuedWebhookSecretAlertProps {
+  issued: IssuedWebhookSecretView;
+}
+
+/**
+ * 発行した署名のシークレットの表示（画面を離れると二度と表示できないため、受信側に設定してもらう）
+ */
+export function IssuedWebhookSecretAlert({
+  issued,
+}: IssuedWebhookSecretAlertProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(issued.secret);
+    setCopied(true);
+  };
+
+  return (
+    <Alert>
+      <KeyRound className="h-4 w-4" />
+      <AlertTitle>署名のシークレットを発行しました</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          {issued.url} の受信側に設定してください。シークレットは今だけ
+          表示されます。
+        </p>
+        <div className="flex items-center gap-2">
+          <code className="rounded bg-muted px-2 py-1 text-sm break-all">
+            {issued.secret}
+          </code>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={copy}
+          >
+            {copied ? (
+              <Check className="h-4 w-4" />
+            ) : (
+              <Copy className="h-4 w-4" />
+            )}
+            コピー
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
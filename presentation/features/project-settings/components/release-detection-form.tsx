@@ -0,0 +1,205 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { releaseDetectionFormSchema } from "~/lib/schemas/release-detection";
+import type {
+  ReleaseDetectionFormData,
+  ReleaseDetectionSettings,
+  UpdateReleaseDetectionRequest,
+} from "~/lib/schemas/release-detection";
+import {
+  toReleaseDetectionForm,
+  toReleaseDetectionSettings,
+} from "../utils/release-detection-form";
+import type { ProjectSettingsActionResult } from "../types/project-settings-types";
+
+interface ReleaseDetectionFormProps {
+  settings: ReleaseDetectionSettings | null;
+}
+
+/**
+ * リリース検出の設定（GitHub のリポジトリ・リリースのラベル・変更ファイルの対応表）
+ */
+export function ReleaseDetectionForm({ settings }: ReleaseDetectionFormProps) {
+  const fetcher = useFetcher<ProjectSettingsActionResult>();
+  const form = useForm<ReleaseDetectionFormData>({
+    resolver: zodResolver(releaseDetectionFormSchema),
+    defaultValues: toReleaseDetectionForm(settings),
+  });
+  const rules = useFieldArray({ control: form.control, name: "pathRules" });
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data?.error) return;
+    form.setError("root", { type: "manual", message: fetcher.data.error });
+  }, [fetcher.state, fetcher.data]);
+
+  const submit = (request: UpdateReleaseDetectionRequest) =>
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+
+  const handleSubmit = (data: ReleaseDetectionFormData) =>
+    submit({
+      intent: "update-release-detection",
+      settings: toReleaseDetectionSettings(data),
+    });
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="repository"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>リポジトリ</FormLabel>
+                <FormControl>
+                  <Input placeholder="例: medimo/medimo-web" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="releaseLabel"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>リリースのラベル</FormLabel>
+                <FormControl>
+                  <Input placeholder="例: release: {tag}" {...field} />
+                </FormControl>
+                <FormDescription>
+                  {"{tag}"} はリリースのタグに置き換えます
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">変更ファイルの対応表</p>
+          <p className="text-sm text-muted-foreground">
+            パスのパターン（例:
+            src/auth/**）に一致するファイルが変更された場合、
+            フォルダーかタグが一致するシナリオを提案します（カンマ区切り）
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>パスのパターン</TableHead>
+                <TableHead>フォルダー</TableHead>
+                <TableHead>タグ</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.fields.map((rule, index) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`pathRules.${index}.pattern`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="src/auth/**" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder="auth"
+                      {...form.register(`pathRules.${index}.folders`)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder="login, smoke"
+                      {...form.register(`pathRules.${index}.tags`)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="ルールを削除"
+                      onClick={() => rules.remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => rules.append({ pattern: "", folders: "", tags: "" })}
+          >
+            <Plus className="h-4 w-4" />
+            ルールを追加
+          </Button>
+        </div>
+
+        {form.formState.errors.root && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.root.message}
+          </p>
+        )}
+        {fetcher.state === "idle" && fetcher.data?.saved && (
+          <p className="text-sm text-muted-foreground">保存しました</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {settings && (
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isSubmitting}
+              onClick={() => submit({ intent: "update-release-detection" })}
+            >
+              設定を外す
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "保存中..." : "保存"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,172 @@
+import { useFetcher } from "react-router";
+import { RotateCw } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "~/components/ui/collapsible";
+import { cn } from "~/lib/utils";
+import type {
+  WebhookActionRequest,
+  WebhookDeliveryStatus,
+} from "~/lib/schemas/webhook";
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENT_LABELS,
+} from "../utils/webhook-list";
+import type {
+  ProjectSettingsActionResult,
+  WebhookDeliveryListItem,
+} from "../types/project-settings-types";
+
+interface WebhookDeliveryLogProps {
+  deliveries: WebhookDeliveryListItem[];
+}
+
+const statusClassName: Record<WebhookDeliveryStatus, string> = {
+  pending:
+    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  succeeded:
+    "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+};
+
+/**
+ * 日時（ISO 8601 文字列）を閲覧者のタイムゾーンで表示する
+ */
+function DateTime({ value }: { value: string }) {
+  return (
+    <time dateTime={value} suppressHydrationWarning>
+      {new Date(value).toLocaleString("ja-JP")}
+    </time>
+  );
+}
+
+/**
+ * 本文が JSON の場合は整形して表示する
+ */
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+function WebhookDeliveryRow({
+  delivery,
+}: {
+  delivery: WebhookDeliveryListItem;
+}) {
+  const fetcher = useFetcher<ProjectSettingsActionResult>();
+
+  const redeliver = () => {
+    const request: WebhookActionRequest = {
+      intent: "redeliver-webhook",
+      deliveryId: delivery.id,
+    };
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <Collapsible asChild>
+      <li className="space-y-2 p-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline" className={statusClassName[delivery.status]}>
+            {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+          </Badge>
+          <span className="font-medium">
+            {WEBHOOK_EVENT_LABELS[delivery.event]}
+          </span>
+          {delivery.redelivery && <Badge variant="secondary">再送</Badge>}
+          <span className="text-muted-foreground">
+            <DateTime value={delivery.createdAt} />
+          </span>
+          <span className="text-muted-foreground">
+            {delivery.responseStatus !== null
+              ? `HTTP ${delivery.responseStatus}`
+              : (delivery.error ?? "未送信")}
+            {delivery.durationMs !== null && `（${delivery.durationMs} ms）`}
+          </span>
+          <span className="text-muted-foreground">
+            送信 {delivery.attempts} 回
+          </span>
+          {delivery.status === "pending" && delivery.nextAttemptAt && (
+            <span className="text-muted-foreground">
+              次の再試行: <DateTime value={delivery.nextAttemptAt} />
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <CollapsibleTrigger className="text-xs text-muted-foreground underline">
+              詳細
+            </CollapsibleTrigger>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={fetcher.state !== "idle"}
+              onClick={redeliver}
+            >
+              <RotateCw
+                className={cn(
+                  "h-3.5 w-3.5",
+                  fetcher.state !== "idle" && "animate-spin",
+                )}
+              />
+              再送
+            </Button>
+          </div>
+        </div>
+        {fetcher.state === "idle" && fetcher.data?.error && (
+          <p className="text-sm text-destructive">{fetcher.data.error}</p>
+        )}
+        <CollapsibleContent className="space-y-2 text-sm">
+          <p className="font-mono text-xs text-muted-foreground">
+            X-MediTest-Delivery: {delivery.id}
+          </p>
+          <div className="grid gap-2 lg:grid-cols-2">
+            <div className="space-y-1">
+              <p className="font-medium">送信した本文</p>
+              <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs">
+                {formatBody(delivery.payload)}
+              </pre>
+            </div>
+            <div className="space-y-1">
+              <p className="font-medium">応答の本文</p>
+              <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs">
+                {delivery.responseBody
+                  ? formatBody(delivery.responseBody)
+                  : "（なし）"}
+              </pre>
+            </div>
+          </div>
+        </CollapsibleContent>
+      </li>
+    </Collapsible>
+  );
+}
+
+/**
+ * Webhook の最近の配信（本文・応答を開いて確認し、同じ本文を再送できる）
+ */
+export function WebhookDeliveryLog({ deliveries }: WebhookDeliveryLogProps) {
+  if (deliveries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">まだ配信はありません</p>
+    );
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {deliveries.map((delivery) => (
+        <WebhookDeliveryRow key={delivery.id} delivery={delivery} />
+      ))}
+    </ul>
+  );
+}
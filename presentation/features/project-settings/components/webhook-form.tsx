@@ -0,0 +1,179 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { notificationEventTypeSchema } from "~/lib/schemas/notification";
+import { webhookSubscriptionInputSchema } from "~/lib/schemas/webhook";
+import type {
+  WebhookActionRequest,
+  WebhookSubscriptionInput,
+} from "~/lib/schemas/webhook";
+import { WEBHOOK_EVENT_LABELS } from "../utils/webhook-list";
+import type {
+  ProjectSettingsActionResult,
+  WebhookListItem,
+} from "../types/project-settings-types";
+import { IssuedWebhookSecretAlert } from "./issued-webhook-secret-alert";
+
+interface WebhookFormProps {
+  // 変更する購読（省略すると作成する）
+  webhook?: WebhookListItem;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+const EMPTY_WEBHOOK: WebhookSubscriptionInput = {
+  url: "",
+  events: [...notificationEventTypeSchema.options],
+  active: true,
+};
+
+/**
+ * Webhook の購読の作成・変更フォーム（送り先の URL・送るイベント・有効かどうか）
+ */
+export function WebhookForm({ webhook, onSaved, onCancel }: WebhookFormProps) {
+  const fetcher = useFetcher<ProjectSettingsActionResult>();
+  const form = useForm<WebhookSubscriptionInput>({
+    resolver: zodResolver(webhookSubscriptionInputSchema),
+    defaultValues: webhook
+      ? { url: webhook.url, events: webhook.events, active: webhook.active }
+      : EMPTY_WEBHOOK,
+  });
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+    if (fetcher.data.error) {
+      form.setError("root", { type: "manual", message: fetcher.data.error });
+      return;
+    }
+    if (!webhook) form.reset(EMPTY_WEBHOOK);
+    onSaved?.();
+  }, [fetcher.state, fetcher.data]);
+
+  const handleSubmit = (input: WebhookSubscriptionInput) => {
+    const request: WebhookActionRequest = webhook
+      ? { intent: "update-webhook", webhookId: webhook.id, webhook: input }
+      : { intent: "create-webhook", webhook: input };
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  const isSubmitting = fetcher.state !== "idle";
+  const idPrefix = `webhook-${webhook?.id ?? "new"}`;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {fetcher.state === "idle" && fetcher.data?.issuedWebhook && (
+          <IssuedWebhookSecretAlert issued={fetcher.data.issuedWebhook} />
+        )}
+
+        <FormField
+          control={form.control}
+          name="url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>送り先の URL</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="例: https://example.com/hooks/medi-test"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="events"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>送るイベント</FormLabel>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {notificationEventTypeSchema.options.map((event) => {
+                  const id = `${idPrefix}-${event}`;
+                  return (
+                    <div key={event} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        checked={field.value.includes(event)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked === true
+                              ? [...field.value, event]
+                              : field.value.filter((value) => value !== event),
+                          )
+                        }
+                      />
+                      <Label htmlFor={id} className="font-normal">
+                        {WEBHOOK_EVENT_LABELS[event]}
+                        <code className="text-xs text-muted-foreground">
+                          {event}
+                        </code>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`${idPrefix}-active`}
+                checked={field.value}
+                onCheckedChange={field.onChange}
+              />
+              <Label htmlFor={`${idPrefix}-active`}>有効にする</Label>
+            </div>
+          )}
+        />
+
+        {form.formState.errors.root && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.root.message}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={isSubmitting}
+              onClick={onCancel}
+            >
+              キャンセル
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "保存中..." : webhook ? "保存" : "Webhook を追加"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useFetcher } from "react-router";
+import { KeyRound, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import type { WebhookActionRequest } from "~/lib/schemas/webhook";
+import { WEBHOOK_EVENT_LABELS } from "../utils/webhook-list";
+import type {
+  ProjectSettingsActionResult,
+  WebhookListItem,
+} from "../types/project-settings-types";
+import { IssuedWebhookSecretAlert } from "./issued-webhook-secret-alert";
+import { WebhookDeliveryLog } from "./webhook-delivery-log";
+import { WebhookForm } from "./webhook-form";
+
+interface WebhookListProps {
+  webhooks: WebhookListItem[];
+}
+
+function WebhookListEntry({ webhook }: { webhook: WebhookListItem }) {
+  const [editing, setEditing] = useState(false);
+  const fetcher = useFetcher<ProjectSettingsActionResult>();
+
+  const submit = (request: WebhookActionRequest) =>
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+
+  const isSubmitting = fetcher.state !== "idle";
+
+  return (
+    <li className="space-y-4 rounded-lg border p-4">
+      {editing ? (
+        <WebhookForm
+          webhook={webhook}
+          onSaved={() => setEditing(false)}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div className="flex flex-wrap items-start gap-4">
+          <div className="min-w-0 flex-1 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <code className="text-sm break-all">{webhook.url}</code>
+              <Badge variant={webhook.active ? "default" : "secondary"}>
+                {webhook.active ? "有効" : "無効"}
+              </Badge>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {webhook.events.map((event) => (
+                <Badge key={event} variant="outline">
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Webhook を編集"
+              onClick={() => setEditing(true)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="シークレットを再発行"
+              disabled={isSubmitting}
+              onClick={() =>
+                submit({
+                  intent: "rotate-webhook-secret",
+                  webhookId: webhook.id,
+                })
+              }
+            >
+              <KeyRound className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Webhook を削除"
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Webhook を削除しますか？</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {webhook.url}
+                    への送信をやめ、配信ログも削除します。再試行を待っている配信も送信しません。
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>キャンセル</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() =>
+                      submit({
+                        intent: "delete-webhook",
+                        webhookId: webhook.id,
+                      })
+                    }
+                  >
+                    削除
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      )}
+
+      {fetcher.state === "idle" && fetcher.data?.issuedWebhook && (
+        <IssuedWebhookSecretAlert issued={fetcher.data.issuedWebhook} />
+      )}
+      {fetcher.state === "idle" && fetcher.data?.error && (
+        <p className="text-sm text-destructive">{fetcher.data.error}</p>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">最近の配信</p>
+        <WebhookDeliveryLog deliveries={webhook.deliveries} />
+      </div>
+    </li>
+  );
+}
+
+/**
+ * プロジェクトの Webhook の購読と最近の配信
+ */
+export function WebhookList({ webhooks }: WebhookListProps) {
+  if (webhooks.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">Webhook はまだありません</p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {webhooks.map((webhook) => (
+        <WebhookListEntry key={webhook.id} webhook={webhook} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * プロジェクト設定画面の型定義
+ */
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type { WebhookDeliveryStatus } from "~/lib/schemas/webhook";
+
+/**
+ * 作成・再発行した Webhook の署名のシークレット（この画面で一度だけ表示する）
+ */
+export interface IssuedWebhookSecretView {
+  url: string;
+  secret: string;
+}
+
+/**
+ * 設定を変更する action の結果
+ */
+export interface ProjectSettingsActionResult {
+  saved?: boolean;
+  error?: string;
+  issuedWebhook?: IssuedWebhookSecretView;
+}
+
+/**
+ * 配信ログに表示する Webhook の配信（日時は ISO 8601 文字列）
+ */
+export interface WebhookDeliveryListItem {
+  id: string;
+  event: NotificationEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  redelivery: boolean;
+  payload: string;
+}
+
+/**
+ * 一覧に表示する Webhook の購読と最近の配信
+ */
+export interface WebhookListItem {
+  id: string;
+  url: string;
+  events: NotificationEventType[];
+  active: boolean;
+  createdAt: string;
+  deliveries: WebhookDeliveryListItem[];
+}
@@ -0,0 +1,48 @@
+import type {
+  ReleaseDetectionFormData,
+  ReleaseDetectionSettings,
+} from "~/lib/schemas/release-detection";
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+// 未設定の場合の初期値（リリースのタグをそのままラベルとして使う）
+const EMPTY_FORM: ReleaseDetectionFormData = {
+  repository: "",
+  releaseLabel: "{tag}",
+  pathRules: [],
+};
+
+/**
+ * 保存した設定をフォームの値にする
+ */
+export const toReleaseDetectionForm = (
+  settings: ReleaseDetectionSettings | null,
+): ReleaseDetectionFormData =>
+  settings
+    ? {
+        ...settings,
+        pathRules: settings.pathRules.map((rule) => ({
+          pattern: rule.pattern,
+          folders: rule.folders.join(", "),
+          tags: rule.tags.join(", "),
+        })),
+      }
+    : EMPTY_FORM;
+
+/**
+ * フォームの値を保存する設定にする
+ */
+export const toReleaseDetectionSettings = (
+  form: ReleaseDetectionFormData,
+): ReleaseDetectionSettings => ({
+  ...form,
+  pathRules: form.pathRules.map((rule) => ({
+    pattern: rule.pattern,
+    folders: splitList(rule.folders),
+    tags: splitList(rule.tags),
+  })),
+});
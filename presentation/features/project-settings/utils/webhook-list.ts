@@ -0,0 +1,65 @@
+import type { WebhookDelivery, WebhookOverview } from "@domain/models/webhook";
+import type { NotificationEventType } from "~/lib/schemas/notification";
+import type { WebhookDeliveryStatus } from "~/lib/schemas/webhook";
+import type {
+  WebhookDeliveryListItem,
+  WebhookListItem,
+} from "../types/project-settings-types";
+
+/**
+ * Webhook で送るイベントの表示名（選べる順）
+ */
+export const WEBHOOK_EVENT_LABELS: Record<NotificationEventType, string> = {
+  run_started: "テストランの開始",
+  item_failed: "テストケースの失敗",
+  automated_results_recorded: "自動テストの結果の取り込み",
+  run_awaiting_approval: "承認待ち",
+  run_approved: "承認",
+  run_sent_back: "差し戻し",
+  run_completed: "テストランの完了",
+};
+
+/**
+ * 配信の状態の表示名
+ */
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<
+  WebhookDeliveryStatus,
+  string
+> = {
+  pending: "再試行待ち",
+  succeeded: "成功",
+  failed: "失敗",
+};
+
+const toDeliveryListItem = (
+  delivery: WebhookDelivery,
+): WebhookDeliveryListItem => ({
+  id: delivery.id,
+  event: delivery.event,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  createdAt: delivery.createdAt.toISOString(),
+  lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+  nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+  responseStatus: delivery.responseStatus,
+  responseBody: delivery.responseBody,
+  error: delivery.error,
+  durationMs: delivery.durationMs,
+  redelivery: delivery.redeliveryOfId !== null,
+  payload: delivery.payload,
+});
+
+/**
+ * 購読と最近の配信を画面に表示する形にする
+ */
+export const toWebhookListItem = ({
+  subscription,
+  deliveries,
+}: WebhookOverview): WebhookListItem => ({
+  id: subscription.id,
+  url: subscription.url,
+  events: subscription.events,
+  active: subscription.active,
+  createdAt: subscription.createdAt.toISOString(),
+  deliveries: deliveries.map(toDeliveryListItem),
+});
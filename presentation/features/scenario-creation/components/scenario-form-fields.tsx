@@ -0,0 +1,92 @@
+import type { UseFormReturn } from "react-hook-form";
+import { Input } from "~/components/ui/input";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { TextEditor } from "~/features/text-editor";
+import { TagInput } from "./tag-input";
+import type { ScenarioFormData } from "~/lib/schemas/scenario";
+import type { Tag } from "../types/scenario-types";
+
+interface ScenarioFormFieldsProps {
+  form: UseFormReturn<ScenarioFormData>;
+  availableTags: Tag[];
+}
+
+/**
+ * シナリオの作成・編集で共通のフォーム項目
+ */
+export function ScenarioFormFields({
+  form,
+  availableTags,
+}: ScenarioFormFieldsProps) {
+  return (
+    <>
+      {/* タイトル */}
+      <FormField
+        control={form.control}
+        name="title"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              タイトル <span className="text-destructive">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input
+                placeholder="シナリオタイトルを入力してください"
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {/* 説明（TextEditor） */}
+      <FormField
+        control={form.control}
+        name="description"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>説明（任意）</FormLabel>
+            <FormControl>
+              <TextEditor
+                content={field.value}
+                onChange={field.onChange}
+                placeholder="シナリオの詳細を入力してください..."
+                showToolbar={true}
+                enableVoiceInput={false}
+              />
+            </FormControl>
+            <FormDescription>Markdown形式で入力できます</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {/* タグ */}
+      <FormField
+        control={form.control}
+        name="tags"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>タグ（最大5個）</FormLabel>
+            <FormControl>
+              <TagInput
+                value={field.value}
+                onChange={field.onChange}
+                availableTags={availableTags}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
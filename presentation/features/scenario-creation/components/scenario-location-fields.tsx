@@ -0,0 +1,162 @@
+import type { UseFormReturn } from "react-hook-form";
+import { Input } from "~/components/ui/input";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { scenarioEnvironmentSchema } from "~/lib/schemas/scenario";
+import type { ScenarioFormData } from "~/lib/schemas/scenario";
+import type { ScenarioCreationOptions } from "../types/scenario-types";
+
+const ENVIRONMENT_LABELS: Record<ScenarioFormData["environment"], string> = {
+  production: "本番環境",
+  staging: "ステージング",
+};
+
+interface ScenarioLocationFieldsProps {
+  form: UseFormReturn<ScenarioFormData>;
+  options: ScenarioCreationOptions;
+}
+
+/**
+ * シナリオの配置（プロジェクト・環境・フォルダー・ID）の入力欄（作成時のみ）
+ */
+export function ScenarioLocationFields({
+  form,
+  options,
+}: ScenarioLocationFieldsProps) {
+  const project = options.projects.find(
+    ({ key }) => key === form.watch("project"),
+  );
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <FormField
+        control={form.control}
+        name="project"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              プロジェクト <span className="text-destructive">*</span>
+            </FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(key) => {
+                field.onChange(key);
+                // 選んだプロジェクトにない環境は選び直す
+                const environments =
+                  options.projects.find((option) => option.key === key)
+                    ?.environments ?? [];
+                if (!environments.includes(form.getValues("environment"))) {
+                  form.setValue("environment", environments[0] ?? "production");
+                }
+              }}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="プロジェクトを選択" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {options.projects.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="environment"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              環境 <span className="text-destructive">*</span>
+            </FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(value) =>
+                field.onChange(scenarioEnvironmentSchema.parse(value))
+              }
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {(
+                  project?.environments ?? scenarioEnvironmentSchema.options
+                ).map((environment) => (
+                  <SelectItem key={environment} value={environment}>
+                    {ENVIRONMENT_LABELS[environment]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="category"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              フォルダー <span className="text-destructive">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input
+                placeholder="auth"
+                list="scenario-category-options"
+                {...field}
+              />
+            </FormControl>
+            <datalist id="scenario-category-options">
+              {options.categories.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+            <FormDescription>既存のフォルダーか新しい名前</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="scenarioId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              シナリオ ID <span className="text-destructive">*</span>
+            </FormLabel>
+            <FormControl>
+              <Input placeholder="auth-login-001" {...field} />
+            </FormControl>
+            <FormDescription>英小文字・数字・ハイフン</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
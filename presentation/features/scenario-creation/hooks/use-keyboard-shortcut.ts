@@ -5,9 +5,18 @@ import { useEffect } from "react";
  *
  * @param key - ショートカットキー（例: "c"）
  * @param callback - キーが押されたときに実行される関数
+ * @param enabled - false の場合はショートカットを無効にする
  */
-export function useKeyboardShortcut(key: string, callback: () => void) {
+export function useKeyboardShortcut(
+  key: string,
+  callback: () => void,
+  enabled = true,
+) {
   useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
     const handleKeyDown = (e: KeyboardEvent) => {
       // input/textarea 内では無視
       if (
@@ -34,5 +43,5 @@ export function useKeyboardShortcut(key: string, callback: () => void) {
     return () => {
       document.removeEventListener("keydown", handleKeyDown);
     };
-  }, [key, callback]);
+  }, [key, callback, enabled]);
 }
@@ -1,58 +1,75 @@
+import { useEffect } from "react";
+import { useFetcher } from "react-router";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { scenarioSchema } from "~/lib/schemas/scenario";
-import { createScenarioMock } from "~/lib/mock-data/scenario-mock";
-import type { ScenarioFormData } from "~/lib/schemas/scenario";
+import type { ScenarioAction, ScenarioFormData } from "~/lib/schemas/scenario";
+import type {
+  ScenarioCreateResult,
+  ScenarioCreationOptions,
+} from "../types/scenario-types";
 
 interface UseScenarioFormReturn {
   form: ReturnType<typeof useForm<ScenarioFormData>>;
-  handleSubmit: (data: ScenarioFormData) => Promise<void>;
+  handleSubmit: (data: ScenarioFormData) => void;
   isSubmitting: boolean;
 }
 
-export function useScenarioForm(onSuccess?: () => void): UseScenarioFormReturn {
+/**
+ * シナリオ作成フォームのフック
+ *
+ * シナリオ一覧の action（intent: create）に送信し、Git にコミットする
+ */
+export function useScenarioForm(
+  options: ScenarioCreationOptions,
+  onSuccess?: () => void,
+): UseScenarioFormReturn {
+  const fetcher = useFetcher<ScenarioCreateResult>();
+  const [project] = options.projects;
+
   const form = useForm<ScenarioFormData>({
     resolver: zodResolver(scenarioSchema),
     defaultValues: {
       title: "",
       description: "",
       tags: [],
-      folderId: undefined,
+      project: project?.key ?? "",
+      environment: project?.environments[0] ?? "production",
+      category: "",
+      scenarioId: "",
     },
   });
 
-  const handleSubmit = async (data: ScenarioFormData) => {
-    try {
-      await createScenarioMock(data);
-
-      // TODO: Toast 通知（成功）
-      console.log("シナリオを作成しました");
-
-      // フォームをリセット
-      form.reset();
-
-      // 成功コールバック
-      if (onSuccess) {
-        onSuccess();
-      }
-    } catch (error) {
-      // TODO: Toast 通知（エラー）
-      console.error("シナリオの作成に失敗しました:", error);
-
-      // エラーをフォームに表示
-      form.setError("root", {
-        type: "manual",
-        message:
-          error instanceof Error
-            ? error.message
-            : "シナリオの作成に失敗しました",
-      });
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+
+    switch (fetcher.data.status) {
+      case "created":
+        form.reset();
+        onSuccess?.();
+        break;
+      case "error":
+        form.setError("root", {
+          type: "manual",
+          message: fetcher.data.message,
+        });
+        break;
     }
+  }, [fetcher.state, fetcher.data]);
+
+  const handleSubmit = (data: ScenarioFormData) => {
+    const request: ScenarioAction = { intent: "create", ...data };
+
+    void fetcher.submit(request, {
+      method: "post",
+      action: "/scenarios",
+      encType: "application/json",
+    });
   };
 
   return {
     form,
     handleSubmit,
-    isSubmitting: form.formState.isSubmitting,
+    isSubmitting: fetcher.state !== "idle",
   };
 }
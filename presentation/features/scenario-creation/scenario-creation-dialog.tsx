@@ -8,32 +8,24 @@ import {
   DialogClose,
 } from "~/components/ui/dialog";
 import { Button } from "~/components/ui/button";
-import { Input } from "~/components/ui/input";
-import {
-  Form,
-  FormControl,
-  FormDescription,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "~/components/ui/form";
-import { TextEditor } from "~/features/text-editor";
-import { TagInput } from "./components/tag-input";
-import { FolderSelect } from "./components/folder-select";
+import { Form } from "~/components/ui/form";
+import { ScenarioFormFields } from "./components/scenario-form-fields";
+import { ScenarioLocationFields } from "./components/scenario-location-fields";
 import { useScenarioForm } from "./hooks/use-scenario-form";
-import { MOCK_TAGS, MOCK_FOLDERS } from "~/lib/mock-data/scenario-mock";
+import type { ScenarioCreationOptions } from "./types/scenario-types";
 
 interface ScenarioCreationDialogProps {
+  options: ScenarioCreationOptions;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
 export function ScenarioCreationDialog({
+  options,
   open,
   onOpenChange,
 }: ScenarioCreationDialogProps) {
-  const { form, handleSubmit, isSubmitting } = useScenarioForm(() => {
+  const { form, handleSubmit, isSubmitting } = useScenarioForm(options, () => {
     // 成功時にダイアログを閉じる
     onOpenChange(false);
   });
@@ -53,84 +45,11 @@ export function ScenarioCreationDialog({
             onSubmit={form.handleSubmit(handleSubmit)}
             className="space-y-6"
           >
-            {/* タイトル */}
-            <FormField
-              control={form.control}
-              name="title"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>
-                    タイトル <span className="text-destructive">*</span>
-                  </FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="シナリオタイトルを入力してください"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* 説明（TextEditor） */}
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>説明（任意）</FormLabel>
-                  <FormControl>
-                    <TextEditor
-                      content={field.value}
-                      onChange={field.onChange}
-                      placeholder="シナリオの詳細を入力してください..."
-                      showToolbar={true}
-                      enableVoiceInput={false}
-                    />
-                  </FormControl>
-                  <FormDescription>Markdown形式で入力できます</FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* タグ */}
-            <FormField
-              control={form.control}
-              name="tags"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>タグ（最大5個）</FormLabel>
-                  <FormControl>
-                    <TagInput
-                      value={field.value}
-                      onChange={field.onChange}
-                      availableTags={MOCK_TAGS}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <ScenarioLocationFields form={form} options={options} />
 
-            {/* フォルダー */}
-            <FormField
-              control={form.control}
-              name="folderId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>フォルダー（任意）</FormLabel>
-                  <FormControl>
-                    <FolderSelect
-                      value={field.value}
-                      onChange={field.onChange}
-                      folders={MOCK_FOLDERS}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+            <ScenarioFormFields
+              form={form}
+              availableTags={options.tags.map((name) => ({ id: name, name }))}
             />
 
             {/* フォームエラー */}
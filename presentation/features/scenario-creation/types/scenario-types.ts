@@ -3,29 +3,30 @@
  */
 
 /**
- * ドメインモデル: テストシナリオ
+ * シナリオの配置先として選べるプロジェクト（環境はプロジェクトにあるもの）
  */
-export interface Scenario {
-  id: string;
-  title: string;
-  description: string; // Markdown content
-  tags: string[]; // Tag IDs or names
-  folderId?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  createdBy: string; // User ID
+export interface ScenarioProjectOption {
+  key: string;
+  name: string;
+  environments: ("production" | "staging")[];
 }
 
 /**
- * フォーム用データ（Zod スキーマと一致）
+ * シナリオ作成ダイアログの選択肢（フォルダー・タグは既存のシナリオのもの）
  */
-export interface ScenarioFormData {
-  title: string;
-  description: string;
+export interface ScenarioCreationOptions {
+  projects: ScenarioProjectOption[];
+  categories: string[];
   tags: string[];
-  folderId?: string;
 }
 
+/**
+ * 作成 action の結果
+ */
+export type ScenarioCreateResult =
+  | { status: "created"; scenarioId: string; version: string }
+  | { status: "error"; message: string };
+
 /**
  * タグ
  */
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { TextEditor } from "~/features/text-editor";
+import { cn } from "~/lib/utils";
+import { AlertTriangle } from "lucide-react";
+import { mergeTags, mergeValue } from "@domain/logic/three-way-merge";
+import type { MergeResult } from "@domain/logic/three-way-merge";
+import type {
+  ScenarioConflict,
+  ScenarioFields,
+} from "../types/scenario-edit-types";
+
+type Side = "base" | "theirs" | "mine";
+
+const SIDE_LABELS: Record<Side, string> = {
+  base: "元の版",
+  theirs: "最新版",
+  mine: "あなたの編集",
+};
+
+const SIDES: Side[] = ["base", "theirs", "mine"];
+
+interface ScenarioMergePanelProps {
+  conflict: ScenarioConflict;
+  mine: ScenarioFields;
+  onResolve: (merged: ScenarioFields) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 編集競合の 3-way マージパネル
+ *
+ * 片側だけの変更は自動で採用し、双方が変更した項目は利用者が版を選ぶ
+ */
+export function ScenarioMergePanel({
+  conflict,
+  mine,
+  onResolve,
+  onCancel,
+}: ScenarioMergePanelProps) {
+  const { base, current: theirs } = conflict;
+  const title = mergeValue(base.title, mine.title, theirs.title);
+  const description = mergeValue(
+    base.description,
+    mine.description,
+    theirs.description,
+  );
+  const tags = mergeTags(base.tags, mine.tags, theirs.tags);
+
+  const titles: Record<Side, string> = {
+    base: base.title,
+    theirs: theirs.title,
+    mine: mine.title,
+  };
+  const descriptions: Record<Side, string> = {
+    base: base.description,
+    theirs: theirs.description,
+    mine: mine.description,
+  };
+
+  const [titleSide, setTitleSide] = useState<Side>("mine");
+  const [descriptionSide, setDescriptionSide] = useState<Side>("mine");
+
+  const pick = (
+    result: MergeResult<string>,
+    values: Record<Side, string>,
+    side: Side,
+  ): string => (result.status === "resolved" ? result.value : values[side]);
+
+  const handleResolve = () => {
+    onResolve({
+      title: pick(title, titles, titleSide),
+      description: pick(description, descriptions, descriptionSide),
+      tags,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>他のユーザーがこのシナリオを更新しました</AlertTitle>
+        <AlertDescription>
+          最新版（{conflict.currentVersion.slice(0, 7)}
+          ）との差分を確認し、採用する内容を選んでください。
+        </AlertDescription>
+      </Alert>
+
+      {/* タイトル */}
+      <MergeField label="タイトル" result={title}>
+        {SIDES.map((side) => (
+          <MergeColumn
+            key={side}
+            side={side}
+            selectable={title.status === "conflict"}
+            selected={titleSide === side}
+            onSelect={() => setTitleSide(side)}
+          >
+            <p className="text-sm">{titles[side]}</p>
+          </MergeColumn>
+        ))}
+      </MergeField>
+
+      {/* 説明 */}
+      <MergeField label="説明" result={description}>
+        {SIDES.map((side) => (
+          <MergeColumn
+            key={side}
+            side={side}
+            selectable={description.status === "conflict"}
+            selected={descriptionSide === side}
+            onSelect={() => setDescriptionSide(side)}
+          >
+            <TextEditor
+              content={descriptions[side]}
+              editable={false}
+              showToolbar={false}
+              className="text-sm"
+            />
+          </MergeColumn>
+        ))}
+      </MergeField>
+
+      {/* タグ（集合として自動マージ） */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-medium">タグ</h3>
+          <Badge variant="secondary">自動マージ</Badge>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge
+              key={tag}
+              variant={base.tags.includes(tag) ? "outline" : "default"}
+            >
+              {tag}
+            </Badge>
+          ))}
+          {[...base.tags, ...theirs.tags, ...mine.tags]
+            .filter((tag, index, all) => all.indexOf(tag) === index)
+            .filter((tag) => !tags.includes(tag))
+            .map((tag) => (
+              <Badge key={tag} variant="outline" className="line-through">
+                {tag}
+              </Badge>
+            ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          キャンセル
+        </Button>
+        <Button type="button" onClick={handleResolve}>
+          この内容で編集を続ける
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface MergeFieldProps {
+  label: string;
+  result: MergeResult<string>;
+  children: React.ReactNode;
+}
+
+function MergeField({ label, result, children }: MergeFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-medium">{label}</h3>
+        {result.status === "resolved" ? (
+          <Badge variant="secondary">自動マージ</Badge>
+        ) : (
+          <Badge variant="destructive">競合</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2">{children}</div>
+    </div>
+  );
+}
+
+interface MergeColumnProps {
+  side: Side;
+  selectable: boolean;
+  selected: boolean;
+  onSelect: () => void;
+  children: React.ReactNode;
+}
+
+function MergeColumn({
+  side,
+  selectable,
+  selected,
+  onSelect,
+  children,
+}: MergeColumnProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-2 space-y-1 min-w-0",
+        selectable && selected && "border-primary ring-1 ring-primary",
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {SIDE_LABELS[side]}
+        </span>
+        {selectable && (
+          <Button
+            type="button"
+            size="sm"
+            variant={selected ? "default" : "ghost"}
+            className="h-6 px-2 text-xs"
+            onClick={onSelect}
+          >
+            {selected ? "採用中" : "採用"}
+          </Button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { scenarioSchema } from "~/lib/schemas/scenario";
+import type { ScenarioAction, ScenarioFormData } from "~/lib/schemas/scenario";
+import type {
+  ScenarioConflict,
+  ScenarioFields,
+  ScenarioListItem,
+  ScenarioUpdateResult,
+} from "../types/scenario-edit-types";
+
+interface UseScenarioEditFormReturn {
+  form: ReturnType<typeof useForm<ScenarioFormData>>;
+  handleSubmit: (data: ScenarioFormData) => void;
+  isSubmitting: boolean;
+  baseVersion: string;
+  conflict: ScenarioConflict | null;
+  resolveConflict: (merged: ScenarioFields) => void;
+  discardConflict: () => void;
+}
+
+/**
+ * シナリオ編集フォームのフック
+ *
+ * 編集開始時のバージョンを base_version として送信し、
+ * 競合（409）の場合はマージ用の情報を保持する
+ */
+export function useScenarioEditForm(
+  scenario: ScenarioListItem,
+  onSuccess?: () => void,
+): UseScenarioEditFormReturn {
+  const fetcher = useFetcher<ScenarioUpdateResult>();
+  const [baseVersion, setBaseVersion] = useState(scenario.version);
+  const [conflict, setConflict] = useState<ScenarioConflict | null>(null);
+
+  const form = useForm<ScenarioFormData>({
+    resolver: zodResolver(scenarioSchema),
+    defaultValues: {
+      title: scenario.title,
+      description: scenario.description,
+      tags: scenario.tags,
+      // 配置は変更しない（フォームの検証のために元の値を入れておく）
+      project: scenario.project,
+      environment: scenario.environment,
+      category: scenario.category,
+      scenarioId: scenario.id,
+    },
+  });
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+
+    switch (fetcher.data.status) {
+      case "updated":
+        onSuccess?.();
+        break;
+      case "conflict":
+        setConflict(fetcher.data.conflict);
+        break;
+      case "error":
+        form.setError("root", {
+          type: "manual",
+          message: fetcher.data.message,
+        });
+        break;
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const handleSubmit = (data: ScenarioFormData) => {
+    const request: ScenarioAction = {
+      intent: "update",
+      scenarioId: scenario.id,
+      base_version: baseVersion,
+      title: data.title,
+      description: data.description,
+      tags: data.tags,
+    };
+
+    void fetcher.submit(request, {
+      method: "post",
+      action: "/scenarios",
+      encType: "application/json",
+    });
+  };
+
+  /**
+   * マージ結果をフォームに反映し、最新版を新しい base_version とする
+   */
+  const resolveConflict = (merged: ScenarioFields) => {
+    if (!conflict) return;
+
+    form.reset({ ...form.getValues(), ...merged });
+    setBaseVersion(conflict.currentVersion);
+    setConflict(null);
+  };
+
+  const discardConflict = () => setConflict(null);
+
+  return {
+    form,
+    handleSubmit,
+    isSubmitting: fetcher.state !== "idle",
+    baseVersion,
+    conflict,
+    resolveConflict,
+    discardConflict,
+  };
+}
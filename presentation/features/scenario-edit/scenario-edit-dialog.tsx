@@ -0,0 +1,101 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Form } from "~/components/ui/form";
+import { ScenarioFormFields } from "~/features/scenario-creation/components/scenario-form-fields";
+import type { Tag } from "~/features/scenario-creation/types/scenario-types";
+import { ScenarioMergePanel } from "./components/scenario-merge-panel";
+import { useScenarioEditForm } from "./hooks/use-scenario-edit-form";
+import type { ScenarioListItem } from "./types/scenario-edit-types";
+
+interface ScenarioEditDialogProps {
+  scenario: ScenarioListItem;
+  availableTags: Tag[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ScenarioEditDialog({
+  scenario,
+  availableTags,
+  open,
+  onOpenChange,
+}: ScenarioEditDialogProps) {
+  const {
+    form,
+    handleSubmit,
+    isSubmitting,
+    baseVersion,
+    conflict,
+    resolveConflict,
+    discardConflict,
+  } = useScenarioEditForm(scenario, () => {
+    // 成功時にダイアログを閉じる
+    onOpenChange(false);
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>シナリオを編集</DialogTitle>
+          <DialogDescription>
+            {scenario.id}（版 {baseVersion.slice(0, 7)}）
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict ? (
+          <ScenarioMergePanel
+            conflict={conflict}
+            mine={form.getValues()}
+            onResolve={resolveConflict}
+            onCancel={discardConflict}
+          />
+        ) : (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(handleSubmit)}
+              className="space-y-6"
+            >
+              {/* マージ後は説明エディタを作り直して内容を反映する */}
+              <ScenarioFormFields
+                key={baseVersion}
+                form={form}
+                availableTags={availableTags}
+              />
+
+              {/* フォームエラー */}
+              {form.formState.errors.root && (
+                <div className="text-sm text-destructive">
+                  {form.formState.errors.root.message}
+                </div>
+              )}
+
+              <DialogFooter>
+                <DialogClose asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={isSubmitting}
+                  >
+                    キャンセル
+                  </Button>
+                </DialogClose>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "保存中..." : "保存"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
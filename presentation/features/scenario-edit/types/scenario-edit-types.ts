@@ -0,0 +1,41 @@
+/**
+ * シナリオ編集機能の型定義
+ */
+
+/**
+ * 編集（マージ）対象の項目
+ */
+export interface ScenarioFields {
+  title: string;
+  description: string; // Markdown content
+  tags: string[];
+}
+
+/**
+ * 一覧・編集ダイアログに渡すシナリオ
+ */
+export interface ScenarioListItem extends ScenarioFields {
+  id: string;
+  project: string;
+  environment: "production" | "staging";
+  category: string;
+  version: string; // commit SHA
+}
+
+/**
+ * 編集中に他のユーザーが更新した場合の競合情報
+ */
+export interface ScenarioConflict {
+  baseVersion: string; // 編集開始時の版
+  currentVersion: string; // 現在の版
+  base: ScenarioFields;
+  current: ScenarioFields;
+}
+
+/**
+ * 更新 action の結果（競合時は 409）
+ */
+export type ScenarioUpdateResult =
+  | { status: "updated"; version: string }
+  | { status: "conflict"; conflict: ScenarioConflict }
+  | { status: "error"; message: string };
@@ -0,0 +1,217 @@
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { TextEditor } from "~/features/text-editor";
+import { cn } from "~/lib/utils";
+import { diffList } from "@domain/logic/list-diff";
+import type { ListDiffEntry } from "@domain/logic/list-diff";
+import type { ScenarioSnapshot } from "../types/scenario-history-types";
+
+const IMPORTANCE_LABELS: Record<ScenarioSnapshot["defaultImportance"], string> =
+  {
+    low: "低",
+    medium: "中",
+    high: "高",
+    critical: "最重要",
+  };
+
+interface ScenarioVersionDiffProps {
+  from: ScenarioSnapshot;
+  to: ScenarioSnapshot;
+}
+
+/**
+ * シナリオの2つの版を左右に並べて比較する
+ */
+export function ScenarioVersionDiff({ from, to }: ScenarioVersionDiffProps) {
+  const placement = (snapshot: ScenarioSnapshot) =>
+    `${snapshot.project} / ${snapshot.environment} / ${snapshot.category}`;
+  const duration = (snapshot: ScenarioSnapshot) =>
+    snapshot.estimatedDurationMinutes
+      ? `${snapshot.estimatedDurationMinutes}分`
+      : "-";
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl">版の比較</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* ヘッダー（比較元 A / 比較先 B） */}
+        <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 text-sm font-medium">
+          <div />
+          <div>
+            A: <span className="font-mono">{from.version.slice(0, 7)}</span>
+          </div>
+          <div>
+            B: <span className="font-mono">{to.version.slice(0, 7)}</span>
+          </div>
+        </div>
+
+        <ValueRow label="タイトル" from={from.title} to={to.title} />
+
+        <DiffRow
+          label="説明"
+          changed={from.description !== to.description}
+          left={
+            <TextEditor
+              key={from.version}
+              content={from.description}
+              editable={false}
+              showToolbar={false}
+            />
+          }
+          right={
+            <TextEditor
+              key={to.version}
+              content={to.description}
+              editable={false}
+              showToolbar={false}
+            />
+          }
+        />
+
+        <ListRow label="タグ" from={from.tags} to={to.tags} />
+        <ListRow
+          label="前提条件"
+          from={from.preconditions}
+          to={to.preconditions}
+        />
+        <ListRow label="テスト手順" from={from.steps} to={to.steps} ordered />
+        <ListRow
+          label="期待結果"
+          from={from.expectedResults}
+          to={to.expectedResults}
+        />
+
+        <ValueRow
+          label="重要度"
+          from={IMPORTANCE_LABELS[from.defaultImportance]}
+          to={IMPORTANCE_LABELS[to.defaultImportance]}
+        />
+        <ValueRow
+          label="必須"
+          from={from.requiredByDefault ? "必須" : "任意"}
+          to={to.requiredByDefault ? "必須" : "任意"}
+        />
+        <ValueRow label="想定時間" from={duration(from)} to={duration(to)} />
+        <ValueRow label="配置" from={placement(from)} to={placement(to)} />
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DiffRowProps {
+  label: string;
+  changed: boolean;
+  left: React.ReactNode;
+  right: React.ReactNode;
+}
+
+function DiffRow({ label, changed, left, right }: DiffRowProps) {
+  return (
+    <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 border-t pt-4">
+      <div className="flex flex-col gap-1 text-sm font-medium">
+        {label}
+        {changed && (
+          <Badge variant="secondary" className="w-fit">
+            変更あり
+          </Badge>
+        )}
+      </div>
+      <div
+        className={cn(
+          "min-w-0 rounded-md p-2 text-sm",
+          changed && "bg-red-50 dark:bg-red-950/30",
+        )}
+      >
+        {left}
+      </div>
+      <div
+        className={cn(
+          "min-w-0 rounded-md p-2 text-sm",
+          changed && "bg-green-50 dark:bg-green-950/30",
+        )}
+      >
+        {right}
+      </div>
+    </div>
+  );
+}
+
+interface ValueRowProps {
+  label: string;
+  from: string;
+  to: string;
+}
+
+function ValueRow({ label, from, to }: ValueRowProps) {
+  return <DiffRow label={label} changed={from !== to} left={from} right={to} />;
+}
+
+interface ListRowProps {
+  label: string;
+  from: string[];
+  to: string[];
+  ordered?: boolean;
+}
+
+/**
+ * リスト項目の行単位の差分（A 側に削除、B 側に追加を強調表示）
+ */
+function ListRow({ label, from, to, ordered = false }: ListRowProps) {
+  const entries = diffList(from, to);
+  const changed = entries.some((entry) => entry.type !== "unchanged");
+
+  return (
+    <DiffRow
+      label={label}
+      changed={changed}
+      left={
+        <DiffList
+          entries={entries.filter((entry) => entry.type !== "added")}
+          ordered={ordered}
+        />
+      }
+      right={
+        <DiffList
+          entries={entries.filter((entry) => entry.type !== "removed")}
+          ordered={ordered}
+        />
+      }
+    />
+  );
+}
+
+function DiffList({
+  entries,
+  ordered,
+}: {
+  entries: ListDiffEntry[];
+  ordered: boolean;
+}) {
+  if (entries.length === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  const List = ordered ? "ol" : "ul";
+
+  return (
+    <List
+      className={cn("space-y-1 pl-5", ordered ? "list-decimal" : "list-disc")}
+    >
+      {entries.map((entry, index) => (
+        <li
+          key={`${index}-${entry.value}`}
+          className={cn(
+            entry.type === "removed" &&
+              "text-red-700 line-through dark:text-red-400",
+            entry.type === "added" &&
+              "font-medium text-green-700 dark:text-green-400",
+          )}
+        >
+          {entry.value}
+        </li>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,103 @@
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Button } from "~/components/ui/button";
+import { formatShortDateTime } from "~/features/dashboard/utils/chart-config";
+import { cn } from "~/lib/utils";
+import type { ScenarioVersionItem } from "../types/scenario-history-types";
+
+interface ScenarioVersionListProps {
+  versions: ScenarioVersionItem[];
+  fromVersion: string;
+  toVersion: string;
+  onCompare: (fromVersion: string, toVersion: string) => void;
+}
+
+/**
+ * シナリオの版の一覧（比較元・比較先を選択する）
+ */
+export function ScenarioVersionList({
+  versions,
+  fromVersion,
+  toVersion,
+  onCompare,
+}: ScenarioVersionListProps) {
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl">変更履歴</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">版</TableHead>
+                <TableHead>メッセージ</TableHead>
+                <TableHead>作成者</TableHead>
+                <TableHead>日時</TableHead>
+                <TableHead className="w-32 text-center">比較</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => {
+                const isFrom = version.version === fromVersion;
+                const isTo = version.version === toVersion;
+
+                return (
+                  <TableRow
+                    key={version.version}
+                    className={cn((isFrom || isTo) && "bg-accent/50")}
+                  >
+                    <TableCell className="font-mono text-xs">
+                      {version.version.slice(0, 7)}
+                    </TableCell>
+                    <TableCell>{version.message}</TableCell>
+                    <TableCell>
+                      <span title={version.authorEmail}>
+                        {version.authorName}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatShortDateTime(version.committedAt)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-center gap-1">
+                        <Button
+                          size="sm"
+                          variant={isFrom ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() => onCompare(version.version, toVersion)}
+                          aria-label={`${version.version.slice(0, 7)} を比較元にする`}
+                        >
+                          A
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={isTo ? "default" : "outline"}
+                          className="h-7 px-2 text-xs"
+                          onClick={() =>
+                            onCompare(fromVersion, version.version)
+                          }
+                          aria-label={`${version.version.slice(0, 7)} を比較先にする`}
+                        >
+                          B
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * シナリオ履歴機能の型定義
+ */
+
+/**
+ * 版の一覧の1行（シナリオを変更した commit）
+ */
+export interface ScenarioVersionItem {
+  version: string; // commit SHA
+  authorName: string;
+  authorEmail: string;
+  committedAt: string; // ISO 8601
+  message: string;
+}
+
+/**
+ * ある版のシナリオの内容
+ */
+export interface ScenarioSnapshot {
+  version: string;
+  project: string;
+  environment: "production" | "staging";
+  category: string;
+  title: string;
+  description: string; // Markdown content
+  tags: string[];
+  preconditions: string[];
+  steps: string[];
+  expectedResults: string[];
+  defaultImportance: "low" | "medium" | "high" | "critical";
+  requiredByDefault: boolean;
+  estimatedDurationMinutes?: number;
+}
@@ -0,0 +1,75 @@
+import { useFetcher } from "react-router";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "~/components/ui/alert-dialog";
+import { Button } from "~/components/ui/button";
+import { Archive } from "lucide-react";
+import type { ScenarioAction } from "~/lib/schemas/scenario";
+import type { ScenarioArchiveResult } from "../types/scenario-list-types";
+
+interface ArchiveScenarioButtonProps {
+  scenarioId: string;
+  title: string;
+}
+
+/**
+ * アーカイブボタン（確認ダイアログ付き）
+ */
+export function ArchiveScenarioButton({
+  scenarioId,
+  title,
+}: ArchiveScenarioButtonProps) {
+  const fetcher = useFetcher<ScenarioArchiveResult>();
+
+  const handleArchive = () => {
+    const action: ScenarioAction = { intent: "archive", scenarioId };
+    void fetcher.submit(action, {
+      method: "post",
+      action: "/scenarios",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={fetcher.state !== "idle"}
+            aria-label={`${title}をアーカイブ`}
+          >
+            <Archive className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>シナリオをアーカイブしますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{title}
+              」を一覧から非表示にします。過去のテストランからは引き続き参照でき、アーカイブ済みタブから復元できます。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={handleArchive}>
+              アーカイブ
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {fetcher.data?.status === "error" && (
+        <p className="text-xs text-destructive">{fetcher.data.message}</p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { ArchiveRestore } from "lucide-react";
+import type { ScenarioAction } from "~/lib/schemas/scenario";
+import type { ScenarioArchiveResult } from "../types/scenario-list-types";
+
+interface RestoreScenarioButtonProps {
+  scenarioId: string;
+}
+
+/**
+ * アーカイブ済みのシナリオを復元するボタン
+ */
+export function RestoreScenarioButton({
+  scenarioId,
+}: RestoreScenarioButtonProps) {
+  const fetcher = useFetcher<ScenarioArchiveResult>();
+
+  const handleRestore = () => {
+    const action: ScenarioAction = { intent: "restore", scenarioId };
+    void fetcher.submit(action, {
+      method: "post",
+      action: "/scenarios",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={handleRestore}
+        disabled={fetcher.state !== "idle"}
+      >
+        <ArchiveRestore className="h-4 w-4" />
+        復元
+      </Button>
+      {fetcher.data?.status === "error" && (
+        <p className="text-xs text-destructive">{fetcher.data.message}</p>
+      )}
+    </>
+  );
+}
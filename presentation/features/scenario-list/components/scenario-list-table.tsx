@@ -0,0 +1,125 @@
+import { Link } from "react-router";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Pencil } from "lucide-react";
+import { ArchiveScenarioButton } from "./archive-scenario-button";
+import { RestoreScenarioButton } from "./restore-scenario-button";
+import type { ScenarioListItem } from "~/features/scenario-edit/types/scenario-edit-types";
+
+const ENVIRONMENT_LABELS: Record<ScenarioListItem["environment"], string> = {
+  production: "本番環境",
+  staging: "ステージング",
+};
+
+interface ScenarioListTableProps {
+  scenarios: ScenarioListItem[];
+  archived?: boolean; // アーカイブ済みの一覧（編集不可、復元のみ）
+  canArchive: boolean;
+  onEdit?: (scenario: ScenarioListItem) => void;
+}
+
+export function ScenarioListTable({
+  scenarios,
+  archived = false,
+  canArchive,
+  onEdit,
+}: ScenarioListTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>シナリオ ID</TableHead>
+            <TableHead>タイトル</TableHead>
+            <TableHead>プロジェクト</TableHead>
+            <TableHead>環境</TableHead>
+            <TableHead>フォルダー</TableHead>
+            <TableHead>タグ</TableHead>
+            <TableHead>版</TableHead>
+            <TableHead className="w-28" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {scenarios.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={8}
+                className="text-center py-8 text-muted-foreground"
+              >
+                {archived
+                  ? "アーカイブ済みのシナリオはありません"
+                  : "シナリオがありません"}
+              </TableCell>
+            </TableRow>
+          ) : (
+            scenarios.map((scenario) => (
+              <TableRow key={scenario.id}>
+                <TableCell className="font-mono text-xs">
+                  {scenario.id}
+                </TableCell>
+                <TableCell className="font-medium">
+                  <Link
+                    to={`/scenarios/${scenario.id}`}
+                    className="hover:underline"
+                  >
+                    {scenario.title}
+                  </Link>
+                </TableCell>
+                <TableCell>{scenario.project}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">
+                    {ENVIRONMENT_LABELS[scenario.environment]}
+                  </Badge>
+                </TableCell>
+                <TableCell>{scenario.category}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {scenario.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {scenario.version.slice(0, 7)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    {onEdit && !archived && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(scenario)}
+                        aria-label={`${scenario.title}を編集`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canArchive &&
+                      (archived ? (
+                        <RestoreScenarioButton scenarioId={scenario.id} />
+                      ) : (
+                        <ArchiveScenarioButton
+                          scenarioId={scenario.id}
+                          title={scenario.title}
+                        />
+                      ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * シナリオ一覧機能の型定義
+ */
+
+/**
+ * アーカイブ・復元 action の結果
+ */
+export type ScenarioArchiveResult =
+  | { status: "archived" | "restored"; version: string }
+  | { status: "error"; message: string };
@@ -0,0 +1,93 @@
+import type { UseFormReturn } from "react-hook-form";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import type { Assignee, CreateTestRunRequest } from "~/lib/schemas/test-run";
+
+interface AssignmentStepProps {
+  form: UseFormReturn<CreateTestRunRequest>;
+  executors: Assignee[];
+}
+
+/**
+ * 手順4: 担当者（テストを実行できるユーザー）と期限
+ */
+export function AssignmentStep({ form, executors }: AssignmentStepProps) {
+  return (
+    <div className="space-y-6">
+      <FormField
+        control={form.control}
+        name="assigneeIds"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>担当者</FormLabel>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {executors.map((executor) => {
+                const id = `assignee-${executor.id}`;
+                return (
+                  <div
+                    key={executor.id}
+                    className="flex items-center gap-3 rounded-md border p-3"
+                  >
+                    <Checkbox
+                      id={id}
+                      checked={field.value.includes(executor.id)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked === true
+                            ? [...field.value, executor.id]
+                            : field.value.filter(
+                                (assigneeId) => assigneeId !== executor.id,
+                              ),
+                        )
+                      }
+                    />
+                    <Avatar className="h-7 w-7">
+                      {executor.avatar && <AvatarImage src={executor.avatar} />}
+                      <AvatarFallback className="text-xs">
+                        {executor.name.slice(0, 1)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <Label htmlFor={id} className="font-normal">
+                      {executor.name}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="dueAt"
+        render={({ field }) => (
+          <FormItem className="max-w-xs">
+            <FormLabel>期限</FormLabel>
+            <FormControl>
+              <Input
+                type="date"
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            </FormControl>
+            <FormDescription>任意</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { ListChecks } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "~/components/ui/collapsible";
+import { IssueSummary } from "~/features/linear-issues/components/issue-summary";
+import { useReleaseIssues } from "~/features/linear-issues/hooks/use-release-issues";
+
+interface IssueSuggestionPanelProps {
+  projectId: string;
+  releaseId: string;
+  onApply: (scenarioIds: string[]) => void;
+}
+
+/**
+ * リリースが参照する Linear の Issue のラベルから提案したシナリオ
+ * （Issue ごと、またはまとめて選択する）
+ */
+export function IssueSuggestionPanel({
+  projectId,
+  releaseId,
+  onApply,
+}: IssueSuggestionPanelProps) {
+  const { loading, releaseIssues, error } = useReleaseIssues(
+    projectId,
+    releaseId,
+  );
+
+  if (loading) {
+    return (
+      <p className="rounded-md border p-3 text-sm text-muted-foreground">
+        リリースの Linear の Issue を取得しています...
+      </p>
+    );
+  }
+  if (!releaseIssues) {
+    return (
+      <p className="rounded-md border p-3 text-sm text-muted-foreground">
+        Linear の Issue を取得できません: {error}
+      </p>
+    );
+  }
+  if (releaseIssues.issues.length === 0) return null;
+
+  const { issues, suggestions } = releaseIssues;
+  const suggestedIds = [
+    ...new Set(suggestions.flatMap(({ scenarioIds }) => scenarioIds)),
+  ];
+
+  return (
+    <Collapsible className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <ListChecks className="h-4 w-4 text-primary" />
+        <span className="text-sm">
+          Linear の Issue {issues.length}件のラベルから シナリオ
+          {suggestedIds.length}件を提案
+        </span>
+        <div className="ml-auto flex gap-2">
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm">
+              詳細
+            </Button>
+          </CollapsibleTrigger>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={suggestedIds.length === 0}
+            onClick={() => onApply(suggestedIds)}
+          >
+            提案を選択
+          </Button>
+        </div>
+      </div>
+      <CollapsibleContent className="space-y-3">
+        {issues.map((issue) => {
+          const scenarioIds =
+            suggestions.find(
+              ({ identifier }) => identifier === issue.identifier,
+            )?.scenarioIds ?? [];
+          return (
+            <div key={issue.identifier} className="flex items-start gap-2">
+              <div className="min-w-0 flex-1">
+                <IssueSummary issue={issue} />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={scenarioIds.length === 0}
+                onClick={() => onApply(scenarioIds)}
+              >
+                {scenarioIds.length}件を選択
+              </Button>
+            </div>
+          );
+        })}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
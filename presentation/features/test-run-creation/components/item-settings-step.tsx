@@ -0,0 +1,111 @@
+import type { UseFormReturn } from "react-hook-form";
+import { Switch } from "~/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { FormField } from "~/components/ui/form";
+import { IMPORTANCE_LABELS } from "~/features/test-run/utils/importance-labels";
+import { importanceSchema } from "~/lib/schemas/test-run";
+import type { CreateTestRunRequest } from "~/lib/schemas/test-run";
+import type { ScenarioOption } from "../types/test-run-creation-types";
+
+interface ItemSettingsStepProps {
+  form: UseFormReturn<CreateTestRunRequest>;
+  scenarios: ScenarioOption[];
+}
+
+/**
+ * 手順3: アイテムごとの重要度と必須・任意（初期値はシナリオの既定値）
+ */
+export function ItemSettingsStep({ form, scenarios }: ItemSettingsStepProps) {
+  const items = form.watch("items");
+  const scenarioById = new Map(
+    scenarios.map((scenario) => [scenario.id, scenario]),
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        必須のテストケースは、実行するまで完了条件を判定しません
+      </p>
+      <div className="rounded-md border max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>シナリオ</TableHead>
+              <TableHead>フォルダー</TableHead>
+              <TableHead className="w-40">重要度</TableHead>
+              <TableHead className="w-20">必須</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => {
+              const scenario = scenarioById.get(item.scenarioId);
+              return (
+                <TableRow key={item.scenarioId}>
+                  <TableCell className="font-medium">
+                    {scenario?.title ?? item.scenarioId}
+                  </TableCell>
+                  <TableCell>{scenario?.folder}</TableCell>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.importance`}
+                      render={({ field }) => (
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) =>
+                            field.onChange(importanceSchema.parse(value))
+                          }
+                        >
+                          <SelectTrigger
+                            className="w-full"
+                            aria-label={`${scenario?.title ?? item.scenarioId}の重要度`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {importanceSchema.options.map((importance) => (
+                              <SelectItem key={importance} value={importance}>
+                                {IMPORTANCE_LABELS[importance]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.required`}
+                      render={({ field }) => (
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          aria-label={`${scenario?.title ?? item.scenarioId}を必須にする`}
+                        />
+                      )}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import type { UseFormReturn } from "react-hook-form";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import type { CreateTestRunRequest } from "~/lib/schemas/test-run";
+import type { ProjectSummary } from "@domain/models/project";
+
+// Select は空文字を値にできないため、リリースなしを表す値を使う
+const NO_RELEASE = "none";
+
+interface RunScopeStepProps {
+  form: UseFormReturn<CreateTestRunRequest>;
+  projects: ProjectSummary[];
+}
+
+/**
+ * 手順1: プロジェクト・環境・リリースとタイトル
+ * （プロジェクト・環境を変えると選択済みのシナリオは外す）
+ */
+export function RunScopeStep({ form, projects }: RunScopeStepProps) {
+  const projectId = form.watch("projectId");
+  const environmentId = form.watch("environmentId");
+  const project = projects.find(({ id }) => id === projectId);
+  const releases =
+    project?.releases.filter(
+      (release) => release.environmentId === environmentId,
+    ) ?? [];
+
+  const resetScenarios = () => form.setValue("items", []);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <FormField
+          control={form.control}
+          name="projectId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>プロジェクト</FormLabel>
+              <Select
+                value={field.value || undefined}
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  form.setValue("environmentId", "");
+                  form.setValue("releaseId", undefined);
+                  resetScenarios();
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="プロジェクトを選択" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {projects.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="environmentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>環境</FormLabel>
+              <Select
+                value={field.value || undefined}
+                disabled={!project}
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  form.setValue("releaseId", undefined);
+                  resetScenarios();
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="環境を選択" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {project?.environments.map((environment) => (
+                    <SelectItem key={environment.id} value={environment.id}>
+                      {environment.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="releaseId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>リリース</FormLabel>
+            <Select
+              value={field.value ?? NO_RELEASE}
+              disabled={!environmentId}
+              onValueChange={(value) => {
+                const release = releases.find(({ id }) => id === value);
+                field.onChange(release?.id);
+                // タイトルが未入力ならリリースのタグから付ける
+                if (release && project && !form.getValues("title")) {
+                  form.setValue("title", `${project.name} ${release.tag}`);
+                }
+              }}
+            >
+              <FormControl>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_RELEASE}>リリースなし</SelectItem>
+                {releases.map((release) => (
+                  <SelectItem key={release.id} value={release.id}>
+                    {release.tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>
+              選択した環境のリリースから選びます（任意）
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="title"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>タイトル</FormLabel>
+            <FormControl>
+              <Input
+                placeholder="例: medimo Web v2.4.0 リグレッション"
+                {...field}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
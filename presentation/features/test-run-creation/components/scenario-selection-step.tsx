@@ -0,0 +1,266 @@
+import { useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { FolderSelect } from "~/features/scenario-creation/components/folder-select";
+import { TagInput } from "~/features/scenario-creation/components/tag-input";
+import { IMPORTANCE_LABELS } from "~/features/test-run/utils/importance-labels";
+import { importanceSchema } from "~/lib/schemas/test-run";
+import type {
+  CreateTestRunRequest,
+  TestRunItemSelection,
+} from "~/lib/schemas/test-run";
+import {
+  filterScenarioOptions,
+  listScenarioFolders,
+} from "../utils/filter-scenario-options";
+import { ScopeProposalPanel } from "./scope-proposal-panel";
+import { IssueSuggestionPanel } from "./issue-suggestion-panel";
+import type {
+  ScenarioOption,
+  ScenarioOptionFilter,
+} from "../types/test-run-creation-types";
+
+// Select は空文字を値にできないため、絞り込みなしを表す値を使う
+const ALL_IMPORTANCES = "all";
+
+const toSelection = (scenario: ScenarioOption): TestRunItemSelection => ({
+  scenarioId: scenario.id,
+  importance: scenario.defaultImportance,
+  required: scenario.requiredByDefault,
+});
+
+interface ScenarioSelectionStepProps {
+  form: UseFormReturn<CreateTestRunRequest>;
+  scenarios: ScenarioOption[]; // 選択したプロジェクト・環境のシナリオ
+}
+
+/**
+ * 手順2: シナリオの選択（フォルダー・タグ・重要度で絞り込んでまとめて選択できる）
+ * リリースを選んだ場合は、リリースの PR の変更ファイルから提案したシナリオを選択できる
+ */
+export function ScenarioSelectionStep({
+  form,
+  scenarios,
+}: ScenarioSelectionStepProps) {
+  const [filter, setFilter] = useState<ScenarioOptionFilter>({ tags: [] });
+  const items = form.watch("items");
+  const projectId = form.watch("projectId");
+  const releaseId = form.watch("releaseId");
+  const selectedIds = new Set(items.map((item) => item.scenarioId));
+  const visible = filterScenarioOptions(scenarios, filter);
+  const availableTags = [
+    ...new Set(scenarios.flatMap((scenario) => scenario.tags)),
+  ]
+    .sort()
+    .map((name) => ({ id: name, name }));
+  const allVisibleSelected =
+    visible.length > 0 &&
+    visible.every((scenario) => selectedIds.has(scenario.id));
+
+  // 選択済みのアイテムは重要度・必須の変更を残したまま並びをシナリオ順にそろえる
+  const setSelected = (ids: Set<string>) =>
+    form.setValue(
+      "items",
+      scenarios
+        .filter((scenario) => ids.has(scenario.id))
+        .map(
+          (scenario) =>
+            items.find((item) => item.scenarioId === scenario.id) ??
+            toSelection(scenario),
+        ),
+      { shouldValidate: form.formState.isSubmitted },
+    );
+
+  const toggle = (scenarioId: string, checked: boolean) => {
+    const ids = new Set(selectedIds);
+    if (checked) ids.add(scenarioId);
+    else ids.delete(scenarioId);
+    setSelected(ids);
+  };
+
+  const toggleVisible = (checked: boolean) => {
+    const ids = new Set(selectedIds);
+    for (const scenario of visible) {
+      if (checked) ids.add(scenario.id);
+      else ids.delete(scenario.id);
+    }
+    setSelected(ids);
+  };
+
+  const applyProposal = (scenarioIds: string[]) =>
+    setSelected(new Set([...selectedIds, ...scenarioIds]));
+
+  return (
+    <div className="space-y-4">
+      {releaseId && (
+        <>
+          <ScopeProposalPanel
+            projectId={projectId}
+            releaseId={releaseId}
+            autoApply={items.length === 0}
+            onApply={applyProposal}
+          />
+          <IssueSuggestionPanel
+            projectId={projectId}
+            releaseId={releaseId}
+            onApply={applyProposal}
+          />
+        </>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>フォルダー</Label>
+          <FolderSelect
+            key={filter.folder ?? "all"}
+            value={filter.folder}
+            onChange={(folder) => setFilter({ ...filter, folder })}
+            folders={listScenarioFolders(scenarios)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>重要度</Label>
+          <Select
+            value={filter.importance ?? ALL_IMPORTANCES}
+            onValueChange={(value) => {
+              const parsed = importanceSchema.safeParse(value);
+              setFilter({
+                ...filter,
+                importance: parsed.success ? parsed.data : undefined,
+              });
+            }}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_IMPORTANCES}>すべて</SelectItem>
+              {importanceSchema.options.map((importance) => (
+                <SelectItem key={importance} value={importance}>
+                  {IMPORTANCE_LABELS[importance]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>タグ（すべてを含む）</Label>
+          <TagInput
+            value={filter.tags}
+            onChange={(tags) => setFilter({ ...filter, tags })}
+            availableTags={availableTags}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {visible.length}件を表示中・{items.length}件を選択中
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={
+            filter.folder === undefined &&
+            filter.importance === undefined &&
+            filter.tags.length === 0
+          }
+          onClick={() => setFilter({ tags: [] })}
+        >
+          絞り込みを解除
+        </Button>
+      </div>
+
+      <div className="rounded-md border max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allVisibleSelected}
+                  disabled={visible.length === 0}
+                  onCheckedChange={(checked) => toggleVisible(checked === true)}
+                  aria-label="表示中のシナリオをすべて選択"
+                />
+              </TableHead>
+              <TableHead>シナリオ</TableHead>
+              <TableHead>フォルダー</TableHead>
+              <TableHead>タグ</TableHead>
+              <TableHead>重要度</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center py-8 text-muted-foreground"
+                >
+                  条件に合うシナリオがありません
+                </TableCell>
+              </TableRow>
+            ) : (
+              visible.map((scenario) => (
+                <TableRow key={scenario.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(scenario.id)}
+                      onCheckedChange={(checked) =>
+                        toggle(scenario.id, checked === true)
+                      }
+                      aria-label={`${scenario.title}を選択`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{scenario.title}</div>
+                    <div className="font-mono text-xs text-muted-foreground">
+                      {scenario.id}
+                    </div>
+                  </TableCell>
+                  <TableCell>{scenario.folder}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {scenario.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {IMPORTANCE_LABELS[scenario.defaultImportance]}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {form.formState.errors.items && (
+        <p className="text-sm text-destructive">
+          {form.formState.errors.items.message}
+        </p>
+      )}
+    </div>
+  );
+}
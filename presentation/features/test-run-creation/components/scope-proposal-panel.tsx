@@ -0,0 +1,136 @@
+import { useEffect, useRef } from "react";
+import { useFetcher } from "react-router";
+import { GitPullRequest, Sparkles } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "~/components/ui/collapsible";
+import type { ScopeProposalResult } from "../types/test-run-creation-types";
+
+interface ScopeProposalPanelProps {
+  projectId: string;
+  releaseId: string;
+  // 選択中のシナリオがない場合は、取得した提案をそのまま選択する
+  autoApply: boolean;
+  onApply: (scenarioIds: string[]) => void;
+}
+
+/**
+ * リリースの PR の変更ファイルから提案したシナリオ（対応付けたフォルダー・タグと、
+ * どのルールにも一致しなかったファイルを表示する）
+ */
+export function ScopeProposalPanel({
+  projectId,
+  releaseId,
+  autoApply,
+  onApply,
+}: ScopeProposalPanelProps) {
+  const fetcher = useFetcher<ScopeProposalResult>();
+  const applied = useRef(false);
+  const proposal = fetcher.data?.proposal;
+
+  useEffect(() => {
+    applied.current = false;
+    void fetcher.load(
+      `/api/projects/${projectId}/releases/${releaseId}/scope-proposal`,
+    );
+  }, [projectId, releaseId]);
+
+  useEffect(() => {
+    if (!proposal || applied.current) return;
+    applied.current = true;
+    if (autoApply && proposal.scenarioIds.length > 0) {
+      onApply(proposal.scenarioIds);
+    }
+  }, [proposal]);
+
+  if (fetcher.state !== "idle" || !fetcher.data) {
+    return (
+      <p className="rounded-md border p-3 text-sm text-muted-foreground">
+        リリースの PR からテスト範囲を提案しています...
+      </p>
+    );
+  }
+  if (!proposal) {
+    return (
+      <p className="rounded-md border p-3 text-sm text-muted-foreground">
+        テスト範囲を提案できません: {fetcher.data.error}
+      </p>
+    );
+  }
+
+  return (
+    <Collapsible className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Sparkles className="h-4 w-4 text-primary" />
+        <span className="text-sm">
+          ラベル「{proposal.label}」の PR {proposal.pullRequests.length}件から
+          シナリオ {proposal.scenarioIds.length}件を提案
+        </span>
+        {proposal.folders.map((folder) => (
+          <Badge key={folder} variant="secondary">
+            {folder}
+          </Badge>
+        ))}
+        {proposal.tags.map((tag) => (
+          <Badge key={tag} variant="outline">
+            #{tag}
+          </Badge>
+        ))}
+        <div className="ml-auto flex gap-2">
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm">
+              詳細
+            </Button>
+          </CollapsibleTrigger>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={proposal.scenarioIds.length === 0}
+            onClick={() => onApply(proposal.scenarioIds)}
+          >
+            提案を選択
+          </Button>
+        </div>
+      </div>
+      <CollapsibleContent className="space-y-3 text-sm">
+        <ul className="space-y-1">
+          {proposal.pullRequests.map((pullRequest) => (
+            <li key={pullRequest.number} className="flex items-center gap-2">
+              <GitPullRequest className="h-4 w-4 text-muted-foreground" />
+              <a
+                href={pullRequest.url}
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                #{pullRequest.number}
+              </a>
+              <span className="truncate">{pullRequest.title}</span>
+              <span className="ml-auto text-muted-foreground">
+                {pullRequest.files.length}ファイル
+              </span>
+            </li>
+          ))}
+        </ul>
+        {proposal.unmatchedFiles.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-muted-foreground">
+              対応表に一致しなかったファイル（{proposal.unmatchedFiles.length}
+              件）
+            </p>
+            <ul className="font-mono text-xs text-muted-foreground">
+              {proposal.unmatchedFiles.map((path) => (
+                <li key={path}>{path}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { createTestRunRequestSchema } from "~/lib/schemas/test-run";
+import type { CreateTestRunRequest } from "~/lib/schemas/test-run";
+import type {
+  TestRunCreationResult,
+  TestRunCreationStep,
+} from "../types/test-run-creation-types";
+
+export const TEST_RUN_CREATION_STEPS: readonly TestRunCreationStep[] = [
+  "scope",
+  "scenarios",
+  "items",
+  "assignment",
+];
+
+/**
+ * 次の手順へ進む前に検証する項目
+ */
+const STEP_FIELDS: Record<
+  TestRunCreationStep,
+  readonly (keyof CreateTestRunRequest)[]
+> = {
+  scope: ["projectId", "environmentId", "releaseId", "title"],
+  scenarios: ["items"],
+  items: ["items"],
+  assignment: ["assigneeIds", "dueAt"],
+};
+
+interface UseTestRunCreationWizardReturn {
+  form: ReturnType<typeof useForm<CreateTestRunRequest>>;
+  step: TestRunCreationStep;
+  stepIndex: number;
+  next: () => Promise<void>;
+  back: () => void;
+  submit: (data: CreateTestRunRequest) => void;
+  isSubmitting: boolean;
+}
+
+/**
+ * テストラン作成ウィザードの状態（入力と手順）
+ *
+ * 手順ごとに入力を検証し、最後にまとめて送信する
+ */
+export function useTestRunCreationWizard(): UseTestRunCreationWizardReturn {
+  const fetcher = useFetcher<TestRunCreationResult>();
+  const [stepIndex, setStepIndex] = useState(0);
+  const step = TEST_RUN_CREATION_STEPS[stepIndex];
+  const form = useForm<CreateTestRunRequest>({
+    resolver: zodResolver(createTestRunRequestSchema),
+    defaultValues: {
+      projectId: "",
+      environmentId: "",
+      releaseId: undefined,
+      title: "",
+      items: [],
+      assigneeIds: [],
+      dueAt: undefined,
+    },
+  });
+
+  // 成功時はリダイレクトされるため、ここではエラーだけを扱う
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data?.error) return;
+    form.setError("root", { type: "manual", message: fetcher.data.error });
+  }, [fetcher.state, fetcher.data]);
+
+  const next = async () => {
+    if (await form.trigger([...STEP_FIELDS[step]])) {
+      setStepIndex((index) =>
+        Math.min(index + 1, TEST_RUN_CREATION_STEPS.length - 1),
+      );
+    }
+  };
+
+  const submit = (data: CreateTestRunRequest) =>
+    void fetcher.submit(data, {
+      method: "post",
+      encType: "application/json",
+    });
+
+  return {
+    form,
+    step,
+    stepIndex,
+    next,
+    back: () => setStepIndex((index) => Math.max(index - 1, 0)),
+    submit,
+    isSubmitting: fetcher.state !== "idle",
+  };
+}
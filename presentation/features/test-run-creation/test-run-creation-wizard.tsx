@@ -0,0 +1,141 @@
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Form } from "~/components/ui/form";
+import { ArrowLeft, ArrowRight, Check } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { RunScopeStep } from "./components/run-scope-step";
+import { ScenarioSelectionStep } from "./components/scenario-selection-step";
+import { ItemSettingsStep } from "./components/item-settings-step";
+import { AssignmentStep } from "./components/assignment-step";
+import {
+  TEST_RUN_CREATION_STEPS,
+  useTestRunCreationWizard,
+} from "./hooks/use-test-run-creation-wizard";
+import type {
+  TestRunCreationOptions,
+  TestRunCreationStep,
+} from "./types/test-run-creation-types";
+
+const STEP_LABELS: Record<TestRunCreationStep, string> = {
+  scope: "対象",
+  scenarios: "シナリオ",
+  items: "重要度・必須",
+  assignment: "担当者・期限",
+};
+
+interface TestRunCreationWizardProps {
+  options: TestRunCreationOptions;
+}
+
+/**
+ * テストラン作成ウィザード（対象 → シナリオ → 重要度・必須 → 担当者・期限）
+ */
+export function TestRunCreationWizard({ options }: TestRunCreationWizardProps) {
+  const { form, step, stepIndex, next, back, submit, isSubmitting } =
+    useTestRunCreationWizard();
+  const isLastStep = stepIndex === TEST_RUN_CREATION_STEPS.length - 1;
+
+  const project = options.projects.find(
+    ({ id }) => id === form.watch("projectId"),
+  );
+  const environment = project?.environments.find(
+    ({ id }) => id === form.watch("environmentId"),
+  );
+  const scenarios = options.scenarios.filter(
+    (scenario) =>
+      scenario.project === project?.key &&
+      scenario.environment === environment?.type,
+  );
+  const items = form.watch("items");
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader className="space-y-4">
+        <CardTitle className="text-xl">{STEP_LABELS[step]}</CardTitle>
+        <ol className="flex flex-wrap gap-2">
+          {TEST_RUN_CREATION_STEPS.map((value, index) => (
+            <li
+              key={value}
+              className={cn(
+                "flex items-center gap-2 rounded-full border px-3 py-1 text-sm",
+                index === stepIndex &&
+                  "border-primary bg-primary text-primary-foreground",
+                index < stepIndex && "text-muted-foreground",
+              )}
+            >
+              <span className="font-mono">{index + 1}</span>
+              {STEP_LABELS[value]}
+            </li>
+          ))}
+        </ol>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-6">
+            {step === "scope" && (
+              <RunScopeStep form={form} projects={options.projects} />
+            )}
+            {step === "scenarios" && (
+              <ScenarioSelectionStep form={form} scenarios={scenarios} />
+            )}
+            {step === "items" && (
+              <ItemSettingsStep form={form} scenarios={scenarios} />
+            )}
+            {step === "assignment" && (
+              <AssignmentStep form={form} executors={options.executors} />
+            )}
+
+            {isLastStep && (
+              <p className="text-sm text-muted-foreground">
+                {project?.name}・{environment?.name}・テストケース
+                {items.length}件（必須{" "}
+                {items.filter((item) => item.required).length}件）
+              </p>
+            )}
+
+            {/* フォームエラー */}
+            {form.formState.errors.root && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.root.message}
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                className="gap-2"
+                disabled={stepIndex === 0 || isSubmitting}
+                onClick={back}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                戻る
+              </Button>
+              {isLastStep ? (
+                <Button
+                  key="submit"
+                  type="submit"
+                  className="gap-2"
+                  disabled={isSubmitting}
+                >
+                  <Check className="h-4 w-4" />
+                  {isSubmitting ? "作成中..." : "テストランを作成"}
+                </Button>
+              ) : (
+                <Button
+                  key="next"
+                  type="button"
+                  className="gap-2"
+                  onClick={next}
+                >
+                  次へ
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
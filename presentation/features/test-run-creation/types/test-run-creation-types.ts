@@ -0,0 +1,62 @@
+/**
+ * テストラン作成ウィザードの型定義
+ */
+import type { Assignee, Importance } from "~/lib/schemas/test-run";
+import type { ProjectSummary } from "@domain/models/project";
+import type { TestScopeProposal } from "@domain/models/release-detection";
+
+/**
+ * 選択できるシナリオ（最新版）
+ */
+export interface ScenarioOption {
+  id: string;
+  title: string;
+  project: string; // プロジェクトキー
+  environment: "production" | "staging";
+  folder: string;
+  tags: string[];
+  defaultImportance: Importance;
+  requiredByDefault: boolean;
+  version: string; // commit SHA
+}
+
+/**
+ * ウィザードの選択肢
+ */
+export interface TestRunCreationOptions {
+  projects: ProjectSummary[];
+  scenarios: ScenarioOption[];
+  executors: Assignee[]; // テストを実行できるユーザー
+}
+
+/**
+ * シナリオの絞り込み条件
+ */
+export interface ScenarioOptionFilter {
+  folder?: string;
+  tags: string[]; // すべてを含むシナリオに絞り込む
+  importance?: Importance;
+}
+
+/**
+ * ウィザードの手順
+ */
+export type TestRunCreationStep =
+  | "scope"
+  | "scenarios"
+  | "items"
+  | "assignment";
+
+/**
+ * 作成 action の結果（成功時は作成したテストランへリダイレクトする）
+ */
+export interface TestRunCreationResult {
+  error?: string;
+}
+
+/**
+ * リリースの PR から提案するテスト範囲の取得結果
+ */
+export type ScopeProposalResult =
+  | { proposal: TestScopeProposal; error?: undefined }
+  | { proposal?: undefined; error: string };
@@ -0,0 +1,28 @@
+import type { Folder } from "~/features/scenario-creation/types/scenario-types";
+import type {
+  ScenarioOption,
+  ScenarioOptionFilter,
+} from "../types/test-run-creation-types";
+
+/**
+ * 絞り込み条件に合うシナリオ（タグは選択したものをすべて含む）
+ */
+export const filterScenarioOptions = (
+  scenarios: ScenarioOption[],
+  filter: ScenarioOptionFilter,
+): ScenarioOption[] =>
+  scenarios.filter(
+    (scenario) =>
+      (filter.folder === undefined || scenario.folder === filter.folder) &&
+      (filter.importance === undefined ||
+        scenario.defaultImportance === filter.importance) &&
+      filter.tags.every((tag) => scenario.tags.includes(tag)),
+  );
+
+/**
+ * シナリオのフォルダー一覧（FolderSelect の選択肢）
+ */
+export const listScenarioFolders = (scenarios: ScenarioOption[]): Folder[] =>
+  [...new Set(scenarios.map((scenario) => scenario.folder))]
+    .sort()
+    .map((folder) => ({ id: folder, name: folder }));
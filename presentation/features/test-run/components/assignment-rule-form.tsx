@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { assignmentStrategySchema } from "~/lib/schemas/test-run";
+import type {
+  ApplyAssignmentRuleRequest,
+  Assignee,
+  AssignmentStrategy,
+  FolderOwners,
+} from "~/lib/schemas/test-run";
+import { ASSIGNMENT_STRATEGY_LABELS } from "../utils/assignment-strategy-labels";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+// Select は空文字を値にできないため、担当者なしを表す値を使う
+const NO_OWNER = "none";
+
+interface AssignmentRuleFormProps {
+  assignees: Assignee[]; // テストランの担当者
+  folders: string[];
+  folderOwners: FolderOwners; // プロジェクトに保存されたフォルダーの担当者
+  onApplied: () => void;
+}
+
+/**
+ * ルールによる未実行アイテムの振り分け
+ */
+export function AssignmentRuleForm({
+  assignees,
+  folders,
+  folderOwners,
+  onApplied,
+}: AssignmentRuleFormProps) {
+  const fetcher = useFetcher<TestRunActionResult>();
+  const [strategy, setStrategy] = useState<AssignmentStrategy>("round_robin");
+  const [onlyUnassigned, setOnlyUnassigned] = useState(true);
+  // テストランの担当者でないユーザーは選択肢にないため初期値から除く
+  const [owners, setOwners] = useState<FolderOwners>(() =>
+    Object.fromEntries(
+      Object.entries(folderOwners).filter(([, userId]) =>
+        assignees.some((assignee) => assignee.id === userId),
+      ),
+    ),
+  );
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data && !fetcher.data.error) {
+      onApplied();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const setOwner = (folder: string, userId: string) =>
+    setOwners(({ [folder]: _, ...rest }) =>
+      userId === NO_OWNER ? rest : { ...rest, [folder]: userId },
+    );
+
+  const handleApply = () => {
+    const request: ApplyAssignmentRuleRequest = {
+      intent: "apply-assignment-rule",
+      strategy,
+      onlyUnassigned,
+      ...(strategy === "folder_owner" ? { folderOwners: owners } : {}),
+    };
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        value={strategy}
+        onValueChange={(value) =>
+          setStrategy(assignmentStrategySchema.parse(value))
+        }
+      >
+        {assignmentStrategySchema.options.map((option) => (
+          <div key={option} className="flex items-start gap-2">
+            <RadioGroupItem
+              value={option}
+              id={`strategy-${option}`}
+              className="mt-1"
+            />
+            <Label
+              htmlFor={`strategy-${option}`}
+              className="flex-col items-start gap-1"
+            >
+              <span>{ASSIGNMENT_STRATEGY_LABELS[option].label}</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                {ASSIGNMENT_STRATEGY_LABELS[option].description}
+              </span>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {strategy === "folder_owner" && (
+        <div className="space-y-2 rounded-md border p-3">
+          {folders.map((folder) => (
+            <div
+              key={folder}
+              className="grid grid-cols-[minmax(0,1fr)_12rem] items-center gap-2"
+            >
+              <span className="truncate text-sm">{folder}</span>
+              <Select
+                value={owners[folder] ?? NO_OWNER}
+                onValueChange={(value) => setOwner(folder, value)}
+              >
+                <SelectTrigger
+                  className="w-full"
+                  aria-label={`${folder}の担当者`}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OWNER}>変更しない</SelectItem>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {assignee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="only-unassigned"
+          checked={onlyUnassigned}
+          onCheckedChange={setOnlyUnassigned}
+        />
+        <Label htmlFor="only-unassigned">
+          担当者のいないテストケースだけを振り分ける
+        </Label>
+      </div>
+
+      {fetcher.data?.error && (
+        <p className="text-sm text-destructive">{fetcher.data.error}</p>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          disabled={fetcher.state !== "idle"}
+          onClick={handleApply}
+        >
+          {fetcher.state !== "idle"
+            ? "振り分け中..."
+            : "未実行のテストケースを振り分ける"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { AUTOMATED_TEST_REPORT_FORMAT_LABELS } from "@domain/logic/automated-test-result";
+import { automatedTestReportFormatSchema } from "~/lib/schemas/automated-test";
+import type {
+  ApplyAutomatedTestResultsRequest,
+  AutomatedTestImportResult,
+  AutomatedTestReportFormat,
+  ImportAutomatedTestResultsRequest,
+} from "~/lib/schemas/automated-test";
+import type { TestRunItem } from "~/lib/schemas/test-run";
+import { TestRunItemStatusBadge } from "./test-run-item-status-badge";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+// Select は空文字を値にできないため、形式の自動判定・割り当てなしを表す値を使う
+const AUTO_DETECT = "auto";
+const NOT_ASSIGNED = "none";
+
+interface AutomatedTestImportDialogProps {
+  items: TestRunItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * 自動テストのレポートの取り込みダイアログ
+ * （照合できなかったテストケースはアイテムを選んで記録できる）
+ */
+export function AutomatedTestImportDialog({
+  items,
+  open,
+  onOpenChange,
+}: AutomatedTestImportDialogProps) {
+  const importFetcher = useFetcher<TestRunActionResult>();
+  const applyFetcher = useFetcher<TestRunActionResult>();
+  const [format, setFormat] = useState<
+    AutomatedTestReportFormat | typeof AUTO_DETECT
+  >(AUTO_DETECT);
+  const [report, setReport] = useState("");
+  // 照合できなかったテストケースの番号 → 割り当てるアイテム
+  const [assignments, setAssignments] = useState<Record<number, string>>({});
+  const [submitted, setSubmitted] = useState<number[]>([]);
+  const [recorded, setRecorded] = useState<number[]>([]);
+
+  const result = importFetcher.data?.automatedImport;
+
+  useEffect(() => {
+    if (
+      applyFetcher.state === "idle" &&
+      applyFetcher.data &&
+      !applyFetcher.data.error
+    ) {
+      setRecorded((current) => [...current, ...submitted]);
+      setAssignments({});
+    }
+  }, [applyFetcher.state, applyFetcher.data]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    setReport(file ? await file.text() : "");
+  };
+
+  const handleImport = () => {
+    const request: ImportAutomatedTestResultsRequest = {
+      intent: "import-automated-results",
+      report,
+      ...(format === AUTO_DETECT ? {} : { format }),
+    };
+    setAssignments({});
+    setRecorded([]);
+    void importFetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  const handleApply = (imported: AutomatedTestImportResult) => {
+    const indexes = Object.keys(assignments).map(Number);
+    const request: ApplyAutomatedTestResultsRequest = {
+      intent: "apply-automated-results",
+      format: imported.format,
+      assignments: indexes.map((index) => ({
+        itemId: assignments[index],
+        testCase: imported.unmatched[index],
+      })),
+    };
+    setSubmitted(indexes);
+    void applyFetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  const assign = (index: number, itemId: string) =>
+    setAssignments(({ [index]: _, ...rest }) =>
+      itemId === NOT_ASSIGNED ? rest : { ...rest, [index]: itemId },
+    );
+
+  const recordedItems = result?.outcomes.filter(
+    (outcome) => outcome.result !== "skipped",
+  ).length;
+  const remaining = result?.unmatched.flatMap((testCase, index) =>
+    recorded.includes(index) ? [] : [{ testCase, index }],
+  );
+  const assignedCount = Object.keys(assignments).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>自動テストの結果を取り込む</DialogTitle>
+          <DialogDescription>
+            JUnit XML・Playwright / Jest の JSON レポートを読み取り、シナリオの
+            automated_test_id
+            と一致するテストケースの結果・実行時間・失敗のログを記録します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[minmax(0,1fr)_12rem]">
+          <div className="space-y-2">
+            <Label htmlFor="automated-test-report">レポート</Label>
+            <Input
+              id="automated-test-report"
+              type="file"
+              accept=".xml,.json,application/xml,text/xml,application/json"
+              onChange={(event) =>
+                void handleFileChange(event.target.files?.[0])
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>形式</Label>
+            <Select
+              value={format}
+              onValueChange={(value) =>
+                setFormat(
+                  value === AUTO_DETECT
+                    ? AUTO_DETECT
+                    : automatedTestReportFormatSchema.parse(value),
+                )
+              }
+            >
+              <SelectTrigger aria-label="形式">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DETECT}>自動判定</SelectItem>
+                {automatedTestReportFormatSchema.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {AUTOMATED_TEST_REPORT_FORMAT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {importFetcher.data?.error && (
+          <p className="text-sm text-destructive">{importFetcher.data.error}</p>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            disabled={!report || importFetcher.state !== "idle"}
+            onClick={handleImport}
+          >
+            {importFetcher.state !== "idle" ? "取り込み中..." : "取り込む"}
+          </Button>
+        </div>
+
+        {result && remaining && (
+          <div className="space-y-4 border-t pt-4">
+            <p className="text-sm">
+              {AUTOMATED_TEST_REPORT_FORMAT_LABELS[result.format]} の
+              {result.totalCases} 件のテストケースから、{recordedItems}{" "}
+              件のアイテムに結果を記録しました
+            </p>
+
+            {result.outcomes.length > 0 && (
+              <ul className="max-h-60 space-y-2 overflow-y-auto text-sm">
+                {result.outcomes.map((outcome) => (
+                  <li key={outcome.itemId} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <TestRunItemStatusBadge status={outcome.result} />
+                      <span className="font-medium">{outcome.title}</span>
+                      {outcome.result === "skipped" && (
+                        <span className="text-muted-foreground">
+                          （すべてスキップされたため記録していません）
+                        </span>
+                      )}
+                    </div>
+                    <p className="break-all font-mono text-xs text-muted-foreground">
+                      {outcome.testCaseIds.join(", ")}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {remaining.length > 0 && (
+              <div className="space-y-3">
+                <div>
+                  <h3 className="text-sm font-semibold">
+                    照合できなかったテストケース（{remaining.length} 件）
+                  </h3>
+                  <p className="text-xs text-muted-foreground">
+                    記録するアイテムを選んでください。シナリオに
+                    automated_test_id を設定すると、次回から自動で照合します
+                  </p>
+                </div>
+                <ul className="max-h-80 space-y-2 overflow-y-auto">
+                  {remaining.map(({ testCase, index }) => (
+                    <li
+                      key={index}
+                      className="grid items-center gap-2 rounded-md border p-2 sm:grid-cols-[minmax(0,1fr)_16rem]"
+                    >
+                      <div className="flex min-w-0 items-center gap-2">
+                        <TestRunItemStatusBadge status={testCase.status} />
+                        <span className="break-all font-mono text-xs">
+                          {testCase.id}
+                        </span>
+                      </div>
+                      <Select
+                        value={assignments[index] ?? NOT_ASSIGNED}
+                        onValueChange={(itemId) => assign(index, itemId)}
+                      >
+                        <SelectTrigger
+                          aria-label={`${testCase.id}を記録するアイテム`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_ASSIGNED}>
+                            割り当てない
+                          </SelectItem>
+                          {items.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </li>
+                  ))}
+                </ul>
+
+                {applyFetcher.data?.error && (
+                  <p className="text-sm text-destructive">
+                    {applyFetcher.data.error}
+                  </p>
+                )}
+
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    disabled={
+                      assignedCount === 0 || applyFetcher.state !== "idle"
+                    }
+                    onClick={() => handleApply(result)}
+                  >
+                    {applyFetcher.state !== "idle"
+                      ? "記録中..."
+                      : `${assignedCount}件を記録`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {applyFetcher.data?.automatedOutcomes && (
+              <p className="text-sm text-muted-foreground">
+                割り当てたテストケースを{" "}
+                {
+                  applyFetcher.data.automatedOutcomes.filter(
+                    (outcome) => outcome.result !== "skipped",
+                  ).length
+                }{" "}
+                件のアイテムに記録しました
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
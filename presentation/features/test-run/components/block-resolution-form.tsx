@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import { Ban } from "lucide-react";
+import { blockResolutionNoteSchema } from "~/lib/schemas/test-run";
+
+interface BlockResolutionFormProps {
+  reason?: string;
+  onResolve: (resolution: string) => void;
+}
+
+/**
+ * ブロックの理由と解消内容の入力（解消すると再テスト待ちに戻る）
+ */
+export function BlockResolutionForm({
+  reason,
+  onResolve,
+}: BlockResolutionFormProps) {
+  const [resolution, setResolution] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = blockResolutionNoteSchema.safeParse(resolution);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    onResolve(parsed.data);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-2 rounded-md border border-orange-300 bg-orange-50 p-4 dark:border-orange-800 dark:bg-orange-950"
+    >
+      <p className="flex items-center gap-2 text-sm font-semibold text-orange-700 dark:text-orange-300">
+        <Ban className="h-4 w-4" />
+        ブロック中
+      </p>
+      {reason && <p className="whitespace-pre-wrap text-sm">{reason}</p>}
+      <Textarea
+        value={resolution}
+        onChange={(e) => {
+          setResolution(e.target.value);
+          setError(null);
+        }}
+        placeholder="解消内容（例: 決済 API の復旧を確認）"
+        aria-label="ブロックの解消内容"
+        className="bg-background"
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end">
+        <Button type="submit" size="sm">
+          解消して再テスト待ちに戻す
+        </Button>
+      </div>
+    </form>
+  );
+}
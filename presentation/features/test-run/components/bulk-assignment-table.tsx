@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import type {
+  AssignItemsRequest,
+  Assignee,
+  TestRunItem,
+} from "~/lib/schemas/test-run";
+import { TestRunItemStatusBadge } from "./test-run-item-status-badge";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+// Select は空文字を値にできないため、担当を外す操作を表す値を使う
+const UNASSIGNED = "none";
+
+interface BulkAssignmentTableProps {
+  items: TestRunItem[];
+  assignees: Assignee[]; // テストランの担当者
+  onApplied: () => void;
+}
+
+/**
+ * 選択したアイテムの担当者をまとめて変更するテーブル
+ */
+export function BulkAssignmentTable({
+  items,
+  assignees,
+  onApplied,
+}: BulkAssignmentTableProps) {
+  const fetcher = useFetcher<TestRunActionResult>();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [assigneeId, setAssigneeId] = useState(UNASSIGNED);
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && fetcher.data && !fetcher.data.error) {
+      onApplied();
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const allSelected = items.length > 0 && selectedIds.length === items.length;
+
+  const toggleAll = (checked: boolean) =>
+    setSelectedIds(checked ? items.map((item) => item.id) : []);
+
+  const toggle = (itemId: string, checked: boolean) =>
+    setSelectedIds((current) =>
+      checked ? [...current, itemId] : current.filter((id) => id !== itemId),
+    );
+
+  const handleApply = () => {
+    const request: AssignItemsRequest = {
+      intent: "assign-items",
+      itemIds: selectedIds,
+      assigneeId: assigneeId === UNASSIGNED ? null : assigneeId,
+    };
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-96 overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={
+                    allSelected || (selectedIds.length > 0 && "indeterminate")
+                  }
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="すべて選択"
+                />
+              </TableHead>
+              <TableHead>タイトル</TableHead>
+              <TableHead>フォルダー</TableHead>
+              <TableHead>ステータス</TableHead>
+              <TableHead>担当者</TableHead>
+              <TableHead className="text-right">目安</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow
+                key={item.id}
+                data-state={selectedIds.includes(item.id) && "selected"}
+              >
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(item.id)}
+                    onCheckedChange={(checked) =>
+                      toggle(item.id, checked === true)
+                    }
+                    aria-label={`${item.title}を選択`}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">{item.title}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {item.folder}
+                </TableCell>
+                <TableCell>
+                  <TestRunItemStatusBadge status={item.status} />
+                </TableCell>
+                <TableCell>{item.assignee?.name ?? "担当なし"}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {item.estimatedMinutes ? `${item.estimatedMinutes}分` : "-"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {fetcher.data?.error && (
+        <p className="text-sm text-destructive">{fetcher.data.error}</p>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Select value={assigneeId} onValueChange={setAssigneeId}>
+          <SelectTrigger className="w-48" aria-label="変更後の担当者">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>担当なし</SelectItem>
+            {assignees.map((assignee) => (
+              <SelectItem key={assignee.id} value={assignee.id}>
+                {assignee.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          disabled={selectedIds.length === 0 || fetcher.state !== "idle"}
+          onClick={handleApply}
+        >
+          {fetcher.state !== "idle"
+            ? "変更中..."
+            : `${selectedIds.length}件を変更`}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { completionPolicySchema } from "~/lib/schemas/test-run";
+import type {
+  CompletionPolicyScope,
+  UpdateCompletionPolicyRequest,
+} from "~/lib/schemas/test-run";
+import type { CompletionPolicy } from "@domain/models/completion-policy";
+import { IMPORTANCE_LABELS } from "../utils/importance-labels";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+const IMPORTANCES = ["critical", "high", "medium", "low"] as const;
+
+interface CompletionPolicyDialogProps {
+  policy: CompletionPolicy;
+  scope: CompletionPolicyScope;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * 完了条件（重要度ごとの成功率）の変更ダイアログ
+ */
+export function CompletionPolicyDialog({
+  policy,
+  scope,
+  open,
+  onOpenChange,
+}: CompletionPolicyDialogProps) {
+  const fetcher = useFetcher<TestRunActionResult>();
+  const [target, setTarget] = useState<UpdateCompletionPolicyRequest["scope"]>(
+    scope === "run" ? "run" : "project",
+  );
+  const form = useForm<CompletionPolicy>({
+    resolver: zodResolver(completionPolicySchema),
+    defaultValues: policy,
+  });
+
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data) return;
+
+    if (fetcher.data.error) {
+      form.setError("root", { type: "manual", message: fetcher.data.error });
+      return;
+    }
+    onOpenChange(false);
+  }, [fetcher.state, fetcher.data]);
+
+  const submit = (request: UpdateCompletionPolicyRequest) =>
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+
+  const handleSubmit = (data: CompletionPolicy) =>
+    submit({ intent: "update-completion-policy", scope: target, policy: data });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <DialogHeader>
+              <DialogTitle>完了条件を変更</DialogTitle>
+              <DialogDescription>
+                重要度ごとに必要な成功率（%）を設定します。スキップしたテストケースは成功率の計算から除きます
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORTANCES.map((importance) => (
+                <FormField
+                  key={importance}
+                  control={form.control}
+                  name={importance}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        重要度: {IMPORTANCE_LABELS[importance]}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          {...field}
+                          onChange={(e) =>
+                            field.onChange(e.target.valueAsNumber)
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <RadioGroup
+              value={target}
+              onValueChange={(value) =>
+                setTarget(value === "project" ? "project" : "run")
+              }
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="run" id="policy-scope-run" />
+                <Label htmlFor="policy-scope-run">このテストランのみ</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="project" id="policy-scope-project" />
+                <Label htmlFor="policy-scope-project">
+                  プロジェクトの既定値（実行中のテストランにも反映）
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {form.formState.errors.root && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.root.message}
+              </p>
+            )}
+
+            <DialogFooter>
+              {scope === "run" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="mr-auto"
+                  disabled={fetcher.state !== "idle"}
+                  onClick={() =>
+                    submit({ intent: "update-completion-policy", scope: "run" })
+                  }
+                >
+                  プロジェクトの設定に戻す
+                </Button>
+              )}
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  キャンセル
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={fetcher.state !== "idle"}>
+                {fetcher.state !== "idle" ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
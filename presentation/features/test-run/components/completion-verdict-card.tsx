@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Settings2 } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { CompletionPolicyDialog } from "./completion-policy-dialog";
+import { IMPORTANCE_LABELS } from "../utils/importance-labels";
+import type {
+  CompletionPolicy,
+  CompletionVerdict,
+} from "@domain/models/completion-policy";
+import type { CompletionPolicyScope } from "~/lib/schemas/test-run";
+
+const VERDICT_LABELS: Record<
+  CompletionVerdict["status"],
+  { label: string; className: string }
+> = {
+  not_started: {
+    label: "未着手",
+    className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  },
+  in_progress: {
+    label: "判定待ち",
+    className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  },
+  passed: {
+    label: "合格",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  },
+  failed: {
+    label: "不合格",
+    className: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+  },
+};
+
+const SCOPE_LABELS: Record<CompletionPolicyScope, string> = {
+  run: "このテストランの設定",
+  project: "プロジェクトの設定",
+  default: "既定の設定",
+};
+
+interface CompletionVerdictCardProps {
+  verdict: CompletionVerdict;
+  policy: CompletionPolicy;
+  scope: CompletionPolicyScope;
+  editable: boolean; // 承認済みのテストランは条件を変更できない
+  onSelectItem: (itemId: string) => void;
+}
+
+/**
+ * 完了条件の判定（重要度ごとの成功率と未実行の必須テストケース）
+ */
+export function CompletionVerdictCard({
+  verdict,
+  policy,
+  scope,
+  editable,
+  onSelectItem,
+}: CompletionVerdictCardProps) {
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const config = VERDICT_LABELS[verdict.status];
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="flex items-center gap-2 text-xl">
+          完了条件
+          <Badge variant="outline" className={config.className}>
+            {config.label}
+          </Badge>
+          <span className="text-xs font-normal text-muted-foreground">
+            {SCOPE_LABELS[scope]}
+          </span>
+        </CardTitle>
+        {editable && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+            onClick={() => setPolicyDialogOpen(true)}
+          >
+            <Settings2 className="h-4 w-4" />
+            条件を変更
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>重要度</TableHead>
+                <TableHead className="text-right">条件</TableHead>
+                <TableHead className="text-right">成功率</TableHead>
+                <TableHead className="text-right">成功 / 対象</TableHead>
+                <TableHead className="text-right">未確定</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {verdict.buckets.map((bucket) => (
+                <TableRow
+                  key={bucket.importance}
+                  className={cn(
+                    !bucket.met && "bg-red-50/60 dark:bg-red-950/40",
+                  )}
+                >
+                  <TableCell>{IMPORTANCE_LABELS[bucket.importance]}</TableCell>
+                  <TableCell className="text-right">
+                    {bucket.threshold}%
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right font-medium",
+                      bucket.met
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400",
+                    )}
+                  >
+                    {bucket.successRate === null
+                      ? "-"
+                      : `${bucket.successRate}%`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {bucket.passed} / {bucket.total}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {bucket.outstanding}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {verdict.failedBuckets.length > 0 && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            条件を満たしていない重要度:{" "}
+            {verdict.failedBuckets
+              .map((importance) => IMPORTANCE_LABELS[importance])
+              .join("、")}
+          </p>
+        )}
+
+        {verdict.unexecutedRequired.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">
+              未実行の必須テストケース（{verdict.unexecutedRequired.length} 件）
+            </p>
+            <ul className="flex flex-wrap gap-1">
+              {verdict.unexecutedRequired.map((item) => (
+                <li key={item.id}>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSelectItem(item.id)}
+                  >
+                    {item.title}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      {editable && (
+        <CompletionPolicyDialog
+          key={`${scope}-${JSON.stringify(policy)}`}
+          policy={policy}
+          scope={scope}
+          open={policyDialogOpen}
+          onOpenChange={setPolicyDialogOpen}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import type { TestRun, TestRunItem } from "~/lib/schemas/test-run";
+import { AssignmentRuleForm } from "./assignment-rule-form";
+import { BulkAssignmentTable } from "./bulk-assignment-table";
+
+interface ItemAssignmentDialogProps {
+  run: TestRun;
+  items: TestRunItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * テストケースの担当者の割り当てダイアログ
+ */
+export function ItemAssignmentDialog({
+  run,
+  items,
+  open,
+  onOpenChange,
+}: ItemAssignmentDialogProps) {
+  // フォルダーのないアイテムはフォルダーの担当者の対象外
+  const folders = [
+    ...new Set(items.flatMap((item) => (item.folder ? [item.folder] : []))),
+  ];
+  const close = () => onOpenChange(false);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>担当者を割り当て</DialogTitle>
+          <DialogDescription>
+            テストランの担当者にテストケースを割り当てます。完了したテストケースはルールの対象外です
+          </DialogDescription>
+        </DialogHeader>
+
+        {run.assignees.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            テストランに担当者が設定されていません
+          </p>
+        ) : (
+          <Tabs defaultValue="rule">
+            <TabsList>
+              <TabsTrigger value="rule">ルールで振り分け</TabsTrigger>
+              <TabsTrigger value="bulk">まとめて変更</TabsTrigger>
+            </TabsList>
+            <TabsContent value="rule">
+              <AssignmentRuleForm
+                assignees={run.assignees}
+                folders={folders}
+                folderOwners={run.folderOwners}
+                onApplied={close}
+              />
+            </TabsContent>
+            <TabsContent value="bulk">
+              <BulkAssignmentTable
+                items={items}
+                assignees={run.assignees}
+                onApplied={close}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { cn } from "~/lib/utils";
+
+interface LiveUpdateIndicatorProps {
+  connected: boolean;
+}
+
+/**
+ * リアルタイム更新の接続状態
+ */
+export function LiveUpdateIndicator({ connected }: LiveUpdateIndicatorProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="relative flex h-2 w-2">
+        {connected && (
+          <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75" />
+        )}
+        <span
+          className={cn(
+            "relative inline-flex rounded-full h-2 w-2",
+            connected ? "bg-green-500" : "bg-gray-400",
+          )}
+        />
+      </span>
+      <span className="text-sm text-muted-foreground">
+        {connected ? "リアルタイム更新" : "再接続中..."}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Download } from "lucide-react";
+import type { PullScenarioRequest } from "~/lib/schemas/test-run";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+interface PullScenarioButtonProps {
+  itemId: string;
+}
+
+/**
+ * アイテムにシナリオの最新版を取り込むボタン
+ */
+export function PullScenarioButton({ itemId }: PullScenarioButtonProps) {
+  const fetcher = useFetcher<TestRunActionResult>();
+
+  const handlePull = () => {
+    const request: PullScenarioRequest = { intent: "pull-scenario", itemId };
+    void fetcher.submit(request, {
+      method: "post",
+      encType: "application/json",
+    });
+  };
+
+  return (
+    <div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        disabled={fetcher.state !== "idle"}
+        onClick={handlePull}
+      >
+        <Download className="h-4 w-4" />
+        最新版を取り込む
+      </Button>
+      {fetcher.data?.error && (
+        <p className="mt-1 text-xs text-destructive">{fetcher.data.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import type { ScenarioDrift } from "@domain/models/test-run";
+
+interface ScenarioDriftBadgeProps {
+  drift: ScenarioDrift;
+  className?: string;
+}
+
+const driftConfig: Record<
+  Exclude<ScenarioDrift["status"], "current">,
+  { label: string; className: string }
+> = {
+  outdated: {
+    label: "シナリオ更新あり",
+    className:
+      "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300",
+  },
+  unpinned: {
+    label: "版未記録",
+    className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  },
+  archived: {
+    label: "アーカイブ済み",
+    className:
+      "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+  },
+  missing: {
+    label: "シナリオなし",
+    className: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+  },
+};
+
+/**
+ * アイテムが記録した版とシナリオの最新版のずれ（最新版であれば表示しない）
+ */
+export function ScenarioDriftBadge({
+  drift,
+  className,
+}: ScenarioDriftBadgeProps) {
+  if (drift.status === "current") return null;
+
+  const config = driftConfig[drift.status];
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(config.className, className)}
+      title={
+        drift.status === "outdated"
+          ? `最新版: ${drift.currentVersion?.slice(0, 7)}`
+          : undefined
+      }
+    >
+      {config.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import { CheckCircle2, Undo2 } from "lucide-react";
+import { formatShortDateTime } from "~/features/dashboard/utils/chart-config";
+import { decideApprovalRequestSchema } from "~/lib/schemas/test-run";
+import type { ApprovalDecision, TestRunApproval } from "~/lib/schemas/test-run";
+
+const DECISION_LABELS: Record<
+  ApprovalDecision,
+  { label: string; className: string }
+> = {
+  approved: {
+    label: "承認",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  },
+  sent_back: {
+    label: "差し戻し",
+    className:
+      "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+  },
+};
+
+interface TestRunApprovalCardProps {
+  approvals: TestRunApproval[];
+  awaitingApproval: boolean;
+  canApprove: boolean;
+  pending: boolean;
+  onDecide: (decision: ApprovalDecision, comment: string) => void;
+}
+
+/**
+ * 承認者の判断（承認待ちの場合は承認・差し戻しの入力）と承認ログ
+ */
+export function TestRunApprovalCard({
+  approvals,
+  awaitingApproval,
+  canApprove,
+  pending,
+  onDecide,
+}: TestRunApprovalCardProps) {
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // 承認ログがなく判断もできない場合は表示しない
+  if (approvals.length === 0 && !awaitingApproval) return null;
+
+  const handleDecide = (decision: ApprovalDecision) => {
+    const parsed = decideApprovalRequestSchema.shape.comment.safeParse(comment);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    onDecide(decision, parsed.data);
+    setComment("");
+  };
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl">承認</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {awaitingApproval &&
+          (canApprove ? (
+            <div className="space-y-2 rounded-md border border-amber-300 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950">
+              <p className="text-sm font-semibold text-amber-700 dark:text-amber-300">
+                完了条件を満たしました。結果を確認して承認するか、差し戻してください
+              </p>
+              <Textarea
+                value={comment}
+                onChange={(e) => {
+                  setComment(e.target.value);
+                  setError(null);
+                }}
+                placeholder="コメント（例: 決済まわりの失敗は既知の不具合として許容）"
+                aria-label="承認者のコメント"
+                className="bg-background"
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={pending}
+                  onClick={() => handleDecide("sent_back")}
+                >
+                  <Undo2 className="h-4 w-4" />
+                  差し戻す
+                </Button>
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  disabled={pending}
+                  onClick={() => handleDecide("approved")}
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                  承認する
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              承認者の判断を待っています
+            </p>
+          ))}
+
+        {approvals.length > 0 && (
+          <ol className="space-y-2">
+            {[...approvals].reverse().map((approval) => {
+              const config = DECISION_LABELS[approval.decision];
+              return (
+                <li
+                  key={approval.id}
+                  className="space-y-1 rounded-md border p-3"
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline" className={config.className}>
+                      {config.label}
+                    </Badge>
+                    <span>{approval.approver?.name ?? "不明なユーザー"}</span>
+                    <span className="text-muted-foreground">
+                      {formatShortDateTime(approval.decidedAt)}
+                    </span>
+                  </div>
+                  <p className="whitespace-pre-wrap text-sm">
+                    {approval.comment}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
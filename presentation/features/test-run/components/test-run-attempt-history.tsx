@@ -0,0 +1,109 @@
+import { TextEditor } from "~/features/text-editor";
+import { cn } from "~/lib/utils";
+import { formatShortDateTime } from "~/features/dashboard/utils/chart-config";
+import { TestRunItemStatusBadge } from "./test-run-item-status-badge";
+import type { Evidence, TestRunItemAttempt } from "~/lib/schemas/test-run";
+
+const LOG_LEVEL_CLASS_NAMES: Record<
+  NonNullable<Evidence["logs"]>[number]["level"],
+  string
+> = {
+  info: "text-muted-foreground",
+  warning: "text-amber-700 dark:text-amber-400",
+  error: "text-destructive",
+};
+
+interface TestRunAttemptHistoryProps {
+  attempts: TestRunItemAttempt[];
+}
+
+/**
+ * 証跡のメモとログ（自動テストの結果を取り込んだ場合は失敗のログなど）
+ */
+function AttemptEvidence({ evidence }: { evidence: Evidence }) {
+  return (
+    <div className="space-y-1">
+      {evidence.notes && (
+        <p className="text-sm text-muted-foreground">{evidence.notes}</p>
+      )}
+      {evidence.logs && evidence.logs.length > 0 && (
+        <ul className="space-y-1">
+          {evidence.logs.map((log, index) => (
+            <li
+              key={index}
+              className={cn(
+                "max-h-60 overflow-y-auto whitespace-pre-wrap break-all rounded bg-muted px-2 py-1 font-mono text-xs",
+                LOG_LEVEL_CLASS_NAMES[log.level],
+              )}
+            >
+              {log.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * アイテムの実行履歴（新しい順、再テスト前の結果も残る）
+ */
+export function TestRunAttemptHistory({
+  attempts,
+}: TestRunAttemptHistoryProps) {
+  if (attempts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">実行履歴</h3>
+      <ol className="space-y-2">
+        {[...attempts].reverse().map((attempt) => (
+          <li key={attempt.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-mono text-muted-foreground">
+                #{attempt.attemptNumber}
+              </span>
+              <TestRunItemStatusBadge status={attempt.result} />
+              <span>{attempt.executedBy?.name ?? "不明なユーザー"}</span>
+              <span className="text-muted-foreground">
+                {formatShortDateTime(attempt.executedAt)}
+              </span>
+              {attempt.duration !== undefined && (
+                <span className="text-muted-foreground">
+                  {attempt.duration} 秒
+                </span>
+              )}
+            </div>
+            {attempt.blockedReason && (
+              <p className="whitespace-pre-wrap text-sm">
+                <span className="font-medium">ブロックの理由: </span>
+                {attempt.blockedReason}
+              </p>
+            )}
+            {attempt.resolution && (
+              <p className="whitespace-pre-wrap text-sm">
+                <span className="font-medium">解消内容: </span>
+                {attempt.resolution.note}
+                <span className="ml-2 text-muted-foreground">
+                  （{attempt.resolution.resolvedBy?.name ?? "不明なユーザー"}・
+                  {formatShortDateTime(attempt.resolution.resolvedAt)}）
+                </span>
+              </p>
+            )}
+            {attempt.evidence && (
+              <AttemptEvidence evidence={attempt.evidence} />
+            )}
+            {attempt.notes && (
+              <TextEditor
+                key={attempt.id}
+                content={attempt.notes}
+                editable={false}
+                className="border-none bg-transparent"
+              />
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
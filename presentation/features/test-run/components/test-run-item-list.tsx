@@ -0,0 +1,128 @@
+import { useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import { isItemCompleted } from "@domain/logic/test-run-progress";
+import { TestRunItemStatusBadge } from "./test-run-item-status-badge";
+import { ScenarioDriftBadge } from "./scenario-drift-badge";
+import { ViewerAvatar } from "./viewer-avatars";
+import { IMPORTANCE_LABELS } from "../utils/importance-labels";
+import type { Assignee } from "~/lib/schemas/test-run";
+import type { ScenarioDrift } from "@domain/models/test-run";
+import type { TestRunItemGroup } from "../types/test-run-execution-types";
+
+interface TestRunItemListProps {
+  groups: TestRunItemGroup[];
+  drifts: ScenarioDrift[];
+  viewersByItem: Map<string, Assignee[]>; // 他のユーザーが実行中のテストケース
+  selectedId?: string;
+  onSelect: (itemId: string) => void;
+}
+
+/**
+ * フォルダーごとのテストケース一覧（選択中のアイテムを常に表示範囲に入れる）
+ */
+export function TestRunItemList({
+  groups,
+  drifts,
+  viewersByItem,
+  selectedId,
+  onSelect,
+}: TestRunItemListProps) {
+  const driftByItem = new Map(drifts.map((drift) => [drift.itemId, drift]));
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selectedId]);
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl">テストケース</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 max-h-[70vh] overflow-y-auto">
+        {groups.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">
+            テストケースがありません
+          </p>
+        ) : (
+          groups.map((group) => (
+            <section key={group.folder} className="space-y-1">
+              <h3 className="flex justify-between text-sm font-semibold text-muted-foreground">
+                <span>{group.folder}</span>
+                <span>
+                  {
+                    group.items.filter((item) => isItemCompleted(item.status))
+                      .length
+                  }{" "}
+                  / {group.items.length}
+                </span>
+              </h3>
+              <ul className="space-y-1">
+                {group.items.map((item) => {
+                  const drift = driftByItem.get(item.id);
+                  const selected = item.id === selectedId;
+                  const viewers = viewersByItem.get(item.id) ?? [];
+                  return (
+                    <li key={item.id}>
+                      <button
+                        type="button"
+                        ref={selected ? selectedRef : undefined}
+                        aria-current={selected}
+                        onClick={() => onSelect(item.id)}
+                        className={cn(
+                          "w-full rounded-md border px-3 py-2 text-left transition-colors",
+                          "hover:bg-accent",
+                          selected && "border-primary bg-primary/5",
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate font-medium">
+                            {item.title}
+                          </span>
+                          <div className="flex shrink-0 items-center gap-2">
+                            {viewers.length > 0 && (
+                              <div className="flex -space-x-1">
+                                {viewers.map((viewer) => (
+                                  <ViewerAvatar
+                                    key={viewer.id}
+                                    user={viewer}
+                                    label={`${viewer.name}さんが実行中`}
+                                    size="sm"
+                                  />
+                                ))}
+                              </div>
+                            )}
+                            <TestRunItemStatusBadge status={item.status} />
+                          </div>
+                        </div>
+                        <div className="mt-1 flex items-center gap-2">
+                          <span className="font-mono text-xs text-muted-foreground">
+                            {item.scenarioId}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            重要度: {IMPORTANCE_LABELS[item.importance]}
+                          </span>
+                          {item.required && (
+                            <Badge variant="secondary" className="text-xs">
+                              必須
+                            </Badge>
+                          )}
+                          {drift && <ScenarioDriftBadge drift={drift} />}
+                          <span className="ml-auto truncate text-xs text-muted-foreground">
+                            {item.assignee?.name ?? "担当なし"}
+                          </span>
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { Link, useFetcher } from "react-router";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Kbd } from "~/components/ui/kbd";
+import { Alert, AlertDescription } from "~/components/ui/alert";
+import {
+  Ban,
+  Check,
+  RotateCcw,
+  Save,
+  SkipForward,
+  Users,
+  X,
+} from "lucide-react";
+import { TextEditor } from "~/features/text-editor";
+import { useCan } from "~/features/auth/hooks/use-can";
+import { isItemCompleted } from "@domain/logic/test-run-progress";
+import { TestRunItemStatusBadge } from "./test-run-item-status-badge";
+import { ScenarioDriftBadge } from "./scenario-drift-badge";
+import { PullScenarioButton } from "./pull-scenario-button";
+import { BlockResolutionForm } from "./block-resolution-form";
+import { TestRunAttemptHistory } from "./test-run-attempt-history";
+import {
+  itemStatusFetcherKey,
+  saveNotesFetcherKey,
+} from "../hooks/use-test-run-execution";
+import type { ScenarioDrift } from "@domain/models/test-run";
+import type {
+  Assignee,
+  TestRunItem,
+  TestRunItemResult,
+} from "~/lib/schemas/test-run";
+import type { TestRunActionResult } from "../types/test-run-execution-types";
+
+/**
+ * 結果ボタン（shortcut は数字キー）
+ */
+export const RESULT_ACTIONS: {
+  result: TestRunItemResult;
+  label: string;
+  shortcut: string;
+  icon: typeof Check;
+  className: string;
+}[] = [
+  {
+    result: "passed",
+    label: "成功",
+    shortcut: "1",
+    icon: Check,
+    className:
+      "border-green-300 text-green-700 hover:bg-green-50 dark:text-green-300 dark:hover:bg-green-950",
+  },
+  {
+    result: "failed",
+    label: "失敗",
+    shortcut: "2",
+    icon: X,
+    className:
+      "border-red-300 text-red-700 hover:bg-red-50 dark:text-red-300 dark:hover:bg-red-950",
+  },
+  {
+    result: "blocked",
+    label: "ブロック",
+    shortcut: "3",
+    icon: Ban,
+    className:
+      "border-orange-300 text-orange-700 hover:bg-orange-50 dark:text-orange-300 dark:hover:bg-orange-950",
+  },
+  {
+    result: "skipped",
+    label: "スキップ",
+    shortcut: "4",
+    icon: SkipForward,
+    className:
+      "border-yellow-300 text-yellow-700 hover:bg-yellow-50 dark:text-yellow-300 dark:hover:bg-yellow-950",
+  },
+];
+
+interface TestRunItemPanelProps {
+  item: TestRunItem;
+  drift?: ScenarioDrift;
+  otherExecutors: Assignee[]; // 同じテストケースを実行中の他のユーザー
+  notes: string;
+  onNotesChange: (notes: string) => void;
+  onRecordResult: (result: TestRunItemResult) => void;
+  onRequestRetest: () => void;
+  onResolveBlock: (resolution: string) => void;
+  onSaveNotes: () => void;
+}
+
+/**
+ * 選択中のテストケースの実行パネル（結果の記録、実行メモ、実行履歴）
+ * テストを実行する権限がない場合は閲覧のみ
+ */
+export function TestRunItemPanel({
+  item,
+  drift,
+  otherExecutors,
+  notes,
+  onNotesChange,
+  onRecordResult,
+  onRequestRetest,
+  onResolveBlock,
+  onSaveNotes,
+}: TestRunItemPanelProps) {
+  const statusFetcher = useFetcher<TestRunActionResult>({
+    key: itemStatusFetcherKey(item.id),
+  });
+  const notesFetcher = useFetcher<TestRunActionResult>({
+    key: saveNotesFetcherKey(item.id),
+  });
+  const canExecute = useCan()("test-run:execute");
+  const canPull =
+    canExecute &&
+    (drift?.status === "outdated" || drift?.status === "unpinned") &&
+    !isItemCompleted(item.status);
+  const error = statusFetcher.data?.error ?? notesFetcher.data?.error;
+  const latestAttempt = item.attempts.at(-1);
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardHeader className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl">{item.title}</CardTitle>
+          <TestRunItemStatusBadge status={item.status} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <Link
+            to={`/scenarios/${item.scenarioId}`}
+            className="font-mono hover:underline"
+          >
+            {item.scenarioId}
+          </Link>
+          <span className="font-mono text-xs">
+            {item.scenarioVersion?.slice(0, 7) ?? "-"}
+          </span>
+          {drift && <ScenarioDriftBadge drift={drift} />}
+          {canPull && <PullScenarioButton itemId={item.id} />}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {otherExecutors.length > 0 && (
+          <Alert>
+            <Users className="h-4 w-4" />
+            <AlertDescription>
+              {otherExecutors.map((user) => `${user.name}さん`).join("、")}
+              もこのテストケースを実行中です
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {item.description && (
+          <p className="whitespace-pre-wrap text-sm">{item.description}</p>
+        )}
+
+        {canExecute && item.status === "blocked" && (
+          <BlockResolutionForm
+            key={latestAttempt?.id}
+            reason={latestAttempt?.blockedReason}
+            onResolve={onResolveBlock}
+          />
+        )}
+
+        {canExecute && item.status === "failed" && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-red-300 bg-red-50 p-4 text-sm dark:border-red-800 dark:bg-red-950">
+            <span>修正後に再実行する場合は、再テストを依頼してください</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={onRequestRetest}
+            >
+              <RotateCcw className="h-4 w-4" />
+              再テストを依頼
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          {RESULT_ACTIONS.map((action) => (
+            <Button
+              key={action.result}
+              type="button"
+              variant="outline"
+              className={action.className}
+              disabled={!canExecute}
+              onClick={() => onRecordResult(action.result)}
+            >
+              <action.icon className="h-4 w-4" />
+              {action.label}
+              <Kbd>{action.shortcut}</Kbd>
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">実行メモ</h3>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="gap-2"
+              disabled={!canExecute || notesFetcher.state !== "idle"}
+              onClick={onSaveNotes}
+            >
+              <Save className="h-4 w-4" />
+              {notesFetcher.state !== "idle" ? "保存中..." : "メモを保存"}
+            </Button>
+          </div>
+          <TextEditor
+            key={`${item.id}-${item.attempts.length}-${item.status}`}
+            content={notes}
+            onChange={onNotesChange}
+            placeholder="実行時の気づきや失敗の詳細を入力してください..."
+            showToolbar
+            enableVoiceInput
+            className="min-h-40"
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <TestRunAttemptHistory attempts={item.attempts} />
+      </CardContent>
+    </Card>
+  );
+}
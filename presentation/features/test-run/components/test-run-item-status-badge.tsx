@@ -0,0 +1,62 @@
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import type { TestRunItem } from "~/lib/schemas/test-run";
+
+interface TestRunItemStatusBadgeProps {
+  status: TestRunItem["status"];
+  className?: string;
+}
+
+const statusConfig: Record<
+  TestRunItem["status"],
+  {
+    label: string;
+    className: string;
+  }
+> = {
+  pending: {
+    label: "未実行",
+    className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  },
+  in_progress: {
+    label: "実行中",
+    className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300",
+  },
+  passed: {
+    label: "成功",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300",
+  },
+  failed: {
+    label: "失敗",
+    className: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+  },
+  blocked: {
+    label: "ブロック",
+    className:
+      "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+  },
+  skipped: {
+    label: "スキップ",
+    className:
+      "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  },
+  retest: {
+    label: "再テスト待ち",
+    className:
+      "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300",
+  },
+};
+
+export function TestRunItemStatusBadge({
+  status,
+  className,
+}: TestRunItemStatusBadgeProps) {
+  const config = statusConfig[status];
+
+  return (
+    <Badge variant="outline" className={cn(config.className, className)}>
+      {config.label}
+    </Badge>
+  );
+}
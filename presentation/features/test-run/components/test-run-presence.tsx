@@ -0,0 +1,43 @@
+import type { TestRunItem } from "~/lib/schemas/test-run";
+import type { OtherViewer } from "../utils/presence";
+import { ViewerAvatar } from "./viewer-avatars";
+
+interface TestRunPresenceProps {
+  others: OtherViewer[];
+  items: TestRunItem[];
+}
+
+/**
+ * 同じテストランの実行画面を開いている他のユーザー
+ */
+export function TestRunPresence({ others, items }: TestRunPresenceProps) {
+  if (others.length === 0) return null;
+  const titles = new Map(items.map((item) => [item.id, item.title]));
+
+  const describe = ({ user, itemIds }: OtherViewer) => {
+    const executing = itemIds.flatMap((itemId) => {
+      const title = titles.get(itemId);
+      return title ? [`「${title}」`] : [];
+    });
+    return executing.length === 0
+      ? `${user.name}さん（閲覧中）`
+      : `${user.name}さん（${executing.join("、")}を実行中）`;
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex -space-x-2">
+        {others.map((other) => (
+          <ViewerAvatar
+            key={other.user.id}
+            user={other.user}
+            label={describe(other)}
+          />
+        ))}
+      </div>
+      <span className="text-sm text-muted-foreground">
+        {others.length}人が閲覧中
+      </span>
+    </div>
+  );
+}
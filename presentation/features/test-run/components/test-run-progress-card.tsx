@@ -0,0 +1,75 @@
+import { Card, CardContent } from "~/components/ui/card";
+import { Progress } from "~/components/ui/progress";
+import { cn } from "~/lib/utils";
+import { summarizeTestRunProgress } from "@domain/logic/test-run-progress";
+import type { TestRunItem } from "~/lib/schemas/test-run";
+
+interface TestRunProgressCardProps {
+  items: TestRunItem[];
+}
+
+/**
+ * 実行の進捗（完了件数と結果ごとの件数）
+ */
+export function TestRunProgressCard({ items }: TestRunProgressCardProps) {
+  const statuses = items.map((item) => item.status);
+  const progress = summarizeTestRunProgress(statuses);
+  const countOf = (status: TestRunItem["status"]) =>
+    statuses.filter((current) => current === status).length;
+  const percentage =
+    items.length > 0
+      ? Math.round((progress.completedItems / items.length) * 100)
+      : 0;
+
+  const counters = [
+    {
+      label: "成功",
+      value: progress.passedItems,
+      className: "text-green-600 dark:text-green-400",
+    },
+    {
+      label: "失敗",
+      value: progress.failedItems,
+      className: "text-red-600 dark:text-red-400",
+    },
+    {
+      label: "ブロック",
+      value: countOf("blocked"),
+      className: "text-orange-600 dark:text-orange-400",
+    },
+    {
+      label: "スキップ",
+      value: countOf("skipped"),
+      className: "text-yellow-600 dark:text-yellow-400",
+    },
+    {
+      label: "未実行",
+      value: countOf("pending") + countOf("in_progress"),
+      className: "text-muted-foreground",
+    },
+  ];
+
+  return (
+    <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+      <CardContent className="space-y-3">
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm text-muted-foreground">進捗</span>
+          <span className="text-sm font-medium">
+            {progress.completedItems} / {items.length} 件完了（{percentage}%）
+          </span>
+        </div>
+        <Progress value={percentage} />
+        <dl className="grid grid-cols-5 gap-2 text-center">
+          {counters.map((counter) => (
+            <div key={counter.label}>
+              <dt className="text-xs text-muted-foreground">{counter.label}</dt>
+              <dd className={cn("text-xl font-semibold", counter.className)}>
+                {counter.value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  );
+}
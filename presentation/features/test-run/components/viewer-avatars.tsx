@@ -0,0 +1,43 @@
+import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "~/components/ui/tooltip";
+import type { Assignee } from "~/lib/schemas/test-run";
+import { cn } from "~/lib/utils";
+
+interface ViewerAvatarProps {
+  user: Assignee;
+  label: string;
+  size?: "sm" | "md";
+}
+
+/**
+ * 実行画面を開いているユーザーのアバター（ツールチップで状況を表示する）
+ */
+export function ViewerAvatar({ user, label, size = "md" }: ViewerAvatarProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Avatar
+          className={cn(
+            "border-2 border-background",
+            size === "sm" ? "h-5 w-5" : "h-8 w-8",
+          )}
+        >
+          {user.avatar && <AvatarImage src={user.avatar} alt={user.name} />}
+          <AvatarFallback
+            className={cn(
+              "bg-primary/10",
+              size === "sm" ? "text-[10px]" : "text-xs",
+            )}
+          >
+            {user.name.charAt(0)}
+          </AvatarFallback>
+        </Avatar>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+
+/**
+ * 選択中のテストケースを実行中として他のユーザーに知らせる
+ *
+ * 自分の接続が viewers に現れてから送り、サーバー側の状態と選択中のテストケースが
+ * 異なる場合（再接続した場合など）は送り直す
+ * 結果の記録ではないため loader は再実行しない
+ *
+ * @param testRunId - 実行中のテストラン
+ * @param sessionId - 更新イベントの購読時に渡した接続の識別子
+ * @param viewers - 実行画面を開いているユーザー
+ * @param itemId - 選択中のテストケース
+ * @param enabled - テストランを実行できるユーザーのみ知らせる
+ */
+export function useFocusReporting(
+  testRunId: string,
+  sessionId: string,
+  viewers: TestRunViewer[],
+  itemId: string | undefined,
+  enabled: boolean,
+) {
+  const self = viewers.find((viewer) => viewer.sessionId === sessionId);
+  const joined = self !== undefined;
+  const reportedItemId = self?.itemId;
+
+  useEffect(() => {
+    if (!enabled || !joined || reportedItemId === itemId) return;
+    void fetch(`/api/test-runs/${testRunId}/presence`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, itemId: itemId ?? null }),
+    }).catch(() => undefined);
+  }, [testRunId, sessionId, itemId, enabled, joined, reportedItemId]);
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import type { TestRun, TestRunItem } from "~/lib/schemas/test-run";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+import { useTestRunUpdates } from "./use-test-run-updates";
+import {
+  applyEventToItems,
+  applyEventToRun,
+} from "../utils/apply-test-run-event";
+
+interface LiveTestRun {
+  run: TestRun;
+  items: TestRunItem[];
+}
+
+interface UseLiveTestRunReturn extends LiveTestRun {
+  viewers: TestRunViewer[];
+  sessionId: string;
+  connected: boolean;
+}
+
+/**
+ * loader のテストランとアイテムに、他のユーザーの更新をリアルタイムで反映する
+ * （loader を再実行した場合はその結果に置き換える）
+ *
+ * 接続中は実行画面を開いているユーザーとして他のユーザーに表示され、
+ * 同じ画面を開いているユーザー（viewers）を受け取る
+ */
+export function useLiveTestRun(
+  loadedRun: TestRun,
+  loadedItems: TestRunItem[],
+): UseLiveTestRunReturn {
+  const [live, setLive] = useState<LiveTestRun>({
+    run: loadedRun,
+    items: loadedItems,
+  });
+  const [viewers, setViewers] = useState<TestRunViewer[]>([]);
+  // ブラウザのタブごとの接続の識別子
+  const [sessionId] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    setLive({ run: loadedRun, items: loadedItems });
+  }, [loadedRun, loadedItems]);
+
+  const { connected } = useTestRunUpdates(
+    loadedRun.id,
+    (event) => {
+      if (event.type === "presence_changed") {
+        setViewers(event.viewers);
+        return;
+      }
+      setLive((current) => ({
+        run: applyEventToRun(current.run, event),
+        items: applyEventToItems(current.items, event),
+      }));
+    },
+    sessionId,
+  );
+
+  return { ...live, viewers, sessionId, connected };
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useFetchers, useSubmit } from "react-router";
+import { testRunActionSchema } from "~/lib/schemas/test-run";
+import type {
+  ApprovalDecision,
+  TestRunAction,
+  TestRunItem,
+  TestRunItemResult,
+  TestRunItemStatus,
+} from "~/lib/schemas/test-run";
+import { isItemCompleted } from "@domain/logic/test-run-progress";
+import { groupItemsByFolder } from "../utils/group-items-by-folder";
+import type { TestRunItemGroup } from "../types/test-run-execution-types";
+
+interface UseTestRunExecutionReturn {
+  groups: TestRunItemGroup[];
+  items: TestRunItem[]; // 送信中の操作を反映した表示順のアイテム
+  selectedItem: TestRunItem | undefined;
+  select: (itemId: string) => void;
+  selectNext: () => void;
+  selectPrevious: () => void;
+  recordResult: (result: TestRunItemResult, blockedReason?: string) => void;
+  requestRetest: () => void;
+  resolveBlock: (resolution: string) => void;
+  draftNotes: (itemId: string) => string | undefined;
+  setDraftNotes: (itemId: string, notes: string) => void;
+  saveNotes: () => void;
+  approvalPending: boolean;
+  decideApproval: (decision: ApprovalDecision, comment: string) => void;
+}
+
+/**
+ * ステータスを変える操作の送信に使う fetcher のキー
+ * （アイテムごとに分け、連続して記録しても取り消されないようにする）
+ */
+export const itemStatusFetcherKey = (itemId: string) => `status-${itemId}`;
+
+export const saveNotesFetcherKey = (itemId: string) => `notes-${itemId}`;
+
+export const approvalFetcherKey = "approval";
+
+/**
+ * 送信中の操作が確定した後のアイテムのステータス（ステータスを変えない操作は null）
+ */
+const expectedStatus = (
+  action: TestRunAction,
+): readonly [string, TestRunItemStatus] | null => {
+  switch (action.intent) {
+    case "record-result":
+      return [action.itemId, action.result];
+    case "request-retest":
+    case "resolve-block":
+      return [action.itemId, "retest"];
+    case "save-notes":
+    case "pull-scenario":
+    case "update-completion-policy":
+    case "decide-approval":
+    case "apply-assignment-rule":
+    case "assign-items":
+    case "import-automated-results":
+    case "apply-automated-results":
+      return null;
+  }
+};
+
+/**
+ * テストラン実行画面の状態（選択中のアイテム、結果の記録、メモの下書き、承認）
+ *
+ * 記録した結果はサーバーの応答を待たずに表示へ反映する
+ *
+ * @param initialItemId - 最初に選択するアイテム（省略時は最初の未完了のアイテム）
+ */
+export function useTestRunExecution(
+  loadedItems: TestRunItem[],
+  initialItemId?: string,
+): UseTestRunExecutionReturn {
+  const submit = useSubmit();
+  const fetchers = useFetchers();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [selectedId, setSelectedId] = useState<string | undefined>(
+    () =>
+      (
+        loadedItems.find((item) => item.id === initialItemId) ??
+        loadedItems.find((item) => !isItemCompleted(item.status)) ??
+        loadedItems[0]
+      )?.id,
+  );
+
+  const pendingStatuses = new Map(
+    fetchers.flatMap((fetcher) => {
+      const parsed = testRunActionSchema.safeParse(fetcher.json);
+      const expected = parsed.success ? expectedStatus(parsed.data) : null;
+      return expected ? [expected] : [];
+    }),
+  );
+
+  const groups = groupItemsByFolder(
+    loadedItems.map((item) => {
+      const status = pendingStatuses.get(item.id);
+      return status ? { ...item, status } : item;
+    }),
+  );
+  const items = groups.flatMap((group) => group.items);
+  const selectedIndex = items.findIndex((item) => item.id === selectedId);
+  const selectedItem = items[selectedIndex];
+
+  const selectAt = (index: number) => {
+    const item = items[Math.min(Math.max(index, 0), items.length - 1)];
+    if (item) setSelectedId(item.id);
+  };
+
+  const submitAction = (action: TestRunAction, fetcherKey: string) =>
+    void submit(action, {
+      method: "post",
+      encType: "application/json",
+      navigate: false,
+      fetcherKey,
+    });
+
+  const recordResult = (result: TestRunItemResult, blockedReason?: string) => {
+    if (!selectedItem) return;
+
+    const notes = drafts[selectedItem.id];
+    submitAction(
+      {
+        intent: "record-result",
+        itemId: selectedItem.id,
+        result,
+        ...(notes === undefined ? {} : { notes }),
+        ...(blockedReason === undefined ? {} : { blockedReason }),
+      },
+      itemStatusFetcherKey(selectedItem.id),
+    );
+    selectAt(selectedIndex + 1);
+  };
+
+  // 再テスト待ちに戻すとサーバー側のメモが空になるため、下書きも破棄する
+  const discardDraft = (itemId: string) =>
+    setDrafts(({ [itemId]: _, ...rest }) => rest);
+
+  const requestRetest = () => {
+    if (!selectedItem) return;
+
+    discardDraft(selectedItem.id);
+    submitAction(
+      { intent: "request-retest", itemId: selectedItem.id },
+      itemStatusFetcherKey(selectedItem.id),
+    );
+  };
+
+  const resolveBlock = (resolution: string) => {
+    if (!selectedItem) return;
+
+    discardDraft(selectedItem.id);
+    submitAction(
+      { intent: "resolve-block", itemId: selectedItem.id, resolution },
+      itemStatusFetcherKey(selectedItem.id),
+    );
+  };
+
+  const saveNotes = () => {
+    if (!selectedItem) return;
+
+    submitAction(
+      {
+        intent: "save-notes",
+        itemId: selectedItem.id,
+        notes: drafts[selectedItem.id] ?? selectedItem.notes ?? "",
+      },
+      saveNotesFetcherKey(selectedItem.id),
+    );
+  };
+
+  const decideApproval = (decision: ApprovalDecision, comment: string) =>
+    submitAction(
+      { intent: "decide-approval", decision, comment },
+      approvalFetcherKey,
+    );
+
+  return {
+    groups,
+    items,
+    selectedItem,
+    select: setSelectedId,
+    selectNext: () => selectAt(selectedIndex + 1),
+    selectPrevious: () => selectAt(selectedIndex - 1),
+    recordResult,
+    requestRetest,
+    resolveBlock,
+    draftNotes: (itemId) => drafts[itemId],
+    setDraftNotes: (itemId, notes) =>
+      setDrafts((current) => ({ ...current, [itemId]: notes })),
+    saveNotes,
+    approvalPending: fetchers.some(
+      (fetcher) =>
+        fetcher.key === approvalFetcherKey && fetcher.state !== "idle",
+    ),
+    decideApproval,
+  };
+}
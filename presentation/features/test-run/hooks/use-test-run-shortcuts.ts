@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+
+/**
+ * テストラン実行画面のキーボードショートカット
+ *
+ * @param handlers - キー（KeyboardEvent.key）ごとの処理
+ */
+export function useTestRunShortcuts(handlers: Record<string, () => void>) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // input/textarea やエディター（contenteditable）内では無視
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target instanceof HTMLElement && e.target.isContentEditable)
+      ) {
+        return;
+      }
+
+      // 修飾キーとの組み合わせは無視
+      if (e.metaKey || e.ctrlKey || e.altKey) {
+        return;
+      }
+
+      const handler =
+        handlers[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [handlers]);
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+import { useRevalidator } from "react-router";
+import {
+  TEST_RUN_EVENT_TYPES,
+  testRunEventSchema,
+} from "~/lib/schemas/test-run-event";
+import type { TestRunEvent } from "~/lib/schemas/test-run-event";
+
+// サーバーが接続を閉じた場合の再接続の間隔（ミリ秒、失敗が続くほど延ばす）
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * テストランの更新イベントを SSE で受け取る
+ *
+ * - 切断中に配信されたイベントは、最後に受け取ったイベント ID から再送される
+ * - 再送できない場合（サーバーの再起動など）は loader を再実行して最新の状態を読み直す
+ *
+ * @param url - 購読するストリーム（クエリを含めてよい）
+ * @param onEvent - イベントを受け取ったときの処理
+ */
+export function useTestRunEventStream(
+  url: string,
+  onEvent: (event: TestRunEvent) => void,
+): { connected: boolean } {
+  const [connected, setConnected] = useState(false);
+  const revalidator = useRevalidator();
+  const onEventRef = useRef(onEvent);
+  const revalidateRef = useRef(revalidator.revalidate);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    revalidateRef.current = revalidator.revalidate;
+  });
+
+  useEffect(() => {
+    let source: EventSource | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastEventId: string | undefined;
+    let failures = 0;
+
+    const handleEvent = (e: MessageEvent<string>) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
+      const parsed = testRunEventSchema.safeParse(JSON.parse(e.data));
+      if (parsed.success) onEventRef.current(parsed.data);
+    };
+
+    const connect = () => {
+      // 接続中の切断はブラウザが Last-Event-ID を付けて再接続する
+      // 閉じられた後に作り直す場合はクエリで最後のイベント ID を送る
+      const target = new URL(url, window.location.origin);
+      if (lastEventId) target.searchParams.set("lastEventId", lastEventId);
+      source = new EventSource(target);
+      source.onopen = () => {
+        failures = 0;
+        setConnected(true);
+      };
+      source.onerror = () => {
+        setConnected(false);
+        if (source?.readyState !== EventSource.CLOSED) return;
+        const delay = Math.min(
+          RECONNECT_BASE_DELAY * 2 ** failures,
+          RECONNECT_MAX_DELAY,
+        );
+        failures += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+      for (const type of TEST_RUN_EVENT_TYPES) {
+        source.addEventListener(type, handleEvent);
+      }
+      source.addEventListener("resync", () => {
+        void revalidateRef.current();
+      });
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [url]);
+
+  return { connected };
+}
+
+/**
+ * 1 つのテストランの更新イベントを受け取る
+ *
+ * @param testRunId - 購読するテストラン
+ * @param onEvent - イベントを受け取ったときの処理
+ * @param sessionId - 指定した場合は、接続中は実行画面を開いているユーザーとして表示される
+ */
+export function useTestRunUpdates(
+  testRunId: string,
+  onEvent: (event: TestRunEvent) => void,
+  sessionId?: string,
+): { connected: boolean } {
+  const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : "";
+  return useTestRunEventStream(
+    `/api/test-runs/${testRunId}/stream${query}`,
+    onEvent,
+  );
+}
+
+/**
+ * すべてのテストランの更新イベントを受け取る（実行画面の在席は含まない）
+ *
+ * @param onEvent - イベントを受け取ったときの処理
+ */
+export function useAllTestRunUpdates(onEvent: (event: TestRunEvent) => void): {
+  connected: boolean;
+} {
+  return useTestRunEventStream("/api/test-runs/stream", onEvent);
+}
@@ -0,0 +1,25 @@
+/**
+ * テストラン実行画面の型定義
+ */
+import type { TestRunItem } from "~/lib/schemas/test-run";
+import type {
+  AutomatedTestImportResult,
+  AutomatedTestItemOutcome,
+} from "~/lib/schemas/automated-test";
+
+/**
+ * フォルダーごとのアイテム
+ */
+export interface TestRunItemGroup {
+  folder: string;
+  items: TestRunItem[];
+}
+
+/**
+ * 実行画面の action の結果
+ */
+export interface TestRunActionResult {
+  error?: string;
+  automatedImport?: AutomatedTestImportResult; // 自動テストのレポートの取り込みの結果
+  automatedOutcomes?: AutomatedTestItemOutcome[]; // 手動で割り当てたテストケースの記録の結果
+}
@@ -0,0 +1,51 @@
+import type { TestRun, TestRunItem } from "~/lib/schemas/test-run";
+import type { TestRunEvent } from "~/lib/schemas/test-run-event";
+import { calculateSuccessRate } from "@domain/logic/dashboard-statistics";
+
+/**
+ * 受信したイベントをテストランに反映する（ステータスと進捗）
+ */
+export const applyEventToRun = (run: TestRun, event: TestRunEvent): TestRun => {
+  if (event.type !== "run_status_changed" || event.testRunId !== run.id) {
+    return run;
+  }
+  const { status, totalItems, completedItems, passedItems, failedItems } =
+    event;
+  return {
+    ...run,
+    status,
+    successRate: calculateSuccessRate(passedItems, completedItems),
+    totalItems,
+    completedItems,
+    passedItems,
+    failedItems,
+  };
+};
+
+/**
+ * 受信したイベントをアイテムに反映する（内容と担当者）
+ */
+export const applyEventToItems = (
+  items: TestRunItem[],
+  event: TestRunEvent,
+): TestRunItem[] => {
+  switch (event.type) {
+    case "item_updated":
+      return items.map((item) =>
+        item.id === event.item.id ? event.item : item,
+      );
+    case "assignee_changed": {
+      const assignees = new Map(
+        event.items.map(({ itemId, assignee }) => [itemId, assignee]),
+      );
+      return items.map((item) =>
+        assignees.has(item.id)
+          ? { ...item, assignee: assignees.get(item.id) }
+          : item,
+      );
+    }
+    case "run_status_changed":
+    case "presence_changed":
+      return items;
+  }
+};
@@ -0,0 +1,24 @@
+import type { AssignmentStrategy } from "~/lib/schemas/test-run";
+
+/**
+ * 振り分けルールの表示名と説明
+ */
+export const ASSIGNMENT_STRATEGY_LABELS: Record<
+  AssignmentStrategy,
+  { label: string; description: string }
+> = {
+  round_robin: {
+    label: "順番に振り分け",
+    description: "テストケースの並び順に担当者へ1件ずつ振り分けます",
+  },
+  folder_owner: {
+    label: "フォルダーの担当者",
+    description:
+      "フォルダーごとに決めた担当者へ振り分けます（担当者はプロジェクトに保存されます）",
+  },
+  balanced_duration: {
+    label: "所要時間で均等に",
+    description:
+      "シナリオの想定所要時間の合計が担当者ごとに均等になるよう振り分けます",
+  },
+};
@@ -0,0 +1,21 @@
+import type { TestRunItem } from "~/lib/schemas/test-run";
+import type { TestRunItemGroup } from "../types/test-run-execution-types";
+
+const UNCATEGORIZED_FOLDER = "未分類";
+
+/**
+ * アイテムをフォルダーごとにまとめる（フォルダー・アイテムとも元の並び順を保つ）
+ */
+export const groupItemsByFolder = (
+  items: readonly TestRunItem[],
+): TestRunItemGroup[] => {
+  const groups = new Map<string, TestRunItem[]>();
+  for (const item of items) {
+    const folder = item.folder ?? UNCATEGORIZED_FOLDER;
+    groups.set(folder, [...(groups.get(folder) ?? []), item]);
+  }
+  return [...groups].map(([folder, groupItems]) => ({
+    folder,
+    items: groupItems,
+  }));
+};
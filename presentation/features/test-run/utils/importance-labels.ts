@@ -0,0 +1,11 @@
+import type { Importance } from "~/lib/schemas/test-run";
+
+/**
+ * 重要度の表示名
+ */
+export const IMPORTANCE_LABELS: Record<Importance, string> = {
+  critical: "最重要",
+  high: "高",
+  medium: "中",
+  low: "低",
+};
@@ -0,0 +1,47 @@
+import type { Assignee } from "~/lib/schemas/test-run";
+import type { TestRunViewer } from "~/lib/schemas/test-run-event";
+
+/**
+ * 実行画面を開いている他のユーザーと、実行中のテストケース
+ */
+export type OtherViewer = {
+  user: Assignee;
+  itemIds: string[];
+};
+
+/**
+ * 自分以外のユーザーをまとめる（複数のタブで開いている場合は 1 人として扱う）
+ */
+export const summarizeOtherViewers = (
+  viewers: TestRunViewer[],
+  currentUserId: string,
+): OtherViewer[] => {
+  const byUser = new Map<string, OtherViewer>();
+  for (const viewer of viewers) {
+    if (viewer.user.id === currentUserId) continue;
+    const summary = byUser.get(viewer.user.id) ?? {
+      user: viewer.user,
+      itemIds: [],
+    };
+    if (viewer.itemId && !summary.itemIds.includes(viewer.itemId)) {
+      summary.itemIds.push(viewer.itemId);
+    }
+    byUser.set(viewer.user.id, summary);
+  }
+  return [...byUser.values()];
+};
+
+/**
+ * テストケースごとに、実行中の他のユーザーをまとめる
+ */
+export const groupViewersByItem = (
+  others: OtherViewer[],
+): Map<string, Assignee[]> => {
+  const byItem = new Map<string, Assignee[]>();
+  for (const { user, itemIds } of others) {
+    for (const itemId of itemIds) {
+      byItem.set(itemId, [...(byItem.get(itemId) ?? []), user]);
+    }
+  }
+  return byItem;
+};
@@ -19,6 +19,8 @@ export const useTextEditor = ({
     extensions,
     content,
     editable,
+    // SSR 時はエディタを生成せず、ハイドレーション後に描画する
+    immediatelyRender: false,
     onUpdate: handleUpdate,
   });
 
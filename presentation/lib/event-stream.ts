@@ -0,0 +1,101 @@
+import { Effect, Fiber, Stream } from "effect";
+import type { TestRunStreamMessage } from "@domain/models/test-run-event";
+
+/**
+ * SSE で送るイベント（data は JSON にして送る）
+ */
+export interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: unknown;
+}
+
+// プロキシのタイムアウトで切断されないよう、コメント行を定期的に送る
+const HEARTBEAT_INTERVAL = "15 seconds";
+// 切断時にブラウザが再接続するまでの時間（ミリ秒）
+const RECONNECT_DELAY = 3000;
+
+const formatEvent = ({ id, event, data }: ServerSentEvent) =>
+  [
+    ...(id === undefined ? [] : [`id: ${id}`]),
+    `event: ${event}`,
+    `data: ${JSON.stringify(data)}`,
+  ].join("\n") + "\n\n";
+
+/**
+ * イベントの Stream を text/event-stream のレスポンスにする
+ * （クライアントの切断で Stream の実行を中断する）
+ */
+export function eventStreamResponse(
+  events: Stream.Stream<ServerSentEvent>,
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  const heartbeat = Stream.tick(HEARTBEAT_INTERVAL).pipe(
+    Stream.drop(1),
+    Stream.as(": heartbeat\n\n"),
+  );
+  const chunks = Stream.merge(events.pipe(Stream.map(formatEvent)), heartbeat);
+
+  let fiber: Fiber.RuntimeFiber<void> | undefined;
+  const stop = () => {
+    if (fiber) Effect.runFork(Fiber.interrupt(fiber));
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY}\n\n`));
+      fiber = Effect.runFork(
+        Stream.runForEach(chunks, (chunk) =>
+          Effect.sync(() => controller.enqueue(encoder.encode(chunk))),
+        ),
+      );
+      signal.addEventListener("abort", stop, { once: true });
+    },
+    cancel: stop,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Nginx のバッファリングを無効化
+    },
+  });
+}
+
+/**
+ * 再接続時に受け取ったイベント ID（ブラウザは Last-Event-ID ヘッダー、
+ * 手動で再接続する場合は lastEventId クエリで送る）
+ */
+export function parseLastEventId(request: Request): number | undefined {
+  const value =
+    request.headers.get("Last-Event-ID") ??
+    new URL(request.url).searchParams.get("lastEventId");
+  const id = Number(value);
+  return value && Number.isSafeInteger(id) && id >= 0 ? id : undefined;
+}
+
+const toServerSentEvent = (message: TestRunStreamMessage): ServerSentEvent =>
+  message.type === "resync"
+    ? { event: "resync", data: {} }
+    : {
+        id: String(message.id),
+        event: message.event.type,
+        data: message.event,
+      };
+
+/**
+ * テストランの更新イベントを SSE のレスポンスにする
+ * （イベント名は event.type、再送できない場合は resync）
+ */
+export function testRunEventStreamResponse(
+  messages: Stream.Stream<TestRunStreamMessage>,
+  signal: AbortSignal,
+): Response {
+  return eventStreamResponse(
+    messages.pipe(Stream.map(toServerSentEvent)),
+    signal,
+  );
+}
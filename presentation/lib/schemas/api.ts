@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { scenarioFileSchema } from "./scenario";
+import { automatedTestImportResultSchema } from "./automated-test";
+import {
+  assigneeSchema,
+  createTestRunRequestSchema,
+  environmentSchema,
+  itemResultInputSchema,
+  testRunApprovalSchema,
+  testRunItemSchema,
+  testRunSchema,
+  testRunStatusSchema,
+} from "./test-run";
+
+/**
+ * REST API（/api/v1）のスキーマ
+ *
+ * 画面と同じスキーマから作り、/api/v1/openapi.json で OpenAPI として公開する
+ */
+
+/**
+ * エラーのレスポンス
+ */
+export const apiErrorSchema = z.object({
+  error: z.string(),
+});
+
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+/**
+ * プロジェクト（環境・リリースを含む）
+ */
+export const apiProjectSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  name: z.string(),
+  environments: z.array(environmentSchema),
+  releases: z.array(
+    z.object({
+      id: z.string(),
+      environmentId: z.string(),
+      tag: z.string(),
+      plannedAt: z.string().optional(), // ISO 8601
+    }),
+  ),
+});
+
+export type ApiProject = z.infer<typeof apiProjectSchema>;
+
+/**
+ * シナリオ（Git の YAML と同じ項目に、配置・本文・版を加えたもの）
+ */
+export const apiScenarioSchema = scenarioFileSchema.extend({
+  project: z.string(),
+  environment: environmentSchema.shape.type,
+  description: z.string(), // Markdown 本文
+  version: z.string(), // シナリオを最後に変更した commit SHA
+});
+
+export type ApiScenario = z.infer<typeof apiScenarioSchema>;
+
+/**
+ * シナリオ一覧の絞り込み（クエリ文字列）
+ */
+export const scenarioListQuerySchema = z.object({
+  project: z.string().min(1).optional(), // プロジェクトキー
+  environment: environmentSchema.shape.type.optional(),
+});
+
+export type ScenarioListQuery = z.infer<typeof scenarioListQuerySchema>;
+
+/**
+ * テストラン（アイテムと承認ログを含む）
+ */
+export const apiTestRunDetailSchema = testRunSchema.extend({
+  items: z.array(testRunItemSchema),
+  approvals: z.array(testRunApprovalSchema),
+});
+
+export type ApiTestRunDetail = z.infer<typeof apiTestRunDetailSchema>;
+
+/**
+ * テストラン一覧の絞り込み（クエリ文字列）
+ */
+export const testRunListQuerySchema = z.object({
+  projectId: z.string().min(1).optional(),
+  status: testRunStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type TestRunListQuery = z.infer<typeof testRunListQuerySchema>;
+
+/**
+ * 一覧のレスポンス
+ */
+const listOf = <T extends z.ZodType>(item: T) =>
+  z.object({ data: z.array(item) });
+
+/**
+ * OpenAPI の components に載せるスキーマ
+ * - requests はリクエストとして受け付ける形（既定値のある項目は省略できる）
+ * - responses はレスポンスとして返す形
+ */
+export const apiSchemas = {
+  requests: {
+    CreateTestRunRequest: createTestRunRequestSchema,
+    ItemResultInput: itemResultInputSchema,
+  },
+  responses: {
+    Error: apiErrorSchema,
+    Environment: environmentSchema,
+    Assignee: assigneeSchema,
+    Project: apiProjectSchema,
+    ProjectList: listOf(apiProjectSchema),
+    Scenario: apiScenarioSchema,
+    ScenarioList: listOf(apiScenarioSchema),
+    TestRun: testRunSchema,
+    TestRunList: listOf(testRunSchema),
+    TestRunDetail: apiTestRunDetailSchema,
+    TestRunItem: testRunItemSchema,
+    TestRunItemList: listOf(testRunItemSchema),
+    TestRunApproval: testRunApprovalSchema,
+    AutomatedTestImportResult: automatedTestImportResultSchema,
+  },
+};
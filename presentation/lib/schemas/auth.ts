@@ -6,3 +6,45 @@ export const loginSchema = z.object({
 });
 
 export type LoginFormData = z.infer<typeof loginSchema>;
+
+/**
+ * OIDC の認可リクエストの開始時に Cookie に保存する値
+ */
+export const pendingOidcLoginSchema = z.object({
+  state: z.string().min(1),
+  nonce: z.string().min(1),
+  codeVerifier: z.string().min(43),
+  returnTo: z.string(),
+});
+
+/**
+ * 権限（API トークンのスコープ）
+ */
+export const permissionSchema = z.enum([
+  "scenario:create",
+  "scenario:edit",
+  "scenario:archive",
+  "test-run:create",
+  "test-run:execute",
+  "test-run:approve",
+  "test-run:view",
+  "user:manage",
+  "project:configure",
+]);
+
+/**
+ * API トークンの作成フォーム（expiresInDays が null の場合は無期限）
+ */
+export const createApiTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "名前を入力してください")
+    .max(100, "名前は 100 文字以内で入力してください"),
+  scopes: z
+    .array(permissionSchema)
+    .min(1, "スコープを 1 つ以上選択してください"),
+  expiresInDays: z.number().int().positive().max(365).nullable(),
+});
+
+export type CreateApiTokenFormData = z.infer<typeof createApiTokenSchema>;
@@ -0,0 +1,125 @@
+import { z } from "zod";
+
+/**
+ * 取り込める自動テストのレポートの形式
+ * - junit: JUnit XML
+ * - playwright: Playwright の JSON レポーター
+ * - jest: Jest の JSON レポーター（--json）
+ */
+export const automatedTestReportFormatSchema = z.enum([
+  "junit",
+  "playwright",
+  "jest",
+]);
+
+export type AutomatedTestReportFormat = z.infer<
+  typeof automatedTestReportFormatSchema
+>;
+
+/**
+ * 自動テストのテストケースの結果
+ */
+export const automatedTestStatusSchema = z.enum([
+  "passed",
+  "failed",
+  "skipped",
+]);
+
+export type AutomatedTestStatus = z.infer<typeof automatedTestStatusSchema>;
+
+/**
+ * レポートのテストケース
+ * - id はシナリオの automated_test_id と照合する ID（docs/integrations.md）
+ * - 同じ ID のテストケースが複数ある場合（Playwright のプロジェクトごとの結果など）は
+ *   まとめて 1 つのアイテムに記録する
+ */
+export const automatedTestCaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(), // describe を含まないテストケース名
+  file: z.string().optional(),
+  status: automatedTestStatusSchema,
+  durationSeconds: z.number().min(0).optional(),
+  failureMessage: z.string().optional(), // 失敗のメッセージとスタックトレース
+});
+
+export type AutomatedTestCase = z.infer<typeof automatedTestCaseSchema>;
+
+/**
+ * 取り込むレポート（format を省略すると内容から判定する。内容は 10 MB まで）
+ */
+export const automatedTestReportInputSchema = z.object({
+  format: automatedTestReportFormatSchema.optional(),
+  report: z
+    .string()
+    .min(1, "レポートを指定してください")
+    .max(10_000_000, "レポートが大きすぎます"),
+});
+
+/**
+ * REST API でレポートを取り込むときのクエリ文字列（本文はレポートそのもの）
+ */
+export const automatedTestImportQuerySchema =
+  automatedTestReportInputSchema.pick({ format: true });
+
+/**
+ * 自動テストのレポートを取り込むリクエスト
+ */
+export const importAutomatedTestResultsRequestSchema =
+  automatedTestReportInputSchema.extend({
+    intent: z.literal("import-automated-results"),
+  });
+
+export type ImportAutomatedTestResultsRequest = z.infer<
+  typeof importAutomatedTestResultsRequestSchema
+>;
+
+/**
+ * 照合できなかったテストケースを手動でアイテムに割り当てて記録するリクエスト
+ */
+export const applyAutomatedTestResultsRequestSchema = z.object({
+  intent: z.literal("apply-automated-results"),
+  format: automatedTestReportFormatSchema,
+  assignments: z
+    .array(
+      z.object({
+        itemId: z.string().min(1),
+        testCase: automatedTestCaseSchema,
+      }),
+    )
+    .min(1, "テストケースを割り当ててください"),
+});
+
+export type ApplyAutomatedTestResultsRequest = z.infer<
+  typeof applyAutomatedTestResultsRequestSchema
+>;
+
+/**
+ * アイテムごとの取り込みの結果
+ * - passed / failed: 実行履歴に記録した
+ * - skipped: 照合したテストケースがすべてスキップされたため記録していない
+ */
+export const automatedTestItemOutcomeSchema = z.object({
+  itemId: z.string(),
+  scenarioId: z.string(),
+  title: z.string(),
+  result: automatedTestStatusSchema,
+  testCaseIds: z.array(z.string()),
+});
+
+export type AutomatedTestItemOutcome = z.infer<
+  typeof automatedTestItemOutcomeSchema
+>;
+
+/**
+ * レポートの取り込みの結果（unmatched は手動で割り当てるテストケース）
+ */
+export const automatedTestImportResultSchema = z.object({
+  format: automatedTestReportFormatSchema,
+  totalCases: z.number().int().min(0),
+  outcomes: z.array(automatedTestItemOutcomeSchema),
+  unmatched: z.array(automatedTestCaseSchema),
+});
+
+export type AutomatedTestImportResult = z.infer<
+  typeof automatedTestImportResultSchema
+>;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+/**
+ * テストランの通知のイベント
+ * - run_started: テストランの実行を開始した（最初の結果を記録し、計画中から変わった）
+ * - item_failed: テストケースが失敗した
+ * - automated_results_recorded: 自動テストの結果を取り込んだ（取り込みごとに 1 回）
+ * - run_awaiting_approval: 完了条件を満たし承認待ちになった
+ * - run_approved / run_sent_back: 承認者が承認・差し戻した
+ * - run_completed: 完了した（承認済み、または完了条件を満たせないまま全件確定した）
+ */
+export const notificationEventTypeSchema = z.enum([
+  "run_started",
+  "item_failed",
+  "automated_results_recorded",
+  "run_awaiting_approval",
+  "run_approved",
+  "run_sent_back",
+  "run_completed",
+]);
+
+export type NotificationEventType = z.infer<typeof notificationEventTypeSchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { updateReleaseDetectionRequestSchema } from "./release-detection";
+import {
+  createWebhookRequestSchema,
+  deleteWebhookRequestSchema,
+  redeliverWebhookRequestSchema,
+  rotateWebhookSecretRequestSchema,
+  updateWebhookRequestSchema,
+} from "./webhook";
+
+/**
+ * プロジェクト設定画面の action のリクエスト
+ */
+export const projectSettingsActionSchema = z.discriminatedUnion("intent", [
+  updateReleaseDetectionRequestSchema,
+  createWebhookRequestSchema,
+  updateWebhookRequestSchema,
+  deleteWebhookRequestSchema,
+  rotateWebhookSecretRequestSchema,
+  redeliverWebhookRequestSchema,
+]);
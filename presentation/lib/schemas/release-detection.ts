@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+/**
+ * 変更ファイルのパスからフォルダー・タグへの対応
+ * - pattern は glob（`*` はパスの区切りを含まない任意の文字列、`**` は区切りを含む）
+ * - 一致したファイルがあれば folders のフォルダーと tags のタグを持つシナリオを提案する
+ */
+export const pathScopeRuleSchema = z.object({
+  pattern: z.string().trim().min(1, "パスのパターンを入力してください"),
+  folders: z.array(z.string().trim().min(1)),
+  tags: z.array(z.string().trim().min(1)),
+});
+
+export type PathScopeRule = z.infer<typeof pathScopeRuleSchema>;
+
+/**
+ * プロジェクトのリリース検出の設定（GitHub）
+ * - releaseLabel はリリースの PR に付けるラベル。`{tag}` はリリースのタグに置き換える
+ */
+export const releaseDetectionSettingsSchema = z.object({
+  repository: z
+    .string()
+    .trim()
+    .regex(
+      /^[\w.-]+\/[\w.-]+$/,
+      "リポジトリは owner/name の形式で入力してください",
+    ),
+  releaseLabel: z
+    .string()
+    .trim()
+    .min(1, "リリースのラベルを入力してください")
+    .max(100, "リリースのラベルは100文字以内で入力してください"),
+  pathRules: z.array(pathScopeRuleSchema),
+});
+
+export type ReleaseDetectionSettings = z.infer<
+  typeof releaseDetectionSettingsSchema
+>;
+
+/**
+ * リリース検出の設定を変更するリクエスト（settings を省略すると設定を外す）
+ */
+export const updateReleaseDetectionRequestSchema = z.object({
+  intent: z.literal("update-release-detection"),
+  settings: releaseDetectionSettingsSchema.optional(),
+});
+
+export type UpdateReleaseDetectionRequest = z.infer<
+  typeof updateReleaseDetectionRequestSchema
+>;
+
+/**
+ * リリース検出の設定フォーム（フォルダー・タグはカンマ区切りで入力する）
+ */
+export const releaseDetectionFormSchema = releaseDetectionSettingsSchema.extend(
+  {
+    pathRules: z.array(
+      pathScopeRuleSchema.extend({
+        folders: z.string(),
+        tags: z.string(),
+      }),
+    ),
+  },
+);
+
+export type ReleaseDetectionFormData = z.infer<
+  typeof releaseDetectionFormSchema
+>;
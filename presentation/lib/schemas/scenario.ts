@@ -1,7 +1,20 @@
 import { z } from "zod";
 
 /**
- * シナリオ作成フォームのバリデーションスキーマ
+ * シナリオ ID・フォルダー名（kebab-case）
+ */
+const scenarioSlugSchema = z
+  .string()
+  .regex(/^[a-z0-9-]+$/, "英小文字・数字・ハイフンのみ使用できます");
+
+/**
+ * シナリオを配置する環境
+ */
+export const scenarioEnvironmentSchema = z.enum(["production", "staging"]);
+
+/**
+ * シナリオ作成・編集フォームのバリデーションスキーマ
+ * （配置は作成時だけ入力し、編集では元のシナリオの値のまま送らない）
  */
 export const scenarioSchema = z.object({
   title: z
@@ -10,7 +23,89 @@ export const scenarioSchema = z.object({
     .max(200, "タイトルは200文字以内で入力してください"),
   description: z.string().max(10000, "説明は10000文字以内で入力してください"),
   tags: z.array(z.string()).max(5, "タグは最大5個まで選択できます"),
-  folderId: z.string().optional(),
+  project: z.string().min(1, "プロジェクトを選択してください"),
+  environment: scenarioEnvironmentSchema,
+  category: scenarioSlugSchema, // フォルダー
+  scenarioId: scenarioSlugSchema,
 });
 
 export type ScenarioFormData = z.infer<typeof scenarioSchema>;
+
+/**
+ * 1行のテキスト（Markdown のリスト項目になるため改行は不可）
+ */
+const singleLineSchema = z
+  .string()
+  .min(1, "空の項目は指定できません")
+  .regex(/^[^\r\n]*$/, "改行を含めることはできません");
+
+/**
+ * シナリオの重要度
+ */
+export const importanceSchema = z.enum(["low", "medium", "high", "critical"]);
+
+/**
+ * Git に保存するシナリオ YAML のスキーマ（docs/storage-architecture.md）
+ */
+export const scenarioFileSchema = z.strictObject({
+  id: scenarioSlugSchema,
+  title: singleLineSchema.max(200, "タイトルは200文字以内で入力してください"),
+  category: scenarioSlugSchema,
+  tags: z.array(z.string()).default([]),
+  default_importance: importanceSchema.default("medium"),
+  required_by_default: z.boolean().default(false),
+  preconditions: z.array(singleLineSchema).default([]),
+  steps: z.array(singleLineSchema).default([]),
+  expected_results: z.array(singleLineSchema).default([]),
+  related_scenarios: z.array(scenarioSlugSchema).default([]),
+  estimated_duration_minutes: z.number().int().min(1).optional(),
+  automated_test_id: singleLineSchema
+    .max(500, "自動テストの ID は500文字以内で入力してください")
+    .optional(), // 自動テストの結果を取り込むときに照合するテストケースの ID
+  last_updated: z.iso.datetime().optional(),
+  author: z.email().optional(),
+});
+
+export type ScenarioFile = z.infer<typeof scenarioFileSchema>;
+
+/**
+ * シナリオ更新リクエスト（base_version による楽観的ロック）
+ */
+export const scenarioUpdateRequestSchema = scenarioSchema
+  .pick({ title: true, description: true, tags: true })
+  .extend({
+    scenarioId: scenarioSlugSchema,
+    base_version: z
+      .string()
+      .regex(/^[0-9a-f]{40}$/, "base_version は commit SHA で指定してください"),
+  });
+
+export type ScenarioUpdateRequest = z.infer<typeof scenarioUpdateRequestSchema>;
+
+/**
+ * 版の比較条件（?from=<SHA>&to=<SHA>、省略時は直近の2版）
+ */
+export const scenarioCompareQuerySchema = z.object({
+  from: z
+    .string()
+    .regex(/^[0-9a-f]{7,40}$/, "from は commit SHA で指定してください")
+    .optional(),
+  to: z
+    .string()
+    .regex(/^[0-9a-f]{7,40}$/, "to は commit SHA で指定してください")
+    .optional(),
+});
+
+export type ScenarioCompareQuery = z.infer<typeof scenarioCompareQuerySchema>;
+
+/**
+ * シナリオ一覧画面の action（intent で操作を切り替える）
+ */
+export const scenarioActionSchema = z.discriminatedUnion("intent", [
+  scenarioSchema.extend({ intent: z.literal("create") }),
+  scenarioUpdateRequestSchema.extend({ intent: z.literal("update") }),
+  z.object({ intent: z.literal("archive"), scenarioId: scenarioSlugSchema }),
+  z.object({ intent: z.literal("restore"), scenarioId: scenarioSlugSchema }),
+]);
+
+export type ScenarioAction = z.infer<typeof scenarioActionSchema>;
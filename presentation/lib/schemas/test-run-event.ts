@@ -0,0 +1,94 @@
+import { z } from "zod";
+import {
+  assigneeSchema,
+  testRunItemSchema,
+  testRunStatusSchema,
+} from "./test-run";
+
+/**
+ * アイテムの内容（結果・メモ・シナリオの版など）の変更
+ */
+export const itemUpdatedEventSchema = z.object({
+  type: z.literal("item_updated"),
+  testRunId: z.string(),
+  item: testRunItemSchema,
+});
+
+/**
+ * テストランのステータスと進捗の変更
+ */
+export const runStatusChangedEventSchema = z.object({
+  type: z.literal("run_status_changed"),
+  testRunId: z.string(),
+  status: testRunStatusSchema,
+  totalItems: z.number().int().min(0),
+  completedItems: z.number().int().min(0),
+  passedItems: z.number().int().min(0),
+  failedItems: z.number().int().min(0),
+});
+
+/**
+ * アイテムの担当者の変更（assignee がない場合は担当を外した）
+ */
+export const assigneeChangedEventSchema = z.object({
+  type: z.literal("assignee_changed"),
+  testRunId: z.string(),
+  items: z.array(
+    z.object({
+      itemId: z.string(),
+      assignee: assigneeSchema.optional(),
+    }),
+  ),
+});
+
+/**
+ * 実行画面を開いているユーザー（sessionId はブラウザのタブごと、
+ * itemId は実行中のテストケース）
+ */
+export const testRunViewerSchema = z.object({
+  sessionId: z.string(),
+  user: assigneeSchema,
+  itemId: z.string().optional(),
+});
+
+export type TestRunViewer = z.infer<typeof testRunViewerSchema>;
+
+/**
+ * 実行画面を開いているユーザーの変更（viewers は変更後の全員）
+ */
+export const presenceChangedEventSchema = z.object({
+  type: z.literal("presence_changed"),
+  testRunId: z.string(),
+  viewers: z.array(testRunViewerSchema),
+});
+
+/**
+ * テストランの更新イベント（SSE で配信する）
+ */
+export const testRunEventSchema = z.discriminatedUnion("type", [
+  itemUpdatedEventSchema,
+  runStatusChangedEventSchema,
+  assigneeChangedEventSchema,
+  presenceChangedEventSchema,
+]);
+
+export type TestRunEvent = z.infer<typeof testRunEventSchema>;
+
+export type TestRunEventType = TestRunEvent["type"];
+
+export const TEST_RUN_EVENT_TYPES = [
+  "item_updated",
+  "run_status_changed",
+  "assignee_changed",
+  "presence_changed",
+] as const satisfies readonly TestRunEventType[];
+
+/**
+ * 実行中のテストケースの通知（itemId が null の場合は閲覧のみ）
+ */
+export const focusItemRequestSchema = z.object({
+  sessionId: z.uuid(),
+  itemId: z.string().min(1).nullable(),
+});
+
+export type FocusItemRequest = z.infer<typeof focusItemRequestSchema>;
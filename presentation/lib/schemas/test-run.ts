@@ -1,4 +1,8 @@
 import { z } from "zod";
+import {
+  applyAutomatedTestResultsRequestSchema,
+  importAutomatedTestResultsRequestSchema,
+} from "./automated-test";
 
 /**
  * 環境タイプ（本番環境 or ステージング環境）
@@ -28,20 +32,71 @@ export type Assignee = z.infer<typeof assigneeSchema>;
 export const testRunStatusSchema = z.enum([
   "planned",
   "in_progress",
+  "awaiting_approval", // 完了条件を満たし、承認者の判断を待っている
   "completed",
   "failed",
 ]);
 
 export type TestRunStatus = z.infer<typeof testRunStatusSchema>;
 
+/**
+ * テストケースの重要度
+ */
+export const importanceSchema = z.enum(["critical", "high", "medium", "low"]);
+
+export type Importance = z.infer<typeof importanceSchema>;
+
+const successRateThresholdSchema = z
+  .number({ error: "数値を入力してください" })
+  .int("整数で入力してください")
+  .min(0, "0〜100 の範囲で入力してください")
+  .max(100, "0〜100 の範囲で入力してください");
+
+/**
+ * 完了条件（重要度ごとに必要な成功率 %）
+ * - プロジェクト・テストランの設定では一部の重要度だけを指定できる
+ */
+export const completionPolicySchema = z.object({
+  critical: successRateThresholdSchema,
+  high: successRateThresholdSchema,
+  medium: successRateThresholdSchema,
+  low: successRateThresholdSchema,
+});
+
+export const completionPolicyOverrideSchema = completionPolicySchema.partial();
+
+export type CompletionPolicyOverride = z.infer<
+  typeof completionPolicyOverrideSchema
+>;
+
+/**
+ * 完了条件の設定元
+ */
+export const completionPolicyScopeSchema = z.enum([
+  "run",
+  "project",
+  "default",
+]);
+
+export type CompletionPolicyScope = z.infer<typeof completionPolicyScopeSchema>;
+
+/**
+ * フォルダーの担当者（フォルダー名 → ユーザー ID）
+ */
+export const folderOwnersSchema = z.record(z.string(), z.string().min(1));
+
+export type FolderOwners = z.infer<typeof folderOwnersSchema>;
+
 /**
  * テスト実行情報
  */
 export const testRunSchema = z.object({
   id: z.string(),
   title: z.string(),
+  projectId: z.string(),
   projectName: z.string(),
   environment: environmentSchema,
+  release: z.object({ id: z.string(), tag: z.string() }).optional(), // 対象のリリース
   status: testRunStatusSchema,
   successRate: z.number().min(0).max(100),
   totalItems: z.number().int().min(0),
@@ -51,22 +106,376 @@ export const testRunSchema = z.object({
   assignees: z.array(assigneeSchema),
   startedAt: z.string(), // ISO 8601 date string
   completedAt: z.string().optional(),
+  dueAt: z.string().optional(),
+  completionPolicy: completionPolicySchema, // 既定値・プロジェクト・テストランの設定を重ねた結果
+  completionPolicyScope: completionPolicyScopeSchema,
+  folderOwners: folderOwnersSchema, // プロジェクトのフォルダー担当
 });
 
 export type TestRun = z.infer<typeof testRunSchema>;
 
+/**
+ * テストケースのステータス（最新の実行結果、または再実行待ち）
+ * - blocked: 前提条件の不備などで実行できない（完了には数えない）
+ * - retest: 失敗の修正やブロックの解消を受けて再実行を待っている
+ */
+export const testRunItemStatusSchema = z.enum([
+  "pending",
+  "in_progress",
+  "passed",
+  "failed",
+  "blocked",
+  "skipped",
+  "retest",
+]);
+
+export type TestRunItemStatus = z.infer<typeof testRunItemStatusSchema>;
+
+/**
+ * 実行者が記録できる結果
+ */
+export const testRunItemResultSchema = z.enum([
+  "passed",
+  "failed",
+  "blocked",
+  "skipped",
+]);
+
+export type TestRunItemResult = z.infer<typeof testRunItemResultSchema>;
+
+/**
+ * 実行の証跡（docs/data-model.md の Evidence スキーマ）
+ */
+export const evidenceSchema = z.object({
+  screenshots: z
+    .array(
+      z.object({ url: z.string(), timestamp: z.string(), caption: z.string() }),
+    )
+    .optional(),
+  logs: z
+    .array(
+      z.object({
+        level: z.enum(["info", "error", "warning"]),
+        message: z.string(),
+        timestamp: z.string(),
+      }),
+    )
+    .optional(),
+  browserInfo: z
+    .object({
+      userAgent: z.string(),
+      viewport: z.string(),
+      browser: z.string(),
+    })
+    .optional(),
+  notes: z.string().optional(),
+  attachments: z
+    .array(
+      z.object({ filename: z.string(), url: z.string(), mimeType: z.string() }),
+    )
+    .optional(),
+});
+
+export type Evidence = z.infer<typeof evidenceSchema>;
+
+/**
+ * ブロックの解消内容
+ */
+export const blockResolutionSchema = z.object({
+  note: z.string(),
+  resolvedBy: assigneeSchema.optional(),
+  resolvedAt: z.string(), // ISO 8601 date string
+});
+
+export type BlockResolution = z.infer<typeof blockResolutionSchema>;
+
+/**
+ * テストケースの実行履歴（1回の実行ごとに追記される）
+ */
+export const testRunItemAttemptSchema = z.object({
+  id: z.string(),
+  attemptNumber: z.number().int().min(1),
+  result: testRunItemResultSchema,
+  executedBy: assigneeSchema.optional(),
+  executedAt: z.string(), // ISO 8601 date string
+  duration: z.number().optional(), // 実行時間（秒）
+  notes: z.string().optional(), // 実行メモ（HTML）
+  evidence: evidenceSchema.optional(),
+  blockedReason: z.string().optional(),
+  resolution: blockResolutionSchema.optional(),
+});
+
+export type TestRunItemAttempt = z.infer<typeof testRunItemAttemptSchema>;
+
 /**
  * 個別テストケース
  */
 export const testRunItemSchema = z.object({
   id: z.string(),
   testRunId: z.string(),
+  scenarioId: z.string(),
+  scenarioVersion: z.string().optional(), // 取り込んだシナリオの commit SHA
   title: z.string(),
   description: z.string().optional(),
-  status: z.enum(["pending", "in_progress", "passed", "failed", "skipped"]),
+  folder: z.string().optional(),
+  importance: importanceSchema,
+  required: z.boolean(), // 完了条件の判定前に実行が必要
+  estimatedMinutes: z.number().optional(), // シナリオの想定所要時間（分）
+  status: testRunItemStatusSchema,
   assignee: assigneeSchema.optional(),
   executedAt: z.string().optional(),
   duration: z.number().optional(), // 実行時間（秒）
+  notes: z.string().optional(), // 次の実行のメモ（HTML）
+  attempts: z.array(testRunItemAttemptSchema), // 古い順
 });
 
 export type TestRunItem = z.infer<typeof testRunItemSchema>;
+
+/**
+ * 承認者の判断（approved: 承認、sent_back: 差し戻し）
+ */
+export const approvalDecisionSchema = z.enum(["approved", "sent_back"]);
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+/**
+ * テストランの承認ログ（追記のみで変更されない）
+ */
+export const testRunApprovalSchema = z.object({
+  id: z.string(),
+  decision: approvalDecisionSchema,
+  comment: z.string(),
+  approver: assigneeSchema.optional(),
+  decidedAt: z.string(), // ISO 8601 date string
+});
+
+export type TestRunApproval = z.infer<typeof testRunApprovalSchema>;
+
+/**
+ * アイテムにシナリオの最新版を取り込むリクエスト
+ */
+export const pullScenarioRequestSchema = z.object({
+  intent: z.literal("pull-scenario"),
+  itemId: z.string().min(1),
+});
+
+export type PullScenarioRequest = z.infer<typeof pullScenarioRequestSchema>;
+
+/**
+ * ブロックの理由
+ */
+export const blockedReasonSchema = z
+  .string()
+  .trim()
+  .min(1, "ブロックの理由を入力してください")
+  .max(1000, "ブロックの理由は1000文字以内で入力してください");
+
+/**
+ * ブロックの解消内容
+ */
+export const blockResolutionNoteSchema = z
+  .string()
+  .trim()
+  .min(1, "解消内容を入力してください")
+  .max(1000, "解消内容は1000文字以内で入力してください");
+
+const itemResultFieldsSchema = z.object({
+  result: testRunItemResultSchema,
+  notes: z.string().max(20000, "メモが長すぎます").optional(),
+  blockedReason: blockedReasonSchema.optional(),
+});
+
+const hasBlockedReason = (input: z.infer<typeof itemResultFieldsSchema>) =>
+  input.result !== "blocked" || Boolean(input.blockedReason);
+
+const blockedReasonRequired = {
+  message: "ブロックの理由を入力してください",
+  path: ["blockedReason"],
+};
+
+/**
+ * アイテムに記録する結果（blocked の場合はブロックの理由が必須）
+ */
+export const itemResultInputSchema = itemResultFieldsSchema.refine(
+  hasBlockedReason,
+  blockedReasonRequired,
+);
+
+export type ItemResultInput = z.infer<typeof itemResultInputSchema>;
+
+/**
+ * アイテムの結果を記録するリクエスト（メモも同時に保存する）
+ * - blocked の場合はブロックの理由が必須
+ */
+export const recordItemResultRequestSchema = itemResultFieldsSchema
+  .extend({
+    intent: z.literal("record-result"),
+    itemId: z.string().min(1),
+  })
+  .refine(hasBlockedReason, blockedReasonRequired);
+
+export type RecordItemResultRequest = z.infer<
+  typeof recordItemResultRequestSchema
+>;
+
+/**
+ * アイテムのメモだけを保存するリクエスト
+ */
+export const saveItemNotesRequestSchema = z.object({
+  intent: z.literal("save-notes"),
+  itemId: z.string().min(1),
+  notes: z.string().max(20000, "メモが長すぎます"),
+});
+
+export type SaveItemNotesRequest = z.infer<typeof saveItemNotesRequestSchema>;
+
+/**
+ * 失敗したアイテムを再テスト待ちに戻すリクエスト
+ */
+export const requestRetestRequestSchema = z.object({
+  intent: z.literal("request-retest"),
+  itemId: z.string().min(1),
+});
+
+export type RequestRetestRequest = z.infer<typeof requestRetestRequestSchema>;
+
+/**
+ * ブロックを解消して再テスト待ちに戻すリクエスト
+ */
+export const resolveBlockRequestSchema = z.object({
+  intent: z.literal("resolve-block"),
+  itemId: z.string().min(1),
+  resolution: blockResolutionNoteSchema,
+});
+
+export type ResolveBlockRequest = z.infer<typeof resolveBlockRequestSchema>;
+
+/**
+ * 完了条件を変更するリクエスト
+ * - scope: run はこのテストランのみ、project はプロジェクトの既定値
+ * - policy を省略するとテストランの設定を外してプロジェクトの設定に戻す
+ */
+export const updateCompletionPolicyRequestSchema = z.object({
+  intent: z.literal("update-completion-policy"),
+  scope: z.enum(["run", "project"]),
+  policy: completionPolicySchema.optional(),
+});
+
+export type UpdateCompletionPolicyRequest = z.infer<
+  typeof updateCompletionPolicyRequestSchema
+>;
+
+/**
+ * 承認待ちのテストランを承認・差し戻すリクエスト（コメント必須）
+ */
+export const decideApprovalRequestSchema = z.object({
+  intent: z.literal("decide-approval"),
+  decision: approvalDecisionSchema,
+  comment: z
+    .string()
+    .trim()
+    .min(1, "コメントを入力してください")
+    .max(2000, "コメントは2000文字以内で入力してください"),
+});
+
+export type DecideApprovalRequest = z.infer<typeof decideApprovalRequestSchema>;
+
+/**
+ * アイテムを担当者に振り分けるルール
+ * - round_robin: 順番に振り分ける
+ * - folder_owner: フォルダーの担当者に振り分ける
+ * - balanced_duration: 想定所要時間の合計が均等になるよう振り分ける
+ */
+export const assignmentStrategySchema = z.enum([
+  "round_robin",
+  "folder_owner",
+  "balanced_duration",
+]);
+
+export type AssignmentStrategy = z.infer<typeof assignmentStrategySchema>;
+
+/**
+ * ルールで未実行のアイテムを振り分けるリクエスト
+ * - folder_owner の場合は folderOwners をプロジェクトのフォルダー担当として保存する
+ */
+export const applyAssignmentRuleRequestSchema = z
+  .object({
+    intent: z.literal("apply-assignment-rule"),
+    strategy: assignmentStrategySchema,
+    onlyUnassigned: z.boolean(),
+    folderOwners: folderOwnersSchema.optional(),
+  })
+  .refine(
+    (request) =>
+      request.strategy !== "folder_owner" || request.folderOwners !== undefined,
+    {
+      message: "フォルダーの担当者を指定してください",
+      path: ["folderOwners"],
+    },
+  );
+
+export type ApplyAssignmentRuleRequest = z.infer<
+  typeof applyAssignmentRuleRequestSchema
+>;
+
+/**
+ * 選択したアイテムの担当者をまとめて変更するリクエスト（null で担当を外す）
+ */
+export const assignItemsRequestSchema = z.object({
+  intent: z.literal("assign-items"),
+  itemIds: z.array(z.string().min(1)).min(1, "アイテムを選択してください"),
+  assigneeId: z.string().min(1).nullable(),
+});
+
+export type AssignItemsRequest = z.infer<typeof assignItemsRequestSchema>;
+
+/**
+ * テストラン実行画面の操作
+ */
+export const testRunActionSchema = z.discriminatedUnion("intent", [
+  pullScenarioRequestSchema,
+  recordItemResultRequestSchema,
+  saveItemNotesRequestSchema,
+  requestRetestRequestSchema,
+  resolveBlockRequestSchema,
+  updateCompletionPolicyRequestSchema,
+  decideApprovalRequestSchema,
+  applyAssignmentRuleRequestSchema,
+  assignItemsRequestSchema,
+  importAutomatedTestResultsRequestSchema,
+  applyAutomatedTestResultsRequestSchema,
+]);
+
+export type TestRunAction = z.infer<typeof testRunActionSchema>;
+
+/**
+ * テストランに含めるシナリオと実行時の設定
+ */
+export const testRunItemSelectionSchema = z.object({
+  scenarioId: z.string().min(1),
+  importance: importanceSchema,
+  required: z.boolean(),
+});
+
+export type TestRunItemSelection = z.infer<typeof testRunItemSelectionSchema>;
+
+/**
+ * テストランの作成リクエスト（作成ウィザードの入力）
+ */
+export const createTestRunRequestSchema = z.object({
+  projectId: z.string().min(1, "プロジェクトを選択してください"),
+  environmentId: z.string().min(1, "環境を選択してください"),
+  releaseId: z.string().min(1).optional(),
+  title: z
+    .string()
+    .trim()
+    .min(1, "タイトルを入力してください")
+    .max(200, "タイトルは200文字以内で入力してください"),
+  items: z
+    .array(testRunItemSelectionSchema)
+    .min(1, "シナリオを1件以上選択してください"),
+  assigneeIds: z.array(z.string()).min(1, "担当者を1人以上選択してください"),
+  dueAt: z.iso.date("期限は日付で入力してください").optional(), // YYYY-MM-DD
+});
+
+export type CreateTestRunRequest = z.infer<typeof createTestRunRequestSchema>;
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { notificationEventTypeSchema } from "./notification";
+
+/**
+ * Webhook の配信の状態
+ * - pending: 送信前、または失敗して再試行を待っている
+ * - succeeded: 2xx の応答を受け取った
+ * - failed: 再試行の上限まで失敗した（手動で再送できる）
+ */
+export const webhookDeliveryStatusSchema = z.enum([
+  "pending",
+  "succeeded",
+  "failed",
+]);
+
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+/**
+ * Webhook の購読の設定（送り先の URL と送るイベントの種類）
+ */
+export const webhookSubscriptionInputSchema = z.object({
+  url: z.url({
+    protocol: /^https?$/,
+    error: "http または https の URL を入力してください",
+  }),
+  events: z
+    .array(notificationEventTypeSchema)
+    .min(1, "送るイベントを選んでください"),
+  active: z.boolean(),
+});
+
+export type WebhookSubscriptionInput = z.infer<
+  typeof webhookSubscriptionInputSchema
+>;
+
+/**
+ * Webhook の購読を作成するリクエスト（署名のシークレットはサーバーで発行する）
+ */
+export const createWebhookRequestSchema = z.object({
+  intent: z.literal("create-webhook"),
+  webhook: webhookSubscriptionInputSchema,
+});
+
+/**
+ * Webhook の購読を変更するリクエスト
+ */
+export const updateWebhookRequestSchema = z.object({
+  intent: z.literal("update-webhook"),
+  webhookId: z.string().min(1),
+  webhook: webhookSubscriptionInputSchema,
+});
+
+/**
+ * Webhook の購読を削除するリクエスト（配信ログも削除する）
+ */
+export const deleteWebhookRequestSchema = z.object({
+  intent: z.literal("delete-webhook"),
+  webhookId: z.string().min(1),
+});
+
+/**
+ * Webhook の署名のシークレットを再発行するリクエスト
+ */
+export const rotateWebhookSecretRequestSchema = z.object({
+  intent: z.literal("rotate-webhook-secret"),
+  webhookId: z.string().min(1),
+});
+
+/**
+ * 配信済みの本文を同じ送り先にもう一度送るリクエスト
+ */
+export const redeliverWebhookRequestSchema = z.object({
+  intent: z.literal("redeliver-webhook"),
+  deliveryId: z.string().min(1),
+});
+
+export type WebhookActionRequest =
+  | z.infer<typeof createWebhookRequestSchema>
+  | z.infer<typeof updateWebhookRequestSchema>
+  | z.infer<typeof deleteWebhookRequestSchema>
+  | z.infer<typeof rotateWebhookSecretRequestSchema>
+  | z.infer<typeof redeliverWebhookRequestSchema>;
@@ -0,0 +1,201 @@
+import { Link, useLoaderData } from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { data } from "react-router";
+import { Effect } from "effect";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { ApiTokenList } from "~/features/api-tokens/components/api-token-list";
+import { CreateApiTokenForm } from "~/features/api-tokens/components/create-api-token-form";
+import { IssuedApiTokenAlert } from "~/features/api-tokens/components/issued-api-token-alert";
+import type {
+  ApiTokenListItem,
+  IssuedApiTokenView,
+} from "~/features/api-tokens/types/api-token-types";
+import { requireUser } from "~/features/auth/require-user";
+import { createApiTokenSchema } from "~/lib/schemas/auth";
+import { isApiTokenActive } from "@domain/logic/api-token";
+import { permissionsOf } from "@domain/logic/permission-checker";
+import type { ApiToken } from "@domain/models/api-token";
+import { createApiToken } from "@application/usecases/auth/create-api-token";
+import { listApiTokens } from "@application/usecases/auth/list-api-tokens";
+import { revokeApiToken } from "@application/usecases/auth/revoke-api-token";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "API トークン - medi-test" },
+    {
+      name: "description",
+      content: "CI やスクリプトから REST API を使うための個人用トークン",
+    },
+  ];
+};
+
+type ApiTokenActionResult = {
+  issued?: IssuedApiTokenView;
+  error?: string;
+};
+
+const toListItem = (token: ApiToken, now: Date): ApiTokenListItem => ({
+  id: token.id,
+  name: token.name,
+  prefix: token.prefix,
+  scopes: token.scopes,
+  createdAt: token.createdAt.toISOString(),
+  expiresAt: token.expiresAt?.toISOString() ?? null,
+  lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+  revokedAt: token.revokedAt?.toISOString() ?? null,
+  active: isApiTokenActive(token, now),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const tokens = await Effect.runPromise(
+    listApiTokens().pipe(
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  const now = new Date();
+  return {
+    tokens: tokens.map((token) => toListItem(token, now)),
+    permissions: permissionsOf(user),
+  };
+}
+
+/**
+ * intent に応じて API トークンを作成・失効させる
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "revoke") {
+    return Effect.runPromise(
+      revokeApiToken(String(formData.get("tokenId") || "")).pipe(
+        Effect.as(data<ApiTokenActionResult>({})),
+        Effect.catchTag("ApiTokenNotFoundError", () =>
+          Effect.succeed(
+            data<ApiTokenActionResult>(
+              { error: "API トークンが見つかりません" },
+              { status: 404 },
+            ),
+          ),
+        ),
+        Effect.provideService(CurrentUser, user),
+        Effect.provide(AppLayer),
+      ),
+    );
+  }
+
+  const expiresInDays = String(formData.get("expiresInDays") || "none");
+  const parsed = createApiTokenSchema.safeParse({
+    name: formData.get("name"),
+    scopes: formData.getAll("scopes"),
+    expiresInDays: expiresInDays === "none" ? null : Number(expiresInDays),
+  });
+  if (!parsed.success) {
+    return data<ApiTokenActionResult>(
+      { error: parsed.error.issues[0].message },
+      { status: 400 },
+    );
+  }
+
+  return Effect.runPromise(
+    createApiToken(parsed.data).pipe(
+      Effect.map(({ token, apiToken }) =>
+        data<ApiTokenActionResult>({
+          issued: { name: apiToken.name, token },
+        }),
+      ),
+      Effect.catchTag("InvalidApiTokenScopeError", (e) =>
+        Effect.succeed(
+          data<ApiTokenActionResult>(
+            {
+              error: `持っていない権限は指定できません: ${e.scopes.join(", ")}`,
+            },
+            { status: 400 },
+          ),
+        ),
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+export default function ApiTokenPage({
+  actionData,
+}: {
+  actionData?: ApiTokenActionResult;
+}) {
+  const { tokens, permissions } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            API トークン
+          </h1>
+          <p className="text-muted-foreground">
+            CI やスクリプトから REST API（
+            <a href="/api/v1/openapi.json" className="underline">
+              OpenAPI
+            </a>
+            ）を使うための個人用トークン。Authorization: Bearer
+            ヘッダーに指定します
+          </p>
+        </div>
+
+        {actionData?.issued && (
+          <IssuedApiTokenAlert issued={actionData.issued} />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>トークンを作成</CardTitle>
+            <CardDescription>
+              スコープは自分が持つ権限から選べます
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CreateApiTokenForm
+              permissions={permissions}
+              error={actionData?.error}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>トークンの一覧</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ApiTokenList tokens={tokens} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { data } from "react-router";
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { getReleaseIssues } from "@application/usecases/release/get-release-issues";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser } from "~/features/auth/require-user";
+import type { ReleaseIssuesResult } from "~/features/linear-issues/types/linear-issue-types";
+
+const errorResult = (error: string, status: number) =>
+  data<ReleaseIssuesResult>({ error }, { status });
+
+/**
+ * リリースが参照する Linear の Issue と、ラベルから提案するシナリオ
+ * （テストラン作成ウィザードとテストランの画面で使う）
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+
+  return Effect.runPromise(
+    getReleaseIssues(params.projectId ?? "", params.releaseId ?? "").pipe(
+      Effect.map((releaseIssues) =>
+        data<ReleaseIssuesResult>({ releaseIssues }),
+      ),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(errorResult(e.message, 403)),
+        ProjectNotFoundError: () =>
+          Effect.succeed(errorResult("プロジェクトが見つかりません", 404)),
+        ReleaseNotFoundError: () =>
+          Effect.succeed(errorResult("リリースが見つかりません", 404)),
+        LinearError: (e) => Effect.succeed(errorResult(e.message, 502)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
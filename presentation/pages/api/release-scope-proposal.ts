@@ -0,0 +1,41 @@
+import { data } from "react-router";
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { proposeTestScope } from "@application/usecases/release/propose-test-scope";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser } from "~/features/auth/require-user";
+import type { ScopeProposalResult } from "~/features/test-run-creation/types/test-run-creation-types";
+
+const errorResult = (error: string, status: number) =>
+  data<ScopeProposalResult>({ error }, { status });
+
+/**
+ * リリースの PR の変更ファイルから提案するテスト範囲（テストラン作成ウィザードで使う）
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+
+  return Effect.runPromise(
+    proposeTestScope(params.projectId ?? "", params.releaseId ?? "").pipe(
+      Effect.map((proposal) => data<ScopeProposalResult>({ proposal })),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(errorResult(e.message, 403)),
+        ProjectNotFoundError: () =>
+          Effect.succeed(errorResult("プロジェクトが見つかりません", 404)),
+        ReleaseNotFoundError: () =>
+          Effect.succeed(errorResult("リリースが見つかりません", 404)),
+        ReleaseDetectionNotConfiguredError: () =>
+          Effect.succeed(
+            errorResult(
+              "プロジェクトに GitHub のリポジトリが設定されていません",
+              409,
+            ),
+          ),
+        GitHubError: (e) => Effect.succeed(errorResult(e.message, 502)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
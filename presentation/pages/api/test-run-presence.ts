@@ -0,0 +1,41 @@
+import { data } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { focusItemRequestSchema } from "~/lib/schemas/test-run-event";
+import { focusTestRunItem } from "@application/usecases/test-run/focus-test-run-item";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser } from "~/features/auth/require-user";
+
+/**
+ * 実行画面で実行中のテストケースを知らせる
+ * （sessionId は更新イベントの購読時に渡したもの）
+ */
+export async function action({ params, request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const testRunId = params.testRunId ?? "";
+  const parsed = focusItemRequestSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return data({ error: "リクエストが不正です" }, { status: 400 });
+  }
+
+  return Effect.runPromise(
+    focusTestRunItem(testRunId, parsed.data.sessionId, parsed.data.itemId).pipe(
+      requirePermission("test-run:view"),
+      Effect.as(data({}, { status: 200 })),
+      Effect.catchTags({
+        UnauthorizedError: (e) =>
+          Effect.succeed(data({ error: e.message }, { status: 403 })),
+        TestRunViewerNotFoundError: () =>
+          Effect.succeed(
+            data({ error: "接続が見つかりません" }, { status: 404 }),
+          ),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,45 @@
+import { data } from "react-router";
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { z } from "zod";
+import {
+  parseLastEventId,
+  testRunEventStreamResponse,
+} from "~/lib/event-stream";
+import { subscribeTestRunEvents } from "@application/usecases/test-run/subscribe-test-run-events";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+/**
+ * テストランの更新を SSE で配信する
+ * （item_updated / run_status_changed / assignee_changed / presence_changed と、
+ * 再送できない場合の resync）
+ *
+ * sessionId クエリ（タブごとの UUID）を付けた場合は、接続中は実行画面を開いている
+ * ユーザーとして他のユーザーに表示する
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const testRunId = params.testRunId ?? "";
+  const sessionId = z
+    .uuid()
+    .safeParse(new URL(request.url).searchParams.get("sessionId"));
+
+  const events = await runAuthorized(
+    subscribeTestRunEvents(testRunId, {
+      sessionId: sessionId.success ? sessionId.data : undefined,
+      lastEventId: parseLastEventId(request),
+    }).pipe(
+      requirePermission("test-run:view"),
+      Effect.catchTag("TestRunNotFoundError", () => Effect.succeed(null)),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!events) {
+    throw data(`テストランが見つかりません: ${testRunId}`, { status: 404 });
+  }
+  return testRunEventStreamResponse(events, request.signal);
+}
@@ -0,0 +1,26 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import {
+  parseLastEventId,
+  testRunEventStreamResponse,
+} from "~/lib/event-stream";
+import { subscribeAllTestRunEvents } from "@application/usecases/test-run/subscribe-all-test-run-events";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+/**
+ * すべてのテストランの更新を SSE で配信する（ダッシュボード向け）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const events = await runAuthorized(
+    subscribeAllTestRunEvents(parseLastEventId(request)).pipe(
+      requirePermission("test-run:view"),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  return testRunEventStreamResponse(events, request.signal);
+}
@@ -0,0 +1,9 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { buildOpenApiDocument } from "~/features/api/openapi";
+
+/**
+ * GET /api/v1/openapi.json: REST API の OpenAPI ドキュメント（認証不要）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  return buildOpenApiDocument(new URL(request.url).origin);
+}
@@ -0,0 +1,27 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { listProjects } from "@application/usecases/project/list-projects";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError } from "~/features/api/api-response";
+
+/**
+ * GET /api/v1/projects: プロジェクトの一覧
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+
+  return Effect.runPromise(
+    listProjects().pipe(
+      requirePermission("test-run:view"),
+      Effect.map((projects) => ({ data: projects })),
+      Effect.catchTag("UnauthorizedError", (e) =>
+        Effect.succeed(apiError(e.message, 403)),
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,31 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { getScenario } from "@application/usecases/scenario/get-scenario";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError } from "~/features/api/api-response";
+import { toApiScenario } from "~/features/api/api-serializers";
+
+/**
+ * GET /api/v1/scenarios/:scenarioId: シナリオ（最新版）
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+  const scenarioId = params.scenarioId ?? "";
+
+  return Effect.runPromise(
+    getScenario(scenarioId).pipe(
+      requirePermission("test-run:view"),
+      Effect.map(toApiScenario),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        ScenarioNotFoundError: () =>
+          Effect.succeed(apiError("シナリオが見つかりません", 404)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,35 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { listScenarios } from "@application/usecases/scenario/list-scenarios";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { scenarioListQuerySchema } from "~/lib/schemas/api";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError, validationMessage } from "~/features/api/api-response";
+import { toApiScenario } from "~/features/api/api-serializers";
+
+/**
+ * GET /api/v1/scenarios: シナリオの一覧（project / environment で絞り込む）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+  const query = scenarioListQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) {
+    return apiError(validationMessage(query.error.issues), 400);
+  }
+
+  return Effect.runPromise(
+    listScenarios(query.data).pipe(
+      requirePermission("test-run:view"),
+      Effect.map((scenarios) => ({ data: scenarios.map(toApiScenario) })),
+      Effect.catchTag("UnauthorizedError", (e) =>
+        Effect.succeed(apiError(e.message, 403)),
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
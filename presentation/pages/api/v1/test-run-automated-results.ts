@@ -0,0 +1,44 @@
+import { data } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { importAutomatedTestResults } from "@application/usecases/test-run/import-automated-test-results";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { automatedTestReportInputSchema } from "~/lib/schemas/automated-test";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError, validationMessage } from "~/features/api/api-response";
+
+/**
+ * POST /api/v1/test-runs/:testRunId/automated-results: 自動テストのレポートを取り込む
+ *
+ * 本文はレポートのファイルの内容そのもの（?format=junit|playwright|jest、省略時は内容から判定）
+ */
+export async function action({ params, request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return apiError("このメソッドは使えません", 405, { Allow: "POST" });
+  }
+  const user = await requireApiToken(request, "test-run:execute");
+  const parsed = automatedTestReportInputSchema.safeParse({
+    format: new URL(request.url).searchParams.get("format") ?? undefined,
+    report: await request.text(),
+  });
+  if (!parsed.success) {
+    return apiError(validationMessage(parsed.error.issues), 400);
+  }
+
+  return Effect.runPromise(
+    importAutomatedTestResults(params.testRunId ?? "", parsed.data).pipe(
+      Effect.map((result) => data(result)),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        TestRunStatusError: (e) => Effect.succeed(apiError(e.message, 409)),
+        TestRunNotFoundError: () =>
+          Effect.succeed(apiError("テストランが見つかりません", 404)),
+        InvalidAutomatedTestReportError: (e) =>
+          Effect.succeed(apiError(e.message, 400)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,45 @@
+import { data } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { getTestRunItem } from "@application/usecases/test-run/get-test-run-item";
+import { recordItemResult } from "@application/usecases/test-run/record-item-result";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { itemResultInputSchema } from "~/lib/schemas/test-run";
+import { requireApiToken } from "~/features/api/require-api-token";
+import {
+  apiError,
+  readJsonBody,
+  validationMessage,
+} from "~/features/api/api-response";
+
+/**
+ * POST /api/v1/test-runs/:testRunId/items/:itemId/results: アイテムに結果を記録する
+ */
+export async function action({ params, request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return apiError("このメソッドは使えません", 405, { Allow: "POST" });
+  }
+  const user = await requireApiToken(request, "test-run:execute");
+  const parsed = itemResultInputSchema.safeParse(await readJsonBody(request));
+  if (!parsed.success) {
+    return apiError(validationMessage(parsed.error.issues), 400);
+  }
+  const testRunId = params.testRunId ?? "";
+  const itemId = params.itemId ?? "";
+
+  return Effect.runPromise(
+    getTestRunItem(testRunId, itemId).pipe(
+      Effect.andThen(() => recordItemResult(itemId, parsed.data)),
+      Effect.map((item) => data(item, { status: 201 })),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        TestRunStatusError: (e) => Effect.succeed(apiError(e.message, 409)),
+        TestRunItemNotFoundError: () =>
+          Effect.succeed(apiError("アイテムが見つかりません", 404)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,30 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { getTestRun } from "@application/usecases/test-run/get-test-run";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError } from "~/features/api/api-response";
+
+/**
+ * GET /api/v1/test-runs/:testRunId/items: テストランのアイテムの一覧
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+  const testRunId = params.testRunId ?? "";
+
+  return Effect.runPromise(
+    getTestRun(testRunId).pipe(
+      requirePermission("test-run:view"),
+      Effect.map(({ items }) => ({ data: items })),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        TestRunNotFoundError: () =>
+          Effect.succeed(apiError("テストランが見つかりません", 404)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
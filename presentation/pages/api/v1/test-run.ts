@@ -0,0 +1,31 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { getTestRun } from "@application/usecases/test-run/get-test-run";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireApiToken } from "~/features/api/require-api-token";
+import { apiError } from "~/features/api/api-response";
+import { toApiTestRunDetail } from "~/features/api/api-serializers";
+
+/**
+ * GET /api/v1/test-runs/:testRunId: テストラン（アイテムと承認ログを含む）
+ */
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+  const testRunId = params.testRunId ?? "";
+
+  return Effect.runPromise(
+    getTestRun(testRunId).pipe(
+      requirePermission("test-run:view"),
+      Effect.map(toApiTestRunDetail),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        TestRunNotFoundError: () =>
+          Effect.succeed(apiError("テストランが見つかりません", 404)),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,78 @@
+import { data } from "react-router";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { listTestRuns } from "@application/usecases/test-run/list-test-runs";
+import { createTestRun } from "@application/usecases/test-run/create-test-run";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { testRunListQuerySchema } from "~/lib/schemas/api";
+import { createTestRunRequestSchema } from "~/lib/schemas/test-run";
+import { requireApiToken } from "~/features/api/require-api-token";
+import {
+  apiError,
+  readJsonBody,
+  validationMessage,
+} from "~/features/api/api-response";
+
+/**
+ * GET /api/v1/test-runs: テストランの一覧（projectId / status / limit で絞り込む）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireApiToken(request, "test-run:view");
+  const query = testRunListQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) {
+    return apiError(validationMessage(query.error.issues), 400);
+  }
+
+  return Effect.runPromise(
+    listTestRuns(query.data).pipe(
+      requirePermission("test-run:view"),
+      Effect.map((testRuns) => ({ data: testRuns })),
+      Effect.catchTag("UnauthorizedError", (e) =>
+        Effect.succeed(apiError(e.message, 403)),
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+/**
+ * POST /api/v1/test-runs: テストランを作成する（画面の作成ウィザードと同じ入力）
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return apiError("このメソッドは使えません", 405, { Allow: "GET, POST" });
+  }
+  const user = await requireApiToken(request, "test-run:create");
+  const parsed = createTestRunRequestSchema.safeParse(
+    await readJsonBody(request),
+  );
+  if (!parsed.success) {
+    return apiError(validationMessage(parsed.error.issues), 400);
+  }
+
+  return Effect.runPromise(
+    createTestRun(parsed.data).pipe(
+      Effect.map((testRun) => data(testRun, { status: 201 })),
+      Effect.catchTags({
+        UnauthorizedError: (e) => Effect.succeed(apiError(e.message, 403)),
+        ProjectNotFoundError: () =>
+          Effect.succeed(apiError("プロジェクトが見つかりません", 404)),
+        InvalidTestRunScopeError: (e) =>
+          Effect.succeed(apiError(e.message, 400)),
+        InvalidTestRunAssigneeError: (e) =>
+          Effect.succeed(apiError(e.message, 400)),
+        ScenarioNotFoundError: (e) =>
+          Effect.succeed(
+            apiError(`シナリオが見つかりません: ${e.scenarioId}`, 404),
+          ),
+      }),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
@@ -0,0 +1,59 @@
+import { redirect } from "react-router";
+import type { LoaderFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import {
+  oidcLoginCookie,
+  readPendingOidcLogin,
+  sessionCookie,
+} from "~/features/auth/auth-cookies";
+import { completeOidcLogin } from "@application/usecases/auth/complete-oidc-login";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+
+const loginWithError = (message: string, headers?: Headers) =>
+  redirect(`/login?error=${encodeURIComponent(message)}`, { headers });
+
+/**
+ * 認可サーバーからのコールバック（ログインを完了し、セッションの Cookie を発行する）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const pending = await readPendingOidcLogin(request);
+  if (!pending) {
+    throw loginWithError(
+      "ログインの有効期限が切れました。もう一度ログインしてください",
+    );
+  }
+
+  const search = new URL(request.url).searchParams;
+  const result = await Effect.runPromise(
+    completeOidcLogin(pending, {
+      code: search.get("code") ?? undefined,
+      state: search.get("state") ?? undefined,
+      error: search.get("error") ?? undefined,
+      errorDescription: search.get("error_description") ?? undefined,
+    }).pipe(
+      Effect.map((issued) => ({ ok: true, ...issued }) as const),
+      Effect.catchTags({
+        OidcLoginError: (e) =>
+          Effect.succeed({ ok: false, message: e.message } as const),
+        UserInactiveError: () =>
+          Effect.succeed({
+            ok: false,
+            message: "このユーザーは無効化されています",
+          } as const),
+      }),
+      Effect.provide(AppLayer),
+    ),
+  );
+
+  // 照合に使った値は成否にかかわらず削除する
+  const headers = new Headers();
+  headers.append(
+    "Set-Cookie",
+    await oidcLoginCookie.serialize("", { maxAge: 0 }),
+  );
+  if (!result.ok) {
+    throw loginWithError(result.message, headers);
+  }
+  headers.append("Set-Cookie", await sessionCookie.serialize(result.token));
+  throw redirect(result.returnTo, { headers });
+}
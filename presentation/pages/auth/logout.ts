@@ -0,0 +1,21 @@
+import { redirect } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
+import { Effect } from "effect";
+import { readSessionToken, sessionCookie } from "~/features/auth/auth-cookies";
+import { logout } from "@application/usecases/auth/logout";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+
+/**
+ * ログアウトする（OIDC でログインした場合は IdP からもログアウトする）
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const token = await readSessionToken(request);
+  const { endSessionUrl } = await Effect.runPromise(
+    logout(token).pipe(Effect.provide(AppLayer)),
+  );
+  throw redirect(endSessionUrl ?? "/login", {
+    headers: {
+      "Set-Cookie": await sessionCookie.serialize("", { maxAge: 0 }),
+    },
+  });
+}
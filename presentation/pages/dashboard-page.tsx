@@ -1,18 +1,39 @@
 import { useState } from "react";
-import type { MetaFunction } from "react-router";
+import {
+  Link,
+  useLoaderData,
+  useRevalidator,
+  useRouteError,
+} from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { Effect } from "effect";
 import { Button } from "~/components/ui/button";
-import { Skeleton } from "~/components/ui/skeleton";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
-import { RefreshCw, AlertCircle, Plus } from "lucide-react";
+import {
+  RefreshCw,
+  AlertCircle,
+  Plus,
+  PlayCircle,
+  ListTodo,
+} from "lucide-react";
 import { TestSummaryCard } from "~/features/dashboard/components/test-summary-card";
 import { ActiveTestRunsCard } from "~/features/dashboard/components/active-test-runs-card";
 import { RecentTestHistoryTable } from "~/features/dashboard/components/recent-test-history-table";
 import { ProjectStatsCard } from "~/features/dashboard/components/project-stats-card";
 import { EmptyDashboard } from "~/features/dashboard/components/empty-dashboard";
 import { useDashboardData } from "~/features/dashboard/hooks/use-dashboard-data";
+import { UserMenu } from "~/features/auth/user-menu";
+import { useCan } from "~/features/auth/hooks/use-can";
 import { ScenarioCreationDialog } from "~/features/scenario-creation/scenario-creation-dialog";
 import { useKeyboardShortcut } from "~/features/scenario-creation/hooks/use-keyboard-shortcut";
-import { createPrismaClient } from "repository/libs/db";
+import { cn } from "~/lib/utils";
+import { getDashboardData } from "@application/usecases/dashboard/get-dashboard-data";
+import { getScenarioCreationOptions } from "@application/usecases/scenario/get-scenario-creation-options";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { hasPermission } from "@domain/logic/permission-checker";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
 
 export const meta: MetaFunction = () => {
   return [
@@ -24,28 +45,44 @@ export const meta: MetaFunction = () => {
   ];
 };
 
-export async function loader() {
-  const prisma = createPrismaClient();
-  const user = await prisma.user.count();
-  console.log("user", user);
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const program = Effect.gen(function* () {
+    const dashboard = yield* getDashboardData();
+    // シナリオ作成ダイアログの選択肢（作成できる場合のみ）
+    const scenarioCreation = hasPermission(user, "scenario:create")
+      ? yield* getScenarioCreationOptions()
+      : null;
+    return { ...dashboard, scenarioCreation };
+  });
+  const dashboard = await runAuthorized(
+    program.pipe(
+      requirePermission("test-run:view"),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  return {
+    ...dashboard,
+    currentUser: {
+      name: user.name,
+      email: user.email,
+      avatarUrl: user.avatarUrl,
+    },
+  };
 }
 
 export default function DashboardPage() {
-  const { data, isLoading, error, refresh } = useDashboardData();
+  const { currentUser, scenarioCreation } = useLoaderData<typeof loader>();
+  const { data, isRefreshing, refresh, connected } = useDashboardData();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const can = useCan();
+  const canCreateScenario = can("scenario:create");
 
-  // C キーでシナリオ作成ダイアログを開く
-  useKeyboardShortcut("c", () => setCreateDialogOpen(true));
-
-  if (isLoading) {
-    return <DashboardSkeleton />;
-  }
-
-  if (error) {
-    return <DashboardError error={error} onRetry={refresh} />;
-  }
+  // C キーでシナリオ作成ダイアログを開く（シナリオを作成できる場合のみ）
+  useKeyboardShortcut("c", () => setCreateDialogOpen(true), canCreateScenario);
 
-  if (!data || data.testRuns.length === 0) {
+  if (data.summary.totalRuns === 0) {
     return <EmptyDashboard />;
   }
 
@@ -63,26 +100,46 @@ export default function DashboardPage() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button
-              onClick={() => setCreateDialogOpen(true)}
-              size="sm"
-              className="gap-2"
-            >
-              <Plus className="h-4 w-4" />
-              シナリオを作成
-              <kbd className="ml-1 pointer-events-none inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground opacity-100">
-                C
-              </kbd>
+            <Button asChild variant="outline" size="sm" className="gap-2">
+              <Link to="/my-queue">
+                <ListTodo className="h-4 w-4" />
+                自分のキュー
+              </Link>
             </Button>
+            {can("test-run:create") && (
+              <Button asChild size="sm" className="gap-2">
+                <Link to="/test-runs/new">
+                  <PlayCircle className="h-4 w-4" />
+                  テストランを作成
+                </Link>
+              </Button>
+            )}
+            {canCreateScenario && (
+              <Button
+                onClick={() => setCreateDialogOpen(true)}
+                size="sm"
+                className="gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                シナリオを作成
+                <kbd className="ml-1 pointer-events-none inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground opacity-100">
+                  C
+                </kbd>
+              </Button>
+            )}
             <Button
               onClick={refresh}
               variant="outline"
               size="sm"
               className="gap-2"
+              disabled={isRefreshing}
             >
-              <RefreshCw className="h-4 w-4" />
+              <RefreshCw
+                className={cn("h-4 w-4", isRefreshing && "animate-spin")}
+              />
               更新
             </Button>
+            <UserMenu user={currentUser} />
           </div>
         </div>
 
@@ -96,7 +153,10 @@ export default function DashboardPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* 左カラム: 実行中のテスト */}
           <div className="lg:col-span-1 space-y-6">
-            <ActiveTestRunsCard testRuns={data.testRuns} />
+            <ActiveTestRunsCard
+              testRuns={data.testRuns}
+              connected={connected}
+            />
           </div>
 
           {/* 右カラム: テスト履歴とプロジェクト統計 */}
@@ -107,59 +167,29 @@ export default function DashboardPage() {
         </div>
 
         {/* シナリオ作成ダイアログ */}
-        <ScenarioCreationDialog
-          open={createDialogOpen}
-          onOpenChange={setCreateDialogOpen}
-        />
+        {canCreateScenario && scenarioCreation && (
+          <ScenarioCreationDialog
+            options={scenarioCreation}
+            open={createDialogOpen}
+            onOpenChange={setCreateDialogOpen}
+          />
+        )}
       </div>
     </div>
   );
 }
 
 /**
- * ローディングスケルトン
+ * エラー表示（loader の失敗時）
  */
-function DashboardSkeleton() {
-  return (
-    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
-      <div className="container mx-auto p-6 space-y-6">
-        {/* ヘッダースケルトン */}
-        <div className="flex items-center justify-between">
-          <div className="space-y-2">
-            <Skeleton className="h-10 w-64" />
-            <Skeleton className="h-4 w-80" />
-          </div>
-          <Skeleton className="h-9 w-20" />
-        </div>
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const revalidator = useRevalidator();
+  const message =
+    error instanceof Error
+      ? error.message
+      : "ダッシュボードデータの取得に失敗しました";
 
-        {/* サマリーカードスケルトン */}
-        <Skeleton className="h-chart-xl w-full" />
-
-        {/* グリッドスケルトン */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-1">
-            <Skeleton className="h-chart-lg w-full" />
-          </div>
-          <div className="lg:col-span-2 space-y-6">
-            <Skeleton className="h-chart-lg w-full" />
-            <Skeleton className="h-chart-md w-full" />
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-/**
- * エラー表示
- */
-function DashboardError({
-  error,
-  onRetry,
-}: {
-  error: Error;
-  onRetry: () => void;
-}) {
   return (
     <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
       <div className="container mx-auto p-6">
@@ -167,9 +197,9 @@ function DashboardError({
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>エラーが発生しました</AlertTitle>
           <AlertDescription className="mt-2 space-y-2">
-            <p>{error.message}</p>
+            <p>{message}</p>
             <Button
-              onClick={onRetry}
+              onClick={() => void revalidator.revalidate()}
               variant="outline"
               size="sm"
               className="mt-4"
@@ -0,0 +1,116 @@
+import {
+  Link,
+  data,
+  isRouteErrorResponse,
+  useLoaderData,
+  useRouteError,
+} from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { Effect } from "effect";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { Button } from "~/components/ui/button";
+import { IssueSummary } from "~/features/linear-issues/components/issue-summary";
+import { IssueCoverageList } from "~/features/linear-issues/components/issue-coverage-list";
+import { getIssueCoverage } from "@application/usecases/release/get-issue-coverage";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    {
+      title: data ? `${data.identifier} - medi-test` : "Issue - medi-test",
+    },
+    {
+      name: "description",
+      content: "Linear の Issue をカバーしたテストケース",
+    },
+  ];
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const result = await runAuthorized(
+    getIssueCoverage(params.identifier ?? "").pipe(
+      Effect.map((coverage) => ({ ok: true, coverage }) as const),
+      Effect.catchTag("LinearError", (error) =>
+        Effect.succeed({ ok: false, message: error.message } as const),
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result.ok) {
+    throw data(`Linear の Issue を取得できません: ${result.message}`, {
+      status: 502,
+    });
+  }
+  return result.coverage;
+}
+
+export default function IssuePage() {
+  const { identifier, issue, runs } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            {identifier}
+          </h1>
+          {issue ? (
+            <IssueSummary issue={issue} />
+          ) : (
+            <p className="text-muted-foreground">
+              Linear で Issue が見つかりません
+            </p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Issue
+            を参照するリリースのテストランのうち、フォルダーかシナリオのタグが
+            Issue のラベルに該当するテストケース
+          </p>
+        </div>
+
+        <IssueCoverageList runs={runs} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * エラー表示（Linear に接続できない場合など）
+ */
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const message = isRouteErrorResponse(error)
+    ? String(error.data)
+    : error instanceof Error
+      ? error.message
+      : "Issue の取得に失敗しました";
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive" className="max-w-2xl mx-auto mt-20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>エラーが発生しました</AlertTitle>
+          <AlertDescription className="mt-2 space-y-2">
+            <p>{message}</p>
+            <Button asChild variant="outline" size="sm" className="mt-4">
+              <Link to="/">ダッシュボードへ戻る</Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,79 @@
-import type { ActionFunctionArgs } from "react-router";
+import { Form, useLoaderData } from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
 import { data, redirect } from "react-router";
+import { Effect } from "effect";
 import z from "zod";
+import { Alert, AlertDescription } from "~/components/ui/alert";
+import { Button } from "~/components/ui/button";
+import { Separator } from "~/components/ui/separator";
+import { AlertCircle, LogIn } from "lucide-react";
 import { LoginForm } from "~/features/auth/login-form";
+import { oidcLoginCookie, sessionCookie } from "~/features/auth/auth-cookies";
+import { findCurrentUser } from "~/features/auth/require-user";
 import { loginSchema } from "~/lib/schemas/auth";
+import { safeReturnTo } from "@domain/logic/auth-session";
+import { getLoginOptions } from "@application/usecases/auth/get-login-options";
+import { beginOidcLogin } from "@application/usecases/auth/begin-oidc-login";
+import { loginWithPassword } from "@application/usecases/auth/login-with-password";
+import { AppLayer } from "@infrastructure/layers/app-layer";
 
-export function meta() {
+export const meta: MetaFunction = () => {
   return [
-    { title: "ログイン - Theta" },
-    { name: "description", content: "Thetaにログインする" },
+    { title: "ログイン - medi-test" },
+    { name: "description", content: "medi-test にログインする" },
   ];
+};
+
+/**
+ * 使える認証方法とログイン後に戻る画面（ログイン済みの場合はそのまま戻す）
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const search = new URL(request.url).searchParams;
+  const returnTo = safeReturnTo(search.get("returnTo"));
+
+  if (await findCurrentUser(request)) {
+    throw redirect(returnTo);
+  }
+  const options = await Effect.runPromise(
+    getLoginOptions().pipe(Effect.provide(AppLayer)),
+  );
+  return { options, returnTo, error: search.get("error") };
 }
 
+/**
+ * intent に応じてログインする
+ * - oidc: 認可サーバーにリダイレクトする（照合する値は Cookie に保存する）
+ * - local: 開発用のローカル認証でログインする
+ */
 export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const returnTo = String(formData.get("returnTo") || "") || null;
+
+  if (intent === "oidc") {
+    const result = await Effect.runPromise(
+      beginOidcLogin(returnTo).pipe(
+        Effect.map((login) => ({ ok: true, ...login }) as const),
+        Effect.catchTag("OidcLoginError", (e) =>
+          Effect.succeed({ ok: false, message: e.message } as const),
+        ),
+        Effect.provide(AppLayer),
+      ),
+    );
+    if (!result.ok) {
+      return data({ error: result.message }, { status: 400 });
+    }
+    throw redirect(result.authorizationUrl, {
+      headers: {
+        "Set-Cookie": await oidcLoginCookie.serialize(result.pending),
+      },
+    });
+  }
+
   const username = String(formData.get("username") || "");
   const password = String(formData.get("password") || "");
 
@@ -31,39 +92,87 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 
-  // コンソールに出力（要件通り）
-  console.log("Login attempt:", {
-    username,
-    password,
-    timestamp: new Date().toISOString(),
+  const result = await Effect.runPromise(
+    loginWithPassword(username, password).pipe(
+      Effect.map((issued) => ({ ok: true, ...issued }) as const),
+      Effect.catchTags({
+        InvalidCredentialsError: () =>
+          Effect.succeed({
+            ok: false,
+            message: "ユーザー名またはパスワードが正しくありません",
+          } as const),
+        UserInactiveError: () =>
+          Effect.succeed({
+            ok: false,
+            message: "このユーザーは無効化されています",
+          } as const),
+      }),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result.ok) {
+    return data({ error: result.message }, { status: 400 });
+  }
+  throw redirect(safeReturnTo(returnTo), {
+    headers: { "Set-Cookie": await sessionCookie.serialize(result.token) },
   });
-
-  // ホームにリダイレクト
-  throw redirect("/");
 }
 
 export default function LoginPage({
   actionData,
 }: {
   actionData?: {
+    error?: string;
     errors?: {
       username?: string;
       password?: string;
     };
   };
 }) {
+  const { options, returnTo, error } = useLoaderData<typeof loader>();
+  const message = actionData?.error ?? error;
+
   return (
     <div className="container mx-auto flex min-h-screen items-center justify-center p-4">
       <div className="w-full max-w-md space-y-6">
         <div className="text-center">
           <h1 className="text-3xl font-bold">ログイン</h1>
           <p className="text-muted-foreground mt-2">
-            アカウント情報を入力してください
+            組織のアカウントでログインしてください
           </p>
         </div>
 
-        <div className="rounded-lg border bg-card p-6 shadow-sm">
-          <LoginForm errors={actionData?.errors} />
+        <div className="rounded-lg border bg-card p-6 shadow-sm space-y-6">
+          {message && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
+
+          {options.oidc && (
+            <Form method="post">
+              <input type="hidden" name="intent" value="oidc" />
+              <input type="hidden" name="returnTo" value={returnTo} />
+              <Button type="submit" className="w-full gap-2">
+                <LogIn className="h-4 w-4" />
+                OIDC でログイン
+              </Button>
+            </Form>
+          )}
+
+          {options.oidc && options.local && <Separator />}
+
+          {options.local && (
+            <LoginForm returnTo={returnTo} errors={actionData?.errors} />
+          )}
+
+          {!options.oidc && !options.local && (
+            <p className="text-sm text-muted-foreground text-center">
+              ログイン方法が設定されていません（OIDC_ISSUER または
+              AUTH_LOCAL_PASSWORD を設定してください）
+            </p>
+          )}
         </div>
       </div>
     </div>
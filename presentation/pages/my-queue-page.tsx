@@ -0,0 +1,62 @@
+import { Link, useLoaderData } from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { Effect } from "effect";
+import { Button } from "~/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { MyQueueList } from "~/features/my-queue/components/my-queue-list";
+import { groupQueueByRun } from "~/features/my-queue/utils/group-queue-by-run";
+import { getMyQueue } from "@application/usecases/test-run/get-my-queue";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "自分のキュー - medi-test" },
+    {
+      name: "description",
+      content: "進行中のテストランで担当している未実行のテストケース",
+    },
+  ];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const queue = await runAuthorized(
+    getMyQueue().pipe(
+      requirePermission("test-run:view"),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  return { groups: groupQueueByRun(queue) };
+}
+
+export default function MyQueuePage() {
+  const { groups } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            自分のキュー
+          </h1>
+          <p className="text-muted-foreground">
+            進行中のテストランで担当している未実行のテストケース（期限の近い順）
+          </p>
+        </div>
+
+        <MyQueueList groups={groups} />
+      </div>
+    </div>
+  );
+}
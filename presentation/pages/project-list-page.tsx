@@ -0,0 +1,87 @@
+import { Link, useLoaderData } from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { Effect } from "effect";
+import { ArrowLeft, ChevronRight } from "lucide-react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent } from "~/components/ui/card";
+import { listProjects } from "@application/usecases/project/list-projects";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "プロジェクト設定 - medi-test" },
+    { name: "description", content: "設定するプロジェクトを選ぶ" },
+  ];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const projects = await runAuthorized(
+    listProjects().pipe(
+      requirePermission(
+        "project:configure",
+        "プロジェクトを設定する権限がありません",
+      ),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  return { projects };
+}
+
+export default function ProjectListPage() {
+  const { projects } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            プロジェクト設定
+          </h1>
+          <p className="text-muted-foreground">
+            設定するプロジェクトを選びます
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {projects.map((project) => (
+            <Link
+              key={project.id}
+              to={`/projects/${project.id}/settings`}
+              className="block"
+            >
+              <Card className="transition-colors hover:bg-accent/50">
+                <CardContent className="flex items-center justify-between gap-4 py-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">{project.name}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">{project.key}</Badge>
+                      {project.environments.map((environment) => (
+                        <Badge key={environment.id} variant="secondary">
+                          {environment.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
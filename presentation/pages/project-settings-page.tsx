@@ -0,0 +1,202 @@
+import { Link, data, useLoaderData } from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { Effect } from "effect";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { ReleaseDetectionForm } from "~/features/project-settings/components/release-detection-form";
+import { WebhookForm } from "~/features/project-settings/components/webhook-form";
+import { WebhookList } from "~/features/project-settings/components/webhook-list";
+import type { ProjectSettingsActionResult } from "~/features/project-settings/types/project-settings-types";
+import { toWebhookListItem } from "~/features/project-settings/utils/webhook-list";
+import { projectSettingsActionSchema } from "~/lib/schemas/project-settings";
+import { getReleaseDetection } from "@application/usecases/project/get-release-detection";
+import { updateReleaseDetection } from "@application/usecases/project/update-release-detection";
+import { listWebhooks } from "@application/usecases/webhook/list-webhooks";
+import { createWebhook } from "@application/usecases/webhook/create-webhook";
+import { updateWebhook } from "@application/usecases/webhook/update-webhook";
+import { deleteWebhook } from "@application/usecases/webhook/delete-webhook";
+import { rotateWebhookSecret } from "@application/usecases/webhook/rotate-webhook-secret";
+import { redeliverWebhook } from "@application/usecases/webhook/redeliver-webhook";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+import { readJsonBody } from "~/features/api/api-response";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    {
+      title: data
+        ? `${data.project.name} の設定 - medi-test`
+        : "プロジェクト設定 - medi-test",
+    },
+  ];
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const projectId = params.projectId ?? "";
+  const result = await runAuthorized(
+    Effect.all({
+      detection: getReleaseDetection(projectId),
+      webhooks: listWebhooks(projectId),
+    }).pipe(
+      Effect.map(({ detection, webhooks }) => ({
+        ...detection,
+        webhooks: webhooks.map(toWebhookListItem),
+      })),
+      Effect.catchTag("ProjectNotFoundError", () => Effect.succeed(null)),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result) {
+    throw data(`プロジェクトが見つかりません: ${projectId}`, { status: 404 });
+  }
+  return result;
+}
+
+const errorResult = (message: string, status: number) =>
+  data<ProjectSettingsActionResult>({ error: message }, { status });
+
+/**
+ * intent に応じてプロジェクトの設定を変更する
+ * - update-release-detection: リリース検出の設定を変更する（settings を省略すると外す）
+ * - create-webhook / rotate-webhook-secret: Webhook の購読を作成する・シークレットを再発行する
+ *   （発行したシークレットを返す）
+ * - update-webhook / delete-webhook: Webhook の購読を変更・削除する
+ * - redeliver-webhook: 配信済みの本文をもう一度送る
+ */
+export async function action({ params, request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const projectId = params.projectId ?? "";
+  const parsed = projectSettingsActionSchema.safeParse(
+    await readJsonBody(request),
+  );
+  if (!parsed.success) {
+    return errorResult(parsed.error.issues[0].message, 400);
+  }
+
+  const input = parsed.data;
+  const program = Effect.gen(function* () {
+    switch (input.intent) {
+      case "update-release-detection":
+        yield* updateReleaseDetection(projectId, input.settings ?? null);
+        return data<ProjectSettingsActionResult>({ saved: true });
+      case "create-webhook": {
+        const { secret, subscription } = yield* createWebhook(
+          projectId,
+          input.webhook,
+        );
+        return data<ProjectSettingsActionResult>({
+          saved: true,
+          issuedWebhook: { url: subscription.url, secret },
+        });
+      }
+      case "update-webhook":
+        yield* updateWebhook(projectId, input.webhookId, input.webhook);
+        return data<ProjectSettingsActionResult>({ saved: true });
+      case "delete-webhook":
+        yield* deleteWebhook(projectId, input.webhookId);
+        return data<ProjectSettingsActionResult>({ saved: true });
+      case "rotate-webhook-secret": {
+        const { secret, subscription } = yield* rotateWebhookSecret(
+          projectId,
+          input.webhookId,
+        );
+        return data<ProjectSettingsActionResult>({
+          saved: true,
+          issuedWebhook: { url: subscription.url, secret },
+        });
+      }
+      case "redeliver-webhook":
+        yield* redeliverWebhook(projectId, input.deliveryId);
+        return data<ProjectSettingsActionResult>({ saved: true });
+    }
+  }).pipe(
+    Effect.catchTags({
+      UnauthorizedError: (error) =>
+        Effect.succeed(errorResult(error.message, 403)),
+      ProjectNotFoundError: () =>
+        Effect.succeed(
+          errorResult(`プロジェクトが見つかりません: ${projectId}`, 404),
+        ),
+      WebhookSubscriptionNotFoundError: () =>
+        Effect.succeed(errorResult("Webhook が見つかりません", 404)),
+      WebhookDeliveryNotFoundError: () =>
+        Effect.succeed(errorResult("配信が見つかりません", 404)),
+    }),
+  );
+
+  return Effect.runPromise(
+    program.pipe(
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+export default function ProjectSettingsPage() {
+  const { project, settings, webhooks } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/projects">
+              <ArrowLeft className="h-4 w-4" />
+              プロジェクト設定
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            {project.name}
+          </h1>
+          <p className="text-muted-foreground">{project.key}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>リリース検出（GitHub）</CardTitle>
+            <CardDescription>
+              リリースのラベルが付いたマージ済みの PR
+              の変更ファイルから、テストランで実行するシナリオを提案します
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ReleaseDetectionForm settings={settings} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Webhook</CardTitle>
+            <CardDescription>
+              テストランのイベントを JSON で POST します。本文は購読ごとの
+              シークレットで HMAC-SHA256 署名し（X-MediTest-Signature-256
+              ヘッダー）、失敗した配信は間隔を倍にしながら再試行します
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <WebhookList webhooks={webhooks} />
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-medium">Webhook を追加</p>
+              <WebhookForm />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import {
+  data,
+  isRouteErrorResponse,
+  Link,
+  useLoaderData,
+  useRouteError,
+  useSearchParams,
+} from "react-router";
+import type { LoaderFunctionArgs, MetaFunction } from "react-router";
+import { Effect } from "effect";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import { ScenarioVersionList } from "~/features/scenario-history/components/scenario-version-list";
+import { ScenarioVersionDiff } from "~/features/scenario-history/components/scenario-version-diff";
+import type {
+  ScenarioSnapshot,
+  ScenarioVersionItem,
+} from "~/features/scenario-history/types/scenario-history-types";
+import { scenarioCompareQuerySchema } from "~/lib/schemas/scenario";
+import { getScenarioHistory } from "@application/usecases/scenario/get-scenario-history";
+import { compareScenarioVersions } from "@application/usecases/scenario/compare-scenario-versions";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import type { VersionedScenario } from "@domain/models/scenario";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+
+export const meta: MetaFunction = ({ params }) => {
+  return [
+    { title: `${params.scenarioId} の変更履歴 - medi-test` },
+    { name: "description", content: "シナリオの版の履歴と差分" },
+  ];
+};
+
+interface ScenarioDetailData {
+  scenarioId: string;
+  title: string;
+  archived: boolean;
+  versions: ScenarioVersionItem[];
+  from: ScenarioSnapshot;
+  to: ScenarioSnapshot;
+}
+
+const toSnapshot = ({ scenario, version }: VersionedScenario) => ({
+  ...scenario.location,
+  version,
+  title: scenario.title,
+  description: scenario.description,
+  tags: [...scenario.tags],
+  preconditions: [...scenario.preconditions],
+  steps: [...scenario.steps],
+  expectedResults: [...scenario.expectedResults],
+  defaultImportance: scenario.defaultImportance,
+  requiredByDefault: scenario.requiredByDefault,
+  estimatedDurationMinutes: scenario.estimatedDurationMinutes,
+});
+
+/**
+ * 版の履歴と比較する2つの版（省略時は直前の版と最新版）を取得する
+ */
+export async function loader({
+  params,
+  request,
+}: LoaderFunctionArgs): Promise<ScenarioDetailData> {
+  const user = await requireUser(request);
+  const scenarioId = params.scenarioId ?? "";
+  const query = scenarioCompareQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) {
+    throw data(query.error.issues[0].message, { status: 400 });
+  }
+
+  const program = Effect.gen(function* () {
+    const { current, archived, versions } =
+      yield* getScenarioHistory(scenarioId);
+    const toVersion = query.data.to ?? current.version;
+    const fromVersion =
+      query.data.from ?? versions[1]?.version ?? current.version;
+    const { from, to } = yield* compareScenarioVersions(
+      scenarioId,
+      fromVersion,
+      toVersion,
+    );
+
+    return {
+      scenarioId,
+      title: current.scenario.title,
+      archived,
+      versions: versions.map((version) => ({
+        version: version.version,
+        authorName: version.author.name,
+        authorEmail: version.author.email,
+        committedAt: version.committedAt,
+        message: version.message,
+      })),
+      from: toSnapshot(from),
+      to: toSnapshot(to),
+    };
+  }).pipe(Effect.catchTag("ScenarioNotFoundError", () => Effect.succeed(null)));
+
+  const result = await runAuthorized(
+    program.pipe(
+      requirePermission("test-run:view"),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result) {
+    throw data(`シナリオが見つかりません: ${scenarioId}`, { status: 404 });
+  }
+  return result;
+}
+
+export default function ScenarioDetailPage() {
+  const { scenarioId, title, archived, versions, from, to } =
+    useLoaderData<ScenarioDetailData>();
+  const [, setSearchParams] = useSearchParams();
+
+  const handleCompare = (fromVersion: string, toVersion: string) => {
+    setSearchParams({ from: fromVersion, to: toVersion });
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/scenarios">
+              <ArrowLeft className="h-4 w-4" />
+              シナリオ一覧
+            </Link>
+          </Button>
+          <div className="flex items-center gap-3">
+            <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+              {title}
+            </h1>
+            <Badge variant="outline" className="font-mono">
+              {scenarioId}
+            </Badge>
+            {archived && <Badge variant="secondary">アーカイブ済み</Badge>}
+          </div>
+          <p className="text-muted-foreground">
+            {versions.length} 件の版があります
+          </p>
+        </div>
+
+        <ScenarioVersionList
+          versions={versions}
+          fromVersion={from.version}
+          toVersion={to.version}
+          onCompare={handleCompare}
+        />
+
+        <ScenarioVersionDiff from={from} to={to} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * エラー表示（シナリオ・版が見つからない場合など）
+ */
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const message = isRouteErrorResponse(error)
+    ? String(error.data)
+    : error instanceof Error
+      ? error.message
+      : "シナリオの履歴の取得に失敗しました";
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive" className="max-w-2xl mx-auto mt-20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>エラーが発生しました</AlertTitle>
+          <AlertDescription className="mt-2 space-y-2">
+            <p>{message}</p>
+            <Button asChild variant="outline" size="sm" className="mt-4">
+              <Link to="/scenarios">シナリオ一覧へ戻る</Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    </div>
+  );
+}
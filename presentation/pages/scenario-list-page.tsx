@@ -0,0 +1,346 @@
+import { useState } from "react";
+import {
+  data,
+  useLoaderData,
+  useRevalidator,
+  useRouteError,
+} from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { Effect } from "effect";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { RefreshCw, AlertCircle } from "lucide-react";
+import { ScenarioListTable } from "~/features/scenario-list/components/scenario-list-table";
+import { ScenarioEditDialog } from "~/features/scenario-edit/scenario-edit-dialog";
+import type {
+  ScenarioFields,
+  ScenarioListItem,
+  ScenarioUpdateResult,
+} from "~/features/scenario-edit/types/scenario-edit-types";
+import type { ScenarioArchiveResult } from "~/features/scenario-list/types/scenario-list-types";
+import type {
+  ScenarioCreateResult,
+  Tag,
+} from "~/features/scenario-creation/types/scenario-types";
+import { scenarioActionSchema } from "~/lib/schemas/scenario";
+import { listScenarios } from "@application/usecases/scenario/list-scenarios";
+import { createScenario } from "@application/usecases/scenario/create-scenario";
+import { updateScenario } from "@application/usecases/scenario/update-scenario";
+import { getScenarioConflict } from "@application/usecases/scenario/get-scenario-conflict";
+import { listArchivedScenarios } from "@application/usecases/scenario/list-archived-scenarios";
+import { archiveScenario } from "@application/usecases/scenario/archive-scenario";
+import { restoreScenario } from "@application/usecases/scenario/restore-scenario";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import {
+  CommitAuthor,
+  Scenario,
+  ScenarioLocation,
+} from "@domain/models/scenario";
+import type { VersionedScenario } from "@domain/models/scenario";
+import type { User } from "@domain/models/user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+import { useCan } from "~/features/auth/hooks/use-can";
+import { readJsonBody } from "~/features/api/api-response";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "シナリオ - medi-test" },
+    { name: "description", content: "テストシナリオの一覧と編集" },
+  ];
+};
+
+interface ScenarioListData {
+  scenarios: ScenarioListItem[];
+  archivedScenarios: ScenarioListItem[];
+  availableTags: Tag[];
+}
+
+const toFields = (scenario: Scenario): ScenarioFields => ({
+  title: scenario.title,
+  description: scenario.description,
+  tags: [...scenario.tags],
+});
+
+const toListItem = ({
+  scenario,
+  version,
+}: VersionedScenario): ScenarioListItem => ({
+  ...toFields(scenario),
+  ...scenario.location,
+  version,
+});
+
+const authorOf = (user: User) =>
+  new CommitAuthor({ name: user.name, email: user.email });
+
+const errorResult = (message: string, status: number) =>
+  data<ScenarioCreateResult | ScenarioUpdateResult | ScenarioArchiveResult>(
+    { status: "error", message },
+    { status },
+  );
+
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<ScenarioListData> {
+  const user = await requireUser(request);
+  const program = Effect.gen(function* () {
+    const scenarios = (yield* listScenarios()).map(toListItem);
+    const archivedScenarios = (yield* listArchivedScenarios()).map(toListItem);
+
+    // アーカイブ済みのシナリオのタグは候補に含めない
+    const tagNames = [
+      ...new Set(scenarios.flatMap((scenario) => scenario.tags)),
+    ].sort();
+
+    return {
+      scenarios,
+      archivedScenarios,
+      availableTags: tagNames.map((name) => ({ id: name, name })),
+    };
+  });
+
+  return runAuthorized(
+    program.pipe(
+      requirePermission("test-run:view"),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+/**
+ * シナリオの作成・更新・アーカイブ・復元
+ * - 更新は base_version が最新でなければ 409 と競合情報を返す
+ * - 作成は scenario:create 権限、更新は scenario:edit 権限、
+ *   アーカイブ・復元は scenario:archive 権限（Admin）が必要
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const parsed = scenarioActionSchema.safeParse(await readJsonBody(request));
+  if (!parsed.success) {
+    return errorResult(parsed.error.issues[0].message, 400);
+  }
+
+  const input = parsed.data;
+  const program = Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+
+    switch (input.intent) {
+      case "create": {
+        const { project, environment, category, scenarioId, ...fields } = input;
+        // 手順・期待結果などは作成後に YAML で編集する
+        const scenario = new Scenario({
+          ...fields,
+          location: new ScenarioLocation({
+            project,
+            environment,
+            category,
+            id: scenarioId,
+          }),
+          preconditions: [],
+          steps: [],
+          expectedResults: [],
+          defaultImportance: "medium",
+          requiredByDefault: false,
+          relatedScenarios: [],
+        });
+        return yield* createScenario(scenario, authorOf(currentUser)).pipe(
+          Effect.map(({ version }) =>
+            data<ScenarioCreateResult>({
+              status: "created",
+              scenarioId,
+              version,
+            }),
+          ),
+          // 復元時の重複とはメッセージを分ける
+          Effect.catchTag("ScenarioAlreadyExistsError", () =>
+            Effect.succeed(
+              errorResult(
+                `同じ ID のシナリオが既に存在します: ${scenarioId}`,
+                409,
+              ),
+            ),
+          ),
+        );
+      }
+      case "update": {
+        const { scenarioId, base_version, title, description, tags } = input;
+        const updated = yield* updateScenario(
+          {
+            scenarioId,
+            baseVersion: base_version,
+            changes: { title, description, tags },
+          },
+          authorOf(currentUser),
+        );
+        return data<ScenarioUpdateResult>({
+          status: "updated",
+          version: updated.version,
+        });
+      }
+      case "archive":
+        return data<ScenarioArchiveResult>({
+          status: "archived",
+          version: yield* archiveScenario(input.scenarioId),
+        });
+      case "restore":
+        return data<ScenarioArchiveResult>({
+          status: "restored",
+          version: yield* restoreScenario(input.scenarioId),
+        });
+    }
+  }).pipe(
+    Effect.catchTag("ScenarioConflictError", (conflict) =>
+      Effect.map(getScenarioConflict(conflict), ({ base, current }) =>
+        data<ScenarioUpdateResult>(
+          {
+            status: "conflict",
+            conflict: {
+              baseVersion: base.version,
+              currentVersion: current.version,
+              base: toFields(base.scenario),
+              current: toFields(current.scenario),
+            },
+          },
+          { status: 409 },
+        ),
+      ),
+    ),
+    Effect.catchTags({
+      UnauthorizedError: (error) =>
+        Effect.succeed(errorResult(error.message, 403)),
+      ScenarioNotFoundError: (error) =>
+        Effect.succeed(
+          errorResult(`シナリオが見つかりません: ${error.scenarioId}`, 404),
+        ),
+      ScenarioAlreadyExistsError: (error) =>
+        Effect.succeed(
+          errorResult(
+            `同じ ID のシナリオが既に存在するため復元できません: ${error.scenarioId}`,
+            409,
+          ),
+        ),
+      InvalidScenarioFileError: (error) =>
+        Effect.succeed(errorResult(error.message, 400)),
+      InvalidScenarioLocationError: (error) =>
+        Effect.succeed(
+          errorResult(`${error.field} が不正です: ${error.value}`, 400),
+        ),
+    }),
+  );
+
+  return Effect.runPromise(
+    program.pipe(
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+export default function ScenarioListPage() {
+  const { scenarios, archivedScenarios, availableTags } =
+    useLoaderData<ScenarioListData>();
+  const can = useCan();
+  const canArchive = can("scenario:archive");
+  const [editing, setEditing] = useState<ScenarioListItem | null>(null);
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            シナリオ
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Git で管理しているテストシナリオの一覧
+          </p>
+        </div>
+
+        <Card className="backdrop-blur-xl bg-white/80 dark:bg-gray-900/80 border-white/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-xl">シナリオ一覧</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="active" className="w-full">
+              <TabsList>
+                <TabsTrigger value="active">
+                  有効（{scenarios.length}）
+                </TabsTrigger>
+                <TabsTrigger value="archived">
+                  アーカイブ済み（{archivedScenarios.length}）
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="active" className="mt-4">
+                <ScenarioListTable
+                  scenarios={scenarios}
+                  canArchive={canArchive}
+                  onEdit={can("scenario:edit") ? setEditing : undefined}
+                />
+              </TabsContent>
+              <TabsContent value="archived" className="mt-4">
+                <ScenarioListTable
+                  scenarios={archivedScenarios}
+                  canArchive={canArchive}
+                  archived
+                />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        {/* シナリオ編集ダイアログ（版が変わったら作り直す） */}
+        {editing && (
+          <ScenarioEditDialog
+            key={`${editing.id}@${editing.version}`}
+            scenario={editing}
+            availableTags={availableTags}
+            open
+            onOpenChange={(open) => !open && setEditing(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * エラー表示（loader の失敗時）
+ */
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const revalidator = useRevalidator();
+  const message =
+    error instanceof Error ? error.message : "シナリオの取得に失敗しました";
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive" className="max-w-2xl mx-auto mt-20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>エラーが発生しました</AlertTitle>
+          <AlertDescription className="mt-2 space-y-2">
+            <p>{message}</p>
+            <Button
+              onClick={() => void revalidator.revalidate()}
+              variant="outline"
+              size="sm"
+              className="mt-4"
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              再試行
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import {
+  data,
+  isRouteErrorResponse,
+  Link,
+  redirect,
+  useLoaderData,
+  useRouteError,
+} from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { Effect } from "effect";
+import { Button } from "~/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { AlertCircle, ArrowLeft } from "lucide-react";
+import { TestRunCreationWizard } from "~/features/test-run-creation/test-run-creation-wizard";
+import type {
+  ScenarioOption,
+  TestRunCreationOptions,
+  TestRunCreationResult,
+} from "~/features/test-run-creation/types/test-run-creation-types";
+import { createTestRunRequestSchema } from "~/lib/schemas/test-run";
+import type { Assignee } from "~/lib/schemas/test-run";
+import { getTestRunCreationOptions } from "@application/usecases/test-run/get-test-run-creation-options";
+import { createTestRun } from "@application/usecases/test-run/create-test-run";
+import type { VersionedScenario } from "@domain/models/scenario";
+import type { User } from "@domain/models/user";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+import { readJsonBody } from "~/features/api/api-response";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "テストランを作成 - medi-test" },
+    {
+      name: "description",
+      content: "リリースとシナリオを選んでテストランを作成",
+    },
+  ];
+};
+
+const toScenarioOption = ({
+  scenario,
+  version,
+}: VersionedScenario): ScenarioOption => ({
+  id: scenario.location.id,
+  title: scenario.title,
+  project: scenario.location.project,
+  environment: scenario.location.environment,
+  folder: scenario.location.category,
+  tags: [...scenario.tags],
+  defaultImportance: scenario.defaultImportance,
+  requiredByDefault: scenario.requiredByDefault,
+  version,
+});
+
+const toAssignee = (user: User): Assignee => ({
+  id: user.id,
+  name: user.name,
+  avatar: user.avatarUrl ?? undefined,
+});
+
+export async function loader({
+  request,
+}: LoaderFunctionArgs): Promise<TestRunCreationOptions> {
+  const user = await requireUser(request);
+  return runAuthorized(
+    getTestRunCreationOptions().pipe(
+      Effect.map(({ projects, scenarios, executors }) => ({
+        projects: [...projects],
+        scenarios: scenarios.map(toScenarioOption),
+        executors: executors.map(toAssignee),
+      })),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+const errorResult = (error: string, status: number) =>
+  data<TestRunCreationResult>({ error }, { status });
+
+/**
+ * テストランを作成し、実行画面へ移動する
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const parsed = createTestRunRequestSchema.safeParse(
+    await readJsonBody(request),
+  );
+  if (!parsed.success) {
+    return errorResult(parsed.error.issues[0].message, 400);
+  }
+
+  const program = createTestRun(parsed.data).pipe(
+    Effect.map((testRun) => redirect(`/test-runs/${testRun.id}`)),
+    Effect.catchTags({
+      UnauthorizedError: (error) =>
+        Effect.succeed(errorResult(error.message, 403)),
+      ProjectNotFoundError: () =>
+        Effect.succeed(errorResult("プロジェクトが見つかりません", 404)),
+      InvalidTestRunScopeError: (error) =>
+        Effect.succeed(errorResult(error.message, 400)),
+      InvalidTestRunAssigneeError: (error) =>
+        Effect.succeed(errorResult(error.message, 400)),
+      ScenarioNotFoundError: (error) =>
+        Effect.succeed(
+          errorResult(`シナリオが見つかりません: ${error.scenarioId}`, 404),
+        ),
+    }),
+  );
+
+  return Effect.runPromise(
+    program.pipe(
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+export default function TestRunCreationPage() {
+  const options = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+            テストランを作成
+          </h1>
+          <p className="text-muted-foreground">
+            リリースとシナリオを選び、担当者と期限を決めます
+          </p>
+        </div>
+
+        <TestRunCreationWizard options={options} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * エラー表示（作成する権限がない場合など）
+ */
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const message = isRouteErrorResponse(error)
+    ? String(error.data)
+    : error instanceof Error
+      ? error.message
+      : "テストランの作成画面を表示できませんでした";
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive" className="max-w-2xl mx-auto mt-20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>エラーが発生しました</AlertTitle>
+          <AlertDescription className="mt-2 space-y-2">
+            <p>{message}</p>
+            <Button asChild variant="outline" size="sm" className="mt-4">
+              <Link to="/">ダッシュボードへ戻る</Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    </div>
+  );
+}
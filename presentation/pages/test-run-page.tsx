@@ -0,0 +1,466 @@
+import { useState } from "react";
+import {
+  data,
+  isRouteErrorResponse,
+  Link,
+  useLoaderData,
+  useRouteError,
+  useSearchParams,
+} from "react-router";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "react-router";
+import { Effect } from "effect";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Kbd } from "~/components/ui/kbd";
+import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
+import { AlertCircle, ArrowLeft, FileUp, Users } from "lucide-react";
+import { TestRunStatusBadge } from "~/features/dashboard/components/test-run-status-badge";
+import { TestRunItemList } from "~/features/test-run/components/test-run-item-list";
+import {
+  RESULT_ACTIONS,
+  TestRunItemPanel,
+} from "~/features/test-run/components/test-run-item-panel";
+import { BlockReasonDialog } from "~/features/test-run/components/block-reason-dialog";
+import { CompletionVerdictCard } from "~/features/test-run/components/completion-verdict-card";
+import { ItemAssignmentDialog } from "~/features/test-run/components/item-assignment-dialog";
+import { AutomatedTestImportDialog } from "~/features/test-run/components/automated-test-import-dialog";
+import { TestRunApprovalCard } from "~/features/test-run/components/test-run-approval-card";
+import { TestRunProgressCard } from "~/features/test-run/components/test-run-progress-card";
+import { LiveUpdateIndicator } from "~/features/test-run/components/live-update-indicator";
+import { TestRunPresence } from "~/features/test-run/components/test-run-presence";
+import { ReleaseIssuesCard } from "~/features/linear-issues/components/release-issues-card";
+import { useTestRunExecution } from "~/features/test-run/hooks/use-test-run-execution";
+import { useLiveTestRun } from "~/features/test-run/hooks/use-live-test-run";
+import { useFocusReporting } from "~/features/test-run/hooks/use-focus-reporting";
+import {
+  groupViewersByItem,
+  summarizeOtherViewers,
+} from "~/features/test-run/utils/presence";
+import { useTestRunShortcuts } from "~/features/test-run/hooks/use-test-run-shortcuts";
+import type { TestRunActionResult } from "~/features/test-run/types/test-run-execution-types";
+import { testRunActionSchema } from "~/lib/schemas/test-run";
+import type { TestRunAction, TestRunItemResult } from "~/lib/schemas/test-run";
+import { evaluateCompletionPolicy } from "@domain/logic/completion-policy";
+import { deriveTestRunStatus } from "@domain/logic/test-run-progress";
+import { getTestRun } from "@application/usecases/test-run/get-test-run";
+import { pullLatestScenario } from "@application/usecases/test-run/pull-latest-scenario";
+import { recordItemResult } from "@application/usecases/test-run/record-item-result";
+import { saveItemNotes } from "@application/usecases/test-run/save-item-notes";
+import { requestRetest } from "@application/usecases/test-run/request-retest";
+import { resolveBlock } from "@application/usecases/test-run/resolve-block";
+import { updateCompletionPolicy } from "@application/usecases/test-run/update-completion-policy";
+import { decideApproval } from "@application/usecases/test-run/decide-approval";
+import { applyAssignmentRule } from "@application/usecases/test-run/apply-assignment-rule";
+import { assignItems } from "@application/usecases/test-run/assign-items";
+import { importAutomatedTestResults } from "@application/usecases/test-run/import-automated-test-results";
+import { applyAutomatedTestResults } from "@application/usecases/test-run/apply-automated-test-results";
+import { getTestRunItem } from "@application/usecases/test-run/get-test-run-item";
+import { requirePermission } from "@application/usecases/auth/require-permission";
+import { CurrentUser } from "@application/ports/current-user";
+import { AppLayer } from "@infrastructure/layers/app-layer";
+import { requireUser, runAuthorized } from "~/features/auth/require-user";
+import { useCan } from "~/features/auth/hooks/use-can";
+import { readJsonBody } from "~/features/api/api-response";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "テストラン - medi-test" },
+    { name: "description", content: "テストランの実行と結果の記録" },
+  ];
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const testRunId = params.testRunId ?? "";
+  const program = Effect.gen(function* () {
+    const currentUser = yield* CurrentUser;
+    const detail = yield* getTestRun(testRunId);
+    return { ...detail, currentUserId: currentUser.id };
+  });
+  const result = await runAuthorized(
+    program.pipe(
+      requirePermission("test-run:view"),
+      Effect.catchTag("TestRunNotFoundError", () => Effect.succeed(null)),
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+  if (!result) {
+    throw data(`テストランが見つかりません: ${testRunId}`, { status: 404 });
+  }
+  return result;
+}
+
+/**
+ * 実行画面の操作を実行する usecase（結果の記録・メモの保存・再テスト・最新版の取り込み・完了条件の変更・承認・担当者の割り当て）
+ * （自動テストの結果の取り込みは respondToAction で実行する）
+ */
+const runAction = (testRunId: string, action: TestRunAction) =>
+  Effect.gen(function* () {
+    // アイテムの操作は URL のテストランのアイテムだけに行う（他のテストランのアイテムは見つからない扱い）
+    if ("itemId" in action) {
+      yield* getTestRunItem(testRunId, action.itemId);
+    }
+    switch (action.intent) {
+      case "record-result":
+        return yield* recordItemResult(action.itemId, action);
+      case "save-notes":
+        return yield* saveItemNotes(action.itemId, action.notes);
+      case "request-retest":
+        return yield* requestRetest(action.itemId);
+      case "resolve-block":
+        return yield* resolveBlock(action.itemId, action.resolution);
+      case "pull-scenario":
+        return yield* pullLatestScenario(action.itemId);
+      case "update-completion-policy":
+        return yield* updateCompletionPolicy(
+          testRunId,
+          action.scope,
+          action.policy,
+        );
+      case "decide-approval":
+        return yield* decideApproval(
+          testRunId,
+          action.decision,
+          action.comment,
+        );
+      case "apply-assignment-rule":
+        return yield* applyAssignmentRule(
+          testRunId,
+          action.strategy,
+          action.onlyUnassigned,
+          action.folderOwners,
+        );
+      case "assign-items":
+        return yield* assignItems(testRunId, action.itemIds, action.assigneeId);
+    }
+  });
+
+/**
+ * 操作を実行し、画面に返す結果を作る（自動テストの結果の取り込みは記録した内容を返す）
+ */
+const respondToAction = (testRunId: string, action: TestRunAction) =>
+  Effect.gen(function* () {
+    switch (action.intent) {
+      case "import-automated-results": {
+        const automatedImport = yield* importAutomatedTestResults(
+          testRunId,
+          action,
+        );
+        return { automatedImport } satisfies TestRunActionResult;
+      }
+      case "apply-automated-results": {
+        const automatedOutcomes = yield* applyAutomatedTestResults(
+          testRunId,
+          action.format,
+          action.assignments,
+        );
+        return { automatedOutcomes } satisfies TestRunActionResult;
+      }
+      default:
+        yield* runAction(testRunId, action);
+        return {} satisfies TestRunActionResult;
+    }
+  });
+
+/**
+ * テストラン実行画面の操作
+ */
+export async function action({ params, request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const parsed = testRunActionSchema.safeParse(await readJsonBody(request));
+  if (!parsed.success) {
+    return data({ error: parsed.error.issues[0].message }, { status: 400 });
+  }
+
+  const program = respondToAction(params.testRunId ?? "", parsed.data).pipe(
+    Effect.map((result) =>
+      data<TestRunActionResult>({ error: undefined, ...result }),
+    ),
+    Effect.catchTags({
+      UnauthorizedError: (error) =>
+        Effect.succeed(data({ error: error.message }, { status: 403 })),
+      TestRunNotFoundError: () =>
+        Effect.succeed(
+          data({ error: "テストランが見つかりません" }, { status: 404 }),
+        ),
+      ProjectNotFoundError: () =>
+        Effect.succeed(
+          data({ error: "プロジェクトが見つかりません" }, { status: 404 }),
+        ),
+      TestRunItemNotFoundError: () =>
+        Effect.succeed(
+          data({ error: "アイテムが見つかりません" }, { status: 404 }),
+        ),
+      TestRunItemStatusError: (error) =>
+        Effect.succeed(data({ error: error.message }, { status: 409 })),
+      TestRunStatusError: (error) =>
+        Effect.succeed(data({ error: error.message }, { status: 409 })),
+      TestRunAssignmentError: (error) =>
+        Effect.succeed(data({ error: error.message }, { status: 400 })),
+      InvalidAutomatedTestReportError: (error) =>
+        Effect.succeed(data({ error: error.message }, { status: 400 })),
+      TestRunItemAlreadyExecutedError: () =>
+        Effect.succeed(
+          data(
+            { error: "実行済みのアイテムには最新版を取り込めません" },
+            { status: 409 },
+          ),
+        ),
+      ScenarioNotFoundError: (error) =>
+        Effect.succeed(
+          data(
+            { error: `シナリオが見つかりません: ${error.scenarioId}` },
+            { status: 404 },
+          ),
+        ),
+    }),
+  );
+
+  return Effect.runPromise(
+    program.pipe(
+      Effect.provideService(CurrentUser, user),
+      Effect.provide(AppLayer),
+    ),
+  );
+}
+
+export default function TestRunPage() {
+  const loaderData = useLoaderData<typeof loader>();
+  const { drifts, approvals, currentUserId } = loaderData;
+  const can = useCan();
+  const canExecute = can("test-run:execute");
+  const canManage = can("test-run:create");
+  // 他のユーザーの記録や担当者の変更、実行画面を開いているユーザーをリアルタイムで反映する
+  const { run, items, viewers, sessionId, connected } = useLiveTestRun(
+    loaderData.run,
+    loaderData.items,
+  );
+  const [searchParams] = useSearchParams();
+  // 自分のキューから開いた場合は指定のテストケースを選択する
+  const execution = useTestRunExecution(
+    items,
+    searchParams.get("item") ?? undefined,
+  );
+  const { selectedItem } = execution;
+  useFocusReporting(run.id, sessionId, viewers, selectedItem?.id, canExecute);
+  const otherViewers = summarizeOtherViewers(viewers, currentUserId);
+  const viewersByItem = groupViewersByItem(otherViewers);
+  const [blockDialogOpen, setBlockDialogOpen] = useState(false);
+  const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+
+  // ブロックは理由の入力を求めてから記録する
+  const handleRecordResult = (result: TestRunItemResult) => {
+    if (result === "blocked") {
+      setBlockDialogOpen(true);
+      return;
+    }
+    execution.recordResult(result);
+  };
+  const driftByItem = new Map(drifts.map((drift) => [drift.itemId, drift]));
+
+  // 記録中の結果も含めて完了条件を評価し、判定が変わる場合はステータスの表示に反映する
+  // （差し戻されたテストランは判定が変わるまで実行中のまま）
+  const verdict = evaluateCompletionPolicy(
+    run.completionPolicy,
+    execution.items,
+  );
+  const status =
+    verdict.status ===
+    evaluateCompletionPolicy(run.completionPolicy, items).status
+      ? run.status
+      : deriveTestRunStatus(run.status, verdict);
+
+  // 割り当て・取り込みのダイアログの表示中は背後のテストケースを操作しない
+  // （結果の記録のショートカットはテストを実行できる場合のみ）
+  useTestRunShortcuts(
+    assignmentDialogOpen || importDialogOpen
+      ? {}
+      : {
+          j: execution.selectNext,
+          ArrowDown: execution.selectNext,
+          k: execution.selectPrevious,
+          ArrowUp: execution.selectPrevious,
+          ...(canExecute &&
+            Object.fromEntries(
+              RESULT_ACTIONS.map((action) => [
+                action.shortcut,
+                () => handleRecordResult(action.result),
+              ]),
+            )),
+        },
+  );
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6 space-y-6">
+        {/* ヘッダー */}
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              ダッシュボード
+            </Link>
+          </Button>
+          <div className="flex items-center gap-3">
+            <h1 className="text-4xl font-bold bg-linear-to-r from-primary to-blue-600 bg-clip-text text-transparent">
+              {run.title}
+            </h1>
+            <TestRunStatusBadge status={status} />
+            <div className="ml-auto flex items-center gap-2">
+              {canExecute && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setImportDialogOpen(true)}
+                >
+                  <FileUp className="h-4 w-4" />
+                  自動テストの結果を取り込む
+                </Button>
+              )}
+              {canManage && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setAssignmentDialogOpen(true)}
+                >
+                  <Users className="h-4 w-4" />
+                  担当者を割り当て
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <span>{run.projectName}</span>
+            <Badge variant="outline">{run.environment.name}</Badge>
+            {run.release && (
+              <Badge variant="secondary">{run.release.tag}</Badge>
+            )}
+            <LiveUpdateIndicator connected={connected} />
+            <div className="ml-auto">
+              <TestRunPresence others={otherViewers} items={items} />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            <Kbd>J</Kbd> / <Kbd>K</Kbd> でテストケースを移動
+            {canExecute && (
+              <>
+                、<Kbd>1</Kbd>〜<Kbd>4</Kbd> で結果を記録して次へ進みます
+              </>
+            )}
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <TestRunProgressCard items={execution.items} />
+          <CompletionVerdictCard
+            verdict={verdict}
+            policy={run.completionPolicy}
+            scope={run.completionPolicyScope}
+            editable={run.status !== "completed"}
+            onSelectItem={execution.select}
+          />
+        </div>
+
+        <TestRunApprovalCard
+          approvals={approvals}
+          awaitingApproval={run.status === "awaiting_approval"}
+          canApprove={can("test-run:approve")}
+          pending={execution.approvalPending}
+          onDecide={execution.decideApproval}
+        />
+
+        {run.release && (
+          <ReleaseIssuesCard projectId={run.projectId} release={run.release} />
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <TestRunItemList
+            groups={execution.groups}
+            drifts={drifts}
+            viewersByItem={viewersByItem}
+            selectedId={selectedItem?.id}
+            onSelect={execution.select}
+          />
+          {selectedItem && (
+            <TestRunItemPanel
+              item={selectedItem}
+              drift={driftByItem.get(selectedItem.id)}
+              otherExecutors={viewersByItem.get(selectedItem.id) ?? []}
+              notes={
+                execution.draftNotes(selectedItem.id) ??
+                selectedItem.notes ??
+                ""
+              }
+              onNotesChange={(notes) =>
+                execution.setDraftNotes(selectedItem.id, notes)
+              }
+              onRecordResult={handleRecordResult}
+              onRequestRetest={execution.requestRetest}
+              onResolveBlock={execution.resolveBlock}
+              onSaveNotes={execution.saveNotes}
+            />
+          )}
+          <BlockReasonDialog
+            open={blockDialogOpen}
+            onOpenChange={setBlockDialogOpen}
+            onSubmit={(reason) => execution.recordResult("blocked", reason)}
+          />
+        </div>
+
+        {canManage && (
+          <ItemAssignmentDialog
+            run={run}
+            items={items}
+            open={assignmentDialogOpen}
+            onOpenChange={setAssignmentDialogOpen}
+          />
+        )}
+
+        {canExecute && (
+          <AutomatedTestImportDialog
+            items={items}
+            open={importDialogOpen}
+            onOpenChange={setImportDialogOpen}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * エラー表示（テストランが見つからない場合など）
+ */
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const message = isRouteErrorResponse(error)
+    ? String(error.data)
+    : error instanceof Error
+      ? error.message
+      : "テストランの取得に失敗しました";
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+      <div className="container mx-auto p-6">
+        <Alert variant="destructive" className="max-w-2xl mx-auto mt-20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>エラーが発生しました</AlertTitle>
+          <AlertDescription className="mt-2 space-y-2">
+            <p>{message}</p>
+            <Button asChild variant="outline" size="sm" className="mt-4">
+              <Link to="/">ダッシュボードへ戻る</Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "avatar" TEXT;
+ALTER TABLE "User" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'active';
+
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "permissions" JSONB NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Environment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    CONSTRAINT "Environment_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Release" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "environmentId" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "prRefs" JSONB NOT NULL,
+    "linearRefs" JSONB NOT NULL,
+    "plannedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Release_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Release_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "Environment" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TestRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "environmentId" TEXT NOT NULL,
+    "releaseId" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'planned',
+    "completionPolicy" JSONB,
+    "totalItems" INTEGER NOT NULL DEFAULT 0,
+    "completedItems" INTEGER NOT NULL DEFAULT 0,
+    "passedItems" INTEGER NOT NULL DEFAULT 0,
+    "failedItems" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" DATETIME,
+    "startedAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TestRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TestRun_environmentId_fkey" FOREIGN KEY ("environmentId") REFERENCES "Environment" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TestRun_releaseId_fkey" FOREIGN KEY ("releaseId") REFERENCES "Release" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TestRun_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TestRunItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "testRunId" TEXT NOT NULL,
+    "scenarioId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "folder" TEXT,
+    "importance" TEXT NOT NULL DEFAULT 'medium',
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "assigneeId" INTEGER,
+    "executedAt" DATETIME,
+    "durationSeconds" INTEGER,
+    "notes" TEXT,
+    "evidence" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "TestRunItem_testRunId_fkey" FOREIGN KEY ("testRunId") REFERENCES "TestRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TestRunItem_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ScenarioVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scenarioId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "message" TEXT,
+    "createdById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ScenarioVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_RoleToUser" (
+    "A" TEXT NOT NULL,
+    "B" INTEGER NOT NULL,
+    CONSTRAINT "_RoleToUser_A_fkey" FOREIGN KEY ("A") REFERENCES "Role" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_RoleToUser_B_fkey" FOREIGN KEY ("B") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_TestRunAssignees" (
+    "A" TEXT NOT NULL,
+    "B" INTEGER NOT NULL,
+    CONSTRAINT "_TestRunAssignees_A_fkey" FOREIGN KEY ("A") REFERENCES "TestRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_TestRunAssignees_B_fkey" FOREIGN KEY ("B") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_key_key" ON "Project"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Environment_projectId_type_key" ON "Environment"("projectId", "type");
+
+-- CreateIndex
+CREATE INDEX "Release_projectId_environmentId_idx" ON "Release"("projectId", "environmentId");
+
+-- CreateIndex
+CREATE INDEX "TestRun_status_idx" ON "TestRun"("status");
+
+-- CreateIndex
+CREATE INDEX "TestRun_releaseId_idx" ON "TestRun"("releaseId");
+
+-- CreateIndex
+CREATE INDEX "TestRun_projectId_environmentId_idx" ON "TestRun"("projectId", "environmentId");
+
+-- CreateIndex
+CREATE INDEX "TestRunItem_testRunId_idx" ON "TestRunItem"("testRunId");
+
+-- CreateIndex
+CREATE INDEX "TestRunItem_scenarioId_idx" ON "TestRunItem"("scenarioId");
+
+-- CreateIndex
+CREATE INDEX "TestRunItem_status_idx" ON "TestRunItem"("status");
+
+-- CreateIndex
+CREATE INDEX "ScenarioVersion_scenarioId_idx" ON "ScenarioVersion"("scenarioId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScenarioVersion_scenarioId_version_key" ON "ScenarioVersion"("scenarioId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_RoleToUser_AB_unique" ON "_RoleToUser"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_RoleToUser_B_index" ON "_RoleToUser"("B");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_TestRunAssignees_AB_unique" ON "_TestRunAssignees"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_TestRunAssignees_B_index" ON "_TestRunAssignees"("B");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestRunItem" ADD COLUMN "scenarioVersion" TEXT;
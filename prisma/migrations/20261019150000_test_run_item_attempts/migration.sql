@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "TestRunItemAttempt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "itemId" TEXT NOT NULL,
+    "attemptNumber" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "executedById" INTEGER,
+    "executedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "durationSeconds" INTEGER,
+    "notes" TEXT,
+    "evidence" JSONB,
+    "blockedReason" TEXT,
+    "resolution" TEXT,
+    "resolvedById" INTEGER,
+    "resolvedAt" DATETIME,
+    CONSTRAINT "TestRunItemAttempt_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "TestRunItem" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TestRunItemAttempt_executedById_fkey" FOREIGN KEY ("executedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "TestRunItemAttempt_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestRunItemAttempt_itemId_attemptNumber_key" ON "TestRunItemAttempt"("itemId", "attemptNumber");
+
+-- 既存の実行済みアイテムの結果を最初の実行履歴として移す
+INSERT INTO "TestRunItemAttempt" ("id", "itemId", "attemptNumber", "status", "executedById", "executedAt", "durationSeconds", "notes", "evidence")
+SELECT lower(hex(randomblob(12))), "id", 1, "status", "assigneeId", COALESCE("executedAt", "updatedAt"), "durationSeconds", "notes", "evidence"
+FROM "TestRunItem"
+WHERE "status" IN ('passed', 'failed', 'blocked', 'skipped');
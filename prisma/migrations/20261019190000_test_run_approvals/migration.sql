@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "TestRunApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "testRunId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "comment" TEXT NOT NULL,
+    "approverId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TestRunApproval_testRunId_fkey" FOREIGN KEY ("testRunId") REFERENCES "TestRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TestRunApproval_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TestRunApproval_testRunId_idx" ON "TestRunApproval"("testRunId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "folderOwners" JSONB;
+
+-- AlterTable
+ALTER TABLE "TestRunItem" ADD COLUMN "estimatedMinutes" INTEGER;
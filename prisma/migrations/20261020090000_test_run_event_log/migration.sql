@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "TestRunEventLog" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "testRunId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,370 @@
+import "dotenv/config";
+import { createPrismaClient } from "repository/libs/db";
+import type {
+  EnvironmentType,
+  Importance,
+  TestRunItemStatus,
+  TestRunStatus,
+} from "../generated/prisma/client";
+import { Prisma } from "../generated/prisma/client";
+import {
+  evaluateCompletionPolicy,
+  resolveCompletionPolicy,
+} from "@domain/logic/completion-policy";
+import {
+  deriveTestRunStatus,
+  summarizeTestRunProgress,
+} from "@domain/logic/test-run-progress";
+
+const prisma = createPrismaClient();
+
+/**
+ * ロールと権限（docs/authentication.md の Permission Matrix）
+ */
+const ROLES = [
+  {
+    name: "admin",
+    permissions: [
+      "scenario:create",
+      "scenario:edit",
+      "scenario:archive",
+      "test-run:create",
+      "test-run:execute",
+      "test-run:approve",
+      "test-run:view",
+      "user:manage",
+      "project:configure",
+    ],
+  },
+  {
+    name: "executor",
+    permissions: [
+      "scenario:create",
+      "scenario:edit",
+      "test-run:create",
+      "test-run:execute",
+      "test-run:view",
+    ],
+  },
+  { name: "viewer", permissions: ["test-run:view"] },
+  { name: "approver", permissions: ["test-run:view", "test-run:approve"] },
+];
+
+const USERS = [
+  { email: "tanaka@example.com", name: "田中 太郎", roles: ["admin"] },
+  { email: "sato@example.com", name: "佐藤 花子", roles: ["executor"] },
+  { email: "suzuki@example.com", name: "鈴木 一郎", roles: ["executor"] },
+  {
+    email: "takahashi@example.com",
+    name: "高橋 美咲",
+    roles: ["executor", "approver"],
+  },
+  { email: "ito@example.com", name: "伊藤 健太", roles: ["viewer"] },
+];
+
+const PROJECTS = [
+  { key: "medimo-web", name: "medimo Web" },
+  { key: "medimo-api", name: "medimo API" },
+  { key: "medimo-admin", name: "medimo 管理画面" },
+  { key: "medimo-mobile", name: "medimo モバイル" },
+];
+
+/**
+ * プロジェクトの完了条件（docs/data-model.md の例）
+ */
+const PROJECT_COMPLETION_POLICY = { high: 100, medium: 95, low: 90 };
+
+/**
+ * medimo-web のリリース検出の設定（fixtures/github/medimo/medimo-web.json の PR と対応する）
+ */
+const RELEASE_DETECTION = {
+  repository: "medimo/medimo-web",
+  releaseLabel: "{tag}",
+  pathRules: [
+    { pattern: "src/auth/", folders: ["auth", "login"], tags: [] },
+    { pattern: "src/payment/", folders: ["payment"], tags: [] },
+    { pattern: "src/components/**", folders: ["ui"], tags: [] },
+    { pattern: "src/api/", folders: ["api"], tags: ["api"] },
+  ],
+};
+
+const ENVIRONMENTS: { type: EnvironmentType; name: string }[] = [
+  { type: "production", name: "本番環境" },
+  { type: "staging", name: "ステージング環境" },
+];
+
+const SCENARIOS: {
+  scenarioId: string;
+  title: string;
+  folder: string;
+  importance: Importance;
+  required: boolean;
+  estimatedMinutes: number;
+}[] = [
+  {
+    scenarioId: "auth-login-001",
+    title: "ユーザーログインフロー",
+    folder: "auth",
+    importance: "high",
+    required: true,
+    estimatedMinutes: 10,
+  },
+  {
+    scenarioId: "auth-logout-002",
+    title: "ログアウト",
+    folder: "auth",
+    importance: "medium",
+    required: true,
+    estimatedMinutes: 3,
+  },
+  {
+    scenarioId: "auth-password-reset-003",
+    title: "パスワードリセット",
+    folder: "auth",
+    importance: "medium",
+    required: false,
+    estimatedMinutes: 15,
+  },
+  {
+    scenarioId: "payment-checkout-001",
+    title: "決済（クレジットカード）",
+    folder: "payment",
+    importance: "critical",
+    required: true,
+    estimatedMinutes: 20,
+  },
+  {
+    scenarioId: "payment-refund-002",
+    title: "返金処理",
+    folder: "payment",
+    importance: "high",
+    required: true,
+    estimatedMinutes: 15,
+  },
+  {
+    scenarioId: "ui-dashboard-001",
+    title: "ダッシュボード表示",
+    folder: "ui",
+    importance: "low",
+    required: false,
+    estimatedMinutes: 5,
+  },
+  {
+    scenarioId: "ui-settings-002",
+    title: "設定画面の保存",
+    folder: "ui",
+    importance: "low",
+    required: false,
+    estimatedMinutes: 5,
+  },
+  {
+    scenarioId: "api-patients-001",
+    title: "患者一覧 API",
+    folder: "api",
+    importance: "high",
+    required: true,
+    estimatedMinutes: 10,
+  },
+];
+
+const RUN_COUNT = 20;
+
+/**
+ * 基準日から N 日前の日時
+ */
+function daysAgo(days: number, hours = 10): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  date.setHours(hours, 0, 0, 0);
+  return date;
+}
+
+/**
+ * ラン番号から決定的に実行の段階を決める（再シードで結果が変わらないように）
+ * テストランのステータスはアイテムの結果から完了条件で判定する
+ */
+function runPhaseOf(index: number): TestRunStatus {
+  if (index < 3) return "in_progress";
+  if (index === 3) return "planned";
+  return index % 6 === 5 ? "failed" : "completed";
+}
+
+function itemStatusOf(
+  runStatus: TestRunStatus,
+  runIndex: number,
+  itemIndex: number,
+): TestRunItemStatus {
+  if (runStatus === "planned") return "pending";
+  if (runStatus === "in_progress" && itemIndex >= 3 + runIndex * 2) {
+    return itemIndex === 3 + runIndex * 2 ? "in_progress" : "pending";
+  }
+  if (runStatus === "failed" && itemIndex % 3 === 0) return "failed";
+  if (runStatus === "in_progress" && (runIndex + itemIndex) % 5 === 0) {
+    return "failed";
+  }
+  if (itemIndex === SCENARIOS.length - 1 && runIndex % 4 === 0) {
+    return "skipped";
+  }
+  return "passed";
+}
+
+async function seedRolesAndUsers() {
+  for (const role of ROLES) {
+    await prisma.role.upsert({
+      where: { name: role.name },
+      update: { permissions: role.permissions },
+      create: role,
+    });
+  }
+
+  const users = [];
+  for (const user of USERS) {
+    const roles = { set: [], connect: user.roles.map((name) => ({ name })) };
+    users.push(
+      await prisma.user.upsert({
+        where: { email: user.email },
+        update: { name: user.name, roles },
+        create: {
+          email: user.email,
+          name: user.name,
+          roles: { connect: roles.connect },
+        },
+      }),
+    );
+  }
+  return users;
+}
+
+const releaseDetectionOf = (key: string) =>
+  key === "medimo-web" ? RELEASE_DETECTION : Prisma.DbNull;
+
+async function seedProjects() {
+  const projects = [];
+  for (const project of PROJECTS) {
+    projects.push(
+      await prisma.project.upsert({
+        where: { key: project.key },
+        update: {
+          name: project.name,
+          completionPolicy: PROJECT_COMPLETION_POLICY,
+          releaseDetection: releaseDetectionOf(project.key),
+        },
+        create: {
+          ...project,
+          completionPolicy: PROJECT_COMPLETION_POLICY,
+          releaseDetection: releaseDetectionOf(project.key),
+          environments: { create: ENVIRONMENTS },
+        },
+        include: { environments: true },
+      }),
+    );
+  }
+  return projects;
+}
+
+async function main() {
+  // テストラン関連は毎回作り直す（カスケードで TestRunItem も削除される）
+  await prisma.testRun.deleteMany();
+  await prisma.release.deleteMany();
+
+  const users = await seedRolesAndUsers();
+  const projects = await seedProjects();
+
+  for (let index = 0; index < RUN_COUNT; index++) {
+    const project = projects[index % projects.length];
+    const environment = project.environments[index % 2];
+    const phase = runPhaseOf(index);
+    const startedAt = daysAgo(index + 1);
+    const assignees = [users[1 + (index % 3)], users[(index + 2) % 4]];
+
+    const release = await prisma.release.create({
+      data: {
+        projectId: project.id,
+        environmentId: environment.id,
+        tag: `release: v2.${RUN_COUNT - index}.0`,
+        prRefs: [1000 + index * 3, 1001 + index * 3],
+        linearRefs: [`MED-${200 + index}`],
+        plannedAt: startedAt,
+      },
+    });
+
+    const items = SCENARIOS.map((scenario, itemIndex) => {
+      const itemStatus = itemStatusOf(phase, index, itemIndex);
+      const executed = ["passed", "failed", "skipped"].includes(itemStatus);
+      const assigneeId = assignees[itemIndex % assignees.length].id;
+      const executedAt = executed ? daysAgo(index + 1, 11 + itemIndex) : null;
+      const durationSeconds = executed ? 120 + itemIndex * 45 : null;
+      return {
+        ...scenario,
+        status: itemStatus,
+        assigneeId,
+        executedAt,
+        durationSeconds,
+        // 実行済みのアイテムには最初の実行履歴を残す
+        attempts: executedAt
+          ? {
+              create: [
+                {
+                  attemptNumber: 1,
+                  status: itemStatus,
+                  executedById: assigneeId,
+                  executedAt,
+                  durationSeconds,
+                },
+              ],
+            }
+          : undefined,
+      };
+    });
+
+    const progress = summarizeTestRunProgress(items.map((i) => i.status));
+    const verdict = evaluateCompletionPolicy(
+      resolveCompletionPolicy(PROJECT_COMPLETION_POLICY),
+      items.map((item) => ({ ...item, id: item.scenarioId })),
+    );
+    const derived = deriveTestRunStatus("planned", verdict);
+    // 直近のテストラン以外は承認済みにし、承認ログを残す
+    const approved = derived === "awaiting_approval" && index > 4;
+    const status = approved ? "completed" : derived;
+    const finished = status === "completed" || status === "failed";
+
+    await prisma.testRun.create({
+      data: {
+        projectId: project.id,
+        environmentId: environment.id,
+        releaseId: release.id,
+        title: `${project.key} テストラン #${RUN_COUNT - index}`,
+        status,
+        totalItems: items.length,
+        ...progress,
+        dueAt: daysAgo(index - 3),
+        startedAt: status === "planned" ? null : startedAt,
+        completedAt: finished ? daysAgo(index) : null,
+        createdById: users[0].id,
+        assignees: { connect: assignees.map((user) => ({ id: user.id })) },
+        items: { create: items },
+        approvals: approved
+          ? {
+              create: [
+                {
+                  decision: "approved",
+                  comment: "完了条件を満たしていることを確認しました",
+                  approverId: users[3].id,
+                  createdAt: daysAgo(index),
+                },
+              ],
+            }
+          : undefined,
+      },
+    });
+  }
+
+  console.log(`Seeded ${RUN_COUNT} test runs`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,240 @@
+/**
+ * ローカルで OIDC のログインを確認するための認可サーバー（開発用）
+ *
+ *   npm run mock-oidc
+ *
+ * アプリは OIDC_ISSUER=http://localhost:4400 と OIDC_CLIENT_ID=medi-test で起動する
+ * 認可画面で入力したメールアドレスと名前で ID トークンを発行する（パスワードは確認しない）
+ */
+import {
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+} from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+const PORT = Number(process.env.MOCK_OIDC_PORT ?? 4400);
+const ISSUER = `http://localhost:${PORT}`;
+const KEY_ID = "mock-1";
+// 認可コードの有効期間（ミリ秒）
+const CODE_TTL = 60_000;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  email: string;
+  name: string;
+  expiresAt: number;
+}
+
+// 発行した認可コード（1 回だけ使える）
+const codes = new Map<string, AuthorizationCode>();
+
+const base64url = (value: Buffer | string) =>
+  Buffer.from(value).toString("base64url");
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        c
+      ] ?? c,
+  );
+
+const signIdToken = (claims: Record<string, unknown>) => {
+  const header = base64url(
+    JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID }),
+  );
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    privateKey,
+  );
+  return `${header}.${payload}.${base64url(signature)}`;
+};
+
+const readForm = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const redirectTo = (res: ServerResponse, location: string) => {
+  res.writeHead(302, { Location: location });
+  res.end();
+};
+
+const discovery = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+  end_session_endpoint: `${ISSUER}/logout`,
+  response_types_supported: ["code"],
+  subject_types_supported: ["public"],
+  id_token_signing_alg_values_supported: ["RS256"],
+  code_challenge_methods_supported: ["S256"],
+  scopes_supported: ["openid", "email", "profile"],
+};
+
+/**
+ * 認可画面（ログインするユーザーのメールアドレスと名前を入力する）
+ */
+const renderAuthorize = (params: URLSearchParams) => {
+  const hidden = [...params]
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`,
+    )
+    .join("");
+  return `<!doctype html>
+<html lang="ja">
+<head><meta charset="utf-8"><title>Mock OIDC Provider</title></head>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h1>Mock OIDC Provider</h1>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>メールアドレス<br><input name="email" type="email" value="tanaka@example.com" required></label></p>
+    <p><label>名前<br><input name="name" value=""></label></p>
+    <button type="submit">ログイン</button>
+  </form>
+</body>
+</html>`;
+};
+
+const handleAuthorize = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+) => {
+  if (req.method === "GET") {
+    const params = url.searchParams;
+    if (
+      params.get("response_type") !== "code" ||
+      params.get("code_challenge_method") !== "S256" ||
+      !params.get("code_challenge") ||
+      !params.get("redirect_uri")
+    ) {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    return res.end(renderAuthorize(params));
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get("redirect_uri") ?? "";
+  const email = (form.get("email") ?? "").trim().toLowerCase();
+  const code = base64url(randomBytes(24));
+  codes.set(code, {
+    clientId: form.get("client_id") ?? "",
+    redirectUri,
+    codeChallenge: form.get("code_challenge") ?? "",
+    nonce: form.get("nonce") ?? undefined,
+    email,
+    name: (form.get("name") ?? "").trim() || email.split("@")[0],
+    expiresAt: Date.now() + CODE_TTL,
+  });
+
+  const callback = new URL(redirectUri);
+  callback.searchParams.set("code", code);
+  const state = form.get("state");
+  if (state) callback.searchParams.set("state", state);
+  redirectTo(res, callback.toString());
+};
+
+const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+  const form = await readForm(req);
+  const code = form.get("code") ?? "";
+  const issued = codes.get(code);
+  codes.delete(code);
+
+  const verifier = form.get("code_verifier") ?? "";
+  const challenge = base64url(createHash("sha256").update(verifier).digest());
+  if (
+    form.get("grant_type") !== "authorization_code" ||
+    !issued ||
+    issued.expiresAt < Date.now() ||
+    issued.clientId !== form.get("client_id") ||
+    issued.redirectUri !== form.get("redirect_uri") ||
+    issued.codeChallenge !== challenge
+  ) {
+    return sendJson(res, 400, { error: "invalid_grant" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: ISSUER,
+    sub: `mock|${issued.email}`,
+    aud: issued.clientId,
+    iat: now,
+    exp: now + 300,
+    nonce: issued.nonce,
+    email: issued.email,
+    email_verified: true,
+    name: issued.name,
+  });
+  sendJson(res, 200, {
+    access_token: base64url(randomBytes(24)),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+  const handle = async () => {
+    switch (url.pathname) {
+      case "/.well-known/openid-configuration":
+        return sendJson(res, 200, discovery);
+      case "/jwks":
+        return sendJson(res, 200, {
+          keys: [
+            {
+              ...publicKey.export({ format: "jwk" }),
+              kid: KEY_ID,
+              use: "sig",
+              alg: "RS256",
+            },
+          ],
+        });
+      case "/authorize":
+        return handleAuthorize(req, res, url);
+      case "/token":
+        return handleToken(req, res);
+      case "/logout":
+        return redirectTo(
+          res,
+          url.searchParams.get("post_logout_redirect_uri") ?? "/",
+        );
+      default:
+        return sendJson(res, 404, { error: "not_found" });
+    }
+  };
+  handle().catch((error: unknown) => {
+    console.error(error);
+    sendJson(res, 500, { error: "server_error" });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider: ${ISSUER}`);
+});
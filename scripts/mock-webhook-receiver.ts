@@ -0,0 +1,80 @@
+/**
+ * ローカルで Webhook の配信を確認するための受信サーバー（開発用）
+ *
+ *   MOCK_WEBHOOK_SECRET=whsec_... npm run mock-webhook
+ *
+ * プロジェクト設定の Webhook に http://localhost:4500/hooks を登録し、発行したシークレットを
+ * MOCK_WEBHOOK_SECRET に設定すると、受け取った本文の署名を確かめて結果を表示する
+ * - MOCK_WEBHOOK_PORT: 待ち受けるポート（既定は 4500）
+ * - MOCK_WEBHOOK_FAIL: 最初の N 件に 500 を返す（再試行を確かめる）
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+const PORT = Number(process.env.MOCK_WEBHOOK_PORT ?? 4500);
+const SECRET = process.env.MOCK_WEBHOOK_SECRET;
+let remainingFailures = Number(process.env.MOCK_WEBHOOK_FAIL ?? 0);
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * 署名を確かめる（シークレットが未設定の場合は確かめない）
+ */
+const verifySignature = (body: Buffer, signature: string | undefined) => {
+  if (!SECRET) return "未確認（MOCK_WEBHOOK_SECRET が未設定）";
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", SECRET).update(body).digest("hex")}`,
+  );
+  const actual = Buffer.from(signature ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+    ? "OK"
+    : "NG";
+};
+
+const server = createServer((req, res) => {
+  const handle = async () => {
+    if (req.method !== "POST") {
+      return sendJson(res, 405, { error: "method_not_allowed" });
+    }
+    const body = await readBody(req);
+    const header = (name: string) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const verified = verifySignature(body, header("x-meditest-signature-256"));
+
+    console.log(
+      `[${new Date().toISOString()}] ${header("x-meditest-event")} ` +
+        `delivery=${header("x-meditest-delivery")} signature=${verified}`,
+    );
+    console.log(JSON.stringify(JSON.parse(body.toString()), null, 2));
+
+    if (verified === "NG") {
+      return sendJson(res, 401, { error: "invalid_signature" });
+    }
+    if (remainingFailures > 0) {
+      remainingFailures -= 1;
+      console.log(`500 を返します（残り ${remainingFailures} 件）`);
+      return sendJson(res, 500, { error: "simulated_failure" });
+    }
+    sendJson(res, 200, { ok: true });
+  };
+  handle().catch((error: unknown) => {
+    console.error(error);
+    sendJson(res, 400, { error: "bad_request" });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock webhook receiver: http://localhost:${PORT}/hooks`);
+});
@@ -0,0 +1,9 @@
+import { Data } from "effect";
+
+/**
+ * データベースアクセスの失敗（技術的エラー）
+ */
+export class DatabaseError extends Data.TaggedError("DatabaseError")<{
+  message: string;
+  cause?: unknown;
+}> {}
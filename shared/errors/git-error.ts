@@ -0,0 +1,10 @@
+import { Data } from "effect";
+
+/**
+ * git コマンドの失敗（技術的エラー）
+ */
+export class GitError extends Data.TaggedError("GitError")<{
+  message: string;
+  args: ReadonlyArray<string>;
+  stderr: string;
+}> {}
@@ -0,0 +1,10 @@
+import { Data } from "effect";
+
+/**
+ * GitHub API の呼び出しの失敗（技術的エラー）
+ */
+export class GitHubError extends Data.TaggedError("GitHubError")<{
+  message: string;
+  status?: number; // HTTP ステータス（接続できなかった場合は未設定）
+  cause?: unknown;
+}> {}
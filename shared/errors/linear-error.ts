@@ -0,0 +1,10 @@
+import { Data } from "effect";
+
+/**
+ * Linear API の呼び出しの失敗（技術的エラー）
+ */
+export class LinearError extends Data.TaggedError("LinearError")<{
+  message: string;
+  status?: number; // HTTP ステータス（接続できなかった場合は未設定）
+  cause?: unknown;
+}> {}
@@ -0,0 +1,10 @@
+import { Data } from "effect";
+
+/**
+ * 通知の送信の失敗（技術的エラー）
+ */
+export class NotificationError extends Data.TaggedError("NotificationError")<{
+  message: string;
+  status?: number; // HTTP ステータス（接続できなかった場合は未設定）
+  cause?: unknown;
+}> {}
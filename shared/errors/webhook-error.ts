@@ -0,0 +1,9 @@
+import { Data } from "effect";
+
+/**
+ * Webhook の送り先に接続できない・応答がない（技術的エラー。2xx 以外の応答は含めない）
+ */
+export class WebhookError extends Data.TaggedError("WebhookError")<{
+  message: string;
+  cause?: unknown;
+}> {}